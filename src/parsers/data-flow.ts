@@ -0,0 +1,596 @@
+import Parser from "tree-sitter";
+import { SupportedLanguage } from "../utils/language-detector.js";
+import { analyzeScopes, Binding, Scope } from "./scope-resolver.js";
+
+// ============================================
+// Types
+// ============================================
+
+export interface FlowVariable {
+  name: string;
+  // Declared type, when it is written out or obvious from a literal initializer (TS, Go, Java)
+  type: string | null;
+  // Every declaration is inside the selection, so the call site has to declare it
+  declaredInside: boolean;
+  // JS/TS: declared with `const`
+  constant: boolean;
+}
+
+export interface ExtractionFlow {
+  // Whole statements covered by the selection
+  statements: Parser.SyntaxNode[];
+  // Innermost function around the selection, null at top level
+  enclosingFunction: Parser.SyntaxNode | null;
+  // Node the extracted function is inserted before
+  insertBefore: Parser.SyntaxNode;
+  // Read in the selection but declared outside of it, and not visible where the function is inserted
+  inputs: FlowVariable[];
+  // Written in the selection and read after it
+  outputs: FlowVariable[];
+  // Declared outside and overwritten before being read, so the new function declares its own
+  locals: FlowVariable[];
+  // The selection ends in a `return`, so the call site returns the call's result
+  returns: boolean;
+  // Declared result type of the enclosing function (Go, Java); null when it returns nothing
+  enclosingReturnType: string | null;
+  isAsync: boolean;
+  // JS/TS selections using `this` inside a method, and all Java selections, become methods
+  asMethod: boolean;
+  usesThis: boolean;
+  // Java: the enclosing method is static
+  isStatic: boolean;
+}
+
+type Access = { read: boolean; write: boolean; position: number };
+
+// Nodes whose contents may run conditionally or repeatedly
+const CONTROL_FLOW_PATTERN = /(^|_)(block|if|elif|else|try|catch|except|finally|switch|case|conditional|ternary|for|while|do|select|with|lambda|function|func|method|arrow)(_|$)/;
+
+interface FlowRules {
+  functionTypes: Set<string>;
+  // Nodes whose children are statements
+  blockTypes: Set<string>;
+  // `continue` targets; `break` also targets `switchTypes`
+  loopTypes: Set<string>;
+  switchTypes: Set<string>;
+  awaitTypes: Set<string>;
+  yieldTypes: Set<string>;
+  // Reference kind of a name node that is not a declaration
+  assignment(node: Parser.SyntaxNode): "plain" | "compound" | null;
+  inferType(declaration: Parser.SyntaxNode): string | null;
+  returnType(fn: Parser.SyntaxNode): string | null;
+}
+
+function isField(node: Parser.SyntaxNode, field: string): boolean {
+  return node.parent?.childForFieldName(field)?.id === node.id;
+}
+
+function stripAnnotation(node: Parser.SyntaxNode | null): string | null {
+  if (!node) return null;
+  return node.text.replace(/^:\s*/, "").trim() || null;
+}
+
+function operatorOf(node: Parser.SyntaxNode): string | null {
+  const operator = node.childForFieldName("operator");
+  if (operator) return operator.text;
+  return node.children.find(child => !child.isNamed && child.text.endsWith("="))?.text ?? null;
+}
+
+// ============================================
+// JavaScript / TypeScript
+// ============================================
+
+const JS_PATTERN_TYPES = new Set([
+  "array_pattern", "object_pattern", "pair_pattern", "rest_pattern",
+  "assignment_pattern", "parenthesized_expression",
+]);
+
+const jsRules: FlowRules = {
+  functionTypes: new Set([
+    "function_declaration", "function_expression", "function", "arrow_function",
+    "method_definition", "generator_function_declaration", "generator_function", "class_body",
+  ]),
+  blockTypes: new Set(["program", "statement_block", "switch_case", "switch_default"]),
+  loopTypes: new Set(["for_statement", "for_in_statement", "while_statement", "do_statement"]),
+  switchTypes: new Set(["switch_statement"]),
+  awaitTypes: new Set(["await_expression"]),
+  yieldTypes: new Set(["yield_expression"]),
+
+  assignment(node) {
+    let current = node;
+    while (current.parent && JS_PATTERN_TYPES.has(current.parent.type)) {
+      current = current.parent;
+    }
+    const parent = current.parent;
+    if (!parent) return null;
+    if ((parent.type === "assignment_expression" || parent.type === "for_in_statement") && isField(current, "left")) return "plain";
+    if (parent.type === "augmented_assignment_expression" && isField(current, "left")) return "compound";
+    if (parent.type === "update_expression") return "compound";
+    return null;
+  },
+
+  inferType(declaration) {
+    const parent = declaration.parent;
+    if (!parent) return null;
+
+    if ((parent.type === "required_parameter" || parent.type === "optional_parameter") && isField(declaration, "pattern")) {
+      const type = stripAnnotation(parent.childForFieldName("type"));
+      if (type && parent.type === "optional_parameter") return `${type} | undefined`;
+      return type;
+    }
+
+    if (parent.type === "variable_declarator" && isField(declaration, "name")) {
+      const annotated = stripAnnotation(parent.childForFieldName("type"));
+      if (annotated) return annotated;
+
+      const value = parent.childForFieldName("value");
+      switch (value?.type) {
+        case "number":
+          return "number";
+        case "string":
+        case "template_string":
+          return "string";
+        case "true":
+        case "false":
+          return "boolean";
+        case "new_expression":
+          return value.childForFieldName("constructor")?.text ?? null;
+      }
+    }
+    return null;
+  },
+
+  returnType(fn) {
+    return stripAnnotation(fn.childForFieldName("return_type"));
+  },
+};
+
+// ============================================
+// Python
+// ============================================
+
+const PY_PATTERN_TYPES = new Set(["pattern_list", "tuple_pattern", "list_pattern", "tuple", "list", "parenthesized_expression", "list_splat_pattern"]);
+
+const pythonRules: FlowRules = {
+  functionTypes: new Set(["function_definition", "lambda", "class_definition"]),
+  blockTypes: new Set(["module", "block"]),
+  loopTypes: new Set(["for_statement", "while_statement"]),
+  switchTypes: new Set(),
+  awaitTypes: new Set(["await"]),
+  yieldTypes: new Set(["yield"]),
+
+  assignment(node) {
+    let current = node;
+    while (current.parent && PY_PATTERN_TYPES.has(current.parent.type)) {
+      current = current.parent;
+    }
+    const parent = current.parent;
+    if (!parent) return null;
+    if ((parent.type === "assignment" || parent.type === "for_statement") && isField(current, "left")) return "plain";
+    if (parent.type === "named_expression" && isField(current, "name")) return "plain";
+    if (parent.type === "augmented_assignment" && isField(current, "left")) return "compound";
+    return null;
+  },
+
+  inferType() {
+    return null;
+  },
+
+  returnType() {
+    return null;
+  },
+};
+
+// ============================================
+// Go
+// ============================================
+
+function goLiteralType(value: Parser.SyntaxNode | undefined): string | null {
+  switch (value?.type) {
+    case "int_literal":
+      return "int";
+    case "float_literal":
+      return "float64";
+    case "rune_literal":
+      return "rune";
+    case "interpreted_string_literal":
+    case "raw_string_literal":
+      return "string";
+    case "true":
+    case "false":
+      return "bool";
+    case "composite_literal":
+      return value.childForFieldName("type")?.text ?? null;
+    case "unary_expression": {
+      const operand = value.childForFieldName("operand");
+      if (operatorOf(value) === "&" && operand?.type === "composite_literal") {
+        const type = operand.childForFieldName("type")?.text;
+        return type ? `*${type}` : null;
+      }
+      return null;
+    }
+  }
+  return null;
+}
+
+const goRules: FlowRules = {
+  functionTypes: new Set(["function_declaration", "method_declaration", "func_literal"]),
+  blockTypes: new Set(["source_file", "statement_list", "block"]),
+  loopTypes: new Set(["for_statement"]),
+  switchTypes: new Set(["expression_switch_statement", "type_switch_statement", "select_statement"]),
+  awaitTypes: new Set(),
+  yieldTypes: new Set(),
+
+  assignment(node) {
+    const list = node.parent?.type === "expression_list" ? node.parent : node;
+    const parent = list.parent;
+    if (!parent) return null;
+    if (parent.type === "assignment_statement" && isField(list, "left")) {
+      return operatorOf(parent) === "=" ? "plain" : "compound";
+    }
+    if (parent.type === "range_clause" && isField(list, "left")) return "plain";
+    if (parent.type === "inc_statement" || parent.type === "dec_statement") return "compound";
+    return null;
+  },
+
+  inferType(declaration) {
+    const parent = declaration.parent;
+    if (!parent) return null;
+
+    if (parent.type === "parameter_declaration" || parent.type === "variadic_parameter_declaration") {
+      const type = parent.childForFieldName("type")?.text ?? null;
+      return type && parent.type === "variadic_parameter_declaration" ? `[]${type}` : type;
+    }
+
+    if (parent.type === "var_spec") {
+      const type = parent.childForFieldName("type")?.text;
+      if (type) return type;
+      const index = parent.childrenForFieldName("name").findIndex(n => n.id === declaration.id);
+      return goLiteralType(parent.childForFieldName("value")?.namedChildren[index]);
+    }
+
+    if (parent.type === "expression_list" && parent.parent?.type === "short_var_declaration") {
+      const index = parent.namedChildren.findIndex(n => n.id === declaration.id);
+      const values = parent.parent.childForFieldName("right")?.namedChildren ?? [];
+      // `a, b := f()` assigns several results of one call; their types are unknown here
+      if (values.length !== parent.namedChildCount) return null;
+      return goLiteralType(values[index]);
+    }
+    return null;
+  },
+
+  returnType(fn) {
+    return fn.childForFieldName("result")?.text ?? null;
+  },
+};
+
+// ============================================
+// Java
+// ============================================
+
+function javaLiteralType(value: Parser.SyntaxNode | null): string | null {
+  switch (value?.type) {
+    case "decimal_integer_literal":
+    case "hex_integer_literal":
+      return value.text.endsWith("L") || value.text.endsWith("l") ? "long" : "int";
+    case "decimal_floating_point_literal":
+      return /[fF]$/.test(value.text) ? "float" : "double";
+    case "string_literal":
+      return "String";
+    case "character_literal":
+      return "char";
+    case "true":
+    case "false":
+      return "boolean";
+    case "object_creation_expression":
+      return value.childForFieldName("type")?.text ?? null;
+  }
+  return null;
+}
+
+const javaRules: FlowRules = {
+  functionTypes: new Set(["method_declaration", "constructor_declaration", "lambda_expression", "class_body"]),
+  blockTypes: new Set(["block", "constructor_body", "switch_block_statement_group"]),
+  loopTypes: new Set(["for_statement", "enhanced_for_statement", "while_statement", "do_statement"]),
+  switchTypes: new Set(["switch_expression", "switch_statement"]),
+  awaitTypes: new Set(),
+  yieldTypes: new Set(),
+
+  assignment(node) {
+    const parent = node.parent;
+    if (!parent) return null;
+    if (parent.type === "assignment_expression" && isField(node, "left")) {
+      return operatorOf(parent) === "=" ? "plain" : "compound";
+    }
+    if (parent.type === "update_expression") return "compound";
+    return null;
+  },
+
+  inferType(declaration) {
+    const owner = declaration.parent;
+    if (owner?.type === "variable_declarator") {
+      const declared = owner.parent?.childForFieldName("type")?.text ?? null;
+      if (declared && declared !== "var") return declared;
+      return javaLiteralType(owner.childForFieldName("value"));
+    }
+    if (owner?.type === "formal_parameter" || owner?.type === "enhanced_for_statement" || owner?.type === "catch_formal_parameter") {
+      const declared = owner.childForFieldName("type")?.text ?? null;
+      return declared === "var" ? null : declared;
+    }
+    return null;
+  },
+
+  returnType(fn) {
+    const type = fn.childForFieldName("type")?.text ?? null;
+    return type === "void" ? null : type;
+  },
+};
+
+function getRules(language: SupportedLanguage): FlowRules | null {
+  switch (language) {
+    case "javascript":
+    case "typescript":
+      return jsRules;
+    case "python":
+      return pythonRules;
+    case "go":
+      return goRules;
+    case "java":
+      return javaRules;
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+function lineOf(node: Parser.SyntaxNode): number {
+  return node.startPosition.row + 1;
+}
+
+/**
+ * Whole statements lying in [start, end), which must all share one parent block.
+ */
+function selectStatements(root: Parser.SyntaxNode, source: string, start: number, end: number, rules: FlowRules): Parser.SyntaxNode[] {
+  const selected: Parser.SyntaxNode[] = [];
+
+  function collect(node: Parser.SyntaxNode) {
+    for (const child of node.namedChildren) {
+      if (child.endIndex <= start || child.startIndex >= end) continue;
+      if (child.startIndex >= start && child.endIndex <= end) selected.push(child);
+      else collect(child);
+    }
+  }
+  collect(root);
+
+  // Selecting every statement of a Python/Go block selects the block node itself
+  while (selected.length === 1 && rules.blockTypes.has(selected[0].type) && selected[0].namedChildCount > 0) {
+    selected.splice(0, 1, ...selected[0].namedChildren);
+  }
+
+  if (selected.length === 0) {
+    throw new Error("Selection does not contain a complete statement");
+  }
+
+  const parent = selected[0].parent!;
+  const sameParent = selected.every(node => node.parent?.id === parent.id);
+  const gaps = [source.slice(start, selected[0].startIndex), source.slice(selected[selected.length - 1].endIndex, end)];
+  for (let i = 1; i < selected.length; i++) {
+    gaps.push(source.slice(selected[i - 1].endIndex, selected[i].startIndex));
+  }
+
+  if (!sameParent || !rules.blockTypes.has(parent.type) || gaps.some(gap => !/^[\s;]*$/.test(gap))) {
+    throw new Error("Selection must cover whole statements of a single block");
+  }
+  return selected;
+}
+
+function enclosingOf(node: Parser.SyntaxNode, types: Set<string>): Parser.SyntaxNode | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (types.has(current.type)) return current;
+  }
+  return null;
+}
+
+function contains(outer: Parser.SyntaxNode, inner: Parser.SyntaxNode): boolean {
+  return inner.startIndex >= outer.startIndex && inner.endIndex <= outer.endIndex;
+}
+
+/**
+ * Data flow of a block of statements that is about to be extracted into its own function.
+ *
+ * Throws when the selection cannot be extracted without changing behaviour: partial statements,
+ * `break`/`continue` out of the selection, `yield`, or a `return` that is not the last statement.
+ */
+export function analyzeExtraction(
+  tree: Parser.Tree,
+  sourceCode: string,
+  language: SupportedLanguage,
+  start: number,
+  end: number
+): ExtractionFlow {
+  const rules = getRules(language);
+  const analysis = analyzeScopes(tree, language);
+  if (!rules || !analysis) {
+    throw new Error(`Extract function not supported for ${language}`);
+  }
+
+  const statements = selectStatements(tree.rootNode, sourceCode, start, end, rules);
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+  const selection = { start: first.startIndex, end: last.endIndex };
+  const inside = (node: Parser.SyntaxNode) => node.startIndex >= selection.start && node.endIndex <= selection.end;
+
+  const enclosingFunction = enclosingOf(first, rules.functionTypes);
+
+  // Control flow leaving the selection
+  let hasReturn = false;
+  let isAsync = false;
+  let usesThis = false;
+
+  function scan(node: Parser.SyntaxNode, inNestedFunction: boolean, inArrow: boolean) {
+    const nested = rules!.functionTypes.has(node.type);
+    if (nested) {
+      // Arrow functions keep the surrounding `this`
+      const arrow = node.type === "arrow_function";
+      for (const child of node.namedChildren) scan(child, true, arrow && (inArrow || !inNestedFunction));
+      return;
+    }
+
+    if ((node.type === "this" || node.type === "super") && (!inNestedFunction || inArrow)) {
+      usesThis = true;
+    }
+
+    if (!inNestedFunction) {
+      if (node.type === "return_statement") hasReturn = true;
+      if (rules!.awaitTypes.has(node.type)) isAsync = true;
+      if (node.type === "for_in_statement" && node.children.some(child => child.type === "await")) isAsync = true;
+      if (rules!.yieldTypes.has(node.type)) {
+        throw new Error(`Cannot extract a selection that yields (line ${lineOf(node)})`);
+      }
+      if (node.type === "break_statement" || node.type === "continue_statement") {
+        const targets = node.type === "break_statement"
+          ? new Set([...rules!.loopTypes, ...rules!.switchTypes, ...rules!.functionTypes])
+          : new Set([...rules!.loopTypes, ...rules!.functionTypes]);
+        const target = enclosingOf(node, targets);
+        if (!target || !inside(target) || rules!.functionTypes.has(target.type)) {
+          throw new Error(`Cannot extract: '${node.text}' at line ${lineOf(node)} jumps out of the selection`);
+        }
+      }
+    }
+
+    for (const child of node.namedChildren) scan(child, inNestedFunction, inArrow);
+  }
+  statements.forEach(statement => scan(statement, false, false));
+
+  if (hasReturn && last.type !== "return_statement") {
+    throw new Error("Cannot extract: the selection returns from the enclosing function on some paths only");
+  }
+
+  // Where the new function goes
+  const isJs = language === "javascript" || language === "typescript";
+  const method = enclosingFunction
+    ? (isJs ? closestNonArrow(enclosingFunction) : language === "java" ? enclosingOf(first, new Set(["method_declaration", "constructor_declaration"])) : null)
+    : null;
+  const asMethod = language === "java" ? method !== null : isJs && usesThis && method?.type === "method_definition";
+
+  let insertBefore: Parser.SyntaxNode;
+  if (asMethod && method) {
+    insertBefore = method;
+  } else {
+    insertBefore = first;
+    while (insertBefore.parent && insertBefore.parent.id !== tree.rootNode.id) insertBefore = insertBefore.parent;
+  }
+  // Keep doc comments attached to the node they describe
+  while (insertBefore.previousNamedSibling?.type.includes("comment")
+    && insertBefore.previousNamedSibling.endPosition.row >= insertBefore.startPosition.row - 1) {
+    insertBefore = insertBefore.previousNamedSibling;
+  }
+
+  const isStatic = language === "java" && !!method?.namedChildren.find(c => c.type === "modifiers")?.text.split(/\s+/).includes("static");
+
+  // Variables are visible to the new function when they live at module level (or in the class, for methods)
+  const isVisible = (scope: Scope) => scope.kind === "module" || (asMethod && scope.kind === "class");
+
+  // Statements run again after the selection when it sits inside a loop
+  const loop = enclosingOf(first, new Set([...rules.loopTypes, ...rules.functionTypes]));
+  const enclosingLoop = loop && !rules.functionTypes.has(loop.type) ? loop : null;
+
+  // Paired with the position of their first use in the selection
+  const inputs: [FlowVariable, number][] = [];
+  const outputs: [FlowVariable, number][] = [];
+  const locals: [FlowVariable, number][] = [];
+
+  for (const binding of analysis.bindings) {
+    if (binding.kind === "member") continue;
+    const referencesInside = binding.references.filter(ref => inside(ref.node));
+    if (referencesInside.length === 0) continue;
+
+    const declarationIds = new Set(binding.declarations.map(d => d.id));
+    const accesses: Access[] = referencesInside.map(ref => {
+      const kind = rules.assignment(ref.node);
+      // Python declares names with `acc += x` as well, which still reads the old value
+      if (declarationIds.has(ref.node.id) && kind !== "compound") return { read: false, write: true, position: ref.node.startIndex };
+      return { read: kind !== "plain", write: kind !== null, position: ref.node.startIndex };
+    });
+
+    // A value overwritten by an unconditional statement before anything reads it does not flow in
+    const overwrite = referencesInside
+      .filter((ref, i) => accesses[i].write && !accesses[i].read && runsUnconditionally(ref.node, statements))
+      .sort((a, b) => a.node.startIndex - b.node.startIndex)[0];
+    const overwrittenAt = overwrite ? statements.find(s => contains(s, overwrite.node))!.endIndex : Infinity;
+    const readBeforeWrite = accesses.some(a => a.read && a.position < overwrittenAt);
+
+    const declaredInside = binding.declarations.length > 0 && binding.declarations.every(inside);
+    const written = accesses.some(a => a.write);
+    const firstUse = Math.min(...referencesInside.map(ref => ref.node.startIndex));
+    // Python assignments make a name local to the new function
+    const visible = isVisible(binding.scope) && !(language === "python" && written);
+    const variable: FlowVariable = {
+      name: binding.name,
+      type: inferBindingType(binding, rules),
+      declaredInside,
+      constant: isJs && binding.declarations.every(d => d.closest("lexical_declaration")?.text.startsWith("const") ?? false),
+    };
+
+    if (!declaredInside && !visible) {
+      if (readBeforeWrite) inputs.push([variable, firstUse]);
+      else if (written) locals.push([variable, firstUse]);
+    }
+
+    const usedAfter = binding.references.some(ref =>
+      ref.node.startIndex >= selection.end
+      || (enclosingLoop !== null && contains(enclosingLoop, ref.node) && !inside(ref.node)
+        && !binding.declarations.some(d => contains(enclosingLoop, d)))
+    );
+    if (written && usedAfter && !hasReturn && (declaredInside || !visible)) {
+      outputs.push([variable, firstUse]);
+    }
+  }
+
+  const inOrder = (variables: [FlowVariable, number][]) => variables.sort((a, b) => a[1] - b[1]).map(([variable]) => variable);
+  return {
+    statements,
+    enclosingFunction,
+    insertBefore,
+    inputs: inOrder(inputs),
+    outputs: inOrder(outputs),
+    locals: inOrder(locals),
+    returns: hasReturn,
+    enclosingReturnType: enclosingFunction ? rules.returnType(method ?? enclosingFunction) : null,
+    isAsync,
+    asMethod,
+    usesThis,
+    isStatic,
+  };
+}
+
+/**
+ * Whether `node` runs every time the selected statement containing it runs.
+ */
+function runsUnconditionally(node: Parser.SyntaxNode, statements: Parser.SyntaxNode[]): boolean {
+  const topLevel = new Set(statements.map(s => s.id));
+  for (let current: Parser.SyntaxNode | null = node; current; current = current.parent) {
+    if (topLevel.has(current.id)) return !CONTROL_FLOW_PATTERN.test(current.type);
+    if (CONTROL_FLOW_PATTERN.test(current.type)) return false;
+  }
+  return false;
+}
+
+function closestNonArrow(fn: Parser.SyntaxNode): Parser.SyntaxNode {
+  let current: Parser.SyntaxNode | null = fn;
+  while (current && current.type === "arrow_function") {
+    current = enclosingOf(current, jsRules.functionTypes);
+  }
+  return current ?? fn;
+}
+
+function inferBindingType(binding: Binding, rules: FlowRules): string | null {
+  for (const declaration of binding.declarations) {
+    const type = rules.inferType(declaration);
+    if (type) return type;
+  }
+  return null;
+}
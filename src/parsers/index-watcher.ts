@@ -0,0 +1,434 @@
+import { FSWatcher, watch } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import Parser from "tree-sitter";
+import { IgnoreRules, isIgnoreFile, loadIgnoreRules } from "../utils/ignore-rules.js";
+import { LanguageOverrides, SupportedLanguage } from "../utils/language-detector.js";
+import { toPosix } from "../utils/module-resolver.js";
+import { ProgressOptions } from "../utils/progress.js";
+import { loadProjectConfig } from "../utils/project-config.js";
+import { createParser } from "./parser-factory.js";
+import {
+  getSymbolIndex,
+  isIgnoredPath,
+  isIndexable,
+  IndexUpdate,
+  peekSymbolIndex,
+  rebuildSymbolIndex,
+  setLiveIndex,
+  updateIndexedFiles,
+} from "./symbol-index.js";
+
+const DEFAULT_DEBOUNCE_MS = 300;
+// Syntax trees kept for incremental re-parsing; the least recently edited are dropped first
+const MAX_RETAINED_TREES = 200;
+// Analysis results kept per watched repository
+const MAX_CACHED_RESULTS = 20;
+
+export interface WatcherStatus {
+  root: string;
+  watching: boolean;
+  since?: string;
+  debounceMs?: number;
+  directories?: number;
+  // Changes seen but not applied to the index yet
+  pendingChanges?: number;
+  lastUpdate?: { at: string; files: string[] };
+  reparsed?: { incremental: number; full: number };
+  cachedResults?: number;
+}
+
+type Compute<T> = (progress: ProgressOptions) => Promise<T>;
+
+interface CachedResult {
+  compute: Compute<unknown>;
+  // null once a change made the result stale
+  promise: Promise<unknown> | null;
+  // Cancels the computation behind `promise`, which then holds partial results
+  signal?: AbortSignal;
+}
+
+/**
+ * Keeps a repository's symbol index current while the server runs, so tools don't rescan it.
+ * File system events are collected for `debounceMs`, then the changed files are re-indexed;
+ * files edited during the session are re-parsed incrementally from their previous tree.
+ */
+class IndexWatcher {
+  private readonly watchers = new Map<string, FSWatcher>();
+  private readonly changed = new Set<string>();
+  private readonly trees = new Map<string, { tree: Parser.Tree; content: string }>();
+  private readonly results = new Map<string, CachedResult>();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private refreshing = false;
+  private ignoreRules: IgnoreRules | null = null;
+  // Extensions .project-scope.json maps to a language
+  private languages: LanguageOverrides = {};
+  private lastUpdate?: { at: string; files: string[] };
+  private readonly reparsed = { incremental: 0, full: 0 };
+  readonly since = new Date().toISOString();
+
+  constructor(readonly root: string, readonly debounceMs: number) {}
+
+  async start(): Promise<void> {
+    this.ignoreRules = await loadIgnoreRules(this.root);
+    this.languages = (await loadProjectConfig(this.root)).languages;
+    if (process.platform === "linux") {
+      // Recursive watching is emulated on Linux and would descend into ignored directories
+      await this.watchTree("");
+    } else {
+      this.watchDirectory("", true);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+    this.trees.clear();
+    this.results.clear();
+  }
+
+  status(): WatcherStatus {
+    return {
+      root: this.root,
+      watching: true,
+      since: this.since,
+      debounceMs: this.debounceMs,
+      directories: this.watchers.size,
+      pendingChanges: this.changed.size,
+      lastUpdate: this.lastUpdate,
+      reparsed: { ...this.reparsed },
+      cachedResults: this.results.size,
+    };
+  }
+
+  // Apply queued changes now instead of waiting for the debounce timer
+  async flush(): Promise<void> {
+    // Let events the OS already delivered reach onChange first; setImmediate runs after the poll phase
+    await new Promise(resolve => setImmediate(resolve));
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.changed.size > 0) {
+      const files = [...this.changed];
+      this.changed.clear();
+      // A failed update is reported to its callers only; later ones still run
+      this.flushing = this.flushing.catch(() => undefined).then(() => this.apply(files));
+    }
+    return this.flushing;
+  }
+
+  async cached<T>(key: string, compute: Compute<T>, progress: ProgressOptions = {}): Promise<T> {
+    // Changes not applied yet would make a cached result stale
+    await this.flush();
+
+    let entry = this.results.get(key);
+    if (entry) {
+      // Most recently used last
+      this.results.delete(key);
+    } else {
+      entry = { compute, promise: null };
+    }
+    this.results.set(key, entry);
+    if (this.results.size > MAX_CACHED_RESULTS) {
+      this.results.delete(this.results.keys().next().value!);
+    }
+
+    if (entry.promise) {
+      const { promise, signal } = entry;
+      const result = await promise;
+      // Shared a computation its own caller cancelled: run a complete one
+      if (signal?.aborted && !progress.signal?.aborted) return this.cached(key, compute, progress);
+      return result as T;
+    }
+
+    const promise = compute(progress);
+    const current = entry;
+    current.promise = promise;
+    current.signal = progress.signal;
+    promise.then(
+      () => {
+        // Partial results are not worth keeping
+        if (progress.signal?.aborted && current.promise === promise) current.promise = null;
+      },
+      () => this.results.delete(key)
+    );
+    return promise;
+  }
+
+  // `rescan` also descends into directories already watched, to find ones no longer ignored
+  private async watchTree(relative: string, rescan = false): Promise<void> {
+    if (!this.watchDirectory(relative, false) && !(rescan && this.watchers.has(relative))) return;
+
+    let children;
+    try {
+      children = await fs.readdir(path.join(this.root, relative), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const child of children) {
+      const childPath = relative ? `${relative}/${child.name}` : child.name;
+      if (child.isDirectory() && !this.isIgnored(childPath, true)) await this.watchTree(childPath, rescan);
+    }
+  }
+
+  private watchDirectory(relative: string, recursive: boolean): boolean {
+    if (this.watchers.has(relative)) return false;
+    try {
+      const watcher = watch(path.join(this.root, relative), { recursive }, (_event, filename) => {
+        if (filename) this.onChange(relative ? `${relative}/${toPosix(filename.toString())}` : toPosix(filename.toString()));
+      });
+      watcher.on("error", () => this.unwatch(relative));
+      // Watching must not keep the server alive once the client disconnects
+      watcher.unref();
+      this.watchers.set(relative, watcher);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private unwatch(relative: string): void {
+    for (const [directory, watcher] of this.watchers) {
+      if (directory === relative || directory.startsWith(`${relative}/`)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+  }
+
+  private isIgnored(file: string, isDirectory = false): boolean {
+    return isIgnoredPath(file) || !!this.ignoreRules?.ignores(file, isDirectory);
+  }
+
+  private onChange(file: string): void {
+    if (this.isIgnored(file)) return;
+    this.changed.add(file);
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => console.error(`Failed to update the symbol index of ${this.root}:`, error));
+    }, this.debounceMs);
+    this.timer.unref();
+  }
+
+  private async apply(changed: string[]): Promise<void> {
+    const files = new Set<string>();
+    // Not getSymbolIndex: it would wait for this very update
+    const indexed = peekSymbolIndex(this.root)?.files ?? [];
+
+    for (const file of changed) {
+      let stat;
+      try {
+        stat = await fs.stat(path.join(this.root, file));
+      } catch {
+        stat = null;
+      }
+
+      if (stat?.isDirectory()) {
+        // A new or moved-in directory: watch it and index what it contains
+        if (process.platform === "linux") await this.watchTree(file);
+        for (const nested of await listFiles(this.root, file, this.ignoreRules, this.languages)) files.add(nested);
+      } else if (!stat) {
+        // Deleted: the path may have been a file or a whole directory
+        this.unwatch(file);
+        this.trees.delete(file);
+        for (const known of indexed) {
+          if (known === file || known.startsWith(`${file}/`)) files.add(known);
+        }
+      } else if (isIndexable(file, this.languages)) {
+        files.add(file);
+      }
+    }
+
+    let update: IndexUpdate | null = null;
+    if (changed.some(isIgnoreFile)) {
+      // New ignore rules or languages can add or drop files anywhere in the tree
+      this.ignoreRules = await loadIgnoreRules(this.root);
+      this.languages = (await loadProjectConfig(this.root)).languages;
+      if (process.platform === "linux") await this.watchTree("", true);
+      update = await rebuildSymbolIndex(this.root);
+    } else if (files.size > 0) {
+      update = await updateIndexedFiles(this.root, [...files], (file, content, language) => this.parse(file, content, language));
+    }
+    if (update) {
+      const touched = [...update.added, ...update.updated, ...update.removed];
+      if (touched.length > 0) this.lastUpdate = { at: new Date().toISOString(), files: touched.sort() };
+    }
+
+    // Any change, including package.json or tsconfig.json, may change an analysis
+    this.invalidateResults();
+    for (const listener of listeners.get(this.root) ?? []) listener(changed);
+  }
+
+  // Re-parse from the previous tree when the file was already parsed this session
+  private parse(file: string, content: string, language: SupportedLanguage): Parser.Tree | null {
+    const parser = createParser(language, file);
+    if (!parser) return null;
+
+    const previous = this.trees.get(file);
+    let tree: Parser.Tree;
+    if (previous) {
+      previous.tree.edit(computeEdit(previous.content, content));
+      tree = parser.parse(content, previous.tree);
+      this.reparsed.incremental++;
+    } else {
+      tree = parser.parse(content);
+      this.reparsed.full++;
+    }
+
+    this.trees.delete(file);
+    this.trees.set(file, { tree, content });
+    if (this.trees.size > MAX_RETAINED_TREES) {
+      this.trees.delete(this.trees.keys().next().value!);
+    }
+    return tree;
+  }
+
+  // Drop stale results and recompute them one at a time in the background
+  private invalidateResults(): void {
+    for (const entry of this.results.values()) entry.promise = null;
+    if (this.refreshing || this.results.size === 0) return;
+
+    this.refreshing = true;
+    const refresh = async () => {
+      for (const [key, entry] of this.results) {
+        if (entry.promise) continue;
+        await this.cached(key, entry.compute).catch(() => undefined);
+      }
+    };
+    refresh().finally(() => {
+      this.refreshing = false;
+    });
+  }
+}
+
+const watchers = new Map<string, IndexWatcher>();
+// Called with the paths that changed once the index caught up with them; kept across watcher restarts
+const listeners = new Map<string, Set<(changed: string[]) => void>>();
+
+/**
+ * Start watching a repository; the index is brought up to date first. Watching again changes the debounce.
+ */
+export async function startWatching(repoPath: string, debounceMs = DEFAULT_DEBOUNCE_MS): Promise<WatcherStatus> {
+  const root = path.resolve(repoPath);
+  try {
+    if (!(await fs.stat(root)).isDirectory()) throw new Error();
+  } catch {
+    throw new Error(`Invalid repository path: ${repoPath}`);
+  }
+  if (!Number.isFinite(debounceMs) || debounceMs < 0) {
+    throw new Error(`Invalid debounce: ${debounceMs}`);
+  }
+
+  stopWatching(root);
+  const watcher = new IndexWatcher(root, debounceMs);
+  watchers.set(root, watcher);
+  // Watch before scanning so changes made during the scan are not lost
+  await watcher.start();
+  await getSymbolIndex(root);
+  setLiveIndex(root, () => watcher.flush());
+  return watcher.status();
+}
+
+export function stopWatching(repoPath: string): WatcherStatus {
+  const root = path.resolve(repoPath);
+  watchers.get(root)?.stop();
+  watchers.delete(root);
+  setLiveIndex(root, null);
+  return { root, watching: false };
+}
+
+export function listWatchedRepositories(): string[] {
+  return [...watchers.keys()];
+}
+
+export function getWatcherStatus(repoPath: string): WatcherStatus {
+  const root = path.resolve(repoPath);
+  return watchers.get(root)?.status() ?? { root, watching: false };
+}
+
+/**
+ * Reuse the result of an analysis while the repository is watched and nothing in it changed;
+ * after a change it is recomputed in the background. Unwatched repositories always compute.
+ * A result whose computation was cancelled is not reused.
+ */
+export function cachedWhileWatching<T>(
+  repoPath: string,
+  key: string,
+  compute: (progress: ProgressOptions) => Promise<T>,
+  progress: ProgressOptions = {}
+): Promise<T> {
+  const watcher = watchers.get(path.resolve(repoPath));
+  return watcher ? watcher.cached(key, compute, progress) : compute(progress);
+}
+
+/**
+ * Be told which files or directories of a watched repository changed, relative to its root.
+ * Returns a function that removes the listener.
+ */
+export function onRepositoryChange(repoPath: string, listener: (changed: string[]) => void): () => void {
+  const root = path.resolve(repoPath);
+  if (!listeners.has(root)) listeners.set(root, new Set());
+  listeners.get(root)!.add(listener);
+  return () => {
+    listeners.get(root)?.delete(listener);
+    if (listeners.get(root)?.size === 0) listeners.delete(root);
+  };
+}
+
+async function listFiles(root: string, directory: string, rules: IgnoreRules | null, languages: LanguageOverrides): Promise<string[]> {
+  const files: string[] = [];
+  let children;
+  try {
+    children = await fs.readdir(path.join(root, directory), { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const child of children) {
+    const childPath = `${directory}/${child.name}`;
+    if (isIgnoredPath(childPath) || rules?.ignores(childPath, child.isDirectory())) continue;
+    if (child.isDirectory()) files.push(...await listFiles(root, childPath, rules, languages));
+    else if (isIndexable(childPath, languages)) files.push(childPath);
+  }
+  return files;
+}
+
+// The single edit that turns `before` into `after`: everything between their common prefix and suffix
+function computeEdit(before: string, after: string): Parser.Edit {
+  let start = 0;
+  const shorter = Math.min(before.length, after.length);
+  while (start < shorter && before.charCodeAt(start) === after.charCodeAt(start)) start++;
+
+  let suffix = 0;
+  while (
+    suffix < shorter - start &&
+    before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  const oldEnd = before.length - suffix;
+  const newEnd = after.length - suffix;
+  return {
+    startIndex: start,
+    oldEndIndex: oldEnd,
+    newEndIndex: newEnd,
+    startPosition: pointAt(before, start),
+    oldEndPosition: pointAt(before, oldEnd),
+    newEndPosition: pointAt(after, newEnd),
+  };
+}
+
+function pointAt(text: string, index: number): Parser.Point {
+  let row = 0;
+  let lineStart = 0;
+  for (let i = text.indexOf("\n"); i !== -1 && i < index; i = text.indexOf("\n", i + 1)) {
+    row++;
+    lineStart = i + 1;
+  }
+  return { row, column: index - lineStart };
+}
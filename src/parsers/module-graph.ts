@@ -0,0 +1,87 @@
+import { SupportedLanguage } from "../utils/language-detector.js";
+import { createResolverContext, resolveJsSpecifier } from "../utils/module-resolver.js";
+import { ModuleImport } from "./module-imports.js";
+import { getSymbolIndex } from "./symbol-index.js";
+
+export type { ModuleEdgeKind } from "./module-imports.js";
+
+const JS_TS_LANGUAGES: SupportedLanguage[] = ["javascript", "typescript"];
+
+export interface ModuleEdge extends ModuleImport {
+  from: string;
+  // Resolved repository file, or null for packages and unresolvable specifiers
+  to: string | null;
+}
+
+/**
+ * Import graph of the JS/TS modules in a repository.
+ */
+export class ModuleGraph {
+  private readonly outgoing = new Map<string, ModuleEdge[]>();
+  private readonly incoming = new Map<string, ModuleEdge[]>();
+
+  constructor(readonly root: string, readonly files: string[], readonly edges: ModuleEdge[]) {
+    for (const file of files) {
+      this.outgoing.set(file, []);
+      this.incoming.set(file, []);
+    }
+    for (const edge of edges) {
+      this.outgoing.get(edge.from)?.push(edge);
+      if (edge.to) this.incoming.get(edge.to)?.push(edge);
+    }
+  }
+
+  // What does this file import?
+  importsOf(file: string): ModuleEdge[] {
+    return this.outgoing.get(file) ?? [];
+  }
+
+  // Who imports this file?
+  importersOf(file: string): ModuleEdge[] {
+    return this.incoming.get(file) ?? [];
+  }
+
+  /**
+   * Files that depend on `exportedNames` of `file`, following re-exports.
+   * Namespace, side-effect and dynamic imports count as depending on every export.
+   */
+  dependentsOf(file: string, exportedNames?: string[]): string[] {
+    const dependents = new Set<string>();
+    const queue: { file: string; names?: string[] }[] = [{ file, names: exportedNames }];
+    const visited = new Set<string>([file]);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of this.importersOf(current.file)) {
+        const matches = !current.names || edge.names.includes("*") || edge.names.some(n => current.names!.includes(n));
+        if (!matches) continue;
+
+        dependents.add(edge.from);
+        if (edge.kind === "export" && !visited.has(edge.from)) {
+          visited.add(edge.from);
+          // `export * from` keeps the names; `export { a as b } from` re-exports exactly those
+          queue.push({ file: edge.from, names: edge.exportedAs?.includes("*") ? current.names : edge.exportedAs });
+        }
+      }
+    }
+
+    dependents.delete(file);
+    return [...dependents].sort();
+  }
+}
+
+export async function buildModuleGraph(rootPath: string): Promise<ModuleGraph> {
+  const index = await getSymbolIndex(rootPath);
+  const files = index.files.filter(file => JS_TS_LANGUAGES.includes(index.get(file)!.language));
+
+  const context = await createResolverContext(rootPath, files);
+  const edges: ModuleEdge[] = [];
+
+  for (const file of files) {
+    for (const imported of index.get(file)!.imports) {
+      edges.push({ from: file, to: resolveJsSpecifier(file, imported.specifier, context), ...imported });
+    }
+  }
+
+  return new ModuleGraph(rootPath, files, edges);
+}
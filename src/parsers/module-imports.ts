@@ -0,0 +1,125 @@
+import Parser from "tree-sitter";
+
+export type ModuleEdgeKind = "import" | "export" | "require" | "dynamic-import";
+
+/**
+ * An import, re-export, require or dynamic import as written in a JS/TS module, before resolution.
+ */
+export interface ModuleImport {
+  specifier: string;
+  kind: ModuleEdgeKind;
+  // `import type` / `export type`
+  typeOnly: boolean;
+  // Imported names: "default", "*" for namespace, side-effect and dynamic imports
+  names: string[];
+  // Names a re-export makes available to importers of the module
+  exportedAs?: string[];
+  line: number;
+}
+
+export function collectModuleImports(tree: Parser.Tree): ModuleImport[] {
+  const imports: ModuleImport[] = [];
+
+  function addImport(node: Parser.SyntaxNode, specifier: string, kind: ModuleEdgeKind, names: string[], exportedAs?: string[]) {
+    imports.push({
+      specifier,
+      kind,
+      typeOnly: node.children.some(child => child.type === "type"),
+      names,
+      exportedAs,
+      line: node.startPosition.row + 1,
+    });
+  }
+
+  function traverse(node: Parser.SyntaxNode) {
+    if (node.type === "import_statement") {
+      const specifier = stringLiteral(node.childForFieldName("source"));
+      if (specifier !== null) addImport(node, specifier, "import", importedNames(node));
+      return;
+    }
+
+    if (node.type === "export_statement") {
+      const specifier = stringLiteral(node.childForFieldName("source"));
+      if (specifier !== null) {
+        const { names, exportedAs } = reexportedNames(node);
+        addImport(node, specifier, "export", names, exportedAs);
+      }
+    }
+
+    if (node.type === "call_expression") {
+      const fn = node.childForFieldName("function");
+      const specifier = stringLiteral(node.childForFieldName("arguments")?.namedChildren[0] ?? null);
+      if (specifier !== null && fn?.type === "import") {
+        addImport(node, specifier, "dynamic-import", ["*"]);
+      } else if (specifier !== null && fn?.type === "identifier" && fn.text === "require") {
+        addImport(node, specifier, "require", requiredNames(node));
+      }
+    }
+
+    for (const child of node.namedChildren) {
+      traverse(child);
+    }
+  }
+
+  traverse(tree.rootNode);
+  return imports;
+}
+
+function stringLiteral(node: Parser.SyntaxNode | null): string | null {
+  if (node?.type !== "string") return null;
+  return node.text.slice(1, -1);
+}
+
+function importedNames(statement: Parser.SyntaxNode): string[] {
+  const clause = statement.namedChildren.find(child => child.type === "import_clause");
+  // Side-effect import: `import "./polyfill"`
+  if (!clause) return ["*"];
+
+  const names: string[] = [];
+  for (const child of clause.namedChildren) {
+    if (child.type === "identifier") names.push("default");
+    else if (child.type === "namespace_import") names.push("*");
+    else if (child.type === "named_imports") {
+      for (const spec of child.namedChildren) {
+        const name = spec.childForFieldName("name");
+        if (spec.type === "import_specifier" && name) names.push(name.text);
+      }
+    }
+  }
+  return names;
+}
+
+function reexportedNames(statement: Parser.SyntaxNode): { names: string[]; exportedAs: string[] } {
+  const clause = statement.namedChildren.find(child => child.type === "export_clause");
+  if (!clause) {
+    // `export * as ns from` only exposes the namespace itself
+    const namespace = statement.namedChildren.find(child => child.type === "namespace_export");
+    return { names: ["*"], exportedAs: namespace?.namedChildren[0] ? [namespace.namedChildren[0].text] : ["*"] };
+  }
+
+  const names: string[] = [];
+  const exportedAs: string[] = [];
+  for (const spec of clause.namedChildren) {
+    const name = spec.childForFieldName("name");
+    if (spec.type !== "export_specifier" || !name) continue;
+    names.push(name.text);
+    exportedAs.push((spec.childForFieldName("alias") ?? name).text);
+  }
+  return { names, exportedAs };
+}
+
+function requiredNames(call: Parser.SyntaxNode): string[] {
+  const declarator = call.parent?.type === "variable_declarator" ? call.parent : null;
+  const pattern = declarator?.childForFieldName("name");
+  if (pattern?.type !== "object_pattern") return ["*"];
+
+  const names: string[] = [];
+  for (const child of pattern.namedChildren) {
+    if (child.type === "shorthand_property_identifier_pattern") names.push(child.text);
+    else if (child.type === "pair_pattern") {
+      const key = child.childForFieldName("key");
+      if (key) names.push(key.text);
+    }
+  }
+  return names;
+}
@@ -8,10 +8,14 @@ import Python from "tree-sitter-python";
 import Java from "tree-sitter-java";
 import Go from "tree-sitter-go";
 import HTML from "tree-sitter-html";
-// @ts-ignore
+// @ts-expect-error the package's type declarations don't resolve under Node16 module resolution
 import CSS from "tree-sitter-css";
 
-export function createParser(language: SupportedLanguage): Parser | null {
+/**
+ * Create a parser for `language`. Pass the file path so `.tsx` files get the TSX grammar,
+ * which the plain TypeScript grammar cannot parse JSX with.
+ */
+export function createParser(language: SupportedLanguage, filePath?: string): Parser | null {
   if (language === "unknown") {
     return null;
   }
@@ -21,25 +25,25 @@ export function createParser(language: SupportedLanguage): Parser | null {
   try {
     switch (language) {
       case "javascript":
-        parser.setLanguage(JavaScript as any);
+        parser.setLanguage(JavaScript as Parser.Language);
         break;
       case "typescript":
-        parser.setLanguage(TypeScript.typescript as any);
+        parser.setLanguage((filePath?.toLowerCase().endsWith(".tsx") ? TypeScript.tsx : TypeScript.typescript) as Parser.Language);
         break;
       case "python":
-        parser.setLanguage(Python as any);
+        parser.setLanguage(Python as Parser.Language);
         break;
       case "java":
-        parser.setLanguage(Java as any);
+        parser.setLanguage(Java as Parser.Language);
         break;
       case "go":
-        parser.setLanguage(Go as any);
+        parser.setLanguage(Go as Parser.Language);
         break;
       case "html":
-        parser.setLanguage(HTML as any);
+        parser.setLanguage(HTML as Parser.Language);
         break;
       case "css":
-        parser.setLanguage(CSS as any);
+        parser.setLanguage(CSS as Parser.Language);
         break;
       default:
         return null;
@@ -0,0 +1,1109 @@
+import Parser from "tree-sitter";
+import { SupportedLanguage } from "../utils/language-detector.js";
+
+// ============================================
+// Types
+// ============================================
+
+export type ScopeKind = "module" | "function" | "block" | "class";
+
+export type BindingKind =
+  | "variable"
+  | "parameter"
+  | "function"
+  | "class"
+  | "type"
+  | "import"
+  | "member";
+
+export interface Scope {
+  kind: ScopeKind;
+  node: Parser.SyntaxNode;
+  parent: Scope | null;
+  bindings: Map<string, Binding>;
+  children: Scope[];
+  // Python `global` / `nonlocal` names that must not be declared locally
+  redirected: Set<string>;
+}
+
+export interface Occurrence {
+  node: Parser.SyntaxNode;
+  // `{ config }` shorthand: renaming must keep the property key
+  shorthand?: boolean;
+  // `{ config } = ns` taking the renamed export from a namespace: renaming must keep the local name
+  keepLocal?: boolean;
+}
+
+export interface ImportOrigin {
+  // Module specifier exactly as written in the source
+  source: string;
+  // "*" for namespace imports, "default" for default imports
+  importedName: string;
+  // Node spelling the imported name, if it is written out
+  specifier: Parser.SyntaxNode | null;
+}
+
+export interface Binding {
+  name: string;
+  kind: BindingKind;
+  scope: Scope;
+  declarations: Parser.SyntaxNode[];
+  references: Occurrence[];
+  importedFrom?: ImportOrigin;
+}
+
+export interface ExportEntry {
+  exportedName: string;
+  localName?: string;
+  // Node spelling the exported name, if it is written out
+  node: Parser.SyntaxNode | null;
+  // Re-exports only
+  source?: string;
+  importedName?: string;
+  importedNode?: Parser.SyntaxNode | null;
+}
+
+export interface MemberAccess {
+  object: Parser.SyntaxNode;
+  property: Parser.SyntaxNode;
+  binding: Binding | null;
+}
+
+export interface ScopeAnalysis {
+  language: SupportedLanguage;
+  root: Scope;
+  bindings: Binding[];
+  exports: ExportEntry[];
+  memberAccesses: MemberAccess[];
+  unresolved: Occurrence[];
+}
+
+// ============================================
+// Language Rules
+// ============================================
+
+type DeclarationTarget = "here" | "inner" | "function" | "module" | "class";
+
+interface Declaration {
+  node: Parser.SyntaxNode;
+  kind: BindingKind;
+  target: DeclarationTarget;
+  importedFrom?: ImportOrigin;
+}
+
+interface LanguageRules {
+  nameTypes: Set<string>;
+  // How class scopes take part in bare-name lookup
+  classScope: "visible" | "direct" | "hidden";
+  scopeKind(node: Parser.SyntaxNode): ScopeKind | null;
+  declarations(node: Parser.SyntaxNode, scope: Scope): Declaration[];
+  // Returns "member" for `this.x` style accesses resolved against the enclosing class
+  classify(node: Parser.SyntaxNode): "reference" | "member" | "ignore";
+  memberAccess(node: Parser.SyntaxNode): { object: Parser.SyntaxNode; property: Parser.SyntaxNode } | null;
+  exports(root: Parser.SyntaxNode, scope: Scope): ExportEntry[];
+}
+
+function isField(node: Parser.SyntaxNode, field: string): boolean {
+  const parent = node.parent;
+  if (!parent) return false;
+  return parent.childrenForFieldName(field).some(child => child.id === node.id);
+}
+
+function stringValue(node: Parser.SyntaxNode | null): string | null {
+  if (!node) return null;
+  if (node.type === "string" || node.type === "interpreted_string_literal" || node.type === "raw_string_literal") {
+    return node.text.slice(1, -1);
+  }
+  return null;
+}
+
+// ============================================
+// JavaScript / TypeScript
+// ============================================
+
+const JS_FUNCTION_NODES = new Set([
+  "function_declaration",
+  "generator_function_declaration",
+  "function_expression",
+  "function",
+  "generator_function",
+  "arrow_function",
+  "method_definition",
+]);
+
+const JS_BLOCK_NODES = new Set([
+  "statement_block",
+  "for_statement",
+  "for_in_statement",
+  "catch_clause",
+  "switch_body",
+]);
+
+function collectJsPattern(node: Parser.SyntaxNode | null, out: Parser.SyntaxNode[]) {
+  if (!node) return;
+  switch (node.type) {
+    case "identifier":
+    case "shorthand_property_identifier_pattern":
+      out.push(node);
+      break;
+    case "object_pattern":
+    case "array_pattern":
+      node.namedChildren.forEach(child => collectJsPattern(child, out));
+      break;
+    case "pair_pattern":
+      collectJsPattern(node.childForFieldName("value"), out);
+      break;
+    case "assignment_pattern":
+    case "object_assignment_pattern":
+      collectJsPattern(node.childForFieldName("left"), out);
+      break;
+    case "rest_pattern":
+      collectJsPattern(node.namedChildren[0] ?? null, out);
+      break;
+    case "required_parameter":
+    case "optional_parameter":
+      collectJsPattern(node.childForFieldName("pattern"), out);
+      break;
+  }
+}
+
+function requireSource(node: Parser.SyntaxNode | null): string | null {
+  if (!node || node.type !== "call_expression") return null;
+  const fn = node.childForFieldName("function");
+  if (fn?.text !== "require") return null;
+  return stringValue(node.childForFieldName("arguments")?.namedChildren[0] ?? null);
+}
+
+const jsRules: LanguageRules = {
+  nameTypes: new Set([
+    "identifier",
+    "type_identifier",
+    "shorthand_property_identifier",
+    "shorthand_property_identifier_pattern",
+    "property_identifier",
+  ]),
+  classScope: "hidden",
+
+  scopeKind(node) {
+    if (node.type === "program") return "module";
+    if (JS_FUNCTION_NODES.has(node.type)) return "function";
+    if (node.type === "class_declaration" || node.type === "class" || node.type === "abstract_class_declaration") return "class";
+    if (JS_BLOCK_NODES.has(node.type)) return "block";
+    return null;
+  },
+
+  declarations(node) {
+    const out: Declaration[] = [];
+    const name = node.childForFieldName("name");
+
+    switch (node.type) {
+      case "variable_declarator": {
+        const declaration = node.parent;
+        const target: DeclarationTarget = declaration?.type === "variable_declaration" ? "function" : "here";
+        const source = requireSource(node.childForFieldName("value"));
+        if (source !== null && name?.type === "identifier") {
+          out.push({ node: name, kind: "import", target, importedFrom: { source, importedName: "*", specifier: null } });
+          break;
+        }
+        if (source !== null && name?.type === "object_pattern") {
+          for (const child of name.namedChildren) {
+            if (child.type === "shorthand_property_identifier_pattern") {
+              out.push({ node: child, kind: "import", target, importedFrom: { source, importedName: child.text, specifier: child } });
+            } else if (child.type === "pair_pattern") {
+              const key = child.childForFieldName("key");
+              const value = child.childForFieldName("value");
+              if (key && value?.type === "identifier") {
+                out.push({ node: value, kind: "import", target, importedFrom: { source, importedName: key.text, specifier: key } });
+              }
+            }
+          }
+          break;
+        }
+        const names: Parser.SyntaxNode[] = [];
+        collectJsPattern(name, names);
+        names.forEach(n => out.push({ node: n, kind: "variable", target }));
+        break;
+      }
+      case "function_declaration":
+      case "generator_function_declaration":
+        if (name) out.push({ node: name, kind: "function", target: "here" });
+        break;
+      case "function_expression":
+      case "function":
+      case "generator_function":
+        if (name) out.push({ node: name, kind: "function", target: "inner" });
+        break;
+      case "class_declaration":
+      case "abstract_class_declaration":
+      case "class":
+        if (name) out.push({ node: name, kind: "class", target: "here" });
+        break;
+      case "interface_declaration":
+      case "type_alias_declaration":
+      case "enum_declaration":
+        if (name) out.push({ node: name, kind: "type", target: "here" });
+        break;
+      case "formal_parameters": {
+        const names: Parser.SyntaxNode[] = [];
+        node.namedChildren.forEach(child => collectJsPattern(child, names));
+        names.forEach(n => out.push({ node: n, kind: "parameter", target: "here" }));
+        break;
+      }
+      case "arrow_function": {
+        const param = node.childForFieldName("parameter");
+        if (param) out.push({ node: param, kind: "parameter", target: "inner" });
+        break;
+      }
+      case "catch_clause": {
+        const names: Parser.SyntaxNode[] = [];
+        collectJsPattern(node.childForFieldName("parameter"), names);
+        names.forEach(n => out.push({ node: n, kind: "variable", target: "inner" }));
+        break;
+      }
+      case "for_in_statement": {
+        const names: Parser.SyntaxNode[] = [];
+        collectJsPattern(node.childForFieldName("left"), names);
+        const isVar = node.children.some(child => child.type === "var");
+        const isDeclaration = isVar || node.children.some(child => child.type === "let" || child.type === "const");
+        if (isDeclaration) {
+          names.forEach(n => out.push({ node: n, kind: "variable", target: isVar ? "function" : "inner" }));
+        }
+        break;
+      }
+      case "method_definition":
+      case "public_field_definition":
+      case "field_definition": {
+        const member = name ?? node.childForFieldName("property");
+        if (member?.type === "property_identifier" && node.parent?.type === "class_body") {
+          out.push({ node: member, kind: "member", target: "class" });
+        }
+        break;
+      }
+      case "import_statement": {
+        const source = stringValue(node.childForFieldName("source"));
+        if (source === null) break;
+        const clause = node.namedChildren.find(child => child.type === "import_clause");
+        if (!clause) break;
+        for (const child of clause.namedChildren) {
+          if (child.type === "identifier") {
+            out.push({ node: child, kind: "import", target: "module", importedFrom: { source, importedName: "default", specifier: null } });
+          } else if (child.type === "namespace_import") {
+            const local = child.namedChildren.find(n => n.type === "identifier");
+            if (local) out.push({ node: local, kind: "import", target: "module", importedFrom: { source, importedName: "*", specifier: null } });
+          } else if (child.type === "named_imports") {
+            for (const spec of child.namedChildren) {
+              if (spec.type !== "import_specifier") continue;
+              const imported = spec.childForFieldName("name");
+              const local = spec.childForFieldName("alias") ?? imported;
+              if (imported && local) {
+                out.push({ node: local, kind: "import", target: "module", importedFrom: { source, importedName: imported.text, specifier: imported } });
+              }
+            }
+          }
+        }
+        break;
+      }
+    }
+    return out;
+  },
+
+  classify(node) {
+    const parent = node.parent;
+    switch (node.type) {
+      case "property_identifier":
+        if (parent?.type === "member_expression" && parent.childForFieldName("object")?.type === "this") {
+          return "member";
+        }
+        return "ignore";
+    }
+    if (parent?.type === "import_specifier" && isField(node, "name") && parent.childForFieldName("alias")) {
+      return "ignore";
+    }
+    if (parent?.type === "export_specifier") {
+      if (isField(node, "alias")) return "ignore";
+      if (parent.parent?.parent?.childForFieldName("source")) return "ignore";
+    }
+    if (parent?.type === "nested_type_identifier" && !isField(node, "module")) return "ignore";
+    return "reference";
+  },
+
+  memberAccess(node) {
+    if (node.type !== "member_expression") return null;
+    const object = node.childForFieldName("object");
+    const property = node.childForFieldName("property");
+    if (object?.type !== "identifier" || property?.type !== "property_identifier") return null;
+    return { object, property };
+  },
+
+  exports(root) {
+    const entries: ExportEntry[] = [];
+
+    for (const statement of root.namedChildren) {
+      if (statement.type === "expression_statement") {
+        collectCommonJsExports(statement, entries);
+        continue;
+      }
+      if (statement.type !== "export_statement") continue;
+
+      const isDefault = statement.children.some(child => child.type === "default");
+      const source = stringValue(statement.childForFieldName("source"));
+      const declaration = statement.childForFieldName("declaration");
+      const value = statement.childForFieldName("value");
+      const clause = statement.namedChildren.find(child => child.type === "export_clause");
+
+      if (declaration) {
+        const names: Parser.SyntaxNode[] = [];
+        if (declaration.type === "lexical_declaration" || declaration.type === "variable_declaration") {
+          declaration.namedChildren
+            .filter(child => child.type === "variable_declarator")
+            .forEach(declarator => collectJsPattern(declarator.childForFieldName("name"), names));
+        } else {
+          const name = declaration.childForFieldName("name");
+          if (name) names.push(name);
+        }
+        for (const name of names) {
+          entries.push({ exportedName: isDefault ? "default" : name.text, localName: name.text, node: isDefault ? null : name });
+        }
+      } else if (isDefault && value) {
+        entries.push({ exportedName: "default", localName: value.type === "identifier" ? value.text : undefined, node: null });
+      } else if (clause) {
+        for (const spec of clause.namedChildren) {
+          if (spec.type !== "export_specifier") continue;
+          const name = spec.childForFieldName("name");
+          const alias = spec.childForFieldName("alias");
+          if (!name) continue;
+          if (source !== null) {
+            entries.push({ exportedName: (alias ?? name).text, node: alias ?? name, source, importedName: name.text, importedNode: name });
+          } else {
+            entries.push({ exportedName: (alias ?? name).text, localName: name.text, node: alias ?? name });
+          }
+        }
+      } else if (source !== null) {
+        const namespace = statement.namedChildren.find(child => child.type === "namespace_export");
+        const alias = namespace?.namedChildren[0] ?? null;
+        entries.push({ exportedName: alias ? alias.text : "*", node: alias, source, importedName: "*" });
+      }
+    }
+
+    return entries;
+  },
+};
+
+function collectCommonJsExports(statement: Parser.SyntaxNode, entries: ExportEntry[]) {
+  const assignment = statement.namedChildren[0];
+  if (assignment?.type !== "assignment_expression") return;
+  const left = assignment.childForFieldName("left");
+  const right = assignment.childForFieldName("right");
+  if (left?.type !== "member_expression" || !right) return;
+
+  const object = left.childForFieldName("object");
+  const property = left.childForFieldName("property");
+
+  // module.exports = { a, b: c }
+  if (object?.text === "module" && property?.text === "exports" && right.type === "object") {
+    for (const entry of right.namedChildren) {
+      if (entry.type === "shorthand_property_identifier") {
+        entries.push({ exportedName: entry.text, localName: entry.text, node: entry });
+      } else if (entry.type === "pair") {
+        const key = entry.childForFieldName("key");
+        const value = entry.childForFieldName("value");
+        if (key) entries.push({ exportedName: key.text, localName: value?.type === "identifier" ? value.text : undefined, node: key });
+      }
+    }
+    return;
+  }
+
+  // exports.a = a / module.exports.a = a
+  if (property && (object?.text === "exports" || object?.text === "module.exports")) {
+    entries.push({ exportedName: property.text, localName: right.type === "identifier" ? right.text : undefined, node: property });
+  }
+}
+
+// ============================================
+// Python
+// ============================================
+
+const PY_FUNCTION_NODES = new Set([
+  "function_definition",
+  "lambda",
+  "list_comprehension",
+  "set_comprehension",
+  "dictionary_comprehension",
+  "generator_expression",
+]);
+
+function collectPyTargets(node: Parser.SyntaxNode | null, out: Parser.SyntaxNode[]) {
+  if (!node) return;
+  switch (node.type) {
+    case "identifier":
+      out.push(node);
+      break;
+    case "pattern_list":
+    case "tuple_pattern":
+    case "list_pattern":
+    case "expression_list":
+    case "tuple":
+    case "list":
+    case "parenthesized_expression":
+    case "list_splat_pattern":
+    case "as_pattern_target":
+      node.namedChildren.forEach(child => collectPyTargets(child, out));
+      break;
+  }
+}
+
+function isSelfAttribute(node: Parser.SyntaxNode | null): boolean {
+  if (node?.type !== "attribute") return false;
+  const object = node.childForFieldName("object");
+  return object?.type === "identifier" && (object.text === "self" || object.text === "cls");
+}
+
+const pythonRules: LanguageRules = {
+  nameTypes: new Set(["identifier"]),
+  classScope: "direct",
+
+  scopeKind(node) {
+    if (node.type === "module") return "module";
+    if (PY_FUNCTION_NODES.has(node.type)) return "function";
+    if (node.type === "class_definition") return "class";
+    return null;
+  },
+
+  declarations(node, scope) {
+    const out: Declaration[] = [];
+    const name = node.childForFieldName("name");
+
+    switch (node.type) {
+      case "function_definition":
+        if (name) out.push({ node: name, kind: scope.kind === "class" ? "member" : "function", target: "here" });
+        break;
+      case "class_definition":
+        if (name) out.push({ node: name, kind: "class", target: "here" });
+        break;
+      case "parameters":
+      case "lambda_parameters":
+        for (const param of node.namedChildren) {
+          let paramName: Parser.SyntaxNode | null = null;
+          if (param.type === "identifier") paramName = param;
+          else if (param.type === "default_parameter" || param.type === "typed_default_parameter") paramName = param.childForFieldName("name");
+          else if (param.type === "typed_parameter") paramName = param.namedChildren.find(c => c.type === "identifier") ?? null;
+          else if (param.type === "list_splat_pattern" || param.type === "dictionary_splat_pattern") paramName = param.namedChildren[0] ?? null;
+          if (paramName?.type === "identifier") out.push({ node: paramName, kind: "parameter", target: "here" });
+        }
+        break;
+      case "assignment":
+      case "augmented_assignment": {
+        const left = node.childForFieldName("left");
+        if (isSelfAttribute(left)) {
+          out.push({ node: left!.childForFieldName("attribute")!, kind: "member", target: "class" });
+          break;
+        }
+        const names: Parser.SyntaxNode[] = [];
+        collectPyTargets(left, names);
+        const kind: BindingKind = scope.kind === "class" ? "member" : "variable";
+        names.forEach(n => out.push({ node: n, kind, target: "function" }));
+        break;
+      }
+      case "for_statement":
+      case "for_in_clause": {
+        const names: Parser.SyntaxNode[] = [];
+        collectPyTargets(node.childForFieldName("left"), names);
+        names.forEach(n => out.push({ node: n, kind: "variable", target: "function" }));
+        break;
+      }
+      case "as_pattern": {
+        const names: Parser.SyntaxNode[] = [];
+        collectPyTargets(node.childForFieldName("alias"), names);
+        names.forEach(n => out.push({ node: n, kind: "variable", target: "function" }));
+        break;
+      }
+      case "named_expression":
+        if (name) out.push({ node: name, kind: "variable", target: "function" });
+        break;
+      case "global_statement":
+      case "nonlocal_statement":
+        node.namedChildren.forEach(child => scope.redirected.add(child.text));
+        break;
+      case "import_from_statement": {
+        const moduleName = node.childForFieldName("module_name");
+        if (!moduleName) break;
+        for (const imported of node.childrenForFieldName("name")) {
+          if (imported.type === "aliased_import") {
+            const original = imported.childForFieldName("name");
+            const alias = imported.childForFieldName("alias");
+            if (original && alias) {
+              out.push({
+                node: alias,
+                kind: "import",
+                target: "function",
+                importedFrom: { source: moduleName.text, importedName: original.text, specifier: original.lastNamedChild },
+              });
+            }
+          } else {
+            const local = imported.lastNamedChild ?? imported;
+            out.push({
+              node: local,
+              kind: "import",
+              target: "function",
+              importedFrom: { source: moduleName.text, importedName: local.text, specifier: local },
+            });
+          }
+        }
+        break;
+      }
+      case "import_statement":
+        for (const imported of node.childrenForFieldName("name")) {
+          if (imported.type === "aliased_import") {
+            const original = imported.childForFieldName("name");
+            const alias = imported.childForFieldName("alias");
+            if (original && alias) {
+              out.push({ node: alias, kind: "import", target: "function", importedFrom: { source: original.text, importedName: "*", specifier: null } });
+            }
+          } else if (imported.firstNamedChild) {
+            // `import a.b` binds `a`; attribute chains are matched on their full text
+            out.push({ node: imported.firstNamedChild, kind: "import", target: "function", importedFrom: { source: imported.text, importedName: "*", specifier: null } });
+          }
+        }
+        break;
+    }
+    return out;
+  },
+
+  classify(node) {
+    const parent = node.parent;
+    if (parent?.type === "attribute" && isField(node, "attribute")) {
+      return isSelfAttribute(parent) ? "member" : "ignore";
+    }
+    if (parent?.type === "keyword_argument" && isField(node, "name")) return "ignore";
+    if (node.closest(["import_statement", "import_from_statement"])) return "ignore";
+    return "reference";
+  },
+
+  memberAccess(node) {
+    if (node.type !== "attribute") return null;
+    const object = node.childForFieldName("object");
+    const property = node.childForFieldName("attribute");
+    if (!object || !property) return null;
+    return { object, property };
+  },
+
+  exports(root, scope) {
+    const entries: ExportEntry[] = [];
+
+    // `__all__ = ["a", "b"]` spells exported names as strings
+    for (const statement of root.namedChildren) {
+      const assignment = statement.namedChildren[0];
+      if (assignment?.type !== "assignment" || assignment.childForFieldName("left")?.text !== "__all__") continue;
+      const names = assignment.childForFieldName("right")?.descendantsOfType("string_content") ?? [];
+      for (const name of names) {
+        entries.push({ exportedName: name.text, localName: name.text, node: name });
+      }
+    }
+
+    for (const binding of scope.bindings.values()) {
+      if (binding.kind === "import" || binding.name === "__all__") continue;
+      entries.push({ exportedName: binding.name, localName: binding.name, node: binding.declarations[0] ?? null });
+    }
+    return entries;
+  },
+};
+
+// ============================================
+// Go
+// ============================================
+
+const GO_FUNCTION_NODES = new Set(["function_declaration", "method_declaration", "func_literal"]);
+
+const GO_BLOCK_NODES = new Set([
+  "block",
+  "if_statement",
+  "for_statement",
+  "expression_switch_statement",
+  "type_switch_statement",
+  "select_statement",
+  "expression_case",
+  "type_case",
+  "communication_case",
+  "default_case",
+]);
+
+function goReceiverType(method: Parser.SyntaxNode): string | null {
+  const receiver = method.childForFieldName("receiver");
+  const param = receiver?.namedChildren.find(child => child.type === "parameter_declaration");
+  const type = param?.childForFieldName("type");
+  if (!type) return null;
+  const named = type.type === "type_identifier" ? type : type.descendantsOfType("type_identifier")[0];
+  return named?.text ?? null;
+}
+
+const goRules: LanguageRules = {
+  nameTypes: new Set(["identifier", "type_identifier", "field_identifier", "package_identifier"]),
+  classScope: "hidden",
+
+  scopeKind(node) {
+    if (node.type === "source_file") return "module";
+    if (GO_FUNCTION_NODES.has(node.type)) return "function";
+    if (node.type === "type_spec" && node.childForFieldName("type")?.type === "struct_type") return "class";
+    if (GO_BLOCK_NODES.has(node.type)) return "block";
+    return null;
+  },
+
+  declarations(node) {
+    const out: Declaration[] = [];
+    const name = node.childForFieldName("name");
+
+    switch (node.type) {
+      case "function_declaration":
+        if (name) out.push({ node: name, kind: "function", target: "module" });
+        break;
+      case "method_declaration":
+        // Attached to the receiver's struct scope once the whole file is known
+        if (name) out.push({ node: name, kind: "member", target: "class" });
+        break;
+      case "type_spec":
+        if (name) out.push({ node: name, kind: node.childForFieldName("type")?.type === "struct_type" ? "class" : "type", target: "here" });
+        break;
+      case "field_declaration":
+        for (const field of node.childrenForFieldName("name")) {
+          out.push({ node: field, kind: "member", target: "class" });
+        }
+        break;
+      case "short_var_declaration":
+        node.childForFieldName("left")?.namedChildren
+          .filter(child => child.type === "identifier" && child.text !== "_")
+          .forEach(child => out.push({ node: child, kind: "variable", target: "here" }));
+        break;
+      case "var_spec":
+      case "const_spec":
+        node.childrenForFieldName("name")
+          .filter(child => child.text !== "_")
+          .forEach(child => out.push({ node: child, kind: "variable", target: "here" }));
+        break;
+      case "parameter_declaration":
+      case "variadic_parameter_declaration":
+        node.childrenForFieldName("name")
+          .forEach(child => out.push({ node: child, kind: "parameter", target: "here" }));
+        break;
+      case "range_clause":
+        if (node.children.some(child => child.type === ":=")) {
+          node.childForFieldName("left")?.namedChildren
+            .filter(child => child.type === "identifier" && child.text !== "_")
+            .forEach(child => out.push({ node: child, kind: "variable", target: "here" }));
+        }
+        break;
+      case "import_spec": {
+        const source = stringValue(node.childForFieldName("path"));
+        if (source === null) break;
+        if (name?.type === "package_identifier") {
+          out.push({ node: name, kind: "import", target: "module", importedFrom: { source, importedName: "*", specifier: null } });
+        }
+        break;
+      }
+    }
+    return out;
+  },
+
+  classify(node) {
+    const parent = node.parent;
+    if (node.type === "field_identifier") {
+      if (parent?.type === "selector_expression") return "member";
+      return "ignore";
+    }
+    if (node.type === "package_identifier") {
+      return parent?.type === "qualified_type" ? "reference" : "ignore";
+    }
+    if (parent?.type === "qualified_type" && isField(node, "name")) return "ignore";
+    if (node.closest(["import_declaration", "package_clause"])) return "ignore";
+    return "reference";
+  },
+
+  memberAccess(node) {
+    if (node.type === "selector_expression") {
+      const object = node.childForFieldName("operand");
+      const property = node.childForFieldName("field");
+      if (object?.type === "identifier" && property) return { object, property };
+    }
+    if (node.type === "qualified_type") {
+      const object = node.childForFieldName("package");
+      const property = node.childForFieldName("name");
+      if (object && property) return { object, property };
+    }
+    return null;
+  },
+
+  exports(_root, scope) {
+    const entries: ExportEntry[] = [];
+    for (const binding of scope.bindings.values()) {
+      if (binding.kind === "import" || !/^[A-Z]/.test(binding.name)) continue;
+      entries.push({ exportedName: binding.name, localName: binding.name, node: binding.declarations[0] ?? null });
+    }
+    return entries;
+  },
+};
+
+// ============================================
+// Java
+// ============================================
+
+const JAVA_CLASS_NODES = new Set([
+  "class_declaration",
+  "interface_declaration",
+  "enum_declaration",
+  "record_declaration",
+]);
+
+const JAVA_FUNCTION_NODES = new Set(["method_declaration", "constructor_declaration", "lambda_expression"]);
+
+const JAVA_BLOCK_NODES = new Set([
+  "block",
+  "constructor_body",
+  "for_statement",
+  "enhanced_for_statement",
+  "catch_clause",
+  "try_with_resources_statement",
+  "switch_block",
+]);
+
+const javaRules: LanguageRules = {
+  nameTypes: new Set(["identifier", "type_identifier"]),
+  classScope: "visible",
+
+  scopeKind(node) {
+    if (node.type === "program") return "module";
+    if (JAVA_CLASS_NODES.has(node.type)) return "class";
+    if (JAVA_FUNCTION_NODES.has(node.type)) return "function";
+    if (JAVA_BLOCK_NODES.has(node.type)) return "block";
+    return null;
+  },
+
+  declarations(node) {
+    const out: Declaration[] = [];
+    const name = node.childForFieldName("name");
+
+    switch (node.type) {
+      case "class_declaration":
+      case "interface_declaration":
+      case "enum_declaration":
+      case "record_declaration":
+        if (name) out.push({ node: name, kind: "class", target: "here" });
+        break;
+      case "method_declaration":
+        if (name) out.push({ node: name, kind: "member", target: "here" });
+        break;
+      case "field_declaration":
+        for (const declarator of node.childrenForFieldName("declarator")) {
+          const field = declarator.childForFieldName("name");
+          if (field) out.push({ node: field, kind: "member", target: "here" });
+        }
+        break;
+      case "enum_constant":
+        if (name) out.push({ node: name, kind: "member", target: "here" });
+        break;
+      case "local_variable_declaration":
+        for (const declarator of node.childrenForFieldName("declarator")) {
+          const variable = declarator.childForFieldName("name");
+          if (variable) out.push({ node: variable, kind: "variable", target: "here" });
+        }
+        break;
+      case "formal_parameter":
+      case "catch_formal_parameter":
+        if (name) out.push({ node: name, kind: "parameter", target: "here" });
+        break;
+      case "spread_parameter": {
+        const declarator = node.namedChildren.find(child => child.type === "variable_declarator");
+        const variable = declarator?.childForFieldName("name");
+        if (variable) out.push({ node: variable, kind: "parameter", target: "here" });
+        break;
+      }
+      case "enhanced_for_statement":
+        if (name) out.push({ node: name, kind: "variable", target: "inner" });
+        break;
+      case "resource":
+        if (name) out.push({ node: name, kind: "variable", target: "here" });
+        break;
+      case "inferred_parameters":
+        node.namedChildren
+          .filter(child => child.type === "identifier")
+          .forEach(child => out.push({ node: child, kind: "parameter", target: "here" }));
+        break;
+      case "lambda_expression": {
+        const params = node.childForFieldName("parameters");
+        if (params?.type === "identifier") out.push({ node: params, kind: "parameter", target: "inner" });
+        break;
+      }
+      case "import_declaration": {
+        if (node.children.some(child => child.type === "asterisk")) break;
+        const path = node.namedChildren.find(child => child.type === "scoped_identifier");
+        const imported = path?.childForFieldName("name");
+        const scope = path?.childForFieldName("scope");
+        if (imported && scope) {
+          out.push({ node: imported, kind: "import", target: "module", importedFrom: { source: scope.text, importedName: imported.text, specifier: imported } });
+        }
+        break;
+      }
+    }
+    return out;
+  },
+
+  classify(node) {
+    const parent = node.parent;
+    if (parent?.type === "field_access" && isField(node, "field")) {
+      return parent.childForFieldName("object")?.type === "this" ? "member" : "ignore";
+    }
+    if (parent?.type === "method_invocation" && isField(node, "name")) {
+      const object = parent.childForFieldName("object");
+      if (!object) return "reference";
+      return object.type === "this" ? "member" : "ignore";
+    }
+    if ((parent?.type === "scoped_identifier" || parent?.type === "scoped_type_identifier") && parent.firstNamedChild?.id !== node.id) {
+      return "ignore";
+    }
+    if (node.closest(["package_declaration", "import_declaration"])) return "ignore";
+    return "reference";
+  },
+
+  memberAccess(node) {
+    if (node.type === "field_access") {
+      const object = node.childForFieldName("object");
+      const property = node.childForFieldName("field");
+      if (object && property) return { object, property };
+    }
+    if (node.type === "method_invocation") {
+      const object = node.childForFieldName("object");
+      const property = node.childForFieldName("name");
+      if (object && property) return { object, property };
+    }
+    return null;
+  },
+
+  exports(_root, scope) {
+    const entries: ExportEntry[] = [];
+    for (const binding of scope.bindings.values()) {
+      if (binding.kind !== "class") continue;
+      entries.push({ exportedName: binding.name, localName: binding.name, node: binding.declarations[0] ?? null });
+    }
+    return entries;
+  },
+};
+
+function getRules(language: SupportedLanguage): LanguageRules | null {
+  switch (language) {
+    case "javascript":
+    case "typescript":
+      return jsRules;
+    case "python":
+      return pythonRules;
+    case "go":
+      return goRules;
+    case "java":
+      return javaRules;
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Build lexical scopes and bindings for a parsed file.
+ * Returns null for languages without binding rules (HTML, CSS).
+ */
+export function analyzeScopes(tree: Parser.Tree, language: SupportedLanguage): ScopeAnalysis | null {
+  const rules = getRules(language);
+  if (!rules) return null;
+
+  const rootNode = tree.rootNode;
+  const root = createScope("module", rootNode, null);
+  const scopeByNode = new Map<number, Scope>([[rootNode.id, root]]);
+  const bindings: Binding[] = [];
+  const declared = new Map<number, Binding>();
+  const goMethods: { node: Parser.SyntaxNode; method: Parser.SyntaxNode }[] = [];
+
+  function declare(scope: Scope, decl: Declaration) {
+    const name = decl.node.text;
+    let binding = scope.bindings.get(name);
+    if (!binding) {
+      binding = { name, kind: decl.kind, scope, declarations: [], references: [], importedFrom: decl.importedFrom };
+      scope.bindings.set(name, binding);
+      bindings.push(binding);
+    }
+    binding.declarations.push(decl.node);
+    declared.set(decl.node.id, binding);
+  }
+
+  function resolveTarget(decl: Declaration, here: Scope, inner: Scope): Scope | null {
+    switch (decl.target) {
+      case "here":
+        return here;
+      case "inner":
+        return inner;
+      case "module":
+        return root;
+      case "class":
+        return nearest(here, s => s.kind === "class");
+      case "function": {
+        const target = nearest(here, s => s.kind !== "block") ?? root;
+        // Python `global` / `nonlocal` declarations bind outside the function
+        if (target.redirected.has(decl.node.text)) {
+          return target.parent ? lookupScope(target.parent, decl.node.text) ?? root : root;
+        }
+        return target;
+      }
+    }
+  }
+
+  // Pass 1: scopes and declarations
+  function collect(node: Parser.SyntaxNode, here: Scope) {
+    let inner = here;
+    const kind = rules!.scopeKind(node);
+    if (kind && node.id !== rootNode.id) {
+      inner = createScope(kind, node, here);
+      scopeByNode.set(node.id, inner);
+    }
+
+    for (const decl of rules!.declarations(node, here)) {
+      if (language === "go" && node.type === "method_declaration") {
+        goMethods.push({ node: decl.node, method: node });
+        continue;
+      }
+      const target = resolveTarget(decl, here, inner);
+      if (target) declare(target, decl);
+    }
+
+    for (const child of node.namedChildren) {
+      collect(child, inner);
+    }
+  }
+
+  collect(rootNode, root);
+
+  // Go methods join the struct scope of their receiver type
+  for (const { node, method } of goMethods) {
+    const typeName = goReceiverType(method);
+    const structScope = root.children.find(s => s.kind === "class" && s.node.childForFieldName("name")?.text === typeName);
+    // Receiver types declared in another file get a detached scope of their own
+    const target = structScope ?? createScope("class", method, null);
+    declare(target, { node, kind: "member", target: "class" });
+  }
+
+  // Pass 2: resolve references
+  const memberAccesses: MemberAccess[] = [];
+  const unresolved: Occurrence[] = [];
+  const receiverTypes = new Map<number, string>();
+
+  function resolve(node: Parser.SyntaxNode, scope: Scope) {
+    const current = scopeByNode.get(node.id) ?? scope;
+
+    if (language === "go" && node.type === "method_declaration") {
+      const typeName = goReceiverType(node);
+      const receiver = node.childForFieldName("receiver")?.descendantsOfType("identifier")[0];
+      if (typeName && receiver) receiverTypes.set(receiver.id, typeName);
+    }
+
+    const access = rules!.memberAccess(node);
+    if (access) {
+      const binding = access.object.type === "identifier" || access.object.type === "package_identifier"
+        ? lookup(current, access.object.text, rules!)
+        : null;
+      memberAccesses.push({ ...access, binding });
+    }
+
+    if (rules!.nameTypes.has(node.type)) {
+      const occurrence: Occurrence = { node, shorthand: node.type === "shorthand_property_identifier" || node.type === "shorthand_property_identifier_pattern" };
+      const declaredBinding = declared.get(node.id);
+      if (declaredBinding) {
+        declaredBinding.references.push(occurrence);
+      } else {
+        const role = rules!.classify(node);
+        if (role === "reference") {
+          const binding = lookup(current, node.text, rules!);
+          if (binding) binding.references.push(occurrence);
+          else unresolved.push(occurrence);
+        } else if (role === "member") {
+          const binding = resolveMember(node, current);
+          if (binding) binding.references.push(occurrence);
+        }
+      }
+    }
+
+    for (const child of node.namedChildren) {
+      resolve(child, current);
+    }
+  }
+
+  function resolveMember(node: Parser.SyntaxNode, scope: Scope): Binding | null {
+    if (language === "go") {
+      const operand = node.parent?.childForFieldName("operand");
+      if (operand?.type !== "identifier") return null;
+      const receiver = lookup(scope, operand.text, rules!);
+      const typeName = receiver ? receiverTypes.get(receiver.declarations[0]?.id ?? -1) : undefined;
+      if (!typeName) return null;
+      const structScope = root.children.find(s => s.kind === "class" && s.node.childForFieldName("name")?.text === typeName);
+      return structScope?.bindings.get(node.text) ?? null;
+    }
+    const classScope = nearest(scope, s => s.kind === "class");
+    return classScope?.bindings.get(node.text) ?? null;
+  }
+
+  resolve(rootNode, root);
+
+  return {
+    language,
+    root,
+    bindings,
+    exports: rules.exports(rootNode, root),
+    memberAccesses,
+    unresolved,
+  };
+}
+
+function createScope(kind: ScopeKind, node: Parser.SyntaxNode, parent: Scope | null): Scope {
+  const scope: Scope = { kind, node, parent, bindings: new Map(), children: [], redirected: new Set() };
+  parent?.children.push(scope);
+  return scope;
+}
+
+function nearest(scope: Scope, predicate: (scope: Scope) => boolean): Scope | null {
+  let current: Scope | null = scope;
+  while (current) {
+    if (predicate(current)) return current;
+    current = current.parent;
+  }
+  return null;
+}
+
+function lookupScope(scope: Scope, name: string): Scope | null {
+  let current: Scope | null = scope;
+  while (current) {
+    if (current.bindings.has(name)) return current;
+    current = current.parent;
+  }
+  return null;
+}
+
+function lookup(scope: Scope, name: string, rules: LanguageRules): Binding | null {
+  let current: Scope | null = scope;
+  while (current) {
+    const searchable = current.kind !== "class"
+      || rules.classScope === "visible"
+      || (rules.classScope === "direct" && current === scope);
+    if (searchable) {
+      const binding = current.bindings.get(name);
+      if (binding) return binding;
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+/**
+ * Find the innermost binding that owns the given name node (declaration or reference).
+ */
+export function findBindingForNode(analysis: ScopeAnalysis, node: Parser.SyntaxNode): Binding | null {
+  for (const binding of analysis.bindings) {
+    if (binding.references.some(ref => ref.node.id === node.id)) return binding;
+  }
+  return null;
+}
@@ -0,0 +1,547 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import pkg from "fast-glob";
+const { glob } = pkg;
+import Parser from "tree-sitter";
+import { detectLanguage, LanguageOverrides, SupportedLanguage } from "../utils/language-detector.js";
+import { toPosix } from "../utils/module-resolver.js";
+import { DEFAULT_IGNORE_PATTERNS, IgnoreRules, loadIgnoreRules } from "../utils/ignore-rules.js";
+import { loadProjectConfig } from "../utils/project-config.js";
+import { ensureStateDir, STATE_DIR } from "../utils/state-dir.js";
+import { getWorkerPool } from "../utils/worker-pool.js";
+import { hashContent } from "../utils/workspace-edit.js";
+import { collectModuleImports, ModuleImport } from "./module-imports.js";
+import { createParser } from "./parser-factory.js";
+import { analyzeScopes, BindingKind, ExportEntry, ScopeAnalysis } from "./scope-resolver.js";
+
+// Index location, relative to the repository root
+const INDEX_FILE = path.join(STATE_DIR, "index.json");
+// Bump when the shape of an entry changes; older indexes are rebuilt from scratch
+const INDEX_VERSION = 1;
+// Parsing a single file longer than this gives up on it until it changes
+const INDEX_TIMEOUT_MS = 20_000;
+
+const INDEXED_EXTENSIONS = [
+  "**/*.js", "**/*.jsx", "**/*.mjs", "**/*.cjs",
+  "**/*.ts", "**/*.tsx",
+  "**/*.py", "**/*.pyw",
+  "**/*.java",
+  "**/*.go",
+  "**/*.html", "**/*.htm",
+  "**/*.css",
+];
+
+// Directory names excluded by DEFAULT_IGNORE_PATTERNS (`**/<name>/**`)
+const IGNORED_DIRECTORIES = new Set(DEFAULT_IGNORE_PATTERNS.map(pattern => pattern.slice(3, -3)));
+
+const IDENTIFIER = /[\p{L}_$][\p{L}\p{N}_$]*/gu;
+
+export interface IndexedSymbol {
+  name: string;
+  kind: BindingKind;
+  line: number;
+  // Visible outside the module: JS/TS exports, capitalized Go names, public Java types, public Python names
+  exported: boolean;
+}
+
+export interface IndexedExport {
+  exportedName: string;
+  localName?: string;
+  // Module specifier of `export ... from`
+  source?: string;
+  importedName?: string;
+  line: number;
+}
+
+export interface IndexedFile {
+  file: string;
+  language: SupportedLanguage;
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  // Every distinct identifier-like token in the file, including comments and strings
+  names: string[];
+  // Module-level declarations
+  symbols: IndexedSymbol[];
+  // JS/TS imports, re-exports, requires and dynamic imports
+  imports: ModuleImport[];
+  exports: IndexedExport[];
+  // Set when the file could not be parsed; names are still indexed
+  error?: string;
+}
+
+interface StoredIndex {
+  version: number;
+  updatedAt: string;
+  files: IndexedFile[];
+}
+
+export interface IndexUpdate {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+  durationMs: number;
+}
+
+export interface IndexStatus {
+  indexed: number;
+  onDisk: number;
+  // Indexed files whose size or modification time changed since they were indexed
+  stale: string[];
+  // Files on disk the index does not know yet
+  missing: string[];
+  // Indexed files that no longer exist
+  deleted: string[];
+  coverage: Record<string, { indexed: number; onDisk: number }>;
+  parseErrors: string[];
+  updatedAt: string | null;
+  // Size of the index file in bytes, 0 when it has not been written yet
+  indexSize: number;
+}
+
+/**
+ * Per-file parse results for a repository: identifiers, module-level symbols, imports and exports.
+ * Shared by every tool so unchanged files are only parsed once, across calls and restarts.
+ */
+export class SymbolIndex {
+  private mentions: Map<string, Set<string>> | null = null;
+
+  constructor(readonly root: string, private readonly entries: Map<string, IndexedFile>, readonly updatedAt: string) {}
+
+  get files(): string[] {
+    return [...this.entries.keys()].sort();
+  }
+
+  get(file: string): IndexedFile | undefined {
+    return this.entries.get(toPosix(file));
+  }
+
+  // Files containing `name` as a token anywhere, a cheap superset of the files that reference it
+  filesMentioning(name: string): Set<string> {
+    if (!this.mentions) {
+      this.mentions = new Map();
+      for (const entry of this.entries.values()) {
+        for (const token of entry.names) {
+          if (!this.mentions.has(token)) this.mentions.set(token, new Set());
+          this.mentions.get(token)!.add(entry.file);
+        }
+      }
+    }
+    return this.mentions.get(name) ?? new Set();
+  }
+}
+
+// Parses a file for indexing; lets a file watcher reuse the previous tree
+export type IndexParser = (file: string, content: string, language: SupportedLanguage) => Parser.Tree | null;
+
+export interface IndexFileTask {
+  root: string;
+  file: string;
+  // Decided by the caller, since .project-scope.json can map extra extensions
+  language: SupportedLanguage;
+  mtimeMs: number;
+  size: number;
+  // Hash of the indexed content, if any; the file is only re-parsed when it differs
+  knownHash?: string;
+}
+
+interface UpdateOptions {
+  // Discard the stored index first
+  full?: boolean;
+  // Only look at these files instead of scanning the repository
+  files?: string[];
+  parse?: IndexParser;
+}
+
+type UpdateResult = { index: SymbolIndex; update: IndexUpdate };
+
+const indexes = new Map<string, SymbolIndex>();
+const pending = new Map<string, Promise<UpdateResult>>();
+// Repositories kept current by a file watcher, with the function that applies its queued changes
+const liveIndexes = new Map<string, () => Promise<void>>();
+
+/**
+ * The repository's index, brought up to date with the files on disk.
+ * Files are re-read when their size or modification time changed and re-parsed when their content hash did.
+ * While a watcher keeps the index live, only its queued changes are applied instead of rescanning.
+ */
+export async function getSymbolIndex(repoPath: string): Promise<SymbolIndex> {
+  const root = path.resolve(repoPath);
+  const flush = liveIndexes.get(root);
+  if (flush && indexes.has(root)) {
+    await flush();
+    return indexes.get(root)!;
+  }
+  return (await refreshIndex(root, {}, true)).index;
+}
+
+/**
+ * Update the index and report what changed; `full` discards the stored index and parses every file again.
+ */
+export async function rebuildSymbolIndex(repoPath: string, full = false): Promise<IndexUpdate> {
+  return (await refreshIndex(path.resolve(repoPath), { full }, false)).update;
+}
+
+/**
+ * Re-index only the given files, removing those that no longer exist.
+ */
+export async function updateIndexedFiles(repoPath: string, files: string[], parse?: IndexParser): Promise<IndexUpdate> {
+  return (await refreshIndex(path.resolve(repoPath), { files, parse }, false)).update;
+}
+
+// The index as last updated in this process, without checking the files on disk
+export function peekSymbolIndex(repoPath: string): SymbolIndex | undefined {
+  return indexes.get(path.resolve(repoPath));
+}
+
+export function setLiveIndex(repoPath: string, flush: (() => Promise<void>) | null): void {
+  const root = path.resolve(repoPath);
+  if (flush) liveIndexes.set(root, flush);
+  else liveIndexes.delete(root);
+}
+
+// Whether a path lies in a directory the index skips
+export function isIgnoredPath(file: string): boolean {
+  return toPosix(file).split("/").some(segment => IGNORED_DIRECTORIES.has(segment));
+}
+
+// Whether the index parses a file, counting the extensions the project configuration maps
+export function isIndexable(file: string, languages: LanguageOverrides): boolean {
+  return detectLanguage(file, languages) !== "unknown" && !isIgnoredPath(file);
+}
+
+async function refreshIndex(root: string, options: UpdateOptions, shared: boolean): Promise<UpdateResult> {
+  // Concurrent scans share one update; anything else waits for the running one
+  const running = pending.get(root);
+  if (running && shared) return running;
+
+  const update: Promise<UpdateResult> = (running ? running.catch(() => undefined) : Promise.resolve())
+    .then(() => updateIndex(root, options))
+    .finally(() => {
+      if (pending.get(root) === update) pending.delete(root);
+    });
+  pending.set(root, update);
+  return update;
+}
+
+async function updateIndex(root: string, options: UpdateOptions): Promise<UpdateResult> {
+  const { full = false, files, parse } = options;
+  const startedAt = Date.now();
+  try {
+    await fs.access(root);
+  } catch {
+    throw new Error(`Invalid repository path: ${root}`);
+  }
+
+  const loaded = full ? null : await loadEntries(root);
+  const previous = loaded?.entries ?? new Map<string, IndexedFile>();
+  // A partial update starts from the current entries, a scan from nothing
+  const entries = files ? new Map(previous) : new Map<string, IndexedFile>();
+  const update: IndexUpdate = { added: [], updated: [], removed: [], unchanged: 0, durationMs: 0 };
+  let touched = false;
+
+  // Unchanged size and modification time: keep the entry without reading the file
+  const tasks: IndexFileTask[] = [];
+  const rules = await loadIgnoreRules(root);
+  const { languages } = await loadProjectConfig(root);
+  for (const file of files ? [...new Set(files.map(toPosix))] : await listIndexableFiles(root, rules, languages)) {
+    // Dropped like a deleted file once an ignore file starts to exclude it
+    if (files && (!isIndexable(file, languages) || rules.ignores(file))) {
+      entries.delete(file);
+      continue;
+    }
+
+    const known = previous.get(file);
+    let stat;
+    try {
+      stat = await fs.stat(path.join(root, file));
+    } catch {
+      stat = null;
+    }
+    if (!stat?.isFile()) {
+      entries.delete(file);
+      continue;
+    }
+
+    // Entries that failed are retried; the content hash still spares re-parsing a file that can't be parsed
+    const language = detectLanguage(file, languages);
+    const sameLanguage = known?.language === language;
+    if (known && sameLanguage && !known.error && known.mtimeMs === stat.mtimeMs && known.size === stat.size) {
+      entries.set(file, known);
+      update.unchanged++;
+    } else {
+      tasks.push({ root, file, language, mtimeMs: stat.mtimeMs, size: stat.size, knownHash: sameLanguage ? known?.hash : undefined });
+    }
+  }
+
+  // Reading, hashing and parsing run in worker threads, unless a watcher re-parses from its own trees
+  const outcomes = parse
+    ? indexInline(tasks, parse)
+    : getWorkerPool().map("index-file", tasks, { timeoutMs: INDEX_TIMEOUT_MS });
+
+  for await (const { payload: task, result, error } of outcomes) {
+    const known = previous.get(task.file);
+    if (result === null) {
+      entries.delete(task.file);
+      continue;
+    }
+
+    if (result && !result.entry) {
+      // Touched but not modified
+      entries.set(task.file, { ...known!, mtimeMs: task.mtimeMs, size: task.size });
+      update.unchanged++;
+      if (known!.mtimeMs !== task.mtimeMs || known!.size !== task.size) touched = true;
+      continue;
+    }
+
+    // A file that timed out or crashed its worker is kept as failed rather than failing the whole update
+    entries.set(task.file, result?.entry ?? unparsedEntry(task, error!));
+    (known ? update.updated : update.added).push(task.file);
+  }
+
+  update.added.sort();
+  update.updated.sort();
+  update.removed = [...previous.keys()].filter(file => !entries.has(file)).sort();
+
+  const changed = !loaded?.updatedAt || touched || update.added.length > 0 || update.updated.length > 0 || update.removed.length > 0;
+  const updatedAt = changed ? new Date().toISOString() : loaded!.updatedAt!;
+  const cached = indexes.get(root);
+  const index = !changed && cached ? cached : new SymbolIndex(root, entries, updatedAt);
+  indexes.set(root, index);
+
+  if (changed) {
+    await saveEntries(root, entries, updatedAt);
+  }
+
+  update.durationMs = Date.now() - startedAt;
+  return { index, update };
+}
+
+async function* indexInline(tasks: IndexFileTask[], parse: IndexParser) {
+  for (const task of tasks) {
+    yield { payload: task, result: await indexFileTask(task, parse), error: undefined };
+  }
+}
+
+// A file that could not be indexed; without a hash, it is parsed again on the next update
+function unparsedEntry(task: IndexFileTask, error: Error): IndexedFile {
+  return {
+    file: task.file,
+    language: task.language,
+    mtimeMs: task.mtimeMs,
+    size: task.size,
+    hash: "",
+    names: [],
+    symbols: [],
+    imports: [],
+    exports: [],
+    error: error.message,
+  };
+}
+
+/**
+ * Read, hash and parse one file; runs in a worker thread.
+ * Returns only the hash when the content still matches `knownHash`, and null when the file cannot be read.
+ */
+export async function indexFileTask(task: IndexFileTask, parse: IndexParser = parseFile): Promise<{ hash: string; entry?: IndexedFile } | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(task.root, task.file), "utf-8");
+  } catch {
+    return null;
+  }
+
+  const hash = hashContent(content);
+  if (hash === task.knownHash) return { hash };
+  return { hash, entry: indexFile(task, content, hash, parse) };
+}
+
+/**
+ * Compare the index with the files on disk without updating it.
+ */
+export async function getIndexStatus(repoPath: string): Promise<IndexStatus> {
+  const root = path.resolve(repoPath);
+  const { entries, updatedAt } = await loadEntries(root);
+  const { languages } = await loadProjectConfig(root);
+  const onDisk = await listIndexableFiles(root, await loadIgnoreRules(root), languages);
+  const onDiskSet = new Set(onDisk);
+
+  const status: IndexStatus = {
+    indexed: entries.size,
+    onDisk: onDisk.length,
+    stale: [],
+    missing: [],
+    deleted: [...entries.keys()].filter(file => !onDiskSet.has(file)).sort(),
+    coverage: {},
+    parseErrors: [...entries.values()].filter(entry => entry.error).map(entry => entry.file).sort(),
+    updatedAt,
+    indexSize: 0,
+  };
+
+  for (const file of onDisk) {
+    const language = detectLanguage(file, languages);
+    status.coverage[language] ??= { indexed: 0, onDisk: 0 };
+    status.coverage[language].onDisk++;
+
+    const entry = entries.get(file);
+    if (!entry) {
+      status.missing.push(file);
+      continue;
+    }
+    status.coverage[language].indexed++;
+
+    try {
+      const stat = await fs.stat(path.join(root, file));
+      if (stat.mtimeMs !== entry.mtimeMs || stat.size !== entry.size) status.stale.push(file);
+    } catch {
+      status.deleted.push(file);
+    }
+  }
+
+  try {
+    status.indexSize = (await fs.stat(path.join(root, INDEX_FILE))).size;
+  } catch {
+    status.indexSize = 0;
+  }
+  return status;
+}
+
+async function listIndexableFiles(root: string, rules: IgnoreRules, languages: LanguageOverrides): Promise<string[]> {
+  const extraExtensions = Object.keys(languages).map(extension => `**/*${extension}`);
+  return rules.filter(await glob([...INDEXED_EXTENSIONS, ...extraExtensions], {
+    cwd: root,
+    ignore: DEFAULT_IGNORE_PATTERNS,
+    absolute: false,
+  })).sort();
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+// The index as last updated by this process, else as stored on disk
+async function loadEntries(root: string): Promise<{ entries: Map<string, IndexedFile>; updatedAt: string | null }> {
+  const cached = indexes.get(root);
+  if (cached) {
+    return { entries: new Map(cached.files.map(file => [file, cached.get(file)!])), updatedAt: cached.updatedAt };
+  }
+
+  const stored = await readStoredIndex(root);
+  return {
+    entries: new Map((stored?.files ?? []).map(entry => [entry.file, entry])),
+    updatedAt: stored?.updatedAt ?? null,
+  };
+}
+
+async function readStoredIndex(root: string): Promise<StoredIndex | null> {
+  try {
+    const stored = JSON.parse(await fs.readFile(path.join(root, INDEX_FILE), "utf-8")) as StoredIndex;
+    return stored.version === INDEX_VERSION && Array.isArray(stored.files) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+async function saveEntries(root: string, entries: Map<string, IndexedFile>, updatedAt: string): Promise<void> {
+  const stored: StoredIndex = { version: INDEX_VERSION, updatedAt, files: [...entries.values()] };
+  const target = path.join(root, INDEX_FILE);
+  try {
+    await ensureStateDir(root);
+    // Write and rename so a concurrent reader never sees a partial file
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(stored), "utf-8");
+    await fs.rename(`${target}.tmp`, target);
+  } catch (error) {
+    // The in-memory index still works; it is only rebuilt on the next start
+    console.error(`Failed to write symbol index ${INDEX_FILE}:`, error);
+  }
+}
+
+// ============================================
+// Indexing a File
+// ============================================
+
+function parseFile(file: string, content: string, language: SupportedLanguage): Parser.Tree | null {
+  return createParser(language, file)?.parse(content) ?? null;
+}
+
+function indexFile(task: IndexFileTask, content: string, hash: string, parse: IndexParser): IndexedFile {
+  const { file, language, mtimeMs, size } = task;
+  const entry: IndexedFile = {
+    file,
+    language,
+    mtimeMs,
+    size,
+    hash,
+    names: [...new Set(content.match(IDENTIFIER) ?? [])],
+    symbols: [],
+    imports: [],
+    exports: [],
+  };
+
+  try {
+    const tree = parse(file, content, language);
+    if (!tree) return entry;
+    if (language === "javascript" || language === "typescript") {
+      entry.imports = collectModuleImports(tree);
+    }
+
+    const analysis = analyzeScopes(tree, language);
+    if (analysis) {
+      entry.exports = analysis.exports.map(exp => indexExport(tree, analysis, exp));
+      entry.symbols = indexSymbols(analysis, new Set(entry.exports.map(exp => exp.localName)));
+    }
+  } catch (error) {
+    entry.error = error instanceof Error ? error.message : String(error);
+  }
+  return entry;
+}
+
+// Module-level declarations, and whether each is visible outside the module
+export function indexSymbols(analysis: ScopeAnalysis, exportedLocals: Set<string | undefined>): IndexedSymbol[] {
+  const symbols: IndexedSymbol[] = [];
+  for (const binding of analysis.root.bindings.values()) {
+    const declaration = binding.declarations[0];
+    if (binding.kind === "import" || !declaration) continue;
+
+    let exported: boolean;
+    switch (analysis.language) {
+      case "go":
+        exported = /^[A-Z]/.test(binding.name);
+        break;
+      case "python":
+        exported = exportedLocals.size > 0 ? exportedLocals.has(binding.name) : !binding.name.startsWith("_");
+        break;
+      case "java":
+        exported = declaration.parent?.namedChildren.some(child => child.type === "modifiers" && /\bpublic\b/.test(child.text)) ?? false;
+        break;
+      default:
+        exported = exportedLocals.has(binding.name);
+    }
+
+    symbols.push({ name: binding.name, kind: binding.kind, line: declaration.startPosition.row + 1, exported });
+  }
+  return symbols.sort((a, b) => a.line - b.line);
+}
+
+function indexExport(tree: Parser.Tree, analysis: ScopeAnalysis, entry: ExportEntry): IndexedExport {
+  return {
+    exportedName: entry.exportedName,
+    localName: entry.localName,
+    source: entry.source,
+    importedName: entry.importedName,
+    line: exportLine(tree, analysis, entry),
+  };
+}
+
+function exportLine(tree: Parser.Tree, analysis: ScopeAnalysis, entry: ExportEntry): number {
+  if (entry.node) return entry.node.startPosition.row + 1;
+  const binding = entry.localName !== undefined ? analysis.root.bindings.get(entry.localName) : undefined;
+  if (binding?.declarations[0]) return binding.declarations[0].startPosition.row + 1;
+
+  // `export default <expression>`
+  const statement = tree.rootNode.namedChildren.find(node =>
+    node.type === "export_statement" && node.children.some(child => child.type === "default")
+  );
+  return (statement?.startPosition.row ?? 0) + 1;
+}
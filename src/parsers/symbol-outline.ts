@@ -0,0 +1,518 @@
+import Parser from "tree-sitter";
+import { SupportedLanguage } from "../utils/language-detector.js";
+
+// ============================================
+// Types
+// ============================================
+
+export type OutlineKind =
+  | "function"
+  | "class"
+  | "method"
+  | "interface"
+  | "type"
+  | "enum"
+  | "const"
+  | "variable"
+  | "struct"
+  | "field";
+
+export type Visibility = "public" | "protected" | "private" | "package";
+
+export interface OutlineRange {
+  // 1-based, like the line and column arguments of the other tools
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface OutlineSymbol {
+  name: string;
+  kind: OutlineKind;
+  range: OutlineRange;
+  // The declaration without its body, whitespace collapsed
+  signature: string;
+  docstring?: string;
+  // Reachable from other modules: JS/TS exports, public Java members of public types,
+  // capitalized Go names, Python names without a leading underscore (or listed in __all__)
+  exported: boolean;
+  // TS/Java modifiers; `_`/`__` prefixes in Python, `#` names in JS; lowercase Go names are package-private
+  visibility: Visibility;
+  children?: OutlineSymbol[];
+}
+
+const MAX_SIGNATURE_LENGTH = 200;
+
+const FUNCTION_VALUES = new Set(["arrow_function", "function_expression", "function", "generator_function"]);
+
+// ============================================
+// Outline
+// ============================================
+
+/**
+ * The declarations of a file as a tree: classes, interfaces and structs contain their members.
+ * Returns an empty list for languages without declarations (HTML, CSS).
+ */
+export function outlineSymbols(tree: Parser.Tree, language: SupportedLanguage): OutlineSymbol[] {
+  switch (language) {
+    case "javascript":
+    case "typescript":
+      return outlineJavaScript(tree.rootNode);
+    case "python":
+      return outlinePython(tree.rootNode);
+    case "java":
+      return outlineJava(tree.rootNode, true);
+    case "go":
+      return outlineGo(tree.rootNode);
+    default:
+      return [];
+  }
+}
+
+// ============================================
+// JavaScript / TypeScript
+// ============================================
+
+function outlineJavaScript(program: Parser.SyntaxNode): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  // `export { a, b as c }` exports declarations written elsewhere in the file
+  const exportedNames = new Set<string>();
+
+  for (const statement of program.namedChildren) {
+    if (statement.type === "export_statement") {
+      for (const specifier of statement.descendantsOfType("export_specifier")) {
+        if (!statement.childForFieldName("source")) exportedNames.add(specifier.childForFieldName("name")!.text);
+      }
+      const declaration = statement.childForFieldName("declaration");
+      const value = statement.childForFieldName("value");
+      if (declaration) {
+        symbols.push(...outlineJavaScriptDeclaration(declaration, statement));
+      } else if (value?.type === "identifier") {
+        exportedNames.add(value.text);
+      } else if (value) {
+        // `export default function () {}` / `export default class {}`
+        symbols.push(...outlineJavaScriptDeclaration(value, statement));
+      }
+      continue;
+    }
+    // `declare function f(): void;`, `declare class C {}`
+    const declaration = statement.type === "ambient_declaration" ? statement.namedChildren[0] : statement;
+    if (declaration) symbols.push(...outlineJavaScriptDeclaration(declaration, statement));
+  }
+
+  for (const symbol of symbols) {
+    if (exportedNames.has(symbol.name)) markExported(symbol);
+  }
+  return symbols;
+}
+
+function outlineJavaScriptDeclaration(node: Parser.SyntaxNode, outer: Parser.SyntaxNode): OutlineSymbol[] {
+  const exported = outer.type === "export_statement";
+  const visibility: Visibility = exported ? "public" : "private";
+  const isDefault = exported && outer.children.some(child => child.type === "default");
+  const name = node.childForFieldName("name")?.text ?? (isDefault ? "default" : "");
+
+  switch (node.type) {
+    case "function_declaration":
+    case "generator_function_declaration":
+    case "function_signature":
+    case "function_expression":
+    case "function":
+    case "generator_function":
+      return [symbol(name, "function", node, outer, { exported, visibility })];
+
+    case "class_declaration":
+    case "abstract_class_declaration":
+    case "class": {
+      const members = node.childForFieldName("body")?.namedChildren ?? [];
+      return [symbol(name, "class", node, outer, {
+        exported,
+        visibility,
+        children: members.flatMap(member => outlineJavaScriptMember(member, exported)),
+      })];
+    }
+
+    case "interface_declaration": {
+      const members = node.childForFieldName("body")?.namedChildren ?? [];
+      return [symbol(name, "interface", node, outer, {
+        exported,
+        visibility,
+        children: members.flatMap(member => outlineJavaScriptMember(member, exported)),
+      })];
+    }
+
+    case "type_alias_declaration":
+      return [symbol(name, "type", node, outer, { exported, visibility, signature: collapse(node.text) })];
+
+    case "enum_declaration":
+      return [symbol(name, "enum", node, outer, { exported, visibility })];
+
+    case "lexical_declaration":
+    case "variable_declaration": {
+      const keyword = node.children[0].text;
+      return node.namedChildren
+        .filter(declarator => declarator.type === "variable_declarator")
+        .map(declarator => {
+          const value = declarator.childForFieldName("value");
+          // `const f = (a) => ...` is outlined as a function
+          if (value && FUNCTION_VALUES.has(value.type)) {
+            return symbol(declarator.childForFieldName("name")!.text, "function", declarator, outer, {
+              exported,
+              visibility,
+              signature: `${keyword} ${declarator.childForFieldName("name")!.text} = ${headOf(value)}`,
+            });
+          }
+          const kind: OutlineKind = keyword === "const" ? "const" : "variable";
+          return symbol(declarator.childForFieldName("name")!.text, kind, declarator, outer, {
+            exported,
+            visibility,
+            signature: `${keyword} ${collapse(textBefore(declarator, value))}`,
+          });
+        });
+    }
+
+    default:
+      return [];
+  }
+}
+
+function outlineJavaScriptMember(member: Parser.SyntaxNode, classExported: boolean): OutlineSymbol[] {
+  const nameNode = member.childForFieldName("name") ?? member.childForFieldName("property");
+  if (!nameNode) return [];
+
+  const modifier = member.namedChildren.find(child => child.type === "accessibility_modifier")?.text;
+  const visibility: Visibility = nameNode.type === "private_property_identifier"
+    ? "private"
+    : (modifier as Visibility | undefined) ?? "public";
+  const options = { exported: classExported && visibility === "public", visibility };
+
+  switch (member.type) {
+    case "method_definition":
+    case "method_signature":
+    case "abstract_method_signature":
+      return [symbol(nameNode.text, "method", member, member, options)];
+    case "field_definition":
+    case "public_field_definition":
+    case "property_signature": {
+      const value = member.childForFieldName("value");
+      if (value && FUNCTION_VALUES.has(value.type)) {
+        return [symbol(nameNode.text, "method", member, member, { ...options, signature: `${nameNode.text} = ${headOf(value)}` })];
+      }
+      return [symbol(nameNode.text, "field", member, member, options)];
+    }
+    default:
+      return [];
+  }
+}
+
+// ============================================
+// Python
+// ============================================
+
+function outlinePython(module: Parser.SyntaxNode): OutlineSymbol[] {
+  const allNames = pythonAllNames(module);
+  const symbols = outlinePythonBlock(module, false);
+  for (const symbol of symbols) {
+    symbol.exported = allNames ? allNames.has(symbol.name) : symbol.visibility === "public";
+    if (symbol.exported) {
+      for (const child of symbol.children ?? []) child.exported = child.visibility === "public";
+    }
+  }
+  return symbols;
+}
+
+function outlinePythonBlock(block: Parser.SyntaxNode, inClass: boolean): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  for (const statement of block.namedChildren) {
+    // Decorators belong to the declaration's range
+    const declaration = statement.type === "decorated_definition" ? statement.childForFieldName("definition") : statement;
+    if (!declaration) continue;
+
+    if (declaration.type === "function_definition") {
+      const name = declaration.childForFieldName("name")!.text;
+      symbols.push(symbol(name, inClass ? "method" : "function", declaration, statement, {
+        exported: false,
+        visibility: pythonVisibility(name),
+        docstring: pythonDocstring(declaration),
+      }));
+    } else if (declaration.type === "class_definition") {
+      const name = declaration.childForFieldName("name")!.text;
+      const body = declaration.childForFieldName("body");
+      symbols.push(symbol(name, "class", declaration, statement, {
+        exported: false,
+        visibility: pythonVisibility(name),
+        docstring: pythonDocstring(declaration),
+        children: body ? outlinePythonBlock(body, true) : [],
+      }));
+    } else if (declaration.type === "expression_statement" && declaration.firstNamedChild?.type === "assignment") {
+      const assignment = declaration.firstNamedChild;
+      const target = assignment.childForFieldName("left");
+      if (target?.type !== "identifier" || target.text === "__all__") continue;
+      // UPPER_CASE module names are constants by convention
+      const kind: OutlineKind = inClass ? "field" : /^[A-Z][A-Z0-9_]*$/.test(target.text) ? "const" : "variable";
+      symbols.push(symbol(target.text, kind, assignment, declaration, {
+        exported: false,
+        visibility: pythonVisibility(target.text),
+        signature: collapse(textBefore(assignment, assignment.childForFieldName("right"))),
+      }));
+    }
+  }
+  return symbols;
+}
+
+// `__name` is name-mangled, `_name` internal by convention; dunder names are public
+function pythonVisibility(name: string): Visibility {
+  if (/^__.*__$/.test(name)) return "public";
+  if (name.startsWith("__")) return "private";
+  if (name.startsWith("_")) return "protected";
+  return "public";
+}
+
+function pythonDocstring(declaration: Parser.SyntaxNode): string | undefined {
+  const first = declaration.childForFieldName("body")?.namedChildren[0];
+  const string = first?.type === "expression_statement" && first.namedChildCount === 1 ? first.firstNamedChild : null;
+  if (string?.type !== "string") return undefined;
+  return cleanDocumentation(string.text.replace(/^[rRbBuUfF]*("""|'''|"|')/, "").replace(/("""|'''|"|')$/, ""));
+}
+
+function pythonAllNames(module: Parser.SyntaxNode): Set<string> | null {
+  for (const statement of module.namedChildren) {
+    const assignment = statement.type === "expression_statement" ? statement.firstNamedChild : null;
+    if (assignment?.type !== "assignment" || assignment.childForFieldName("left")?.text !== "__all__") continue;
+    const names = assignment.childForFieldName("right")?.descendantsOfType("string_content") ?? [];
+    return new Set(names.map(name => name.text));
+  }
+  return null;
+}
+
+// ============================================
+// Java
+// ============================================
+
+const JAVA_TYPE_KINDS: Record<string, OutlineKind> = {
+  class_declaration: "class",
+  record_declaration: "class",
+  interface_declaration: "interface",
+  annotation_type_declaration: "interface",
+  enum_declaration: "enum",
+};
+
+function outlineJava(container: Parser.SyntaxNode, containerExported: boolean, inInterface = false): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  for (const member of container.namedChildren) {
+    // Members after the constants of an enum
+    if (member.type === "enum_body_declarations") {
+      symbols.push(...outlineJava(member, containerExported, inInterface));
+      continue;
+    }
+
+    // Interface members are public unless declared otherwise
+    const visibility = javaVisibility(member, inInterface);
+    const exported = containerExported && visibility === "public";
+    const typeKind = JAVA_TYPE_KINDS[member.type];
+
+    if (typeKind) {
+      const body = member.childForFieldName("body");
+      symbols.push(symbol(member.childForFieldName("name")!.text, typeKind, member, member, {
+        exported,
+        visibility,
+        children: body ? outlineJava(body, exported, typeKind === "interface") : [],
+      }));
+    } else if (member.type === "method_declaration" || member.type === "constructor_declaration") {
+      symbols.push(symbol(member.childForFieldName("name")!.text, "method", member, member, { exported, visibility }));
+    } else if (member.type === "field_declaration" || member.type === "constant_declaration") {
+      const modifiers = member.namedChildren.find(child => child.type === "modifiers")?.text ?? "";
+      const constant = member.type === "constant_declaration" || (/\bstatic\b/.test(modifiers) && /\bfinal\b/.test(modifiers));
+      // `int a = 1, b;` declares two fields; each gets the modifiers and type with its own name
+      const head = textBefore(member, member.childForFieldName("declarator"));
+      for (const declarator of member.namedChildren.filter(child => child.type === "variable_declarator")) {
+        const name = declarator.childForFieldName("name")!.text;
+        symbols.push(symbol(name, constant ? "const" : "field", member, member, {
+          exported,
+          visibility,
+          signature: collapse(`${head} ${name}`),
+        }));
+      }
+    }
+  }
+  return symbols;
+}
+
+function javaVisibility(member: Parser.SyntaxNode, inInterface: boolean): Visibility {
+  const modifiers = member.namedChildren.find(child => child.type === "modifiers")?.text ?? "";
+  const declared = /\b(public|protected|private)\b/.exec(modifiers)?.[1] as Visibility | undefined;
+  return declared ?? (inInterface ? "public" : "package");
+}
+
+// ============================================
+// Go
+// ============================================
+
+function outlineGo(sourceFile: Parser.SyntaxNode): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  const types = new Map<string, OutlineSymbol>();
+  const methods: { receiver: string; symbol: OutlineSymbol }[] = [];
+
+  for (const declaration of sourceFile.namedChildren) {
+    switch (declaration.type) {
+      case "function_declaration": {
+        const name = declaration.childForFieldName("name")!.text;
+        symbols.push(symbol(name, "function", declaration, declaration, goAccess(name)));
+        break;
+      }
+      case "method_declaration": {
+        const name = declaration.childForFieldName("name")!.text;
+        const receiver = declaration.childForFieldName("receiver")?.descendantsOfType("type_identifier")[0]?.text ?? "";
+        methods.push({ receiver, symbol: symbol(name, "method", declaration, declaration, goAccess(name)) });
+        break;
+      }
+      case "type_declaration":
+        for (const spec of declaration.namedChildren.filter(child => child.type === "type_spec" || child.type === "type_alias")) {
+          const outer = declaration.namedChildCount === 1 ? declaration : spec;
+          const typeSymbol = outlineGoType(spec, outer);
+          types.set(typeSymbol.name, typeSymbol);
+          symbols.push(typeSymbol);
+        }
+        break;
+      case "const_declaration":
+      case "var_declaration": {
+        const kind: OutlineKind = declaration.type === "const_declaration" ? "const" : "variable";
+        for (const spec of declaration.namedChildren.filter(child => child.type === "const_spec" || child.type === "var_spec")) {
+          const outer = declaration.namedChildCount === 1 ? declaration : spec;
+          for (const nameNode of spec.childrenForFieldName("name")) {
+            symbols.push(symbol(nameNode.text, kind, spec, outer, {
+              ...goAccess(nameNode.text),
+              signature: `${kind === "const" ? "const" : "var"} ${collapse(textBefore(spec, spec.childForFieldName("value")))}`,
+            }));
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  // Methods go under their receiver type when it is declared in the same file
+  for (const { receiver, symbol: method } of methods) {
+    const owner = types.get(receiver);
+    if (owner) (owner.children ??= []).push(method);
+    else symbols.push(method);
+  }
+  return symbols.sort((a, b) => a.range.startLine - b.range.startLine || a.range.startColumn - b.range.startColumn);
+}
+
+function outlineGoType(spec: Parser.SyntaxNode, outer: Parser.SyntaxNode): OutlineSymbol {
+  const name = spec.childForFieldName("name")!.text;
+  const type = spec.childForFieldName("type");
+  const access = goAccess(name);
+
+  if (type?.type === "struct_type") {
+    const fields = type.descendantsOfType("field_declaration").flatMap(field =>
+      field.childrenForFieldName("name").map(fieldName =>
+        symbol(fieldName.text, "field", field, field, {
+          ...goAccess(fieldName.text),
+          signature: collapse(`${fieldName.text} ${field.childForFieldName("type")?.text ?? ""}`),
+        })
+      )
+    );
+    return symbol(name, "struct", spec, outer, { ...access, signature: `type ${name} struct`, children: fields });
+  }
+  if (type?.type === "interface_type") {
+    const methods = type.namedChildren
+      .filter(member => member.type === "method_elem" || member.type === "method_spec")
+      .map(member => symbol(member.childForFieldName("name")!.text, "method", member, member, goAccess(member.childForFieldName("name")!.text)));
+    return symbol(name, "interface", spec, outer, { ...access, signature: `type ${name} interface`, children: methods });
+  }
+  return symbol(name, "type", spec, outer, { ...access, signature: `type ${collapse(spec.text)}` });
+}
+
+// Capitalized names are visible outside the package
+function goAccess(name: string): { exported: boolean; visibility: Visibility } {
+  const exported = /^\p{Lu}/u.test(name);
+  return { exported, visibility: exported ? "public" : "package" };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+interface SymbolOptions {
+  exported: boolean;
+  visibility: Visibility;
+  signature?: string;
+  docstring?: string;
+  children?: OutlineSymbol[];
+}
+
+/**
+ * `node` is the declaration itself; `outer` is what wraps it in the source (an export
+ * statement, decorators, a `const` list) and gives the range and the preceding comments.
+ */
+function symbol(name: string, kind: OutlineKind, node: Parser.SyntaxNode, outer: Parser.SyntaxNode, options: SymbolOptions): OutlineSymbol {
+  const docstring = options.docstring ?? precedingComment(outer);
+  return {
+    name,
+    kind,
+    range: {
+      startLine: outer.startPosition.row + 1,
+      startColumn: outer.startPosition.column + 1,
+      endLine: outer.endPosition.row + 1,
+      endColumn: outer.endPosition.column + 1,
+    },
+    signature: truncate(options.signature ?? headOf(node)),
+    ...(docstring && { docstring }),
+    exported: options.exported,
+    visibility: options.visibility,
+    ...(options.children && options.children.length > 0 && { children: options.children }),
+  };
+}
+
+function markExported(symbol: OutlineSymbol): void {
+  symbol.exported = true;
+  symbol.visibility = "public";
+  for (const child of symbol.children ?? []) {
+    child.exported = child.visibility === "public";
+  }
+}
+
+// The declaration up to its body, without the `:` of Python or the `;` of signatures
+function headOf(node: Parser.SyntaxNode): string {
+  return collapse(textBefore(node, node.childForFieldName("body")).replace(/\s*(=>|[;:])$/, ""));
+}
+
+// A declaration's text up to `part`, e.g. a variable without its `= value`
+function textBefore(node: Parser.SyntaxNode, part: Parser.SyntaxNode | null): string {
+  if (!part) return node.text;
+  return node.text.slice(0, part.startIndex - node.startIndex).replace(/\s*=?\s*$/, "");
+}
+
+// Comments directly above the declaration, with no blank line in between
+function precedingComment(node: Parser.SyntaxNode): string | undefined {
+  const comments: Parser.SyntaxNode[] = [];
+  let line = node.startPosition.row;
+  for (let previous = node.previousNamedSibling; previous; previous = previous.previousNamedSibling) {
+    if (!previous.type.includes("comment") || previous.endPosition.row < line - 1) break;
+    comments.unshift(previous);
+    line = previous.startPosition.row;
+  }
+  if (comments.length === 0) return undefined;
+  return cleanDocumentation(comments.map(comment => comment.text
+    .replace(/^\/\*\*?|\*\/$/g, "")
+    .split("\n")
+    .map(text => text.replace(/^\s*(\/\/+|\*(?!\/))?\s?/, ""))
+    .join("\n")
+  ).join("\n"));
+}
+
+function cleanDocumentation(text: string): string | undefined {
+  const cleaned = text.split("\n").map(line => line.trimEnd()).join("\n").trim();
+  return cleaned === "" ? undefined : cleaned;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_SIGNATURE_LENGTH ? `${text.slice(0, MAX_SIGNATURE_LENGTH - 3)}...` : text;
+}
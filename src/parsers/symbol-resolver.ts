@@ -0,0 +1,935 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import Parser from "tree-sitter";
+import { detectLanguage, LanguageOverrides, SupportedLanguage } from "../utils/language-detector.js";
+import { createResolverContext, resolveImport, resolveJavaImport, resolvePythonModule, ResolverContext, toPosix } from "../utils/module-resolver.js";
+import { loadProjectConfig } from "../utils/project-config.js";
+import { createParser } from "./parser-factory.js";
+import { analyzeScopes, Binding, BindingKind, findBindingForNode, ImportOrigin, Occurrence, Scope, ScopeAnalysis } from "./scope-resolver.js";
+
+export interface ParsedFile {
+  file: string;
+  language: SupportedLanguage;
+  sourceCode: string;
+  tree: Parser.Tree;
+  analysis: ScopeAnalysis;
+}
+
+export interface SymbolOccurrence extends Occurrence {
+  file: string;
+}
+
+export interface ResolvedSymbol {
+  declarationFile: string;
+  binding: Binding;
+  occurrences: SymbolOccurrence[];
+  // Source text of each file with occurrences, as parsed
+  sources: Map<string, string>;
+}
+
+export interface ResolveDefinitionParams {
+  repoPath: string;
+  // Repository files, relative to repoPath; imports are resolved against them
+  files: string[];
+  filePath: string;
+  // 1-based position of the name to look up
+  line: number;
+  column: number;
+}
+
+export interface DefinitionSite {
+  file: string;
+  // The declared name; the root node when the name stands for a whole module
+  name: Parser.SyntaxNode;
+  // The full declaration, with its `export`, decorators or `const` keyword
+  declaration: Parser.SyntaxNode;
+  kind: BindingKind | "module";
+}
+
+export interface ResolvedDefinition {
+  // The name under the cursor
+  symbol: string;
+  definitions: DefinitionSite[];
+  // Source text of each file with a definition, as parsed
+  sources: Map<string, string>;
+}
+
+export interface ResolveSymbolParams {
+  repoPath: string;
+  // Repository files, relative to repoPath; imports are resolved against them
+  files: string[];
+  // Files that may reference the symbol (default: all of `files`)
+  candidates?: string[];
+  filePath: string;
+  symbolName: string;
+  // 1-based line used to pick between several declarations of the same name
+  line?: number;
+}
+
+/**
+ * Parses and analyzes repository files on demand, caching the results.
+ */
+export class ParsedFileCache {
+  private readonly cache = new Map<string, ParsedFile | null>();
+  private languages: Promise<LanguageOverrides> | null = null;
+
+  constructor(private readonly repoPath: string) {}
+
+  // The file's language, including extensions mapped in .project-scope.json
+  async languageOf(file: string): Promise<SupportedLanguage> {
+    this.languages ??= loadProjectConfig(this.repoPath).then(config => config.languages);
+    return detectLanguage(file, await this.languages);
+  }
+
+  async get(file: string): Promise<ParsedFile | null> {
+    const key = toPosix(file);
+    if (this.cache.has(key)) return this.cache.get(key)!;
+
+    let parsed: ParsedFile | null = null;
+    const language = await this.languageOf(key);
+    const parser = createParser(language, key);
+    if (parser) {
+      try {
+        const sourceCode = await fs.readFile(path.join(this.repoPath, key), "utf-8");
+        const tree = parser.parse(sourceCode);
+        const analysis = analyzeScopes(tree, language);
+        if (analysis) parsed = { file: key, language, sourceCode, tree, analysis };
+      } catch {
+        parsed = null;
+      }
+    }
+
+    this.cache.set(key, parsed);
+    return parsed;
+  }
+}
+
+/**
+ * Resolve a symbol declared (or imported) in `filePath` to every occurrence that binds to it,
+ * following imports and re-exports into the rest of the repository.
+ *
+ * References made through object instances (`obj.method()`) are only followed for `this`/`self`
+ * and Go receivers, since resolving them would need type information.
+ */
+export async function resolveSymbol(params: ResolveSymbolParams): Promise<ResolvedSymbol> {
+  const { repoPath, files, candidates: searched = files, filePath, symbolName, line } = params;
+
+  const cache = new ParsedFileCache(repoPath);
+  const context = await createResolverContext(repoPath, files);
+
+  const start = await cache.get(filePath);
+  if (!start) {
+    throw new Error(`Unsupported or unreadable file: ${filePath}`);
+  }
+
+  let origin = { file: start, binding: pickBinding(start, symbolName, line) };
+
+  // Renaming an imported name starts at its declaration in the exporting module
+  const seen = new Set<string>();
+  while (origin.binding.importedFrom && origin.binding.importedFrom.importedName !== "*") {
+    const key = `${origin.file.file}:${origin.binding.name}`;
+    if (seen.has(key)) break;
+    seen.add(key);
+
+    const next = await followImport(origin.file, origin.binding.importedFrom, context, cache);
+    if (!next) {
+      throw new Error(`'${symbolName}' is imported from '${origin.binding.importedFrom.source}', which is outside the repository`);
+    }
+    origin = next;
+  }
+
+  const occurrences = new OccurrenceSet();
+  occurrences.addBinding(origin.file.file, origin.binding);
+
+  const { analysis } = origin.file;
+  if (origin.binding.scope === analysis.root) {
+    for (const entry of analysis.exports) {
+      if (entry.localName === symbolName && entry.exportedName === symbolName && entry.node) {
+        occurrences.add(origin.file.file, { node: entry.node });
+      }
+    }
+
+    const family = languageFamily(origin.file.language);
+    const candidates: string[] = [];
+    for (const file of searched) {
+      if (languageFamily(await cache.languageOf(file)) === family) candidates.push(file);
+    }
+
+    switch (family) {
+      case "javascript":
+      case "python":
+        await propagateImports(origin.file, symbolName, candidates, context, cache, occurrences);
+        break;
+      case "go":
+        await propagateGo(origin.file, origin.binding, candidates, context, cache, occurrences);
+        break;
+      case "java":
+        await propagateJava(origin.file, origin.binding, candidates, cache, occurrences);
+        break;
+    }
+  }
+
+  const matching = occurrences.values().filter(o => o.node.text === symbolName);
+  const sources = new Map<string, string>();
+  for (const occurrence of matching) {
+    if (!sources.has(occurrence.file)) {
+      sources.set(occurrence.file, (await cache.get(occurrence.file))!.sourceCode);
+    }
+  }
+
+  return {
+    declarationFile: origin.file.file,
+    binding: origin.binding,
+    occurrences: matching,
+    sources,
+  };
+}
+
+function pickBinding(file: ParsedFile, symbolName: string, line?: number): Binding {
+  let candidates = file.analysis.bindings.filter(b => b.name === symbolName);
+
+  if (line !== undefined) {
+    candidates = candidates.filter(b =>
+      b.declarations.some(d => d.startPosition.row + 1 === line) ||
+      b.references.some(r => r.node.startPosition.row + 1 === line)
+    );
+  }
+
+  if (candidates.length === 0) {
+    const where = line !== undefined ? ` at line ${line}` : "";
+    throw new Error(`Could not find a declaration of '${symbolName}' in ${file.file}${where}`);
+  }
+
+  // Like the TypeScript backend, never guess between a module-level name and one it shadows
+  if (candidates.length === 1) return candidates[0];
+
+  const lines = [...new Set(candidates.map(b => b.declarations[0].startPosition.row + 1))].join(", ");
+  throw new Error(`'${symbolName}' is declared more than once in ${file.file} (lines ${lines}); pass 'line' to choose one`);
+}
+
+async function followImport(
+  file: ParsedFile,
+  origin: ImportOrigin,
+  context: ResolverContext,
+  cache: ParsedFileCache
+): Promise<{ file: ParsedFile; binding: Binding } | null> {
+  const source = file.language === "java" ? `${origin.source}.${origin.importedName}` : origin.source;
+
+  for (const target of resolveImport(file.file, file.language, source, context)) {
+    const parsed = await cache.get(target);
+    if (!parsed) continue;
+
+    const exported = parsed.analysis.exports.find(e => e.exportedName === origin.importedName);
+    if (exported?.source !== undefined) {
+      // `export { x } from "./y"`: keep following from the re-exporting module
+      return followImport(parsed, { source: exported.source, importedName: exported.importedName!, specifier: null }, context, cache);
+    }
+
+    const localName = exported?.localName ?? origin.importedName;
+    const declared = parsed.analysis.root.bindings.get(localName);
+    if (declared) return { file: parsed, binding: declared };
+  }
+
+  return null;
+}
+
+type LanguageFamily = "javascript" | "python" | "go" | "java" | "other";
+
+function languageFamily(language: SupportedLanguage): LanguageFamily {
+  switch (language) {
+    case "javascript":
+    case "typescript":
+      return "javascript";
+    case "python":
+    case "go":
+    case "java":
+      return language;
+    default:
+      return "other";
+  }
+}
+
+/**
+ * JS/TS and Python: walk importers of each module that exports the symbol under its current name.
+ */
+async function propagateImports(
+  origin: ParsedFile,
+  symbolName: string,
+  candidates: string[],
+  context: ResolverContext,
+  cache: ParsedFileCache,
+  occurrences: OccurrenceSet
+) {
+  const queue = [origin.file];
+  const visited = new Set<string>(queue);
+
+  while (queue.length > 0) {
+    const exporter = queue.shift()!;
+
+    for (const candidate of candidates) {
+      const importer = await cache.get(candidate);
+      if (!importer || importer.file === exporter) continue;
+
+      const resolvesToExporter = (source: string) =>
+        resolveImport(importer.file, importer.language, source, context).includes(exporter);
+
+      for (const binding of importer.analysis.bindings) {
+        const from = binding.importedFrom;
+        if (!from || !resolvesToExporter(from.source)) continue;
+
+        if (from.importedName === symbolName) {
+          if (from.specifier) occurrences.add(importer.file, { node: from.specifier });
+          if (binding.name === symbolName) {
+            occurrences.addBinding(importer.file, binding, from.specifier);
+            // Python modules re-export whatever they import
+            if (importer.language === "python" && binding.scope === importer.analysis.root && !visited.has(importer.file)) {
+              visited.add(importer.file);
+              queue.push(importer.file);
+            }
+          }
+        } else if (from.importedName === "*") {
+          for (const access of importer.analysis.memberAccesses) {
+            if (access.property.text !== symbolName) continue;
+            const viaBinding = access.binding === binding;
+            const viaDottedPath = importer.language === "python" && access.object.text === from.source;
+            if (viaBinding || viaDottedPath) occurrences.add(importer.file, { node: access.property });
+          }
+          for (const property of destructuredProperties(binding, symbolName)) {
+            occurrences.add(importer.file, property);
+          }
+        }
+      }
+
+      for (const entry of importer.analysis.exports) {
+        if (entry.source === undefined || !resolvesToExporter(entry.source)) continue;
+
+        const renamesExport = entry.importedName === symbolName && entry.exportedName === symbolName;
+        if (entry.importedName === symbolName && entry.importedNode) {
+          occurrences.add(importer.file, { node: entry.importedNode });
+        }
+        if ((renamesExport || entry.importedName === "*") && !visited.has(importer.file)) {
+          visited.add(importer.file);
+          queue.push(importer.file);
+        }
+      }
+    }
+  }
+}
+
+// `const { name } = ns` and `const { name: local } = ns`, destructuring the namespace `binding`
+function destructuredProperties(binding: Binding, name: string): Occurrence[] {
+  const properties: Occurrence[] = [];
+  for (const { node } of binding.references) {
+    const declarator = node.parent;
+    if (declarator?.type !== "variable_declarator" || declarator.childForFieldName("value")?.id !== node.id) continue;
+    const pattern = declarator.childForFieldName("name");
+    if (pattern?.type !== "object_pattern") continue;
+
+    for (const property of pattern.namedChildren) {
+      // `{ name = fallback }` wraps the shorthand
+      const shorthand = property.type === "object_assignment_pattern" ? property.childForFieldName("left") : property;
+      const key = property.type === "pair_pattern" ? property.childForFieldName("key") : null;
+      if (shorthand?.type === "shorthand_property_identifier_pattern" && shorthand.text === name) {
+        properties.push({ node: shorthand, keepLocal: true });
+      } else if (key?.type === "property_identifier" && key.text === name) {
+        properties.push({ node: key });
+      }
+    }
+  }
+  return properties;
+}
+
+/**
+ * Go: unqualified uses in the same package, `pkg.Name` selectors in importing packages.
+ */
+async function propagateGo(
+  origin: ParsedFile,
+  binding: Binding,
+  candidates: string[],
+  context: ResolverContext,
+  cache: ParsedFileCache,
+  occurrences: OccurrenceSet
+) {
+  if (binding.kind === "member") return;
+
+  const packageDir = path.posix.dirname(origin.file);
+  const exported = /^[A-Z]/.test(binding.name);
+
+  for (const candidate of candidates) {
+    const file = await cache.get(candidate);
+    if (!file || file.file === origin.file) continue;
+
+    if (path.posix.dirname(file.file) === packageDir) {
+      file.analysis.unresolved
+        .filter(o => o.node.text === binding.name)
+        .forEach(o => occurrences.add(file.file, o));
+      continue;
+    }
+    if (!exported) continue;
+
+    for (const spec of file.tree.rootNode.descendantsOfType("import_spec")) {
+      const importPath = spec.childForFieldName("path")?.text.slice(1, -1) ?? "";
+      if (!resolveImport(file.file, "go", importPath, context).some(f => path.posix.dirname(f) === packageDir)) {
+        continue;
+      }
+      const localName = spec.childForFieldName("name")?.text ?? importPath.split("/").pop()!;
+      for (const access of file.analysis.memberAccesses) {
+        if (access.object.text === localName && access.property.text === binding.name) {
+          occurrences.add(file.file, { node: access.property });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Java: top-level types used from the same package or through imports.
+ */
+async function propagateJava(
+  origin: ParsedFile,
+  binding: Binding,
+  candidates: string[],
+  cache: ParsedFileCache,
+  occurrences: OccurrenceSet
+) {
+  if (binding.kind !== "class") return;
+
+  const originPackage = javaPackage(origin.tree);
+  const qualifiedName = originPackage ? `${originPackage}.${binding.name}` : binding.name;
+
+  for (const candidate of candidates) {
+    const file = await cache.get(candidate);
+    if (!file || file.file === origin.file) continue;
+
+    const imports = file.tree.rootNode.namedChildren.filter(n => n.type === "import_declaration");
+    const importsType = imports.some(n => n.namedChildren[0]?.text === qualifiedName);
+    const importsPackage = imports.some(n =>
+      n.children.some(c => c.type === "asterisk") && n.namedChildren[0]?.text === originPackage
+    );
+
+    if (!importsType && !importsPackage && javaPackage(file.tree) !== originPackage) continue;
+
+    for (const imported of file.analysis.bindings) {
+      if (imported.importedFrom && `${imported.importedFrom.source}.${imported.importedFrom.importedName}` === qualifiedName) {
+        occurrences.addBinding(file.file, imported);
+      }
+    }
+    file.analysis.unresolved
+      .filter(o => o.node.text === binding.name)
+      .forEach(o => occurrences.add(file.file, o));
+  }
+}
+
+function javaPackage(tree: Parser.Tree): string | null {
+  const declaration = tree.rootNode.namedChildren.find(n => n.type === "package_declaration");
+  return declaration?.namedChildren[0]?.text ?? null;
+}
+
+/**
+ * Resolve the name at a position to the declarations it refers to: through local scopes, imports
+ * (relative, tsconfig paths, Python packages, Go packages, Java imports and same-package types)
+ * and the members a class inherits.
+ *
+ * Members of other objects are followed when the object is a module, a class, `this`/`self`/`super`,
+ * or a variable whose type is written out (`Config config`, `c: Config`, `new Config()`).
+ */
+export async function resolveDefinition(params: ResolveDefinitionParams): Promise<ResolvedDefinition> {
+  const { repoPath, files, filePath, line, column } = params;
+
+  const cache = new ParsedFileCache(repoPath);
+  const start = await cache.get(filePath);
+  if (!start) {
+    throw new Error(`Unsupported or unreadable file: ${filePath}`);
+  }
+
+  const name = nameAt(start, line, column);
+  if (!name) {
+    throw new Error(`No identifier at ${filePath}:${line}:${column}`);
+  }
+
+  const lookup: DefinitionLookup = { cache, context: await createResolverContext(repoPath, files), active: new Set() };
+  const definitions = new Map<string, DefinitionSite>();
+  for (const definition of await resolveName(start, name, lookup)) {
+    definitions.set(`${definition.file}:${definition.name.startIndex}`, definition);
+  }
+
+  if (definitions.size === 0) {
+    if (lookup.external) {
+      throw new Error(`'${name.text}' is imported from '${lookup.external}', which is outside the repository`);
+    }
+    throw new Error(`Could not find a definition of '${name.text}'; it may be a built-in, a global, or a member of an object whose type is not written out`);
+  }
+
+  const sources = new Map<string, string>();
+  for (const definition of definitions.values()) {
+    if (!sources.has(definition.file)) {
+      sources.set(definition.file, (await cache.get(definition.file))!.sourceCode);
+    }
+  }
+  return { symbol: name.text, definitions: [...definitions.values()], sources };
+}
+
+interface DefinitionLookup {
+  cache: ParsedFileCache;
+  context: ResolverContext;
+  // Lookups in progress, so import cycles and circular hierarchies end
+  active: Set<string>;
+  // Last import that could not be resolved inside the repository
+  external?: string;
+}
+
+// `object.name` node types, with the fields holding the object and the name
+const MEMBER_ACCESSES: Record<string, [object: string, property: string]> = {
+  member_expression: ["object", "property"],
+  attribute: ["object", "attribute"],
+  field_access: ["object", "field"],
+  method_invocation: ["object", "name"],
+  selector_expression: ["operand", "field"],
+  qualified_type: ["package", "name"],
+};
+
+const CLASS_NODES = [
+  "class_declaration",
+  "abstract_class_declaration",
+  "class",
+  "class_definition",
+  "interface_declaration",
+  "enum_declaration",
+  "record_declaration",
+];
+
+// Nodes around a declaration that belong to it: `export`, decorators, `const` lists, Python assignments
+const DECLARATION_WRAPPERS = new Set([
+  "export_statement",
+  "ambient_declaration",
+  "decorated_definition",
+  "variable_declarator",
+  "lexical_declaration",
+  "variable_declaration",
+  "local_variable_declaration",
+  "field_declaration",
+  "assignment",
+  "assignment_expression",
+  "expression_statement",
+  "type_declaration",
+  "var_declaration",
+  "const_declaration",
+]);
+
+// Where a class lists what it extends and implements
+const HERITAGE_NODES = new Set([
+  "class_heritage",
+  "extends_clause",
+  "implements_clause",
+  "extends_type_clause",
+  "superclass",
+  "super_interfaces",
+  "extends_interfaces",
+  "type_list",
+  "argument_list",
+]);
+
+function nameAt(file: ParsedFile, line: number, column: number): Parser.SyntaxNode | null {
+  // A cursor right after the name still points at it
+  for (const offset of [1, 2]) {
+    if (line < 1 || column - offset < 0) continue;
+    const node = file.tree.rootNode.descendantForPosition({ row: line - 1, column: column - offset });
+    if (node.type.endsWith("identifier")) return node;
+  }
+  return null;
+}
+
+async function resolveName(file: ParsedFile, name: Parser.SyntaxNode, lookup: DefinitionLookup): Promise<DefinitionSite[]> {
+  const key = `${file.file}:${name.startIndex}`;
+  if (lookup.active.has(key)) return [];
+  lookup.active.add(key);
+  try {
+    const { analysis } = file;
+
+    const modulePath = pythonImportedModulePath(name);
+    if (modulePath !== null) {
+      const target = resolvePythonModule(file.file, modulePath, lookup.context);
+      const parsed = target && await lookup.cache.get(target);
+      if (!parsed) lookup.external = modulePath;
+      return parsed ? [site(parsed, parsed.tree.rootNode, "module")] : [];
+    }
+
+    // A declaration is its own definition, unless it imports the name from elsewhere
+    const declared = analysis.bindings.find(b => b.declarations.some(d => d.id === name.id));
+    if (declared) {
+      return declared.importedFrom ? followImportOrigin(file, declared.importedFrom, lookup) : [site(file, name, declared.kind)];
+    }
+
+    // The original name in `import { a as b }` or `export { a } from "./m"`
+    const specified = analysis.bindings.find(b => b.importedFrom?.specifier?.id === name.id);
+    if (specified) return followImportOrigin(file, specified.importedFrom!, lookup);
+    const reexported = analysis.exports.find(e => e.importedNode?.id === name.id);
+    if (reexported?.source !== undefined) {
+      return followImportOrigin(file, { source: reexported.source, importedName: reexported.importedName!, specifier: null }, lookup);
+    }
+
+    const binding = findBindingForNode(analysis, name);
+    if (binding) {
+      return binding.importedFrom ? followImportOrigin(file, binding.importedFrom, lookup) : [site(file, binding.declarations[0], binding.kind)];
+    }
+
+    const access = name.parent && MEMBER_ACCESSES[name.parent.type];
+    if (access && name.parent!.childForFieldName(access[1])?.id === name.id) {
+      const object = name.parent!.childForFieldName(access[0]);
+      if (object) return resolveMember(file, object, name.text, lookup);
+    }
+    return resolveUndeclared(file, name, lookup);
+  } finally {
+    lookup.active.delete(key);
+  }
+}
+
+// `object.name`, for the objects whose members can be known without type inference
+async function resolveMember(file: ParsedFile, object: Parser.SyntaxNode, memberName: string, lookup: DefinitionLookup): Promise<DefinitionSite[]> {
+  const module = importedModule(file, object);
+  if (module) return followImportOrigin(file, { ...module, importedName: memberName }, lookup);
+
+  const enclosing = object.closest(CLASS_NODES);
+  if (object.type === "super" || (object.type === "call" && object.childForFieldName("function")?.text === "super")) {
+    return enclosing ? inheritedMember(file, enclosing, memberName, lookup) : [];
+  }
+  if (object.type === "this" || (file.language === "python" && (object.text === "self" || object.text === "cls"))) {
+    return enclosing ? classMember(file, enclosing, memberName, lookup) : [];
+  }
+  if (!object.type.endsWith("identifier")) return [];
+
+  // A module or class by name, or a variable of a known class
+  const found: DefinitionSite[] = [];
+  for (const definition of await resolveName(file, goReceiverType(object) ?? object, lookup)) {
+    const owner = (await lookup.cache.get(definition.file))!;
+    if (definition.kind === "module") {
+      found.push(...await moduleMember(owner, memberName, lookup));
+    } else if (definition.kind === "class" || definition.kind === "type") {
+      found.push(...await classMember(owner, definition.name.parent!, memberName, lookup));
+    } else {
+      const type = declaredType(definition.name);
+      if (!type) continue;
+      for (const typeDefinition of await resolveName(owner, type, lookup)) {
+        if (typeDefinition.kind !== "class" && typeDefinition.kind !== "type") continue;
+        const typeOwner = (await lookup.cache.get(typeDefinition.file))!;
+        found.push(...await classMember(typeOwner, typeDefinition.name.parent!, memberName, lookup));
+      }
+    }
+  }
+  return found;
+}
+
+// Names no scope in the file declares
+async function resolveUndeclared(file: ParsedFile, name: Parser.SyntaxNode, lookup: DefinitionLookup): Promise<DefinitionSite[]> {
+  switch (file.language) {
+    case "go": {
+      // Declared in another file of the same package
+      const found: DefinitionSite[] = [];
+      for (const other of goPackageFiles(file.file, lookup.context)) {
+        if (other === file.file) continue;
+        const parsed = await lookup.cache.get(other);
+        const declared = parsed?.analysis.root.bindings.get(name.text);
+        if (parsed && declared && declared.kind !== "import") found.push(site(parsed, declared.declarations[0], declared.kind));
+      }
+      return found;
+    }
+    case "java": {
+      // A member inherited from a superclass, called without `this`
+      const enclosing = name.closest(CLASS_NODES);
+      const inherited = enclosing ? await inheritedMember(file, enclosing, name.text, lookup) : [];
+      if (inherited.length > 0) return inherited;
+
+      // A class of the same package, or of a package imported with `.*`
+      const imports = file.tree.rootNode.namedChildren.filter(n => n.type === "import_declaration" && n.children.some(c => c.type === "asterisk"));
+      const packages = [javaPackage(file.tree), ...imports.map(n => n.namedChildren[0]?.text)].filter((p): p is string => !!p);
+      for (const packageName of packages) {
+        const target = resolveJavaImport(`${packageName}.${name.text}`, lookup.context);
+        const parsed = target && await lookup.cache.get(target);
+        const declared = parsed && parsed.analysis.root.bindings.get(name.text);
+        if (parsed && declared) return [site(parsed, declared.declarations[0], declared.kind)];
+      }
+      return [];
+    }
+    case "python": {
+      // `from module import *`
+      for (const statement of file.tree.rootNode.descendantsOfType("import_from_statement")) {
+        const moduleName = statement.childForFieldName("module_name")?.text;
+        if (!moduleName || !statement.namedChildren.some(c => c.type === "wildcard_import")) continue;
+        const found = await followImportOrigin(file, { source: moduleName, importedName: name.text, specifier: null }, lookup);
+        if (found.length > 0) return found;
+      }
+      return [];
+    }
+    default:
+      return [];
+  }
+}
+
+async function followImportOrigin(file: ParsedFile, origin: ImportOrigin, lookup: DefinitionLookup): Promise<DefinitionSite[]> {
+  const source = file.language === "java" ? `${origin.source}.${origin.importedName}` : origin.source;
+  const targets = resolveImport(file.file, file.language, source, lookup.context);
+  if (targets.length === 0) {
+    lookup.external = origin.source;
+    return [];
+  }
+
+  const found: DefinitionSite[] = [];
+  for (const target of targets) {
+    const parsed = await lookup.cache.get(target);
+    if (!parsed) continue;
+    if (origin.importedName === "*") found.push(site(parsed, parsed.tree.rootNode, "module"));
+    else found.push(...await moduleMember(parsed, origin.importedName, lookup));
+  }
+
+  // `from package import module`
+  if (found.length === 0 && file.language === "python" && origin.importedName !== "*") {
+    const submodule = resolvePythonModule(file.file, origin.source.endsWith(".") ? origin.source + origin.importedName : `${origin.source}.${origin.importedName}`, lookup.context);
+    const parsed = submodule && await lookup.cache.get(submodule);
+    if (parsed) found.push(site(parsed, parsed.tree.rootNode, "module"));
+  }
+  return found;
+}
+
+// The declaration a module exports under `exportedName`, following re-exports
+async function moduleMember(module: ParsedFile, exportedName: string, lookup: DefinitionLookup): Promise<DefinitionSite[]> {
+  const key = `${module.file}#${exportedName}`;
+  if (lookup.active.has(key)) return [];
+  lookup.active.add(key);
+  try {
+    const { analysis } = module;
+    let localName = exportedName;
+
+    if (languageFamily(module.language) === "javascript") {
+      const entry = analysis.exports.find(e => e.exportedName === exportedName);
+      if (entry?.source !== undefined) {
+        return followImportOrigin(module, { source: entry.source, importedName: entry.importedName!, specifier: null }, lookup);
+      }
+      if (entry?.localName) {
+        localName = entry.localName;
+      } else if (entry?.node) {
+        // `exports.name = ...`
+        return [site(module, entry.node, "variable")];
+      } else if (exportedName === "default") {
+        // `export default <expression>` and anonymous default functions and classes
+        const statement = module.tree.rootNode.namedChildren.find(n => n.type === "export_statement" && n.children.some(c => c.type === "default"));
+        return statement ? [site(module, statement, "variable")] : [];
+      } else if (!entry) {
+        for (const star of analysis.exports.filter(e => e.exportedName === "*" && e.source !== undefined)) {
+          const found = await followImportOrigin(module, { source: star.source!, importedName: exportedName, specifier: null }, lookup);
+          if (found.length > 0) return found;
+        }
+      }
+    }
+
+    // Python modules also export what they import
+    const declared = analysis.root.bindings.get(localName);
+    if (!declared) return [];
+    return declared.importedFrom ? followImportOrigin(module, declared.importedFrom, lookup) : [site(module, declared.declarations[0], declared.kind)];
+  } finally {
+    lookup.active.delete(key);
+  }
+}
+
+// A member declared in the class or inherited from what it extends or implements
+async function classMember(file: ParsedFile, classNode: Parser.SyntaxNode, memberName: string, lookup: DefinitionLookup): Promise<DefinitionSite[]> {
+  const own = findScope(file.analysis.root, classNode)?.bindings.get(memberName);
+  if (own) return [site(file, own.declarations[0], own.kind)];
+
+  // Interface members, which get no scope of their own
+  const body = classNode.childForFieldName("body") ?? classNode.childForFieldName("type");
+  const signature = body?.namedChildren.map(member => member.childForFieldName("name")).find(n => n?.text === memberName);
+  if (signature) return [site(file, signature, "member")];
+
+  // Go methods may be declared in any file of the package
+  if (classNode.type === "type_spec") {
+    const typeName = classNode.childForFieldName("name")?.text;
+    for (const other of goPackageFiles(file.file, lookup.context)) {
+      const parsed = await lookup.cache.get(other);
+      const method = parsed?.tree.rootNode.namedChildren.find(n =>
+        n.type === "method_declaration" && n.childForFieldName("name")?.text === memberName && goReceiverTypeName(n) === typeName
+      );
+      if (parsed && method) return [site(parsed, method.childForFieldName("name")!, "member")];
+    }
+  }
+
+  return inheritedMember(file, classNode, memberName, lookup);
+}
+
+async function inheritedMember(file: ParsedFile, classNode: Parser.SyntaxNode, memberName: string, lookup: DefinitionLookup): Promise<DefinitionSite[]> {
+  for (const base of baseTypes(classNode)) {
+    for (const definition of await resolveName(file, base, lookup)) {
+      if (definition.kind !== "class" && definition.kind !== "type") continue;
+      const owner = (await lookup.cache.get(definition.file))!;
+      const found = await classMember(owner, definition.name.parent!, memberName, lookup);
+      if (found.length > 0) return found;
+    }
+  }
+  return [];
+}
+
+// Names of the classes and interfaces a class extends or implements; for Go structs, the embedded types
+function baseTypes(classNode: Parser.SyntaxNode): Parser.SyntaxNode[] {
+  if (classNode.type === "type_spec") {
+    return (classNode.childForFieldName("type")?.descendantsOfType("field_declaration") ?? [])
+      .filter(field => field.childrenForFieldName("name").length === 0)
+      .map(field => typeName(field.childForFieldName("type")))
+      .filter((name): name is Parser.SyntaxNode => name !== null);
+  }
+
+  const names: Parser.SyntaxNode[] = [];
+  const collect = (node: Parser.SyntaxNode) => {
+    if (HERITAGE_NODES.has(node.type)) {
+      node.namedChildren.forEach(collect);
+      return;
+    }
+    const name = typeName(node);
+    if (name) names.push(name);
+  };
+  classNode.namedChildren.filter(child => HERITAGE_NODES.has(child.type)).forEach(collect);
+  return names;
+}
+
+// The name a type expression refers to: `Base`, `ns.Base`, `Base<T>`, `*Base`, `: Base`
+function typeName(node: Parser.SyntaxNode | null): Parser.SyntaxNode | null {
+  if (!node) return null;
+  switch (node.type) {
+    case "identifier":
+    case "type_identifier":
+      return node;
+    case "member_expression":
+      return node.childForFieldName("property");
+    case "attribute":
+      return node.childForFieldName("attribute");
+    case "nested_type_identifier":
+    case "qualified_type":
+      return node.childForFieldName("name");
+    case "scoped_type_identifier":
+      return node.lastNamedChild;
+    case "generic_type":
+      return typeName(node.childForFieldName("name") ?? node.firstNamedChild);
+    case "type_annotation":
+    case "pointer_type":
+    case "type":
+      return typeName(node.firstNamedChild);
+    default:
+      return null;
+  }
+}
+
+// The class of a variable, parameter or field whose type is written out or which is initialized with `new T()`
+function declaredType(name: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  for (const holder of [name.parent, name.parent?.parent]) {
+    if (!holder || holder.type.includes("method") || holder.type.includes("function")) continue;
+    const type = typeName(holder.childForFieldName("type"));
+    if (type) return type;
+
+    const value = holder.childForFieldName("value") ?? holder.childForFieldName("right");
+    switch (value?.type) {
+      case "new_expression":
+        return typeName(value.childForFieldName("constructor"));
+      case "object_creation_expression":
+      case "composite_literal":
+        return typeName(value.childForFieldName("type"));
+      case "call":
+        return typeName(value.childForFieldName("function"));
+    }
+  }
+  return null;
+}
+
+// `import * as ns`, `import mod`, `import a.b` (named `a.b` at the use) and Go package names
+function importedModule(file: ParsedFile, object: Parser.SyntaxNode): ImportOrigin | null {
+  if (file.language === "go") {
+    for (const spec of file.tree.rootNode.descendantsOfType("import_spec")) {
+      const importPath = spec.childForFieldName("path")?.text.slice(1, -1) ?? "";
+      const localName = spec.childForFieldName("name")?.text ?? importPath.split("/").pop();
+      if (localName === object.text) return { source: importPath, importedName: "*", specifier: null };
+    }
+    return null;
+  }
+
+  if (file.language === "python") {
+    const dotted = file.analysis.bindings.find(b => b.importedFrom?.importedName === "*" && b.importedFrom.source === object.text);
+    if (dotted) return dotted.importedFrom!;
+  }
+
+  const binding = object.type === "identifier" ? findBindingForNode(file.analysis, object) : null;
+  const origin = binding?.importedFrom;
+  if (origin?.importedName !== "*") return null;
+  // `import a.b` binds the package `a`
+  if (file.language === "python" && binding!.declarations[0]?.parent?.type !== "aliased_import") {
+    return { ...origin, source: binding!.name };
+  }
+  return origin;
+}
+
+// In `import a.b` or `from .a.b import c`, the module path up to the name: `a` for `a`, `.a.b` for `b`
+function pythonImportedModulePath(name: Parser.SyntaxNode): string | null {
+  const dotted = name.parent;
+  if (dotted?.type !== "dotted_name") return null;
+  const relative = dotted.parent?.type === "relative_import" ? dotted.parent : null;
+  const statement = (relative ?? dotted).parent;
+  const isModule = statement?.type === "import_statement" || (statement?.type === "aliased_import" && statement.parent?.type === "import_statement")
+    || (statement?.type === "import_from_statement" && statement.childForFieldName("module_name")?.id === (relative ?? dotted).id);
+  if (!isModule) return null;
+  const prefix = relative ? relative.text.slice(0, dotted.startIndex - relative.startIndex) : "";
+  return prefix + dotted.text.slice(0, name.endIndex - dotted.startIndex);
+}
+
+// A Go receiver stands for its type
+function goReceiverType(object: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  const method = object.closest("method_declaration");
+  const receiver = method?.childForFieldName("receiver")?.namedChildren.find(child => child.type === "parameter_declaration");
+  if (receiver?.childForFieldName("name")?.text !== object.text) return null;
+  return typeName(receiver.childForFieldName("type"));
+}
+
+function goReceiverTypeName(method: Parser.SyntaxNode): string | undefined {
+  return method.childForFieldName("receiver")?.descendantsOfType("type_identifier")[0]?.text;
+}
+
+function goPackageFiles(file: string, context: ResolverContext): string[] {
+  const packageDir = path.posix.dirname(file);
+  return [...context.files].filter(f => f.endsWith(".go") && path.posix.dirname(f) === packageDir).sort();
+}
+
+function findScope(scope: Scope, node: Parser.SyntaxNode): Scope | null {
+  if (scope.node.id === node.id) return scope;
+  for (const child of scope.children) {
+    const found = findScope(child, node);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Modules and anonymous default exports have no name node and stand for themselves
+function site(file: ParsedFile, name: Parser.SyntaxNode, kind: DefinitionSite["kind"]): DefinitionSite {
+  let declaration = name.type.endsWith("identifier") ? name.parent ?? name : name;
+  while (declaration.parent && DECLARATION_WRAPPERS.has(declaration.parent.type)) {
+    declaration = declaration.parent;
+  }
+  return { file: file.file, name, declaration, kind };
+}
+
+class OccurrenceSet {
+  private readonly items = new Map<string, SymbolOccurrence>();
+
+  add(file: string, occurrence: Occurrence) {
+    const key = `${file}:${occurrence.node.startIndex}`;
+    if (!this.items.has(key)) {
+      this.items.set(key, { file, ...occurrence });
+    }
+  }
+
+  // The import specifier, when given, is renamed together with the export and must not gain an alias
+  addBinding(file: string, binding: Binding, specifier?: Parser.SyntaxNode | null) {
+    for (const reference of binding.references) {
+      const isSpecifier = specifier && reference.node.id === specifier.id;
+      this.add(file, isSpecifier ? { node: reference.node } : reference);
+    }
+  }
+
+  values(): SymbolOccurrence[] {
+    return [...this.items.values()];
+  }
+}
@@ -0,0 +1,430 @@
+import * as fs from "fs";
+import * as path from "path";
+import type ts from "typescript";
+import { toPosix } from "../utils/module-resolver.js";
+
+// Which engine analyzes TypeScript: the compiler API when a tsconfig.json exists ("auto"), or always/never
+export type TypeScriptBackend = "auto" | "typescript" | "tree-sitter";
+
+export interface TypeScriptProject {
+  repoPath: string;
+  // tsconfig.json the program was loaded from, relative to repoPath
+  configFile: string;
+  ts: typeof ts;
+  service: ts.LanguageService;
+}
+
+export interface TsLocation {
+  // Relative to the repository root, using forward slashes
+  file: string;
+  start: number;
+  end: number;
+  // 1-based
+  line: number;
+  column: number;
+  // Text of the line the location starts on
+  lineText: string;
+  isDefinition: boolean;
+  isWriteAccess: boolean;
+  // Text to keep around the new name, e.g. `config: ` for the shorthand property `{ config }`
+  prefixText?: string;
+  suffixText?: string;
+}
+
+export interface TsDefinition {
+  location: TsLocation;
+  // ScriptElementKind of the declaration: "function", "class", "method", "const", ...
+  kind: string;
+  // 1-based lines of the whole declaration
+  startLine: number;
+  endLine: number;
+}
+
+export interface TsExport {
+  file: string;
+  symbol: string;
+  line: number;
+  // Position of the declaration name, used to look up references
+  position: number;
+}
+
+interface ProjectState {
+  project: TypeScriptProject;
+  configVersion: string;
+  fileNames: string[];
+}
+
+let typescriptModule: typeof ts | null | undefined;
+const projects = new Map<string, ProjectState>();
+let documentRegistry: ts.DocumentRegistry | undefined;
+
+async function loadTypeScript(): Promise<typeof ts | null> {
+  if (typescriptModule === undefined) {
+    try {
+      typescriptModule = (await import("typescript")).default;
+    } catch {
+      typescriptModule = null;
+    }
+  }
+  return typescriptModule;
+}
+
+function fileVersion(fileName: string): string {
+  try {
+    const stat = fs.statSync(fileName);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return "missing";
+  }
+}
+
+/**
+ * Decide whether TypeScript analysis of `repoPath` should use the compiler API.
+ * Returns null when tree-sitter should be used instead.
+ */
+export async function selectTypeScriptProject(repoPath: string, backend: TypeScriptBackend = "auto"): Promise<TypeScriptProject | null> {
+  if (backend === "tree-sitter") return null;
+
+  const project = await loadTypeScriptProject(repoPath);
+  if (!project && backend === "typescript") {
+    throw new Error(`The typescript backend needs a tsconfig.json in ${repoPath} and the 'typescript' package installed`);
+  }
+  return project;
+}
+
+/**
+ * Load the repository's tsconfig.json into a language service. The service is cached per
+ * repository and re-reads files whose modification time changed, so it stays valid across edits.
+ */
+export async function loadTypeScriptProject(repoPath: string): Promise<TypeScriptProject | null> {
+  const root = path.resolve(repoPath);
+  const configPath = path.join(root, "tsconfig.json");
+  if (!fs.existsSync(configPath)) return null;
+
+  const tsModule = await loadTypeScript();
+  if (!tsModule) return null;
+
+  // Re-read the file list on every call so added and removed files are picked up
+  const configFile = tsModule.readConfigFile(configPath, tsModule.sys.readFile);
+  if (configFile.error) {
+    throw new Error(`Failed to read tsconfig.json: ${tsModule.flattenDiagnosticMessageText(configFile.error.messageText, "\n")}`);
+  }
+  const parsed = tsModule.parseJsonConfigFileContent(configFile.config, tsModule.sys, root, undefined, configPath);
+
+  const configVersion = fileVersion(configPath);
+  const cached = projects.get(root);
+  if (cached && cached.configVersion === configVersion) {
+    cached.fileNames = parsed.fileNames;
+    return cached.project;
+  }
+
+  const state: ProjectState = {
+    project: undefined as unknown as TypeScriptProject,
+    configVersion,
+    fileNames: parsed.fileNames,
+  };
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => parsed.options,
+    getScriptFileNames: () => state.fileNames,
+    getScriptVersion: fileVersion,
+    getScriptSnapshot: fileName => {
+      try {
+        return tsModule.ScriptSnapshot.fromString(fs.readFileSync(fileName, "utf-8"));
+      } catch {
+        return undefined;
+      }
+    },
+    getCurrentDirectory: () => root,
+    getDefaultLibFileName: options => tsModule.getDefaultLibFilePath(options),
+    fileExists: tsModule.sys.fileExists,
+    readFile: tsModule.sys.readFile,
+    readDirectory: tsModule.sys.readDirectory,
+    directoryExists: tsModule.sys.directoryExists,
+    getDirectories: tsModule.sys.getDirectories,
+    useCaseSensitiveFileNames: () => tsModule.sys.useCaseSensitiveFileNames,
+  };
+
+  documentRegistry ??= tsModule.createDocumentRegistry(tsModule.sys.useCaseSensitiveFileNames, root);
+  state.project = {
+    repoPath: root,
+    configFile: "tsconfig.json",
+    ts: tsModule,
+    service: tsModule.createLanguageService(host, documentRegistry),
+  };
+
+  cached?.project.service.dispose();
+  projects.set(root, state);
+  return state.project;
+}
+
+/**
+ * Source text of a repository file as the language service sees it, or null when the
+ * file is not part of the program (excluded by tsconfig.json, or not TypeScript at all).
+ */
+export function getProjectSource(project: TypeScriptProject, filePath: string): ts.SourceFile | null {
+  const program = project.service.getProgram();
+  const sourceFile = program?.getSourceFile(path.join(project.repoPath, filePath));
+  return sourceFile && !sourceFile.isDeclarationFile ? sourceFile : null;
+}
+
+/**
+ * Text of any repository file in the program, declaration files included, exactly as analyzed.
+ */
+export function getSourceText(project: TypeScriptProject, filePath: string): string | null {
+  return project.service.getProgram()?.getSourceFile(path.join(project.repoPath, filePath))?.text ?? null;
+}
+
+function relativeFile(project: TypeScriptProject, fileName: string): string | null {
+  const relative = toPosix(path.relative(project.repoPath, fileName));
+  if (relative.startsWith("..") || path.isAbsolute(relative) || relative.split("/").includes("node_modules")) {
+    return null;
+  }
+  return relative;
+}
+
+function toLocation(project: TypeScriptProject, span: ts.DocumentSpan, isDefinition: boolean, isWriteAccess: boolean): TsLocation | null {
+  const file = relativeFile(project, span.fileName);
+  const sourceFile = project.service.getProgram()?.getSourceFile(span.fileName);
+  if (!file || !sourceFile) return null;
+
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(span.textSpan.start);
+  const lineStart = sourceFile.getPositionOfLineAndCharacter(line, 0);
+  return {
+    file,
+    start: span.textSpan.start,
+    end: span.textSpan.start + span.textSpan.length,
+    line: line + 1,
+    column: character + 1,
+    lineText: sourceFile.text.slice(lineStart, sourceFile.getLineEndOfPosition(lineStart)),
+    isDefinition,
+    isWriteAccess,
+  };
+}
+
+/**
+ * Find the position of the declaration of `symbolName` in `filePath`, the same way the
+ * tree-sitter resolver picks a binding: `line` chooses between several declarations.
+ */
+export function findSymbolPosition(project: TypeScriptProject, filePath: string, symbolName: string, line?: number): number {
+  const tsModule = project.ts;
+  const sourceFile = getProjectSource(project, filePath);
+  if (!sourceFile) {
+    throw new Error(`${filePath} is not part of the TypeScript program loaded from ${project.configFile}`);
+  }
+
+  const declarations: ts.Node[] = [];
+  const onLine: ts.Node[] = [];
+  const visit = (node: ts.Node) => {
+    if ((tsModule.isIdentifier(node) || tsModule.isPrivateIdentifier(node)) && node.text === symbolName) {
+      const nodeLine = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+      const parent = node.parent as ts.Node & { name?: ts.Node };
+      const isDeclaration = parent.name === node && !tsModule.isPropertyAccessExpression(parent) && !tsModule.isMetaProperty(parent);
+      if (line === undefined || nodeLine === line) {
+        (isDeclaration ? declarations : onLine).push(node);
+      }
+    }
+    tsModule.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // With a line, any occurrence on it identifies the symbol
+  const candidates = declarations.length > 0 ? declarations : line !== undefined ? onLine : [];
+  if (candidates.length === 0) {
+    const where = line !== undefined ? ` at line ${line}` : "";
+    throw new Error(`Could not find a declaration of '${symbolName}' in ${filePath}${where}`);
+  }
+
+  // Overloads and merged declarations (interface + namespace, ...) are one symbol
+  const checker = project.service.getProgram()!.getTypeChecker();
+  const symbols = new Set(candidates.map(node => checker.getSymbolAtLocation(node)));
+  if (symbols.size > 1) {
+    const lines = candidates.map(node => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1);
+    throw new Error(`'${symbolName}' is declared more than once in ${filePath} (lines ${[...new Set(lines)].join(", ")}); pass 'line' to choose one`);
+  }
+
+  return candidates[0].getStart(sourceFile);
+}
+
+/**
+ * Every location a rename of the symbol at `position` has to touch, following imports,
+ * re-exports, overloads and interface members.
+ */
+export function findRenameLocations(project: TypeScriptProject, filePath: string, position: number): { declarationFile: string; locations: TsLocation[] } {
+  const fileName = path.join(project.repoPath, filePath);
+  const preferences: ts.UserPreferences = { providePrefixAndSuffixTextForRename: true };
+
+  // Renaming an imported name renames its declaration, not just the local binding
+  const definition = project.service.getDefinitionAtPosition(fileName, position)?.[0];
+  const definitionFile = definition && relativeFile(project, definition.fileName);
+  let target = { fileName, position };
+  let declarationFile = filePath;
+  if (definition && definitionFile && definition.fileName !== fileName) {
+    target = { fileName: definition.fileName, position: definition.textSpan.start };
+    declarationFile = definitionFile;
+  }
+
+  const info = project.service.getRenameInfo(target.fileName, target.position, preferences);
+  if (!info.canRename) {
+    throw new Error(`Cannot rename: ${info.localizedErrorMessage}`);
+  }
+
+  const locations = project.service.findRenameLocations(target.fileName, target.position, false, false, preferences) ?? [];
+  const result: TsLocation[] = [];
+  for (const renameLocation of locations) {
+    const location = toLocation(project, renameLocation, false, false);
+    if (!location) continue;
+    // Keep `{ config }` as `{ config: renamed }`, but rename through import/export specifiers
+    // instead of aliasing them (`renamed as config`), like the tree-sitter resolver does
+    const aliased = / as $/.test(renameLocation.prefixText ?? "") || /^ as /.test(renameLocation.suffixText ?? "");
+    if (!aliased) {
+      location.prefixText = renameLocation.prefixText;
+      location.suffixText = renameLocation.suffixText;
+    }
+    result.push(location);
+  }
+  return { declarationFile, locations: result };
+}
+
+/**
+ * References to the symbol at `position` across the program, including its declarations.
+ */
+export function findReferences(project: TypeScriptProject, filePath: string, position: number): TsLocation[] {
+  const referenced = project.service.findReferences(path.join(project.repoPath, filePath), position) ?? [];
+  const result: TsLocation[] = [];
+  const seen = new Set<string>();
+
+  for (const symbol of referenced) {
+    for (const entry of symbol.references) {
+      const location = toLocation(project, entry, entry.isDefinition ?? false, entry.isWriteAccess);
+      const key = location && `${location.file}:${location.start}`;
+      if (!location || seen.has(key!)) continue;
+      seen.add(key!);
+      result.push(location);
+    }
+  }
+  return result;
+}
+
+/**
+ * Declarations of the name at a 1-based line and column, with imports followed to the module
+ * that declares it. Declarations outside the repository (lib files, node_modules) are listed
+ * by file name in `external` instead.
+ */
+export function findDefinitions(project: TypeScriptProject, filePath: string, line: number, column: number): { symbol: string; definitions: TsDefinition[]; external: string[] } {
+  const sourceFile = getProjectSource(project, filePath);
+  if (!sourceFile) {
+    throw new Error(`${filePath} is not part of the TypeScript program loaded from ${project.configFile}`);
+  }
+  const lineStarts = sourceFile.getLineStarts();
+  if (line < 1 || line > lineStarts.length || column < 1) {
+    throw new Error(`No identifier at ${filePath}:${line}:${column}`);
+  }
+  const lineStart = lineStarts[line - 1];
+  const position = Math.min(lineStart + column - 1, sourceFile.getLineEndOfPosition(lineStart));
+
+  const found = project.service.getDefinitionAndBoundSpan(path.join(project.repoPath, filePath), position);
+  if (!found) {
+    throw new Error(`No definition found at ${filePath}:${line}:${column}`);
+  }
+
+  const definitions: TsDefinition[] = [];
+  const external: string[] = [];
+  for (const info of found.definitions ?? []) {
+    const location = toLocation(project, info, true, false);
+    const definitionFile = project.service.getProgram()?.getSourceFile(info.fileName);
+    if (!location || !definitionFile) {
+      external.push(toPosix(info.fileName));
+      continue;
+    }
+    const span = info.contextSpan ?? info.textSpan;
+    definitions.push({
+      location,
+      kind: info.kind,
+      startLine: definitionFile.getLineAndCharacterOfPosition(span.start).line + 1,
+      endLine: definitionFile.getLineAndCharacterOfPosition(span.start + span.length).line + 1,
+    });
+  }
+
+  const symbol = sourceFile.text.slice(found.textSpan.start, found.textSpan.start + found.textSpan.length);
+  return { symbol, definitions, external };
+}
+
+/**
+ * Repository source files in the program (declaration files and node_modules excluded).
+ */
+export function getProjectFiles(project: TypeScriptProject): string[] {
+  const files: string[] = [];
+  for (const sourceFile of project.service.getProgram()?.getSourceFiles() ?? []) {
+    const file = !sourceFile.isDeclarationFile && relativeFile(project, sourceFile.fileName);
+    if (file) files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Exports declared in repository files of the program. Re-exports are left to the module that declares them.
+ */
+export function findProjectExports(project: TypeScriptProject): TsExport[] {
+  const tsModule = project.ts;
+  const program = project.service.getProgram()!;
+  const checker = program.getTypeChecker();
+  const result: TsExport[] = [];
+
+  for (const file of getProjectFiles(project)) {
+    const sourceFile = program.getSourceFile(path.join(project.repoPath, file))!;
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) continue;
+
+    for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+      const declaration = symbol.declarations?.find(d => d.getSourceFile() === sourceFile);
+      if (!declaration || tsModule.isExportSpecifier(declaration) && declaration.parent.parent.moduleSpecifier) continue;
+
+      const position = declarationPosition(declaration);
+      result.push({
+        file,
+        symbol: symbol.name,
+        line: sourceFile.getLineAndCharacterOfPosition(position).line + 1,
+        position,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Keys (`file:position`, as in `TsExport`) of the declarations the given modules export,
+ * following re-exports and aliases: the public API when the modules are entry points.
+ */
+export function findExportedDeclarations(project: TypeScriptProject, files: string[]): Set<string> {
+  const program = project.service.getProgram()!;
+  const checker = program.getTypeChecker();
+  const keys = new Set<string>();
+
+  for (const file of files) {
+    const sourceFile = program.getSourceFile(path.join(project.repoPath, file));
+    const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) continue;
+
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const seen = new Set<ts.Symbol>();
+      for (let symbol: ts.Symbol | undefined = exported; symbol && !seen.has(symbol);) {
+        seen.add(symbol);
+        for (const declaration of symbol.declarations ?? []) {
+          const declarationFile = relativeFile(project, declaration.getSourceFile().fileName);
+          if (declarationFile) keys.add(`${declarationFile}:${declarationPosition(declaration)}`);
+        }
+        symbol = symbol.flags & project.ts.SymbolFlags.Alias ? checker.getImmediateAliasedSymbol(symbol) : undefined;
+      }
+    }
+  }
+
+  return keys;
+}
+
+// Start of the declaration's name, or of the declaration itself when it has none (`export default <expression>`)
+function declarationPosition(declaration: ts.Declaration): number {
+  const nameNode = (declaration as ts.Node & { name?: ts.Node }).name;
+  return (nameNode ?? declaration).getStart(declaration.getSourceFile());
+}
@@ -0,0 +1,281 @@
+/**
+ * MCP Resources
+ *
+ * Repository context clients can attach without a tool call: the file tree, file
+ * contents, the symbols of a file and a security report, addressed as
+ *   repo://{root}/structure
+ *   repo://{root}/file/{path}
+ *   repo://{root}/symbols/{path}
+ *   repo://{root}/security-report
+ * where {root} is the URL-encoded absolute path of the repository.
+ */
+
+import * as path from "path";
+import * as fs from "fs/promises";
+import { getRepoStructure } from "../tools/repo-structure.js";
+import { scanRepoForThreats } from "../tools/security-tools.js";
+import { getSymbolIndex, isIndexable } from "../parsers/symbol-index.js";
+import { getWatcherStatus, onRepositoryChange, startWatching, stopWatching } from "../parsers/index-watcher.js";
+import { toPosix } from "../utils/module-resolver.js";
+import { loadProjectConfig } from "../utils/project-config.js";
+
+// Larger files are not served; agents should read them in parts with their own tools
+const MAX_FILE_BYTES = 1_000_000;
+
+const TEXT_MIME_TYPES: Record<string, string> = {
+    ".json": "application/json",
+    ".md": "text/markdown",
+    ".html": "text/html",
+    ".css": "text/css",
+    ".js": "text/javascript",
+    ".mjs": "text/javascript",
+    ".cjs": "text/javascript",
+    ".ts": "text/x-typescript",
+    ".tsx": "text/x-typescript",
+    ".py": "text/x-python",
+    ".go": "text/x-go",
+    ".java": "text/x-java",
+    ".yaml": "text/yaml",
+    ".yml": "text/yaml",
+};
+
+export interface RepoResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface RepoResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    description: string;
+    mimeType?: string;
+}
+
+export type ResourceContents =
+    | { uri: string; mimeType: string; text: string }
+    | { uri: string; mimeType: string; blob: string };
+
+type ParsedUri =
+    | { root: string; kind: "structure" | "security-report" }
+    | { root: string; kind: "file" | "symbols"; file: string };
+
+// ============================================
+// URIs
+// ============================================
+
+function repoUri(root: string, kind: "structure" | "security-report"): string {
+    return `repo://${encodeURIComponent(root)}/${kind}`;
+}
+
+function parseUri(uri: string): ParsedUri {
+    const match = /^repo:\/\/([^/]+)\/(structure|security-report|file|symbols)(?:\/(.+))?$/.exec(uri);
+    if (!match) throw new Error(`Unknown resource: ${uri}`);
+
+    let root: string;
+    let file: string | undefined;
+    try {
+        root = path.resolve(decodeURIComponent(match[1]));
+        file = match[3] === undefined ? undefined : decodeURIComponent(match[3]);
+    } catch {
+        throw new Error(`Malformed resource URI: ${uri}`);
+    }
+
+    const kind = match[2] as ParsedUri["kind"];
+    if (kind === "structure" || kind === "security-report") {
+        if (file !== undefined) throw new Error(`Unknown resource: ${uri}`);
+        return { root, kind };
+    }
+    if (file === undefined) throw new Error(`Resource ${uri} needs a file path`);
+
+    // The path must stay inside the repository
+    const relative = path.relative(root, path.resolve(root, file));
+    if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) {
+        throw new Error(`Path escapes the repository: ${file}`);
+    }
+    return { root, kind, file: toPosix(relative) };
+}
+
+// ============================================
+// List and Read
+// ============================================
+
+/**
+ * The fixed resources of each known repository; files are reached through the templates.
+ */
+export function listRepoResources(roots: string[]): RepoResource[] {
+    return [...new Set(roots.map(root => path.resolve(root)))].flatMap(root => [
+        {
+            uri: repoUri(root, "structure"),
+            name: `${path.basename(root)} structure`,
+            description: `File tree of ${root}`,
+            mimeType: "text/plain",
+        },
+        {
+            uri: repoUri(root, "security-report"),
+            name: `${path.basename(root)} security report`,
+            description: `Threat scan of ${root}`,
+            mimeType: "application/json",
+        },
+    ]);
+}
+
+export function listRepoResourceTemplates(): RepoResourceTemplate[] {
+    return [
+        {
+            uriTemplate: "repo://{root}/structure",
+            name: "Repository structure",
+            description: "File tree of a repository; {root} is its URL-encoded absolute path",
+            mimeType: "text/plain",
+        },
+        {
+            uriTemplate: "repo://{root}/file/{+path}",
+            name: "Repository file",
+            description: "Contents of a file, by its path relative to the repository root",
+        },
+        {
+            uriTemplate: "repo://{root}/symbols/{+path}",
+            name: "File symbols",
+            description: "Declarations, imports and exports of a source file, from the symbol index",
+            mimeType: "application/json",
+        },
+        {
+            uriTemplate: "repo://{root}/security-report",
+            name: "Security report",
+            description: "Regex threat scan of the whole repository, as returned by scan_repo_for_threats",
+            mimeType: "application/json",
+        },
+    ];
+}
+
+export async function readRepoResource(uri: string): Promise<ResourceContents> {
+    const resource = parseUri(uri);
+    try {
+        if (!(await fs.stat(resource.root)).isDirectory()) throw new Error();
+    } catch {
+        throw new Error(`Invalid repository path: ${resource.root}`);
+    }
+
+    switch (resource.kind) {
+        case "structure":
+            return { uri, mimeType: "text/plain", text: (await getRepoStructure(resource.root, "tree")).visualization! };
+        case "security-report": {
+            const report = await scanRepoForThreats(resource.root);
+            return { uri, mimeType: "application/json", text: JSON.stringify(report, null, 2) };
+        }
+        case "symbols":
+            return { uri, mimeType: "application/json", text: JSON.stringify(await readSymbols(resource.root, resource.file), null, 2) };
+        case "file":
+            return readFileResource(uri, resource.root, resource.file);
+    }
+}
+
+async function readSymbols(root: string, file: string) {
+    // The index analyses the extensions .project-scope.json maps too
+    const { languages } = await loadProjectConfig(root);
+    if (!isIndexable(file, languages)) throw new Error(`No symbols are indexed for this file type: ${file}`);
+    const entry = (await getSymbolIndex(root)).get(file);
+    if (!entry) throw new Error(`File not found: ${file}`);
+
+    const { language, symbols, imports, exports, error } = entry;
+    return { file, language, symbols, imports, exports, ...(error && { error }) };
+}
+
+async function readFileResource(uri: string, root: string, file: string): Promise<ResourceContents> {
+    const fullPath = path.join(root, file);
+    let stat;
+    try {
+        stat = await fs.stat(fullPath);
+    } catch {
+        throw new Error(`File not found: ${file}`);
+    }
+    if (!stat.isFile()) throw new Error(`Not a file: ${file}`);
+    if (stat.size > MAX_FILE_BYTES) throw new Error(`File is too large to serve as a resource (${stat.size} bytes): ${file}`);
+
+    const content = await fs.readFile(fullPath);
+    // A NUL byte early on is the usual sign of a binary file
+    if (content.subarray(0, 8000).includes(0)) {
+        return { uri, mimeType: "application/octet-stream", blob: content.toString("base64") };
+    }
+    return { uri, mimeType: TEXT_MIME_TYPES[path.extname(file).toLowerCase()] ?? "text/plain", text: content.toString("utf-8") };
+}
+
+// ============================================
+// Subscriptions
+// ============================================
+
+// Called with the URI of a subscribed resource whose files changed
+export type ResourceListener = (uri: string) => void;
+
+interface RootSubscriptions {
+    // The URIs each subscriber (one per client session) is subscribed to
+    subscribers: Map<ResourceListener, Set<string>>;
+    stopListening: () => void;
+    // The watcher was started for these subscriptions and stops with the last of them
+    ownsWatcher: boolean;
+}
+
+const subscriptions = new Map<string, RootSubscriptions>();
+
+/**
+ * Call `notify` with the URI whenever the files behind a resource change. The repository is
+ * watched while it has subscriptions, unless watch_repo already watches it.
+ */
+export async function subscribeRepoResource(uri: string, notify: ResourceListener): Promise<void> {
+    const { root } = parseUri(uri);
+    let entry = subscriptions.get(root);
+
+    if (!entry) {
+        const ownsWatcher = !getWatcherStatus(root).watching;
+        if (ownsWatcher) await startWatching(root);
+
+        const subscribers = new Map<ResourceListener, Set<string>>();
+        const stopListening = onRepositoryChange(root, changed => {
+            for (const [listener, uris] of subscribers) {
+                for (const subscribed of uris) {
+                    if (isAffected(parseUri(subscribed), changed)) listener(subscribed);
+                }
+            }
+        });
+        entry = { subscribers, stopListening, ownsWatcher };
+        subscriptions.set(root, entry);
+    }
+
+    const uris = entry.subscribers.get(notify) ?? new Set<string>();
+    uris.add(uri);
+    entry.subscribers.set(notify, uris);
+}
+
+export function unsubscribeRepoResource(uri: string, notify: ResourceListener): void {
+    const { root } = parseUri(uri);
+    const entry = subscriptions.get(root);
+    const uris = entry?.subscribers.get(notify);
+    if (!entry || !uris) return;
+
+    uris.delete(uri);
+    if (uris.size === 0) entry.subscribers.delete(notify);
+    if (entry.subscribers.size > 0) return;
+    entry.stopListening();
+    if (entry.ownsWatcher) stopWatching(root);
+    subscriptions.delete(root);
+}
+
+/**
+ * Drop every subscription of a subscriber, e.g. when its client disconnects.
+ */
+export function unsubscribeAllRepoResources(notify: ResourceListener): void {
+    for (const entry of [...subscriptions.values()]) {
+        for (const uri of [...entry.subscribers.get(notify) ?? []]) {
+            unsubscribeRepoResource(uri, notify);
+        }
+    }
+}
+
+function isAffected(resource: ParsedUri, changed: string[]): boolean {
+    // The tree and the report cover every file
+    if (!("file" in resource)) return true;
+    // A changed directory may be the file's deleted or renamed parent
+    const { file } = resource;
+    return changed.some(change => change === file || file.startsWith(`${change}/`));
+}
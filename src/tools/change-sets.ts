@@ -0,0 +1,149 @@
+import { randomUUID } from "crypto";
+import { FileEdit } from "../utils/workspace-edit.js";
+import { FileChange } from "./refactoring-tools.js";
+import { applyWithHistory } from "./refactor-history.js";
+
+// How long a preview can be applied for
+const CHANGE_SET_TTL_MS = 30 * 60 * 1000;
+const MAX_CHANGE_SETS = 100;
+
+export interface ChangeSet {
+    id: string;
+    repoPath: string;
+    // Tool that produced the preview, e.g. "refactor_rename"
+    tool: string;
+    summary: string;
+    changes: FileChange[];
+    edits: FileEdit[];
+    createdAt: number;
+    expiresAt: number;
+}
+
+export interface ApplyChangeSetResult {
+    changeSetId: string;
+    filesWritten: string[];
+    filesCreated: string[];
+    historyId?: string;
+    visualization: string;
+}
+
+// Previews computed by this server process, keyed by id
+const changeSets = new Map<string, ChangeSet>();
+
+function pruneExpired(now = Date.now()) {
+    for (const [id, changeSet] of changeSets) {
+        if (changeSet.expiresAt <= now) changeSets.delete(id);
+    }
+}
+
+/**
+ * Store the edits of a refactoring preview so they can later be applied exactly as previewed.
+ */
+export function createChangeSet(repoPath: string, tool: string, summary: string, changes: FileChange[], edits: FileEdit[]): string {
+    pruneExpired();
+
+    // Drop the oldest previews once the store is full (Map keeps insertion order)
+    while (changeSets.size >= MAX_CHANGE_SETS) {
+        changeSets.delete(changeSets.keys().next().value!);
+    }
+
+    const now = Date.now();
+    const changeSet: ChangeSet = {
+        id: randomUUID(),
+        repoPath,
+        tool,
+        summary,
+        changes,
+        edits,
+        createdAt: now,
+        expiresAt: now + CHANGE_SET_TTL_MS,
+    };
+    changeSets.set(changeSet.id, changeSet);
+    return changeSet.id;
+}
+
+export function getChangeSet(changeSetId: string): ChangeSet {
+    const changeSet = changeSets.get(changeSetId);
+    if (!changeSet) {
+        throw new Error(`Unknown change set: ${changeSetId}. It may have expired or been applied already.`);
+    }
+    if (changeSet.expiresAt <= Date.now()) {
+        changeSets.delete(changeSetId);
+        throw new Error(`Change set ${changeSetId} has expired. Run the refactoring again to get a fresh preview.`);
+    }
+    return changeSet;
+}
+
+// ============================================
+// TOOL: Apply Change Set
+// ============================================
+
+/**
+ * Apply a stored preview. Fails without writing anything if any of its files changed since the preview.
+ */
+export async function applyChangeSet(changeSetId: string): Promise<ApplyChangeSetResult> {
+    const changeSet = getChangeSet(changeSetId);
+    const result = await applyWithHistory(changeSet.repoPath, changeSet.tool, changeSet.summary, changeSet.edits);
+    changeSets.delete(changeSetId);
+
+    let viz = "\n APPLY CHANGE SET\n";
+    viz += "-".repeat(50) + "\n\n";
+    viz += `Change set: ${changeSet.id}\n`;
+    viz += `Tool: ${changeSet.tool}\n`;
+    viz += `Summary: ${changeSet.summary}\n`;
+    viz += "Status: [APPLIED]\n\n";
+    for (const file of result.filesWritten) {
+        viz += `   ~ ${file}\n`;
+    }
+    for (const file of result.filesCreated) {
+        viz += `   + ${file}\n`;
+    }
+    if (result.historyId) {
+        viz += `\nHistory entry: ${result.historyId} (revert with refactor_undo)\n`;
+    }
+
+    return {
+        changeSetId,
+        filesWritten: result.filesWritten,
+        filesCreated: result.filesCreated,
+        historyId: result.historyId,
+        visualization: viz,
+    };
+}
+
+// ============================================
+// TOOL: List Change Sets
+// ============================================
+
+export function listChangeSets(repoPath?: string): { changeSets: ChangeSet[]; visualization: string } {
+    pruneExpired();
+    const now = Date.now();
+    const pending = [...changeSets.values()].filter(cs => !repoPath || cs.repoPath === repoPath);
+
+    let viz = "\n PENDING CHANGE SETS\n";
+    viz += "-".repeat(50) + "\n\n";
+    if (pending.length === 0) {
+        viz += "No pending change sets.\n";
+    }
+    for (const changeSet of pending) {
+        const files = new Set(changeSet.edits.map(e => e.filePath));
+        const minutesLeft = Math.ceil((changeSet.expiresAt - now) / 60000);
+        viz += `${changeSet.id}\n`;
+        viz += `   ${changeSet.tool}: ${changeSet.summary}\n`;
+        viz += `   ${files.size} files, expires in ${minutesLeft} min\n\n`;
+    }
+
+    return { changeSets: pending, visualization: viz };
+}
+
+// ============================================
+// TOOL: Discard Change Set
+// ============================================
+
+export function discardChangeSet(changeSetId: string): { discarded: boolean; visualization: string } {
+    const discarded = changeSets.delete(changeSetId);
+    const visualization = discarded
+        ? `Discarded change set ${changeSetId}\n`
+        : `No pending change set ${changeSetId}\n`;
+    return { discarded, visualization };
+}
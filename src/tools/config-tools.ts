@@ -0,0 +1,111 @@
+import * as path from "path";
+import { DEFAULT_IGNORE_PATTERNS, IGNORE_FILES } from "../utils/ignore-rules.js";
+import { EXTENSION_LANGUAGES, SupportedLanguage } from "../utils/language-detector.js";
+import { loadProjectConfig, ProjectConfig, SecuritySuppression } from "../utils/project-config.js";
+import { DEFAULT_TEST_GLOBS } from "./dead-code.js";
+import { SCAN_DEFAULTS, SCAN_SKIPPED_FILES } from "./security-tools.js";
+
+export interface EffectiveConfig {
+    root: string;
+    // The .project-scope.json the settings came from, null when the repository has none
+    configFile: string | null;
+    ignore: {
+        // Skipped by every tool, whatever the ignore files say
+        defaults: string[];
+        // Skipped by scan_repo_for_threats only
+        securityScan: string[];
+        // Read in every directory, as well as .git/info/exclude and git's global excludes file
+        ignoreFiles: string[];
+        // The project's own globs, applied after the ignore files
+        project: string[];
+    };
+    include: string[];
+    // Every extension the tools analyse, the project's overrides included
+    languages: Record<string, SupportedLanguage>;
+    languageOverrides: Record<string, SupportedLanguage>;
+    deadCode: {
+        entryPoints: string[];
+        testGlobs: string[];
+    };
+    security: {
+        mode: "strict" | "advisory";
+        sensitivity: "high" | "medium" | "low";
+        allowlist: ProjectConfig["security"]["allowlist"];
+        suppress: SecuritySuppression[];
+    };
+}
+
+// ============================================
+// TOOL: Effective Configuration
+// ============================================
+
+/**
+ * The settings the tools use for a repository: its .project-scope.json merged with the built-in
+ * defaults. Arguments of an individual tool call can still override them.
+ */
+export async function getEffectiveConfig(repoPath: string): Promise<EffectiveConfig & { visualization: string }> {
+    const root = path.resolve(repoPath);
+    const config = await loadProjectConfig(root);
+
+    const effective: EffectiveConfig = {
+        root,
+        configFile: config.file,
+        ignore: { defaults: DEFAULT_IGNORE_PATTERNS, securityScan: SCAN_SKIPPED_FILES, ignoreFiles: IGNORE_FILES, project: config.ignore },
+        include: config.include,
+        languages: { ...EXTENSION_LANGUAGES, ...config.languages },
+        languageOverrides: config.languages,
+        deadCode: {
+            entryPoints: config.deadCode.entryPoints,
+            testGlobs: config.deadCode.testGlobs ?? DEFAULT_TEST_GLOBS,
+        },
+        security: {
+            mode: config.security.mode ?? SCAN_DEFAULTS.mode,
+            sensitivity: config.security.sensitivity ?? SCAN_DEFAULTS.sensitivity,
+            allowlist: config.security.allowlist,
+            suppress: config.security.suppress,
+        },
+    };
+    return { ...effective, visualization: createConfigVisualization(effective) };
+}
+
+function createConfigVisualization(config: EffectiveConfig): string {
+    let viz = "\n EFFECTIVE CONFIG\n";
+    viz += "-".repeat(50) + "\n\n";
+    viz += `Repository: ${config.root}\n`;
+    viz += `Config file: ${config.configFile ?? "none (built-in defaults)"}\n`;
+
+    viz += "\nIgnored:\n";
+    viz += `   defaults: ${config.ignore.defaults.length} patterns (node_modules, .git, dist, ...)\n`;
+    viz += `   security scan only: ${config.ignore.securityScan.join(", ")}\n`;
+    viz += `   ignore files: ${config.ignore.ignoreFiles.join(", ")}\n`;
+    viz += listPatterns("project", config.ignore.project);
+    viz += `\nIncluded: ${config.include.length > 0 ? config.include.join(", ") : "every file not ignored"}\n`;
+
+    const overrides = Object.entries(config.languageOverrides);
+    viz += `\nLanguage overrides: ${overrides.length > 0 ? overrides.map(([ext, language]) => `${ext} -> ${language}`).join(", ") : "none"}\n`;
+
+    viz += "\nDead code:\n";
+    viz += listPatterns("entry points", config.deadCode.entryPoints);
+    viz += listPatterns("test globs", config.deadCode.testGlobs);
+
+    viz += "\nSecurity:\n";
+    viz += `   mode: ${config.security.mode}, sensitivity: ${config.security.sensitivity}\n`;
+    for (const [kind, entries] of Object.entries(config.security.allowlist)) {
+        if (entries.length > 0) viz += `   allowed ${kind}: ${entries.join(", ")}\n`;
+    }
+    viz += `   suppressions: ${config.security.suppress.length}\n`;
+    for (const rule of config.security.suppress) {
+        const scope = [
+            rule.type,
+            rule.files && `in ${rule.files.join(", ")}`,
+            rule.line && `line ${rule.line}`,
+            rule.pattern && `matching /${rule.pattern}/`,
+        ].filter(Boolean).join(" ");
+        viz += `      - ${scope}${rule.reason ? ` (${rule.reason})` : ""}\n`;
+    }
+    return viz;
+}
+
+function listPatterns(title: string, patterns: string[]): string {
+    return `   ${title}: ${patterns.length > 0 ? patterns.join(", ") : "none"}\n`;
+}
@@ -0,0 +1,730 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import pkg from "fast-glob";
+const { glob } = pkg;
+import Parser from "tree-sitter";
+import { buildModuleGraph, ModuleEdge, ModuleGraph } from "../parsers/module-graph.js";
+import { Binding } from "../parsers/scope-resolver.js";
+import { getSymbolIndex, IndexedExport, SymbolIndex } from "../parsers/symbol-index.js";
+import { cachedWhileWatching } from "../parsers/index-watcher.js";
+import { ParsedFile, ParsedFileCache } from "../parsers/symbol-resolver.js";
+import {
+    findExportedDeclarations,
+    findProjectExports,
+    findReferences,
+    selectTypeScriptProject,
+    TsExport,
+    TypeScriptBackend,
+    TypeScriptProject,
+} from "../parsers/typescript-service.js";
+import { createResolverContext, resolveJsSpecifier, resolvePythonModule, ResolverContext } from "../utils/module-resolver.js";
+import { FileProgress, ProgressOptions } from "../utils/progress.js";
+import { loadProjectConfig } from "../utils/project-config.js";
+
+// Files that run without being imported, in addition to package.json entry points
+export const DEFAULT_TEST_GLOBS = [
+    "**/*.test.*",
+    "**/*.spec.*",
+    "**/__tests__/**",
+    "**/test/**",
+    "**/tests/**",
+    "**/test_*.py",
+    "**/*_test.py",
+    "**/conftest.py",
+];
+
+// Exports commonly consumed by frameworks or other packages; only used to filter results when no entry points are known
+const IGNORED_EXPORT_NAMES = ["default", "main", "init", "setup", "configure", "App", "index"];
+
+// Compiled output directories that package.json entry points usually point into
+const BUILD_DIRS = ["dist", "build", "lib", "out"];
+
+export interface FindDeadCodeParams {
+    repoPath: string;
+    // Engine for TypeScript files; "auto" uses the compiler API when the repository has a tsconfig.json
+    backend?: TypeScriptBackend;
+    // Extra entry point globs, on top of package.json main/bin/exports and those in .project-scope.json
+    entryPoints?: string[];
+    // Globs of test files, which count as entry points (default: .project-scope.json's, else common test file patterns)
+    testGlobs?: string[];
+    // Also report variables, functions and imports that are declared but never used
+    includeUnusedLocals?: boolean;
+    // Also report unused parameters after the last used one
+    includeUnusedParameters?: boolean;
+}
+
+export interface DeadSymbol {
+    file: string;
+    symbol: string;
+    line: number;
+}
+
+export interface DeadCodeResult {
+    // Unused JS/TS exports, top-level Python functions/classes, unexported Go identifiers and private Java members
+    deadExports: DeadSymbol[];
+    // Files no entry point reaches through imports; empty when no entry points are known
+    unreachableFiles: string[];
+    unusedLocals?: DeadSymbol[];
+    unusedParameters?: DeadSymbol[];
+    entryPoints: string[];
+    totalScanned: number;
+    // Engine that decided which exports are used
+    backend: "typescript" | "tree-sitter";
+    // Set when the analysis was stopped early; the lists are incomplete
+    cancelled?: boolean;
+    visualization: string;
+}
+
+// ============================================
+// TOOL: Find Dead Code
+// ============================================
+
+export async function findDeadCode(params: FindDeadCodeParams, progress: ProgressOptions = {}): Promise<DeadCodeResult> {
+    // While the repository is watched, the answer is reused until something in it changes
+    return cachedWhileWatching(params.repoPath, `find_dead_code:${JSON.stringify(params)}`, run => computeDeadCode(params, run), progress);
+}
+
+async function computeDeadCode(params: FindDeadCodeParams, options: ProgressOptions): Promise<DeadCodeResult> {
+    const {
+        repoPath,
+        backend = "auto",
+        includeUnusedLocals = false,
+        includeUnusedParameters = false,
+    } = params;
+    const { deadCode } = await loadProjectConfig(repoPath);
+    const entryGlobs = [...deadCode.entryPoints, ...(params.entryPoints ?? [])];
+    const testGlobs = params.testGlobs ?? deadCode.testGlobs ?? DEFAULT_TEST_GLOBS;
+
+    const graph = await buildModuleGraph(repoPath);
+    const index = await getSymbolIndex(repoPath);
+    const files = graph.files;
+    const otherFiles = index.files.filter(file => ["python", "go", "java"].includes(index.get(file)!.language));
+    const context = await createResolverContext(repoPath, [...files, ...otherFiles]);
+    const cache = new ParsedFileCache(repoPath);
+
+    // Everything an entry point imports, directly or transitively, is reachable. Tests alone
+    // don't tell what the package exposes, so they only count next to declared entry points.
+    const declaredEntries = await findEntryPoints(repoPath, files, context, entryGlobs);
+    const entryPoints = declaredEntries.length > 0
+        ? [...new Set([...declaredEntries, ...await matchFiles(repoPath, files, testGlobs)])].sort()
+        : [];
+    const reachable = entryPoints.length > 0 ? reachableFrom(graph, entryPoints) : new Set(files);
+    const unreachableFiles = files.filter(file => !reachable.has(file) && !file.endsWith(".d.ts"));
+
+    // Each pass below counts the files it goes through; a cancelled pass reports nothing it isn't sure of
+    const unusedScope = includeUnusedLocals || includeUnusedParameters
+        ? files.filter(file => reachable.has(file) && !file.endsWith(".d.ts"))
+        : [];
+    const progress = new FileProgress(options, files.length + otherFiles.length + unusedScope.length);
+
+    const project = await selectTypeScriptProject(repoPath, backend);
+    let deadExports = project
+        ? await findTypeScriptDeadExports(project, files, new Set(entryPoints), reachable, progress)
+        : await findDeadExports(graph, index, context, cache, new Set(entryPoints), reachable, progress);
+
+    // Without entry points, anything may be consumed from outside: drop the usual suspects
+    if (entryPoints.length === 0) {
+        deadExports = deadExports.filter(exp => !IGNORED_EXPORT_NAMES.includes(exp.symbol));
+    }
+
+    const testFiles = new Set(await matchFiles(repoPath, otherFiles, testGlobs));
+    deadExports.push(
+        ...await findPythonDeadCode(repoPath, otherFiles.filter(file => file.endsWith(".py")), testFiles, context, cache, progress),
+        ...await findGoDeadCode(otherFiles.filter(file => file.endsWith(".go")), cache, progress),
+        ...await findJavaDeadCode(otherFiles.filter(file => file.endsWith(".java")), cache, progress),
+    );
+    deadExports.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+    let unusedLocals: DeadSymbol[] | undefined;
+    let unusedParameters: DeadSymbol[] | undefined;
+    if (includeUnusedLocals || includeUnusedParameters) {
+        const unused = await findUnusedBindings(unusedScope, cache, progress);
+        if (includeUnusedLocals) unusedLocals = unused.locals;
+        if (includeUnusedParameters) unusedParameters = unused.parameters;
+    }
+
+    const result = {
+        deadExports,
+        unreachableFiles,
+        unusedLocals,
+        unusedParameters,
+        entryPoints,
+        totalScanned: files.length + otherFiles.length,
+        backend: project ? "typescript" as const : "tree-sitter" as const,
+        ...(progress.cancelled && { cancelled: true }),
+    };
+    return { ...result, visualization: createDeadCodeVisualization(result) };
+}
+
+// ============================================
+// Entry Points
+// ============================================
+
+/**
+ * Entry points declared in package.json (`main`, `bin`, `exports`) plus files matching `globs`.
+ * Paths into build output (`dist/index.js`) are mapped back to their sources (`src/index.ts`).
+ */
+async function findEntryPoints(repoPath: string, files: string[], context: ResolverContext, globs: string[]): Promise<string[]> {
+    const entries = new Set<string>();
+
+    let manifest: { main?: unknown; bin?: unknown; exports?: unknown; module?: unknown } = {};
+    try {
+        manifest = JSON.parse(await fs.readFile(path.join(repoPath, "package.json"), "utf-8"));
+    } catch {
+        // No package.json: only the globs apply
+    }
+
+    const targets: string[] = [];
+    collectStrings(manifest.main, targets);
+    collectStrings(manifest.module, targets);
+    collectStrings(manifest.bin, targets);
+    collectStrings(manifest.exports, targets);
+
+    for (const target of targets) {
+        const resolved = resolvePackageTarget(target, context);
+        if (resolved) entries.add(resolved);
+    }
+
+    for (const match of await matchFiles(repoPath, files, globs)) {
+        entries.add(match);
+    }
+
+    return [...entries].sort();
+}
+
+async function matchFiles(repoPath: string, files: string[], globs: string[]): Promise<string[]> {
+    if (globs.length === 0) return [];
+    const fileSet = new Set(files);
+    const matches = await glob(globs, { cwd: repoPath, ignore: ["**/node_modules/**", "**/.git/**"] });
+    return matches.filter(match => fileSet.has(match));
+}
+
+// String leaves of a package.json field (`exports` nests conditions and subpaths)
+function collectStrings(value: unknown, out: string[]) {
+    if (typeof value === "string") {
+        out.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectStrings(item, out));
+    } else if (value && typeof value === "object") {
+        Object.values(value).forEach(item => collectStrings(item, out));
+    }
+}
+
+function resolvePackageTarget(target: string, context: ResolverContext): string | null {
+    if (target.includes("*")) return null;
+    const relative = target.replace(/^\.\//, "");
+
+    const candidates = [relative];
+    const [first, ...rest] = relative.split("/");
+    if (BUILD_DIRS.includes(first) && rest.length > 0) {
+        candidates.push(["src", ...rest].join("/"), rest.join("/"));
+    }
+
+    for (const candidate of candidates) {
+        // A declaration file stands for the module next to it
+        const resolved = resolveJsSpecifier("package.json", "./" + candidate.replace(/\.d\.(m|c)?ts$/, ".js"), context);
+        if (resolved) return resolved;
+    }
+    return null;
+}
+
+function reachableFrom(graph: ModuleGraph, entryPoints: string[]): Set<string> {
+    const reachable = new Set(entryPoints);
+    const queue = [...entryPoints];
+    while (queue.length > 0) {
+        for (const edge of graph.importsOf(queue.shift()!)) {
+            if (edge.to && !reachable.has(edge.to)) {
+                reachable.add(edge.to);
+                queue.push(edge.to);
+            }
+        }
+    }
+    return reachable;
+}
+
+// ============================================
+// Unused Exports
+// ============================================
+
+/**
+ * Exports of reachable modules that no reachable module imports, keyed by (module, export name).
+ * Imports are followed through `export ... from` and `export * from`, and namespace imports
+ * only use the members accessed on them.
+ */
+async function findDeadExports(
+    graph: ModuleGraph,
+    index: SymbolIndex,
+    context: ResolverContext,
+    cache: ParsedFileCache,
+    entryPoints: Set<string>,
+    reachable: Set<string>,
+    progress: FileProgress
+): Promise<DeadSymbol[]> {
+    const exportsOf = new Map<string, IndexedExport[]>();
+    for (const file of graph.files) {
+        exportsOf.set(file, index.get(file)?.exports ?? []);
+    }
+
+    const used = new Set<string>();
+    const visited = new Set<string>();
+
+    // Mark `name` of `file` as used and follow it to the module that declares it
+    function use(file: string | null, name: string) {
+        if (!file || visited.has(`${file}\0${name}`)) return;
+        visited.add(`${file}\0${name}`);
+        const entries = exportsOf.get(file) ?? [];
+        const resolveSource = (entry: IndexedExport) => resolveJsSpecifier(file, entry.source!, context);
+
+        if (name === "*") {
+            for (const entry of entries) {
+                if (entry.exportedName === "*") use(resolveSource(entry), "*");
+                else use(file, entry.exportedName);
+            }
+            return;
+        }
+
+        const explicit = entries.filter(entry => entry.exportedName === name);
+        for (const entry of explicit) {
+            used.add(`${file}\0${name}`);
+            if (entry.source !== undefined) use(resolveSource(entry), entry.importedName!);
+        }
+        // `export * from` forwards every name except the default export
+        if (explicit.length === 0 && name !== "default") {
+            for (const entry of entries) {
+                if (entry.exportedName === "*") use(resolveSource(entry), name);
+            }
+        }
+    }
+
+    for (const entry of entryPoints) {
+        use(entry, "*");
+    }
+    for (const file of graph.files) {
+        // Without every importer, any export may look unused
+        if (progress.cancelled) return [];
+        progress.advance(file);
+        if (!reachable.has(file)) continue;
+
+        for (const edge of graph.importsOf(file)) {
+            if (!edge.to) continue;
+            // Only namespace imports need the importer's syntax tree
+            const importer = edge.kind !== "export" && edge.names.includes("*") ? await cache.get(file) : null;
+            for (const name of importedNames(edge, importer)) {
+                use(edge.to, name);
+            }
+        }
+    }
+
+    const dead: DeadSymbol[] = [];
+    for (const file of graph.files) {
+        if (!reachable.has(file) || entryPoints.has(file)) continue;
+        for (const entry of exportsOf.get(file)!) {
+            // Re-exports are reported in the module that declares them
+            if (entry.source !== undefined || used.has(`${file}\0${entry.exportedName}`)) continue;
+            dead.push({ file, symbol: entry.exportedName, line: entry.line });
+        }
+    }
+    return dead;
+}
+
+// Export names an import edge uses; `import * as ns` only uses the members read from `ns`
+function importedNames(edge: ModuleEdge, importer: ParsedFile | null): string[] {
+    // Re-exports only use what their own importers use
+    if (edge.kind === "export") return [];
+    if (!edge.names.includes("*")) return edge.names;
+    if (edge.kind === "dynamic-import" || !importer) return ["*"];
+
+    const names = edge.names.filter(name => name !== "*");
+    const namespaces = importer.analysis.bindings.filter(binding =>
+        binding.importedFrom?.importedName === "*" && binding.importedFrom.source === edge.specifier
+    );
+    // `import "./polyfill"` runs the module without using its exports
+    if (namespaces.length === 0) return edge.kind === "import" ? names : ["*"];
+
+    for (const namespace of namespaces) {
+        const accesses = importer.analysis.memberAccesses.filter(access => access.binding === namespace);
+        // The namespace object itself escapes: every export may be used
+        if (usages(namespace).length > accesses.length) return ["*"];
+        names.push(...accesses.map(access => access.property.text));
+    }
+    return names;
+}
+
+// An export is dead when no reachable module outside its own reads it, following re-exports and aliases
+async function findTypeScriptDeadExports(
+    project: TypeScriptProject,
+    files: string[],
+    entryPoints: Set<string>,
+    reachable: Set<string>,
+    progress: FileProgress
+): Promise<DeadSymbol[]> {
+    const publicApi = findExportedDeclarations(project, [...entryPoints]);
+    const candidates = new Map<string, TsExport[]>();
+    for (const exp of findProjectExports(project)) {
+        if (!reachable.has(exp.file) || entryPoints.has(exp.file) || publicApi.has(`${exp.file}:${exp.position}`)) continue;
+        if (!candidates.has(exp.file)) candidates.set(exp.file, []);
+        candidates.get(exp.file)!.push(exp);
+    }
+
+    const dead: DeadSymbol[] = [];
+    for (const file of files) {
+        if (progress.cancelled) break;
+        progress.advance(file);
+        for (const exp of candidates.get(file) ?? []) {
+            const used = findReferences(project, exp.file, exp.position).some(ref =>
+                ref.file !== exp.file && !ref.isDefinition && reachable.has(ref.file)
+            );
+            if (!used) dead.push({ file: exp.file, symbol: exp.symbol, line: exp.line });
+        }
+        // The language service is synchronous; let a cancellation arrive between files
+        await new Promise(resolve => setImmediate(resolve));
+    }
+    return dead;
+}
+
+// ============================================
+// Python, Go and Java
+// ============================================
+
+/**
+ * Top-level Python functions and classes that neither their own module nor any importer uses.
+ * Names listed in `__all__`, decorated definitions (often registered by a framework) and
+ * definitions in test files are treated as used.
+ */
+async function findPythonDeadCode(
+    repoPath: string,
+    files: string[],
+    testFiles: Set<string>,
+    context: ResolverContext,
+    cache: ParsedFileCache,
+    progress: FileProgress
+): Promise<DeadSymbol[]> {
+    const used = new Set<string>();
+    const visited = new Set<string>();
+
+    // Mark `name` of `module` as used, following `from x import name` re-exports; "*" marks every public name
+    async function use(module: string | null, name: string) {
+        if (!module || visited.has(`${module}\0${name}`)) return;
+        visited.add(`${module}\0${name}`);
+        const parsed = await cache.get(module);
+        if (!parsed) return;
+
+        if (name === "*") {
+            const names = pythonAll(parsed) ?? [...parsed.analysis.root.bindings.keys()].filter(n => !n.startsWith("_"));
+            for (const exported of names) await use(module, exported);
+            return;
+        }
+
+        used.add(`${module}\0${name}`);
+        const from = parsed.analysis.root.bindings.get(name)?.importedFrom;
+        if (from && from.importedName !== "*") {
+            await use(resolvePythonModule(module, from.source, context), from.importedName);
+        }
+    }
+
+    for (const file of files) {
+        // Uses found so far would leave the rest looking dead
+        if (progress.cancelled) return [];
+        progress.advance(file);
+        const parsed = await cache.get(file);
+        if (!parsed) continue;
+        const { analysis } = parsed;
+
+        for (const binding of analysis.bindings) {
+            const from = binding.importedFrom;
+            if (!from) continue;
+
+            // `import pkg.mod` binds `pkg`; its attributes are matched on the dotted path
+            const accessed = analysis.memberAccesses
+                .filter(access => access.binding === binding || (from.importedName === "*" && access.object.text === from.source))
+                .map(access => access.property.text);
+
+            if (from.importedName === "*") {
+                const module = resolvePythonModule(file, from.source, context);
+                for (const name of accessed) await use(module, name);
+                continue;
+            }
+
+            await use(resolvePythonModule(file, from.source, context), from.importedName);
+            // `from pkg import mod` may name a submodule, used through attribute access
+            const submodule = resolvePythonModule(file, from.source.endsWith(".") ? from.source + from.importedName : `${from.source}.${from.importedName}`, context);
+            for (const name of accessed) await use(submodule, name);
+        }
+
+        for (const statement of parsed.tree.rootNode.descendantsOfType("import_from_statement")) {
+            if (!statement.namedChildren.some(child => child.type === "wildcard_import")) continue;
+            const moduleName = statement.childForFieldName("module_name")?.text;
+            if (moduleName) await use(resolvePythonModule(file, moduleName, context), "*");
+        }
+    }
+
+    // Console scripts and other `module:function` entry points in packaging metadata
+    for (const config of ["pyproject.toml", "setup.cfg", "setup.py"]) {
+        let text: string;
+        try {
+            text = await fs.readFile(path.join(repoPath, config), "utf-8");
+        } catch {
+            continue;
+        }
+        for (const match of text.matchAll(/([A-Za-z_][\w.]*):([A-Za-z_]\w*)/g)) {
+            await use(resolvePythonModule(config, match[1], context), match[2]);
+        }
+    }
+
+    const dead: DeadSymbol[] = [];
+    for (const file of files) {
+        const parsed = await cache.get(file);
+        if (!parsed || testFiles.has(file)) continue;
+        const publicNames = new Set(pythonAll(parsed) ?? []);
+
+        for (const binding of parsed.analysis.root.bindings.values()) {
+            if (binding.kind !== "function" && binding.kind !== "class") continue;
+            if (/^__\w+__$/.test(binding.name) || publicNames.has(binding.name)) continue;
+            if (binding.declarations[0]?.parent?.parent?.type === "decorated_definition") continue;
+            if (usages(binding).length > 0 || used.has(`${file}\0${binding.name}`)) continue;
+            dead.push(toDeadSymbol(file, binding));
+        }
+    }
+    return dead;
+}
+
+// Names listed in the module's `__all__`, or null when it has none
+function pythonAll(parsed: ParsedFile): string[] | null {
+    const listed = parsed.analysis.exports.filter(entry => entry.node?.type === "string_content");
+    return listed.length > 0 ? listed.map(entry => entry.exportedName) : null;
+}
+
+/**
+ * Unexported package-level Go identifiers that no file of the same package references.
+ * Methods are skipped, since they may satisfy an interface.
+ */
+async function findGoDeadCode(files: string[], cache: ParsedFileCache, progress: FileProgress): Promise<DeadSymbol[]> {
+    // Names referenced from other files of each package directory
+    const referencedIn = new Map<string, Map<string, Set<string>>>();
+    for (const file of files) {
+        if (progress.cancelled) return [];
+        progress.advance(file);
+        const parsed = await cache.get(file);
+        if (!parsed) continue;
+        const dir = path.posix.dirname(file);
+        if (!referencedIn.has(dir)) referencedIn.set(dir, new Map());
+        referencedIn.get(dir)!.set(file, new Set(parsed.analysis.unresolved.map(occurrence => occurrence.node.text)));
+    }
+
+    const dead: DeadSymbol[] = [];
+    for (const file of files) {
+        const parsed = await cache.get(file);
+        if (!parsed) continue;
+        const siblings = referencedIn.get(path.posix.dirname(file))!;
+
+        for (const binding of parsed.analysis.root.bindings.values()) {
+            if (binding.kind === "member" || binding.kind === "import" || !/^[a-z_]/.test(binding.name) || binding.name === "_") continue;
+            if (binding.kind === "function" && (binding.name === "main" || binding.name === "init")) continue;
+            if (usages(binding).length > 0) continue;
+            if ([...siblings].some(([other, names]) => other !== file && names.has(binding.name))) continue;
+            dead.push(toDeadSymbol(file, binding));
+        }
+    }
+    return dead;
+}
+
+// Private members the JVM calls reflectively during serialization
+const JAVA_SERIALIZATION_MEMBERS = new Set(["serialVersionUID", "writeObject", "readObject", "readObjectNoData", "writeReplace", "readResolve"]);
+
+/**
+ * Private Java methods and fields never used in their file. Annotated members are skipped,
+ * since frameworks invoke or inject them reflectively.
+ */
+async function findJavaDeadCode(files: string[], cache: ParsedFileCache, progress: FileProgress): Promise<DeadSymbol[]> {
+    const dead: DeadSymbol[] = [];
+    for (const file of files) {
+        if (progress.cancelled) break;
+        progress.advance(file);
+        const parsed = await cache.get(file);
+        if (!parsed) continue;
+        // `other.field` on another instance of the same class is not resolved to the binding
+        const accessedNames = new Set(parsed.analysis.memberAccesses.map(access => access.property.text));
+
+        for (const binding of parsed.analysis.bindings) {
+            if (binding.kind !== "member" || JAVA_SERIALIZATION_MEMBERS.has(binding.name)) continue;
+            const declaration = binding.declarations[0];
+            const member = declaration?.parent?.type === "variable_declarator" ? declaration.parent.parent : declaration?.parent;
+            const modifiers = member?.namedChildren.find(child => child.type === "modifiers");
+            if (!modifiers?.children.some(child => child.type === "private")) continue;
+            if (modifiers.namedChildren.some(child => child.type === "annotation" || child.type === "marker_annotation")) continue;
+            if (usages(binding).length > 0 || accessedNames.has(binding.name)) continue;
+            dead.push(toDeadSymbol(file, binding));
+        }
+    }
+    return dead;
+}
+
+// ============================================
+// Unused Locals and Parameters
+// ============================================
+
+// Occurrences other than the binding's own declarations
+function usages(binding: Binding): Parser.SyntaxNode[] {
+    const declarations = new Set(binding.declarations.map(node => node.id));
+    return binding.references.map(ref => ref.node).filter(node => !declarations.has(node.id));
+}
+
+async function findUnusedBindings(
+    files: string[],
+    cache: ParsedFileCache,
+    progress: FileProgress
+): Promise<{ locals: DeadSymbol[]; parameters: DeadSymbol[] }> {
+    const locals: DeadSymbol[] = [];
+    const parameters: DeadSymbol[] = [];
+
+    for (const file of files) {
+        if (progress.cancelled) break;
+        progress.advance(file);
+        const parsed = await cache.get(file);
+        if (!parsed) continue;
+        const { analysis } = parsed;
+        const exported = new Set(analysis.exports.map(entry => entry.localName));
+
+        // Parameter nodes with at least one used name
+        const usedParameters = new Set<number>();
+        const unusedParameters: { binding: Binding; parameter: Parser.SyntaxNode }[] = [];
+
+        for (const binding of analysis.bindings) {
+            const used = usages(binding).length > 0;
+            if (binding.kind === "parameter") {
+                const parameter = parameterNode(binding.declarations[0]);
+                if (!parameter) continue;
+                if (used) usedParameters.add(parameter.id);
+                // `_name` marks a binding as intentionally unused
+                else if (!binding.name.startsWith("_")) unusedParameters.push({ binding, parameter });
+                continue;
+            }
+
+            if (used || binding.name.startsWith("_") || binding.kind === "member") continue;
+            if (binding.scope === analysis.root && exported.has(binding.name)) continue;
+            if (!isIntentionallyUnused(binding)) locals.push(toDeadSymbol(file, binding));
+        }
+
+        for (const { binding, parameter } of unusedParameters) {
+            if (isRemovableParameter(parameter, usedParameters)) parameters.push(toDeadSymbol(file, binding));
+        }
+    }
+
+    return { locals, parameters };
+}
+
+function toDeadSymbol(file: string, binding: Binding): DeadSymbol {
+    return { file, symbol: binding.name, line: binding.declarations[0].startPosition.row + 1 };
+}
+
+// Catch parameters and names omitted from a rest destructuring (`const { a, ...rest } = x`) have to be declared
+function isIntentionallyUnused(binding: Binding): boolean {
+    const declaration = binding.declarations[0];
+    if (!declaration) return true;
+    if (ancestor(declaration, node => node.type === "catch_clause" || node.type === "except_clause", 3)) return true;
+
+    const pattern = ancestor(declaration, node => node.type === "object_pattern", 3);
+    return !!pattern && pattern.namedChildren.some(child => child.type === "rest_pattern");
+}
+
+const PARAMETER_LISTS = new Set(["formal_parameters", "parameters", "parameter_list"]);
+
+// The entry of the parameter list a parameter name is declared in (the name itself for `x => ...`)
+function parameterNode(name: Parser.SyntaxNode | undefined): Parser.SyntaxNode | null {
+    let current = name ?? null;
+    while (current?.parent) {
+        if (PARAMETER_LISTS.has(current.parent.type) || current.parent.type === "arrow_function") return current;
+        current = current.parent;
+    }
+    return null;
+}
+
+/**
+ * Only parameters after the last used one can be removed without changing call sites.
+ * Signatures without a body (overloads, interfaces, abstract methods) and TypeScript
+ * parameter properties are never reported.
+ */
+function isRemovableParameter(parameter: Parser.SyntaxNode, usedParameters: Set<number>): boolean {
+    const owner = PARAMETER_LISTS.has(parameter.parent!.type) ? parameter.parent!.parent : parameter.parent;
+    if (!owner?.childForFieldName("body")) return false;
+    if (parameter.children.some(child => ["accessibility_modifier", "override_modifier", "readonly"].includes(child.type))) {
+        return false;
+    }
+
+    // Node wrappers are not unique objects, so compare ids
+    const siblings = parameter.parent!.namedChildren;
+    const position = siblings.findIndex(sibling => sibling.id === parameter.id);
+    return !siblings.slice(position + 1).some(later => usedParameters.has(later.id));
+}
+
+function ancestor(node: Parser.SyntaxNode, test: (node: Parser.SyntaxNode) => boolean, maxDepth: number): Parser.SyntaxNode | null {
+    let current = node.parent;
+    for (let depth = 0; current && depth < maxDepth; depth++, current = current.parent) {
+        if (test(current)) return current;
+    }
+    return null;
+}
+
+// ============================================
+// Visualization
+// ============================================
+
+function createDeadCodeVisualization(result: Omit<DeadCodeResult, "visualization">): string {
+    let viz = "\n DEAD CODE ANALYSIS\n";
+    viz += "-".repeat(50) + "\n\n";
+    if (result.cancelled) viz += "[CANCELLED] Stopped early; the results below are incomplete.\n\n";
+    viz += `Files scanned: ${result.totalScanned}\n`;
+    viz += `Backend: ${result.backend}\n`;
+    viz += `Entry points: ${result.entryPoints.length > 0 ? result.entryPoints.length : "none found (reachability not checked)"}\n`;
+    viz += `Unreachable files: ${result.unreachableFiles.length}\n`;
+    viz += `Potentially unused symbols: ${result.deadExports.length}\n`;
+    if (result.unusedLocals) viz += `Unused locals: ${result.unusedLocals.length}\n`;
+    if (result.unusedParameters) viz += `Unused parameters: ${result.unusedParameters.length}\n`;
+    viz += "\n";
+
+    const total = result.unreachableFiles.length + result.deadExports.length +
+        (result.unusedLocals?.length ?? 0) + (result.unusedParameters?.length ?? 0);
+    if (total === 0) {
+        viz += "[Clean] No obviously dead code found.\n";
+        return viz;
+    }
+
+    if (result.unreachableFiles.length > 0) {
+        viz += "UNREACHABLE FILES:\n\n";
+        for (const file of result.unreachableFiles) {
+            viz += `   📄 ${file}\n`;
+        }
+        viz += "\n";
+    }
+
+    const sections: [string, DeadSymbol[] | undefined][] = [
+        ["POTENTIALLY UNUSED SYMBOLS", result.deadExports],
+        ["UNUSED LOCALS", result.unusedLocals],
+        ["UNUSED PARAMETERS", result.unusedParameters],
+    ];
+    for (const [title, symbols] of sections) {
+        if (!symbols || symbols.length === 0) continue;
+        viz += `${title}:\n\n`;
+
+        // Group by file
+        const byFile = new Map<string, DeadSymbol[]>();
+        for (const symbol of symbols) {
+            if (!byFile.has(symbol.file)) byFile.set(symbol.file, []);
+            byFile.get(symbol.file)!.push(symbol);
+        }
+
+        for (const [file, fileSymbols] of byFile) {
+            viz += `📄 ${file}\n`;
+            for (const sym of fileSymbols) {
+                viz += `   L${sym.line}: ${sym.symbol}\n`;
+            }
+            viz += "\n";
+        }
+    }
+
+    viz += "\n> [!NOTE]\n";
+    viz += "> These may be used dynamically or externally.\n";
+    viz += "> Review before removing.\n";
+
+    return viz;
+}
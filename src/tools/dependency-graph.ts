@@ -0,0 +1,216 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { buildModuleGraph, ModuleEdge, ModuleEdgeKind } from "../parsers/module-graph.js";
+import { toPosix } from "../utils/module-resolver.js";
+
+type GraphFormat = "json" | "dot" | "mermaid";
+type GraphDirection = "imports" | "importers" | "both";
+
+export interface DependencyGraphParams {
+    rootPath: string;
+    format?: GraphFormat;
+    // Restrict the graph to the neighbourhood of this file
+    filePath?: string;
+    depth?: number;
+    direction?: GraphDirection;
+    includeExternal?: boolean;
+}
+
+export interface DependencyNode {
+    id: string;
+    external: boolean;
+    imports: number;
+    importedBy: number;
+}
+
+export interface DependencyEdge {
+    from: string;
+    to: string;
+    specifier: string;
+    kind: ModuleEdgeKind;
+    typeOnly: boolean;
+    names: string[];
+    line: number;
+}
+
+export interface DependencyGraphResult {
+    root: string;
+    focus?: string;
+    nodes: DependencyNode[];
+    edges: DependencyEdge[];
+    // Only set when a file is focused
+    imports?: string[];
+    importers?: string[];
+    unresolved: { from: string; specifier: string; line: number }[];
+    // Graphviz or Mermaid source of the graph, for the 'dot' and 'mermaid' formats
+    visualization?: string;
+}
+
+export async function getDependencyGraph(params: DependencyGraphParams): Promise<DependencyGraphResult> {
+    const { rootPath, format = "json", filePath, depth = 1, direction = "both", includeExternal = false } = params;
+
+    try {
+        await fs.access(rootPath);
+    } catch {
+        throw new Error(`Path does not exist: ${rootPath}`);
+    }
+
+    const graph = await buildModuleGraph(rootPath);
+    const focus = filePath ? toPosix(path.isAbsolute(filePath) ? path.relative(rootPath, filePath) : filePath) : undefined;
+
+    if (focus && !graph.files.includes(focus)) {
+        throw new Error(`Not a JavaScript/TypeScript module in this repository: ${filePath}`);
+    }
+
+    // Pick the files to show
+    let selected: Set<string>;
+    if (focus) {
+        selected = new Set([focus]);
+        let frontier = [focus];
+        for (let level = 0; level < depth && frontier.length > 0; level++) {
+            const next: string[] = [];
+            for (const file of frontier) {
+                const neighbours: string[] = [];
+                if (direction !== "importers") {
+                    graph.importsOf(file).forEach(e => e.to && neighbours.push(e.to));
+                }
+                if (direction !== "imports") {
+                    graph.importersOf(file).forEach(e => neighbours.push(e.from));
+                }
+                for (const neighbour of neighbours) {
+                    if (!selected.has(neighbour)) {
+                        selected.add(neighbour);
+                        next.push(neighbour);
+                    }
+                }
+            }
+            frontier = next;
+        }
+    } else {
+        selected = new Set(graph.files);
+    }
+
+    const edges: DependencyEdge[] = [];
+    const unresolved: DependencyGraphResult["unresolved"] = [];
+    const externals = new Set<string>();
+
+    for (const edge of graph.edges) {
+        if (!selected.has(edge.from)) continue;
+
+        if (edge.to === null) {
+            if (edge.specifier.startsWith(".")) {
+                unresolved.push({ from: edge.from, specifier: edge.specifier, line: edge.line });
+            } else if (includeExternal) {
+                const packageName = toPackageName(edge.specifier);
+                externals.add(packageName);
+                edges.push(toDependencyEdge(edge, packageName));
+            }
+            continue;
+        }
+
+        if (selected.has(edge.to)) {
+            edges.push(toDependencyEdge(edge, edge.to));
+        }
+    }
+
+    const nodes: DependencyNode[] = [
+        ...[...selected].sort().map(id => ({ id, external: false, imports: 0, importedBy: 0 })),
+        ...[...externals].sort().map(id => ({ id, external: true, imports: 0, importedBy: 0 })),
+    ];
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    for (const edge of edges) {
+        byId.get(edge.from)!.imports++;
+        byId.get(edge.to)!.importedBy++;
+    }
+
+    const result: DependencyGraphResult = {
+        root: rootPath,
+        focus,
+        nodes,
+        edges,
+        unresolved,
+    };
+
+    if (focus) {
+        result.imports = unique(graph.importsOf(focus).map(e => e.to ?? e.specifier));
+        result.importers = unique(graph.importersOf(focus).map(e => e.from));
+    }
+
+    switch (format) {
+        case "dot":
+            return { ...result, visualization: formatAsDot(result) };
+        case "mermaid":
+            return { ...result, visualization: formatAsMermaid(result) };
+        case "json":
+        default:
+            return result;
+    }
+}
+
+function toDependencyEdge(edge: ModuleEdge, to: string): DependencyEdge {
+    return {
+        from: edge.from,
+        to,
+        specifier: edge.specifier,
+        kind: edge.kind,
+        typeOnly: edge.typeOnly,
+        names: edge.names,
+        line: edge.line,
+    };
+}
+
+function toPackageName(specifier: string): string {
+    const parts = specifier.split("/");
+    return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function unique(values: string[]): string[] {
+    return [...new Set(values)].sort();
+}
+
+function formatAsDot(result: DependencyGraphResult): string {
+    let output = "digraph dependencies {\n";
+    output += "  rankdir=LR;\n";
+    output += "  node [shape=box, fontname=\"monospace\"];\n\n";
+
+    for (const node of result.nodes) {
+        const attrs: string[] = [];
+        if (node.external) attrs.push("style=dashed");
+        if (node.id === result.focus) attrs.push("style=filled", "fillcolor=lightyellow");
+        output += `  ${JSON.stringify(node.id)}${attrs.length ? ` [${attrs.join(", ")}]` : ""};\n`;
+    }
+    output += "\n";
+
+    for (const edge of result.edges) {
+        const attrs: string[] = [];
+        if (edge.kind === "dynamic-import") attrs.push("style=dashed");
+        if (edge.kind === "export") attrs.push("color=blue");
+        if (edge.typeOnly) attrs.push("style=dotted");
+        output += `  ${JSON.stringify(edge.from)} -> ${JSON.stringify(edge.to)}${attrs.length ? ` [${attrs.join(", ")}]` : ""};\n`;
+    }
+
+    output += "}\n";
+    return output;
+}
+
+function formatAsMermaid(result: DependencyGraphResult): string {
+    const ids = new Map(result.nodes.map((node, index) => [node.id, `n${index}`]));
+
+    let output = "graph LR\n";
+    for (const node of result.nodes) {
+        const label = node.id.replace(/"/g, "#quot;");
+        output += node.external
+            ? `  ${ids.get(node.id)}(["${label}"])\n`
+            : `  ${ids.get(node.id)}["${label}"]\n`;
+    }
+
+    for (const edge of result.edges) {
+        const arrow = edge.kind === "dynamic-import" || edge.typeOnly ? "-.->" : "-->";
+        output += `  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}\n`;
+    }
+
+    if (result.focus) {
+        output += `  style ${ids.get(result.focus)} fill:#ffd\n`;
+    }
+    return output;
+}
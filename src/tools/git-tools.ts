@@ -1,4 +1,4 @@
-import { simpleGit, SimpleGit, LogResult, StatusResult, BranchSummary } from 'simple-git';
+import { simpleGit, SimpleGit, LogOptions, LogResult, StatusResult, BranchSummary } from 'simple-git';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 
@@ -13,7 +13,7 @@ async function validateGitRepo(repoPath: string): Promise<void> {
         await fs.access(repoPath);
         const git = getGit(repoPath);
         await git.status();
-    } catch (error) {
+    } catch {
         throw new Error(`Not a valid git repository: ${repoPath}`);
     }
 }
@@ -57,7 +57,7 @@ export async function gitBranchStatus(repoPath: string): Promise<BranchStatusRes
 
     // Create visualization
     const currentBranchName = branchSummary.current || 'unknown';
-    const visualization = createBranchVisualization(branches, currentBranchName);
+    const visualization = createBranchVisualization(branches);
 
     return {
         currentBranch: currentBranchName,
@@ -67,7 +67,7 @@ export async function gitBranchStatus(repoPath: string): Promise<BranchStatusRes
     };
 }
 
-function createBranchVisualization(branches: BranchInfo[], currentBranch: string): string {
+function createBranchVisualization(branches: BranchInfo[]): string {
     let viz = '--------------------------------------------------\n\n';
 
     // Sort: current first, then local, then remote
@@ -123,7 +123,8 @@ export async function gitCommitHistory(params: CommitHistoryParams): Promise<Com
     await validateGitRepo(repoPath);
     const git = getGit(repoPath);
 
-    const options: any = {
+    // Raw flags such as '--author' ride along next to the typed options
+    const options: LogOptions<CommitInfo> & { [flag: string]: unknown } = {
         maxCount,
         format: {
             hash: '%H',
@@ -147,9 +148,9 @@ export async function gitCommitHistory(params: CommitHistoryParams): Promise<Com
         options['--until'] = until;
     }
 
-    const log: LogResult = await git.log(options);
+    const log: LogResult<CommitInfo> = await git.log(options);
 
-    const commits: CommitInfo[] = log.all.map((commit: any) => ({
+    const commits: CommitInfo[] = log.all.map(commit => ({
         hash: commit.hash,
         date: commit.date,
         message: commit.message,
@@ -386,7 +387,7 @@ export async function gitCompareBranches(params: CompareBranchesParams): Promise
         to: branch2,
     });
 
-    const commitsOnlyInBranch1: CommitInfo[] = log1.all.map((commit: any) => ({
+    const commitsOnlyInBranch1: CommitInfo[] = log1.all.map(commit => ({
         hash: commit.hash,
         date: commit.date,
         message: commit.message,
@@ -394,7 +395,7 @@ export async function gitCompareBranches(params: CompareBranchesParams): Promise
         body: commit.body,
     }));
 
-    const commitsOnlyInBranch2: CommitInfo[] = log2.all.map((commit: any) => ({
+    const commitsOnlyInBranch2: CommitInfo[] = log2.all.map(commit => ({
         hash: commit.hash,
         date: commit.date,
         message: commit.message,
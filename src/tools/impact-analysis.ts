@@ -1,7 +1,5 @@
 import * as fs from "fs/promises";
 import * as path from "path";
-import pkg from "fast-glob";
-const { glob } = pkg;
 import { detectLanguage, SupportedLanguage } from "../utils/language-detector.js";
 import { createParser } from "../parsers/parser-factory.js";
 import { findJavaScriptReferences, Reference } from "../parsers/language-parsers/javascript-analyzer.js";
@@ -11,46 +9,94 @@ import { findJavaReferences } from "../parsers/language-parsers/java-analyzer.js
 import { findGoReferences } from "../parsers/language-parsers/go-analyzer.js";
 import { findHTMLReferences } from "../parsers/language-parsers/html-analyzer.js";
 import { findCSSReferences } from "../parsers/language-parsers/css-analyzer.js";
+import { buildModuleGraph } from "../parsers/module-graph.js";
+import { getSymbolIndex, SymbolIndex } from "../parsers/symbol-index.js";
+import { cachedWhileWatching } from "../parsers/index-watcher.js";
+import { getWorkerPool } from "../utils/worker-pool.js";
+import { FileProgress, ProgressOptions } from "../utils/progress.js";
+import { PageParams, paginate } from "../utils/pagination.js";
+import { toPosix } from "../utils/module-resolver.js";
+import { loadProjectConfig } from "../utils/project-config.js";
+import { findReferences, findSymbolPosition, getProjectSource, selectTypeScriptProject, TypeScriptBackend, TypeScriptProject } from "../parsers/typescript-service.js";
 
-interface AnalyzeImpactParams {
+interface AnalyzeImpactParams extends PageParams {
     rootPath: string;
     filePath: string;
     symbolName: string;
     line?: number;
+    // Engine for TypeScript files; "auto" uses the compiler API when the repository has a tsconfig.json
+    backend?: TypeScriptBackend;
 }
 
-interface FileImpact {
+export interface FileReferencesTask {
+    rootPath: string;
+    file: string;
+    language: SupportedLanguage;
+    symbolName: string;
+}
+
+export interface FileImpact {
     filePath: string;
     language: SupportedLanguage;
     references: Reference[];
     referenceCount: number;
 }
 
+// A file whose parse takes longer than this is left out of the analysis
+const FILE_TIMEOUT_MS = 20_000;
+
 interface ImpactAnalysisResult {
     symbolName: string;
     sourceFile: string;
     totalReferences: number;
     affectedFiles: number;
     impacts: FileImpact[];
+    // JS/TS only: files that import the symbol from sourceFile, directly or through re-exports
+    dependents?: string[];
+    // Engine that found the references
+    backend: "typescript" | "tree-sitter";
+    // Set when the analysis was stopped early; only the files searched until then are included
+    cancelled?: boolean;
+    // Pass as `cursor` to get the next page of references
+    nextCursor?: string;
 }
 
-// Ignore patterns for impact analysis
-const IGNORE_PATTERNS = [
-    "**/node_modules/**",
-    "**/.git/**",
-    "**/dist/**",
-    "**/build/**",
-    "**/.next/**",
-    "**/coverage/**",
-    "**/__pycache__/**",
-    "**/venv/**",
-    "**/target/**",
-];
-
+/**
+ * With `limit`, references come a page at a time, in the order of `impacts`;
+ * the totals always cover the whole analysis.
+ */
 export async function analyzeImpact(
-    params: AnalyzeImpactParams
+    params: AnalyzeImpactParams,
+    progress: ProgressOptions = {}
 ): Promise<ImpactAnalysisResult> {
-    const { rootPath, filePath, symbolName, line } = params;
+    const { limit, cursor, ...query } = params;
+    const { result, start, end, nextCursor } = await paginate(
+        "analyze_impact",
+        { limit, cursor },
+        // A watched repository keeps answers until one of its files changes
+        () => cachedWhileWatching(query.rootPath, `analyze_impact:${JSON.stringify(query)}`, run => computeImpact(query, run), progress),
+        impact => impact.totalReferences
+    );
+    return { ...result, impacts: sliceReferences(result.impacts, start, end), ...(nextCursor && { nextCursor }) };
+}
+
+// The files holding references [start, end), counted across all files in order
+function sliceReferences(impacts: FileImpact[], start: number, end: number): FileImpact[] {
+    const page: FileImpact[] = [];
+    let offset = 0;
+    for (const impact of impacts) {
+        const from = Math.max(start - offset, 0);
+        const to = Math.min(end - offset, impact.referenceCount);
+        // referenceCount stays the file's total when its references span pages
+        if (from < to) page.push({ ...impact, references: impact.references.slice(from, to) });
+        offset += impact.referenceCount;
+        if (offset >= end) break;
+    }
+    return page;
+}
+
+async function computeImpact(params: AnalyzeImpactParams, options: ProgressOptions): Promise<ImpactAnalysisResult> {
+    const { rootPath, filePath, symbolName, line, backend = "auto" } = params;
 
     // Validate paths
     try {
@@ -61,104 +107,61 @@ export async function analyzeImpact(
     }
 
     // Detect the language of the source file
-    const sourceLanguage = detectLanguage(filePath);
+    const { languages } = await loadProjectConfig(rootPath);
+    const sourceLanguage = detectLanguage(filePath, languages);
 
     if (sourceLanguage === "unknown") {
         throw new Error(`Unsupported file type: ${filePath}`);
     }
 
-    // Get all files in the repository with supported extensions
-    const supportedExtensions = [
-        "**/*.js",
-        "**/*.jsx",
-        "**/*.mjs",
-        "**/*.cjs",
-        "**/*.ts",
-        "**/*.tsx",
-        "**/*.py",
-        "**/*.java",
-        "**/*.go",
-        "**/*.html",
-        "**/*.css",
-    ];
-
-    const files = await glob(supportedExtensions, {
-        cwd: rootPath,
-        ignore: IGNORE_PATTERNS,
-        absolute: false,
-    });
-
-    // Analyze each file for references
-    const impacts: FileImpact[] = [];
-    let totalReferences = 0;
+    if (sourceLanguage === "javascript" || sourceLanguage === "typescript") {
+        const project = await selectTypeScriptProject(rootPath, backend);
+        if (project && (backend === "typescript" || getProjectSource(project, filePath))) {
+            return analyzeTypeScriptImpact(project, filePath, symbolName, line);
+        }
+    }
 
-    for (const file of files) {
-        const language = detectLanguage(file);
+    // Only files that contain the name at all can reference it
+    const index = await getSymbolIndex(rootPath);
+    let files = /^[\p{L}_$][\p{L}\p{N}_$]*$/u.test(symbolName)
+        ? [...index.filesMentioning(symbolName)].sort()
+        : index.files;
 
-        if (language === "unknown") {
-            continue;
-        }
+    // For JS/TS, only the source file and modules that really import the symbol can be affected
+    let dependents: string[] | undefined;
+    if (sourceLanguage === "javascript" || sourceLanguage === "typescript") {
+        const sourceFile = toPosix(filePath);
+        const exportedNames = getExportedNames(index, sourceFile, symbolName);
+        const graph = await buildModuleGraph(rootPath);
+        dependents = graph.dependentsOf(sourceFile, exportedNames);
+        const scope = new Set([sourceFile, ...dependents]);
+        files = files.filter(file => scope.has(file));
+    }
+
+    // Analyze each file for references, in worker threads
+    const impacts: FileImpact[] = [];
+    let totalReferences = 0;
+    const progress = new FileProgress(options, files.length);
+    let processed = 0;
 
-        try {
-            const fullPath = path.join(rootPath, file);
-            const sourceCode = await fs.readFile(fullPath, "utf-8");
-
-            // Parse the file
-            const parser = createParser(language);
-
-            if (!parser) {
-                continue;
-            }
-
-            const tree = parser.parse(sourceCode);
-
-            // Find references based on language
-            let references: Reference[] = [];
-
-            switch (language) {
-                case "javascript":
-                    references = findJavaScriptReferences(tree, sourceCode, symbolName);
-                    break;
-                case "typescript":
-                    references = findTypeScriptReferences(tree, sourceCode, symbolName);
-                    break;
-                case "python":
-                    references = findPythonReferences(tree, sourceCode, symbolName);
-                    break;
-                case "java":
-                    references = findJavaReferences(tree, sourceCode, symbolName);
-                    break;
-                case "go":
-                    references = findGoReferences(tree, sourceCode, symbolName);
-                    break;
-                case "html":
-                    references = findHTMLReferences(tree, sourceCode, symbolName);
-                    break;
-                case "css":
-                    references = findCSSReferences(tree, sourceCode, symbolName);
-                    break;
-            }
-
-            // If we found references, add to impacts
-            if (references.length > 0) {
-                impacts.push({
-                    filePath: file,
-                    language,
-                    references,
-                    referenceCount: references.length,
-                });
-
-                totalReferences += references.length;
-            }
-        } catch (error) {
+    const tasks = files.map(file => ({ rootPath, file, language: index.get(file)?.language ?? detectLanguage(file, languages), symbolName }));
+    const outcomes = getWorkerPool().map("find-references", tasks, { timeoutMs: FILE_TIMEOUT_MS, signal: options.signal });
+    for await (const { payload, result, error } of outcomes) {
+        processed++;
+        progress.advance(payload.file);
+        if (error) {
             // Skip files that can't be parsed
-            console.error(`Error analyzing ${file}:`, error);
+            console.error(`Error analyzing ${payload.file}:`, error.message);
             continue;
         }
+        if (result) {
+            impacts.push(result);
+            totalReferences += result.referenceCount;
+        }
     }
 
     // Sort impacts by reference count (descending)
-    impacts.sort((a, b) => b.referenceCount - a.referenceCount);
+    impacts.sort((a, b) => b.referenceCount - a.referenceCount || a.filePath.localeCompare(b.filePath));
 
     return {
         symbolName,
@@ -166,5 +169,97 @@ export async function analyzeImpact(
         totalReferences,
         affectedFiles: impacts.length,
         impacts,
+        dependents,
+        backend: "tree-sitter",
+        ...(processed < files.length && { cancelled: true }),
     };
-}
\ No newline at end of file
+}
+
+/**
+ * References to `symbolName` in one file, or null when there are none; runs in a worker thread.
+ */
+export async function findFileReferences(task: FileReferencesTask): Promise<FileImpact | null> {
+    const { rootPath, file, language, symbolName } = task;
+    const parser = createParser(language, file);
+    if (!parser) return null;
+
+    const sourceCode = await fs.readFile(path.join(rootPath, file), "utf-8");
+    const tree = parser.parse(sourceCode);
+
+    // Find references based on language
+    let references: Reference[] = [];
+
+    switch (language) {
+        case "javascript":
+            references = findJavaScriptReferences(tree, sourceCode, symbolName);
+            break;
+        case "typescript":
+            references = findTypeScriptReferences(tree, sourceCode, symbolName);
+            break;
+        case "python":
+            references = findPythonReferences(tree, sourceCode, symbolName);
+            break;
+        case "java":
+            references = findJavaReferences(tree, sourceCode, symbolName);
+            break;
+        case "go":
+            references = findGoReferences(tree, sourceCode, symbolName);
+            break;
+        case "html":
+            references = findHTMLReferences(tree, sourceCode, symbolName);
+            break;
+        case "css":
+            references = findCSSReferences(tree, sourceCode, symbolName);
+            break;
+    }
+
+    if (references.length === 0) return null;
+    return { filePath: file, language, references, referenceCount: references.length };
+}
+
+// References resolved by the language service: only uses of this very symbol, through types and re-exports
+function analyzeTypeScriptImpact(project: TypeScriptProject, filePath: string, symbolName: string, line?: number): ImpactAnalysisResult {
+    const position = findSymbolPosition(project, filePath, symbolName, line);
+    const locations = findReferences(project, toPosix(filePath), position);
+
+    const byFile = new Map<string, FileImpact>();
+    for (const location of locations) {
+        if (!byFile.has(location.file)) {
+            byFile.set(location.file, {
+                filePath: location.file,
+                language: detectLanguage(location.file),
+                references: [],
+                referenceCount: 0,
+            });
+        }
+        const impact = byFile.get(location.file)!;
+        impact.references.push({
+            line: location.line,
+            column: location.column,
+            context: location.lineText.trim(),
+        });
+        impact.referenceCount++;
+    }
+
+    const impacts = [...byFile.values()].sort((a, b) => b.referenceCount - a.referenceCount);
+    const sourceFile = toPosix(filePath);
+
+    return {
+        symbolName,
+        sourceFile: filePath,
+        totalReferences: locations.length,
+        affectedFiles: impacts.length,
+        impacts,
+        dependents: impacts.map(impact => impact.filePath).filter(file => file !== sourceFile).sort(),
+        backend: "typescript",
+    };
+}
+
+// Names under which the source file exports the symbol (`export default foo` exports "default")
+function getExportedNames(index: SymbolIndex, filePath: string, symbolName: string): string[] {
+    const names = new Set([symbolName]);
+    for (const entry of index.get(filePath)?.exports ?? []) {
+        if (entry.localName === symbolName) names.add(entry.exportedName);
+    }
+    return [...names];
+}
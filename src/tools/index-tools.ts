@@ -0,0 +1,129 @@
+import { getIndexStatus, IndexStatus, IndexUpdate, rebuildSymbolIndex } from "../parsers/symbol-index.js";
+import { getWatcherStatus, startWatching, stopWatching, WatcherStatus } from "../parsers/index-watcher.js";
+
+// Files listed per category before the rest is summarized
+const MAX_LISTED_FILES = 10;
+
+// ============================================
+// TOOL: Index Status
+// ============================================
+
+/**
+ * Report how much of the repository the symbol index covers and which entries are out of date.
+ * Does not update the index.
+ */
+export async function indexStatus(repoPath: string): Promise<IndexStatus & { watcher: WatcherStatus; visualization: string }> {
+    const status = await getIndexStatus(repoPath);
+    const watcher = getWatcherStatus(repoPath);
+    return { ...status, watcher, visualization: createStatusVisualization(status, watcher) };
+}
+
+function createStatusVisualization(status: IndexStatus, watcher: WatcherStatus): string {
+    const outdated = status.stale.length + status.missing.length + status.deleted.length;
+
+    let viz = "\n SYMBOL INDEX STATUS\n";
+    viz += "-".repeat(50) + "\n\n";
+
+    if (status.updatedAt === null) {
+        viz += "Status: [NOT BUILT]\n";
+        viz += `Indexable files: ${status.onDisk}\n\n`;
+        viz += "The index is built on first use, or with rebuild_index.\n";
+        return viz;
+    }
+
+    viz += `Status: ${outdated === 0 ? "[UP TO DATE]" : "[STALE]"}\n`;
+    viz += `Last updated: ${status.updatedAt}\n`;
+    viz += `Indexed files: ${status.indexed} of ${status.onDisk} on disk\n`;
+    viz += `Index size: ${(status.indexSize / 1024).toFixed(1)} KB\n`;
+    viz += `Watcher: ${watcher.watching ? `active since ${watcher.since}` : "off"}\n\n`;
+
+    viz += "Coverage by language:\n";
+    for (const [language, counts] of Object.entries(status.coverage).sort()) {
+        const percent = counts.onDisk === 0 ? 100 : Math.round((counts.indexed / counts.onDisk) * 100);
+        viz += `   ${language.padEnd(12)} ${String(counts.indexed).padStart(5)} / ${String(counts.onDisk).padEnd(5)} (${percent}%)\n`;
+    }
+
+    viz += listFiles("Changed since indexed", "~", status.stale);
+    viz += listFiles("Not indexed yet", "+", status.missing);
+    viz += listFiles("Deleted", "-", status.deleted);
+    viz += listFiles("Parse errors", "!", status.parseErrors);
+
+    if (outdated > 0 && watcher.watching) {
+        viz += "\nThe watcher applies these changes after its debounce delay, or on the next tool call.\n";
+    } else if (outdated > 0) {
+        viz += "\nThe next tool call updates these entries; rebuild_index does it now.\n";
+    }
+    return viz;
+}
+
+// ============================================
+// TOOL: Rebuild Index
+// ============================================
+
+/**
+ * Bring the symbol index up to date, re-parsing only changed files unless `full` is set.
+ */
+export async function rebuildIndex(repoPath: string, full = false): Promise<IndexUpdate & { visualization: string }> {
+    const update = await rebuildSymbolIndex(repoPath, full);
+    return { ...update, visualization: createRebuildVisualization(update, full) };
+}
+
+function createRebuildVisualization(update: IndexUpdate, full: boolean): string {
+    let viz = `\n SYMBOL INDEX ${full ? "FULL REBUILD" : "UPDATE"}\n`;
+    viz += "-".repeat(50) + "\n\n";
+    viz += `Added: ${update.added.length}\n`;
+    viz += `Updated: ${update.updated.length}\n`;
+    viz += `Removed: ${update.removed.length}\n`;
+    viz += `Unchanged: ${update.unchanged}\n`;
+    viz += `Duration: ${update.durationMs} ms\n`;
+
+    if (!full) {
+        viz += listFiles("Added", "+", update.added);
+        viz += listFiles("Updated", "~", update.updated);
+    }
+    viz += listFiles("Removed", "-", update.removed);
+    return viz;
+}
+
+// ============================================
+// TOOL: Watch Repository
+// ============================================
+
+/**
+ * Start or stop keeping the symbol index live with a file watcher.
+ */
+export async function watchRepo(repoPath: string, enabled = true, debounceMs?: number): Promise<WatcherStatus & { visualization: string }> {
+    const status = enabled ? await startWatching(repoPath, debounceMs) : stopWatching(repoPath);
+    return { ...status, visualization: createWatchVisualization(status) };
+}
+
+function createWatchVisualization(status: WatcherStatus): string {
+    let viz = "\n REPOSITORY WATCHER\n";
+    viz += "-".repeat(50) + "\n\n";
+    viz += `Repository: ${status.root}\n`;
+
+    if (!status.watching) {
+        viz += "Status: [STOPPED]\n\n";
+        viz += "Tools check file modification times again before using the index.\n";
+        return viz;
+    }
+
+    viz += "Status: [WATCHING]\n";
+    viz += `Since: ${status.since}\n`;
+    viz += `Directories watched: ${status.directories}\n`;
+    viz += `Debounce: ${status.debounceMs} ms\n\n`;
+    viz += "Changed files are re-indexed as they are saved, and find_dead_code and analyze_impact\n";
+    viz += "answers are reused until something in the repository changes.\n";
+    return viz;
+}
+
+function listFiles(title: string, marker: string, files: string[]): string {
+    if (files.length === 0) return "";
+
+    let viz = `\n${title} (${files.length}):\n`;
+    for (const file of files.slice(0, MAX_LISTED_FILES)) {
+        viz += `   ${marker} ${file}\n`;
+    }
+    if (files.length > MAX_LISTED_FILES) viz += `   ... and ${files.length - MAX_LISTED_FILES} more\n`;
+    return viz;
+}
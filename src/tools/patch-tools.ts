@@ -0,0 +1,109 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { applyFilePatch, parseUnifiedDiff } from "../utils/unified-diff.js";
+import { FileEdit, hashContent } from "../utils/workspace-edit.js";
+import { applyWithHistory } from "./refactor-history.js";
+
+export interface ApplyPatchParams {
+    repoPath: string;
+    // Unified diff, as produced by the refactor tools' `unified-diff` format or `git diff`
+    patch: string;
+    // Only validate the patch
+    dryRun?: boolean;
+}
+
+export interface ApplyPatchResult {
+    success: boolean;
+    applied: boolean;
+    files: { filePath: string; hunks: number; created: boolean }[];
+    historyId?: string;
+    visualization: string;
+}
+
+/**
+ * Validate a unified diff against the working tree and apply it as one transaction.
+ * Nothing is written unless every hunk of every file applies.
+ */
+export async function applyPatch(params: ApplyPatchParams): Promise<ApplyPatchResult> {
+    const { repoPath, patch, dryRun = false } = params;
+
+    const filePatches = parseUnifiedDiff(patch);
+    if (filePatches.length === 0) {
+        throw new Error("Patch contains no file changes");
+    }
+
+    const edits: FileEdit[] = [];
+    const files: ApplyPatchResult["files"] = [];
+
+    for (const filePatch of filePatches) {
+        if (filePatch.newPath === null) {
+            throw new Error(`Deleting files is not supported: ${filePatch.oldPath}`);
+        }
+        if (filePatch.oldPath !== null && filePatch.oldPath !== filePatch.newPath) {
+            throw new Error(`Renaming files is not supported: ${filePatch.oldPath} -> ${filePatch.newPath}`);
+        }
+
+        const filePath = filePatch.newPath;
+        const fullPath = path.resolve(repoPath, filePath);
+        const relative = path.relative(path.resolve(repoPath), fullPath);
+        if (relative.startsWith("..") || path.isAbsolute(relative)) {
+            throw new Error(`Patch path escapes the repository: ${filePath}`);
+        }
+
+        let original: string | null = null;
+        try {
+            original = await fs.readFile(fullPath, "utf-8");
+        } catch {
+            if (filePatch.oldPath !== null) {
+                throw new Error(`File to patch does not exist: ${filePath}`);
+            }
+        }
+        if (original !== null && filePatch.oldPath === null) {
+            throw new Error(`Patch creates ${filePath}, but it already exists`);
+        }
+
+        let updated: string;
+        try {
+            updated = applyFilePatch(original, filePatch);
+        } catch (error) {
+            throw new Error(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        edits.push({
+            filePath,
+            edits: [{ start: 0, end: original?.length ?? 0, newText: updated }],
+            expectedHash: original === null ? null : hashContent(original),
+        });
+        files.push({ filePath, hunks: filePatch.hunks.length, created: original === null });
+    }
+
+    let historyId: string | undefined;
+    if (!dryRun) {
+        const summary = `Patched ${files.length} file${files.length === 1 ? "" : "s"}`;
+        ({ historyId } = await applyWithHistory(repoPath, "apply_patch", summary, edits));
+    }
+
+    return {
+        success: true,
+        applied: !dryRun,
+        files,
+        historyId,
+        visualization: createPatchVisualization(files, !dryRun, historyId),
+    };
+}
+
+function createPatchVisualization(files: ApplyPatchResult["files"], applied: boolean, historyId?: string): string {
+    let viz = "\n APPLY PATCH\n";
+    viz += "-".repeat(50) + "\n\n";
+    viz += `Status: ${applied ? "[APPLIED]" : "[VALIDATED]"}\n`;
+    viz += `Files: ${files.length}\n\n`;
+
+    for (const file of files) {
+        viz += `   ${file.created ? "+" : "~"} ${file.filePath} (${file.hunks} hunk${file.hunks === 1 ? "" : "s"})\n`;
+    }
+    if (historyId) {
+        viz += `\nHistory entry: ${historyId} (revert with refactor_undo)\n`;
+    }
+
+    return viz;
+}
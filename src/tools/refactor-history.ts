@@ -0,0 +1,245 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { ensureStateDir, STATE_DIR } from "../utils/state-dir.js";
+import { applyWorkspaceEdit, ApplyEditResult, FileEdit, hashContent } from "../utils/workspace-edit.js";
+
+// Journal location, relative to the repository root
+const HISTORY_DIR = path.join(STATE_DIR, "history");
+const MAX_HISTORY_ENTRIES = 50;
+
+export interface HistoryFile {
+    filePath: string;
+    // Pre-image; null when the refactoring created the file
+    before: string | null;
+    // Hash of the content the refactoring left behind; null when it deleted the file
+    afterHash: string | null;
+}
+
+export interface HistoryEntry {
+    id: string;
+    tool: string;
+    summary: string;
+    appliedAt: string;
+    undoneAt?: string;
+    files: HistoryFile[];
+}
+
+export interface HistoryListItem {
+    id: string;
+    tool: string;
+    summary: string;
+    appliedAt: string;
+    undoneAt?: string;
+    files: string[];
+    // Files whose current content no longer matches what the refactoring wrote
+    diverged: string[];
+}
+
+function historyDir(repoPath: string): string {
+    return path.join(repoPath, HISTORY_DIR);
+}
+
+/**
+ * Apply edits and journal their pre-images so the change can be undone with refactor_undo.
+ */
+export async function applyWithHistory(repoPath: string, tool: string, summary: string, edits: FileEdit[]): Promise<ApplyEditResult & { historyId?: string }> {
+    const result = await applyWorkspaceEdit(repoPath, edits);
+    if (result.snapshots.length === 0) return result;
+
+    const entry: HistoryEntry = {
+        // Sortable by time, unique within a millisecond
+        id: `${Date.now().toString(36).padStart(9, "0")}-${randomBytes(3).toString("hex")}`,
+        tool,
+        summary,
+        appliedAt: new Date().toISOString(),
+        files: result.snapshots.map(snapshot => ({
+            filePath: snapshot.filePath,
+            before: snapshot.before,
+            afterHash: snapshot.after === null ? null : hashContent(snapshot.after),
+        })),
+    };
+
+    try {
+        await writeEntry(repoPath, entry);
+        await pruneHistory(repoPath);
+    } catch (error) {
+        // The edit itself succeeded; only undo is unavailable
+        console.error(`Failed to record refactoring history in ${HISTORY_DIR}:`, error);
+        return result;
+    }
+
+    return { ...result, historyId: entry.id };
+}
+
+async function writeEntry(repoPath: string, entry: HistoryEntry): Promise<void> {
+    const dir = await ensureStateDir(repoPath, "history");
+    await fs.writeFile(path.join(dir, `${entry.id}.json`), JSON.stringify(entry, null, 2), "utf-8");
+}
+
+async function readEntry(repoPath: string, id: string): Promise<HistoryEntry> {
+    if (!/^[a-z0-9-]+$/.test(id)) {
+        throw new Error(`Invalid history entry id: ${id}`);
+    }
+    try {
+        const raw = await fs.readFile(path.join(historyDir(repoPath), `${id}.json`), "utf-8");
+        return JSON.parse(raw) as HistoryEntry;
+    } catch {
+        throw new Error(`No refactoring history entry '${id}' in ${repoPath}`);
+    }
+}
+
+// Entry ids, newest first
+async function listEntryIds(repoPath: string): Promise<string[]> {
+    try {
+        const names = await fs.readdir(historyDir(repoPath));
+        return names
+            .filter(name => name.endsWith(".json"))
+            .map(name => name.slice(0, -".json".length))
+            .sort()
+            .reverse();
+    } catch {
+        return [];
+    }
+}
+
+async function pruneHistory(repoPath: string): Promise<void> {
+    const ids = await listEntryIds(repoPath);
+    for (const id of ids.slice(MAX_HISTORY_ENTRIES)) {
+        await fs.rm(path.join(historyDir(repoPath), `${id}.json`), { force: true });
+    }
+}
+
+async function findDiverged(repoPath: string, entry: HistoryEntry): Promise<string[]> {
+    const diverged: string[] = [];
+    for (const file of entry.files) {
+        let currentHash: string | null = null;
+        try {
+            currentHash = hashContent(await fs.readFile(path.join(repoPath, file.filePath), "utf-8"));
+        } catch {
+            currentHash = null;
+        }
+        if (currentHash !== file.afterHash) diverged.push(file.filePath);
+    }
+    return diverged;
+}
+
+// ============================================
+// TOOL: Refactor History
+// ============================================
+
+export async function refactorHistory(repoPath: string, limit = 20): Promise<{ entries: HistoryListItem[]; visualization: string }> {
+    const ids = (await listEntryIds(repoPath)).slice(0, limit);
+    const entries: HistoryListItem[] = [];
+
+    for (const id of ids) {
+        let entry: HistoryEntry;
+        try {
+            entry = await readEntry(repoPath, id);
+        } catch {
+            continue;
+        }
+        entries.push({
+            id: entry.id,
+            tool: entry.tool,
+            summary: entry.summary,
+            appliedAt: entry.appliedAt,
+            undoneAt: entry.undoneAt,
+            files: entry.files.map(f => f.filePath),
+            diverged: entry.undoneAt ? [] : await findDiverged(repoPath, entry),
+        });
+    }
+
+    return { entries, visualization: createHistoryVisualization(entries) };
+}
+
+function createHistoryVisualization(entries: HistoryListItem[]): string {
+    let viz = "\n REFACTORING HISTORY\n";
+    viz += "-".repeat(50) + "\n\n";
+
+    if (entries.length === 0) {
+        viz += "No applied refactorings recorded.\n";
+        return viz;
+    }
+
+    for (const entry of entries) {
+        const status = entry.undoneAt
+            ? "[UNDONE]"
+            : entry.diverged.length > 0 ? "[DIVERGED]" : "[CAN UNDO]";
+        viz += `${status} ${entry.id}  ${entry.appliedAt}\n`;
+        viz += `   ${entry.tool}: ${entry.summary}\n`;
+        for (const file of entry.files.slice(0, 5)) {
+            viz += `   ${entry.diverged.includes(file) ? "!" : "-"} ${file}\n`;
+        }
+        if (entry.files.length > 5) viz += `   ... and ${entry.files.length - 5} more\n`;
+        viz += "\n";
+    }
+
+    return viz;
+}
+
+// ============================================
+// TOOL: Refactor Undo
+// ============================================
+
+/**
+ * Restore the pre-images of a journaled refactoring. Refuses if any of its files
+ * changed after the refactoring was applied.
+ */
+export async function refactorUndo(repoPath: string, id?: string): Promise<{ id: string; restored: string[]; visualization: string }> {
+    let entry: HistoryEntry | undefined;
+    if (id) {
+        entry = await readEntry(repoPath, id);
+    } else {
+        // Most recent refactoring that has not been undone
+        for (const candidate of await listEntryIds(repoPath)) {
+            const candidateEntry = await readEntry(repoPath, candidate);
+            if (!candidateEntry.undoneAt) {
+                entry = candidateEntry;
+                break;
+            }
+        }
+        if (!entry) throw new Error("No refactoring to undo");
+    }
+
+    if (entry.undoneAt) {
+        throw new Error(`Refactoring ${entry.id} was already undone at ${entry.undoneAt}`);
+    }
+
+    const diverged = await findDiverged(repoPath, entry);
+    if (diverged.length > 0) {
+        throw new Error(`Cannot undo ${entry.id}: these files changed after it was applied: ${diverged.join(", ")}`);
+    }
+
+    const edits: FileEdit[] = [];
+    for (const file of entry.files) {
+        if (file.before === null) {
+            edits.push({ filePath: file.filePath, edits: [], expectedHash: file.afterHash, deleteFile: true });
+            continue;
+        }
+        let current = "";
+        if (file.afterHash !== null) {
+            current = await fs.readFile(path.join(repoPath, file.filePath), "utf-8");
+        }
+        edits.push({
+            filePath: file.filePath,
+            edits: [{ start: 0, end: current.length, newText: file.before }],
+            expectedHash: file.afterHash,
+        });
+    }
+
+    await applyWorkspaceEdit(repoPath, edits);
+    await writeEntry(repoPath, { ...entry, undoneAt: new Date().toISOString() });
+
+    const restored = entry.files.map(f => f.filePath);
+    let viz = "\n REFACTOR UNDO\n";
+    viz += "-".repeat(50) + "\n\n";
+    viz += `Entry: ${entry.id}\n`;
+    viz += `Undid: ${entry.tool}: ${entry.summary}\n`;
+    viz += "Status: [RESTORED]\n\n";
+    for (const file of entry.files) {
+        viz += `   ${file.before === null ? "- removed" : "~ restored"} ${file.filePath}\n`;
+    }
+
+    return { id: entry.id, restored, visualization: viz };
+}
@@ -1,23 +1,24 @@
 import * as fs from "fs/promises";
 import * as path from "path";
-import pkg from "fast-glob";
-const { glob } = pkg;
-import { detectLanguage, SupportedLanguage } from "../utils/language-detector.js";
+import { SupportedLanguage } from "../utils/language-detector.js";
 import { createParser } from "../parsers/parser-factory.js";
 import Parser from "tree-sitter";
-
-// Ignore patterns
-const IGNORE_PATTERNS = [
-    "**/node_modules/**",
-    "**/.git/**",
-    "**/dist/**",
-    "**/build/**",
-    "**/.next/**",
-    "**/coverage/**",
-    "**/__pycache__/**",
-    "**/venv/**",
-    "**/target/**",
-];
+import { resolveSymbol } from "../parsers/symbol-resolver.js";
+import { getSymbolIndex } from "../parsers/symbol-index.js";
+import {
+    findRenameLocations,
+    findSymbolPosition,
+    getProjectSource,
+    getSourceText,
+    selectTypeScriptProject,
+    TypeScriptBackend,
+} from "../parsers/typescript-service.js";
+import { analyzeExtraction, ExtractionFlow, FlowVariable } from "../parsers/data-flow.js";
+import { applyTextEdits, FileEdit, hashContent, lineOffsets, TextEdit } from "../utils/workspace-edit.js";
+import { createUnifiedDiff } from "../utils/unified-diff.js";
+import { detectProjectLanguage } from "../utils/project-config.js";
+import { createChangeSet } from "./change-sets.js";
+import { applyWithHistory } from "./refactor-history.js";
 
 // ============================================
 // Shared Types
@@ -35,6 +36,14 @@ export interface RefactorResult {
     success: boolean;
     preview: boolean;
     changes: FileChange[];
+    // Exact text edits behind `changes`, applied as one transaction
+    edits: FileEdit[];
+    // Set on previews; pass to apply_change_set to apply exactly these edits
+    changeSetId?: string;
+    // Set once applied; pass to refactor_undo to revert
+    historyId?: string;
+    // The same edits as a unified diff, one section per file
+    diff: string;
     summary: string;
     visualization: string;
 }
@@ -48,113 +57,126 @@ export interface RefactorRenameParams {
     filePath: string;
     symbolName: string;
     newName: string;
+    // Line of the declaration, when the name is declared more than once in filePath
+    line?: number;
     apply?: boolean;
+    // Engine for TypeScript files; "auto" uses the compiler API when the repository has a tsconfig.json
+    backend?: TypeScriptBackend;
 }
 
 export async function refactorRename(params: RefactorRenameParams): Promise<RefactorResult> {
-    const { repoPath, filePath, symbolName, newName, apply = false } = params;
+    const { repoPath, filePath, symbolName, newName, line, apply = false, backend = "auto" } = params;
 
     // Validate new name (basic identifier check)
     if (!/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(newName)) {
         throw new Error(`Invalid identifier name: ${newName}`);
     }
 
-    // Find all references
-    const changes: FileChange[] = [];
-    const supportedExtensions = [
-        "**/*.js", "**/*.jsx", "**/*.mjs", "**/*.cjs",
-        "**/*.ts", "**/*.tsx",
-        "**/*.py",
-        "**/*.java",
-        "**/*.go",
-    ];
-
-    const files = await glob(supportedExtensions, {
-        cwd: repoPath,
-        ignore: IGNORE_PATTERNS,
-        absolute: false,
-    });
-
-    for (const file of files) {
-        const language = detectLanguage(file);
-        if (language === "unknown") continue;
-
-        try {
-            const fullPath = path.join(repoPath, file);
-            const sourceCode = await fs.readFile(fullPath, "utf-8");
-            const parser = createParser(language);
-            if (!parser) continue;
-
-            const tree = parser.parse(sourceCode);
-            const lines = sourceCode.split("\n");
-            const references = findIdentifierReferences(tree, symbolName);
-
-            if (references.length === 0) continue;
-
-            // Group references by line for efficient replacement
-            const lineChanges = new Map<number, { col: number; length: number }[]>();
-            for (const ref of references) {
-                if (!lineChanges.has(ref.line)) {
-                    lineChanges.set(ref.line, []);
-                }
-                lineChanges.get(ref.line)!.push({ col: ref.column, length: symbolName.length });
-            }
-
-            // Create changes for each affected line
-            for (const [lineNum, cols] of lineChanges) {
-                const originalLine = lines[lineNum];
-                let newLine = originalLine;
-
-                // Apply replacements from right to left to preserve column positions
-                const sortedCols = cols.sort((a, b) => b.col - a.col);
-                for (const { col, length } of sortedCols) {
-                    newLine = newLine.slice(0, col) + newName + newLine.slice(col + length);
-                }
+    // Every occurrence becomes one replacement of the old name
+    let renames: { file: string; start: number; end: number; newText: string }[];
+    let sources: Map<string, string>;
+    let declarationFile: string;
+
+    const language = await detectProjectLanguage(repoPath, filePath);
+    const project = language === "typescript" || language === "javascript"
+        ? await selectTypeScriptProject(repoPath, backend)
+        : null;
+    if (project && (backend === "typescript" || getProjectSource(project, filePath))) {
+        // The language service also follows types: interface members, overloads, implementations
+        const position = findSymbolPosition(project, filePath, symbolName, line);
+        const found = findRenameLocations(project, filePath, position);
+        declarationFile = found.declarationFile;
+        renames = found.locations.map(location => ({
+            file: location.file,
+            start: location.start,
+            end: location.end,
+            newText: (location.prefixText ?? "") + newName + (location.suffixText ?? ""),
+        }));
+        sources = new Map();
+        for (const { file } of renames) {
+            if (!sources.has(file)) sources.set(file, getSourceText(project, file)!);
+        }
+    } else {
+        // Only files containing the name, and modules that re-export everything, can take part
+        const index = await getSymbolIndex(repoPath);
+        const mentioning = index.filesMentioning(symbolName);
+        const candidates = index.files.filter(file =>
+            mentioning.has(file) || index.get(file)!.exports.some(entry => entry.exportedName === "*" && entry.source !== undefined)
+        );
 
-                changes.push({
-                    filePath: file,
-                    startLine: lineNum + 1,
-                    endLine: lineNum + 1,
-                    originalContent: originalLine,
-                    newContent: newLine,
-                });
-            }
-        } catch (error) {
-            continue;
+        // Resolve the declaration in filePath and every reference that binds to it
+        const resolved = await resolveSymbol({ repoPath, files: index.files, candidates, filePath, symbolName, line });
+        declarationFile = resolved.declarationFile;
+        sources = resolved.sources;
+        renames = resolved.occurrences.map(({ file, node, shorthand, keepLocal }) => ({
+            file,
+            start: node.startIndex,
+            end: node.endIndex,
+            // `{ config }` keeps its property key: `{ config: renamed }`; destructured from a namespace, its local name
+            newText: keepLocal ? `${newName}: ${symbolName}` : shorthand ? `${symbolName}: ${newName}` : newName,
+        }));
+    }
+
+    // Group replacements by file, in source order
+    const byFile = new Map<string, typeof renames>();
+    for (const rename of renames) {
+        if (!byFile.has(rename.file)) {
+            byFile.set(rename.file, []);
         }
+        byFile.get(rename.file)!.push(rename);
     }
 
-    // Apply changes if requested
-    if (apply && changes.length > 0) {
-        await applyChanges(repoPath, changes);
+    const changes: FileChange[] = [];
+    const edits: FileEdit[] = [];
+    for (const [file, fileRenames] of byFile) {
+        const sourceCode = sources.get(file)!;
+        const offsets = lineOffsets(sourceCode);
+        const textEdits: TextEdit[] = fileRenames.map(({ start, end, newText }) => ({ start, end, newText }));
+
+        // One change per affected line, showing the line before and after
+        for (const { row, lineEdits } of groupByLine(textEdits, offsets)) {
+            const lineStart = offsets[row];
+            const originalLine = sourceCode.slice(lineStart, offsets[row + 1]).replace(/\r?\n$/, "");
+            const newLine = applyTextEdits(originalLine, lineEdits.map(edit => ({
+                ...edit,
+                start: edit.start - lineStart,
+                end: edit.end - lineStart,
+            })));
+
+            changes.push({
+                filePath: file,
+                startLine: row + 1,
+                endLine: row + 1,
+                originalContent: originalLine,
+                newContent: newLine,
+            });
+        }
+
+        edits.push({ filePath: file, edits: textEdits, expectedHash: hashContent(sourceCode) });
     }
 
-    return {
+    return finishRefactor(repoPath, "refactor_rename", sources, {
         success: true,
         preview: !apply,
         changes,
-        summary: `Found ${changes.length} occurrences of '${symbolName}' to rename to '${newName}'`,
+        edits,
+        summary: `Found ${renames.length} occurrences of '${symbolName}' (declared in ${declarationFile}) across ${byFile.size} files to rename to '${newName}'${project ? " using the TypeScript language service" : ""}`,
         visualization: createRenameVisualization(symbolName, newName, changes, apply),
-    };
+    });
 }
 
-function findIdentifierReferences(tree: Parser.Tree, symbolName: string): { line: number; column: number }[] {
-    const references: { line: number; column: number }[] = [];
-
-    function traverse(node: Parser.SyntaxNode) {
-        if (node.type === "identifier" && node.text === symbolName) {
-            references.push({
-                line: node.startPosition.row,
-                column: node.startPosition.column,
-            });
-        }
-        for (let i = 0; i < node.childCount; i++) {
-            traverse(node.child(i)!);
+// Edits in source order, grouped by the (0-based) line they start on
+function groupByLine(edits: TextEdit[], offsets: number[]): { row: number; lineEdits: TextEdit[] }[] {
+    const groups: { row: number; lineEdits: TextEdit[] }[] = [];
+    let row = 0;
+    for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+        while (offsets[row + 1] <= edit.start) row++;
+        if (groups.length === 0 || groups[groups.length - 1].row !== row) {
+            groups.push({ row, lineEdits: [] });
         }
+        groups[groups.length - 1].lineEdits.push(edit);
     }
-
-    traverse(tree.rootNode);
-    return references;
+    return groups;
 }
 
 function createRenameVisualization(oldName: string, newName: string, changes: FileChange[], applied: boolean): string {
@@ -207,7 +229,7 @@ export async function refactorExtractFunction(params: ExtractFunctionParams): Pr
     const fullPath = path.join(repoPath, filePath);
     const sourceCode = await fs.readFile(fullPath, "utf-8");
     const lines = sourceCode.split("\n");
-    const language = detectLanguage(filePath);
+    const language = await detectProjectLanguage(repoPath, filePath);
 
     if (startLine < 1 || endLine > lines.length || startLine > endLine) {
         throw new Error("Invalid line range");
@@ -220,48 +242,35 @@ export async function refactorExtractFunction(params: ExtractFunctionParams): Pr
     // Detect indentation
     const baseIndent = extractedLines[0].match(/^(\s*)/)?.[1] || "";
 
-    // Find variables used in the extracted code (simple heuristic)
-    const parser = createParser(language);
+    const parser = createParser(language, filePath);
     if (!parser) throw new Error(`Unsupported language: ${language}`);
 
-    const tree = parser.parse(extractedCode);
-    const identifiers = new Set<string>();
-    collectIdentifiers(tree.rootNode, identifiers);
-
-    // Generate the new function based on language
-    let newFunction: string;
-    let functionCall: string;
-    const params_list = Array.from(identifiers).slice(0, 5).join(", "); // Limit params
-
-    switch (language) {
-        case "python":
-            newFunction = `def ${functionName}(${params_list}):\n${extractedLines.map(l => "    " + l.trimStart()).join("\n")}\n`;
-            functionCall = `${baseIndent}${functionName}(${params_list})`;
-            break;
-        case "typescript":
-        case "javascript":
-            newFunction = `function ${functionName}(${params_list}) {\n${extractedLines.map(l => "    " + l.trimStart()).join("\n")}\n}\n`;
-            functionCall = `${baseIndent}${functionName}(${params_list});`;
-            break;
-        case "go":
-            newFunction = `func ${functionName}(${params_list}) {\n${extractedLines.map(l => "\t" + l.trimStart()).join("\n")}\n}\n`;
-            functionCall = `${baseIndent}${functionName}(${params_list})`;
-            break;
-        case "java":
-            newFunction = `private void ${functionName}(${params_list}) {\n${extractedLines.map(l => "    " + l.trimStart()).join("\n")}\n}\n`;
-            functionCall = `${baseIndent}${functionName}(${params_list});`;
-            break;
-        default:
-            throw new Error(`Extract function not supported for ${language}`);
-    }
-
-    // Create the new file content
-    const newLines = [...lines];
-    newLines.splice(startLine - 1, endLine - startLine + 1, functionCall);
-
-    // Insert the new function at the appropriate place (before the current function or at top)
-    const insertPosition = findFunctionInsertPosition(lines, startLine, language);
-    newLines.splice(insertPosition, 0, newFunction);
+    // Work out what flows into and out of the selection
+    const tree = parser.parse(sourceCode);
+    const offsets = lineOffsets(sourceCode);
+    const selectionEnd = offsets[endLine - 1] + lines[endLine - 1].length;
+    const flow = analyzeExtraction(tree, sourceCode, language, offsets[startLine - 1], selectionEnd);
+
+    const warnings: string[] = [];
+    const insertRow = flow.insertBefore.startPosition.row;
+    const insertIndent = lines[insertRow].match(/^(\s*)/)?.[1] || "";
+    const newFunction = buildExtractedFunction(functionName, language, flow, extractedLines, warnings)
+        .split("\n")
+        .map(line => (line ? insertIndent + line : line))
+        .join("\n");
+    const functionCall = buildCallSite(functionName, language, flow, warnings)
+        .map(line => baseIndent + line)
+        .join("\n");
+
+    // Replace the selected lines with the call, and insert the new function before the enclosing one
+    const edits: FileEdit[] = [{
+        filePath,
+        edits: [
+            { start: offsets[insertRow], end: offsets[insertRow], newText: newFunction + "\n" },
+            { start: offsets[startLine - 1], end: selectionEnd, newText: functionCall },
+        ],
+        expectedHash: hashContent(sourceCode),
+    }];
 
     const changes: FileChange[] = [{
         filePath,
@@ -271,45 +280,175 @@ export async function refactorExtractFunction(params: ExtractFunctionParams): Pr
         newContent: functionCall + "\n\n" + newFunction,
     }];
 
-    if (apply) {
-        await fs.writeFile(fullPath, newLines.join("\n"), "utf-8");
-    }
+    const inputs = flow.inputs.map(v => v.name).join(", ") || "none";
+    const outputs = flow.outputs.map(v => v.name).join(", ") || (flow.returns ? "the enclosing function's result" : "none");
 
-    return {
+    return finishRefactor(repoPath, "refactor_extract_function", new Map([[filePath, sourceCode]]), {
         success: true,
         preview: !apply,
         changes,
-        summary: `Extracted ${endLine - startLine + 1} lines into function '${functionName}'`,
-        visualization: createExtractVisualization(functionName, extractedCode, newFunction, functionCall, apply),
-    };
+        edits,
+        summary: `Extracted ${endLine - startLine + 1} lines into function '${functionName}' (parameters: ${inputs}; returns: ${outputs})`,
+        visualization: createExtractVisualization(functionName, extractedCode, newFunction, functionCall, flow, [...new Set(warnings)], apply),
+    });
 }
 
-function collectIdentifiers(node: Parser.SyntaxNode, identifiers: Set<string>) {
-    if (node.type === "identifier" && node.text.length > 1 && !/^[A-Z]/.test(node.text)) {
-        identifiers.add(node.text);
+function typeOrFallback(variable: FlowVariable, fallback: string, warnings: string[]): string {
+    if (variable.type) return variable.type;
+    warnings.push(`Could not infer the type of '${variable.name}'; used ${fallback}`);
+    return fallback;
+}
+
+/**
+ * Source of the extracted function, unindented, ending with a newline.
+ */
+function buildExtractedFunction(
+    name: string,
+    language: SupportedLanguage,
+    flow: ExtractionFlow,
+    extractedLines: string[],
+    warnings: string[]
+): string {
+    const indentUnit = language === "go" ? "\t" : "    ";
+
+    // Re-indent the body one level in, keeping its nesting
+    const minIndent = Math.min(...extractedLines.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length));
+    const body = extractedLines.map(l => (l.trim() ? indentUnit + l.slice(minIndent) : ""));
+    const outputNames = flow.outputs.map(v => v.name);
+
+    // Variables the selection overwrites before reading need their own declaration
+    if (flow.locals.length > 0) {
+        switch (language) {
+            case "typescript":
+            case "javascript": {
+                const names = flow.locals.map(v => (language === "typescript" && v.type ? `${v.name}: ${v.type}` : v.name));
+                body.unshift(`${indentUnit}let ${names.join(", ")};`);
+                break;
+            }
+            case "go":
+                body.unshift(...flow.locals.map(v => `${indentUnit}var ${v.name} ${typeOrFallback(v, "any", warnings)}`));
+                break;
+            case "java":
+                body.unshift(...flow.locals.map(v => `${indentUnit}${typeOrFallback(v, "Object", warnings)} ${v.name};`));
+                break;
+        }
     }
-    for (let i = 0; i < node.childCount; i++) {
-        collectIdentifiers(node.child(i)!, identifiers);
+
+    switch (language) {
+        case "python": {
+            const params = flow.inputs.map(v => v.name).join(", ");
+            if (outputNames.length > 0) body.push(`${indentUnit}return ${outputNames.join(", ")}`);
+            return `${flow.isAsync ? "async " : ""}def ${name}(${params}):\n${body.join("\n")}\n`;
+        }
+        case "typescript":
+        case "javascript": {
+            const params = flow.inputs
+                .map(v => (language === "typescript" && v.type ? `${v.name}: ${v.type}` : v.name))
+                .join(", ");
+            if (outputNames.length === 1) body.push(`${indentUnit}return ${outputNames[0]};`);
+            if (outputNames.length > 1) body.push(`${indentUnit}return { ${outputNames.join(", ")} };`);
+            const keyword = flow.asMethod ? "" : "function ";
+            return `${flow.isAsync ? "async " : ""}${keyword}${name}(${params}) {\n${body.join("\n")}\n}\n`;
+        }
+        case "go": {
+            const params = flow.inputs.map(v => `${v.name} ${typeOrFallback(v, "any", warnings)}`).join(", ");
+            let results = "";
+            if (flow.returns) {
+                results = flow.enclosingReturnType ? ` ${flow.enclosingReturnType}` : "";
+            } else if (flow.outputs.length > 0) {
+                const types = flow.outputs.map(v => typeOrFallback(v, "any", warnings));
+                results = types.length === 1 ? ` ${types[0]}` : ` (${types.join(", ")})`;
+                body.push(`${indentUnit}return ${outputNames.join(", ")}`);
+            }
+            return `func ${name}(${params})${results} {\n${body.join("\n")}\n}\n`;
+        }
+        case "java": {
+            if (flow.outputs.length > 1) {
+                throw new Error(`Java methods return a single value, but the selection assigns ${outputNames.join(", ")}, which are used afterwards`);
+            }
+            const params = flow.inputs.map(v => `${typeOrFallback(v, "Object", warnings)} ${v.name}`).join(", ");
+            let returnType = "void";
+            if (flow.returns) {
+                returnType = flow.enclosingReturnType ?? "void";
+            } else if (flow.outputs.length === 1) {
+                returnType = typeOrFallback(flow.outputs[0], "Object", warnings);
+                body.push(`${indentUnit}return ${outputNames[0]};`);
+            }
+            return `private ${flow.isStatic ? "static " : ""}${returnType} ${name}(${params}) {\n${body.join("\n")}\n}\n`;
+        }
+        default:
+            throw new Error(`Extract function not supported for ${language}`);
     }
 }
 
-function findFunctionInsertPosition(lines: string[], currentLine: number, language: SupportedLanguage): number {
-    // Simple heuristic: insert at the beginning of the file or before the current function
-    for (let i = currentLine - 2; i >= 0; i--) {
-        const line = lines[i];
-        if (language === "python" && /^def\s/.test(line)) return i;
-        if ((language === "javascript" || language === "typescript") && /^(function|const|let|var)\s/.test(line)) return i;
-        if (language === "go" && /^func\s/.test(line)) return i;
-        if (language === "java" && /^\s*(public|private|protected)\s/.test(line)) return i;
+/**
+ * Statements replacing the selection, unindented.
+ */
+function buildCallSite(name: string, language: SupportedLanguage, flow: ExtractionFlow, warnings: string[]): string[] {
+    const isJs = language === "javascript" || language === "typescript";
+    const semicolon = isJs || language === "java" ? ";" : "";
+    const args = flow.inputs.map(v => v.name).join(", ");
+
+    let call = `${name}(${args})`;
+    if (isJs && flow.asMethod) call = `this.${call}`;
+    else if (isJs && flow.usesThis) call = `${name}.call(${["this", ...flow.inputs.map(v => v.name)].join(", ")})`;
+    if (flow.isAsync) call = `await ${call}`;
+
+    if (flow.returns) {
+        // Functions without a result cannot `return f()` in Go and Java
+        if ((language === "go" || language === "java") && !flow.enclosingReturnType) {
+            return [call + semicolon, "return" + semicolon];
+        }
+        return [`return ${call}${semicolon}`];
+    }
+
+    const outputs = flow.outputs;
+    if (outputs.length === 0) return [call + semicolon];
+
+    const names = outputs.map(v => v.name);
+    const declared = outputs.filter(v => v.declaredInside);
+    const allDeclared = declared.length === outputs.length;
+
+    switch (language) {
+        case "python":
+            return [`${names.join(", ")} = ${call}`];
+        case "go": {
+            if (allDeclared) return [`${names.join(", ")} := ${call}`];
+            const declarations = declared.map(v => `var ${v.name} ${typeOrFallback(v, "any", warnings)}`);
+            return [...declarations, `${names.join(", ")} = ${call}`];
+        }
+        case "java": {
+            const [output] = outputs;
+            return [output.declaredInside ? `${output.type ?? "var"} ${output.name} = ${call};` : `${output.name} = ${call};`];
+        }
+        default: {
+            const target = names.length === 1 ? names[0] : `{ ${names.join(", ")} }`;
+            if (allDeclared) {
+                return [`${outputs.every(v => v.constant) ? "const" : "let"} ${target} = ${call};`];
+            }
+            const assignment = names.length === 1 ? `${target} = ${call};` : `(${target} = ${call});`;
+            return declared.length > 0 ? [`let ${declared.map(v => v.name).join(", ")};`, assignment] : [assignment];
+        }
     }
-    return 0;
 }
 
-function createExtractVisualization(name: string, original: string, func: string, call: string, applied: boolean): string {
+function createExtractVisualization(
+    name: string,
+    original: string,
+    func: string,
+    call: string,
+    flow: ExtractionFlow,
+    warnings: string[],
+    applied: boolean
+): string {
     let viz = "\n EXTRACT FUNCTION\n";
     viz += "-".repeat(50) + "\n\n";
     viz += `Function name: ${name}\n`;
-    viz += `Status: ${applied ? "[APPLIED]" : "[PREVIEW]"}\n\n`;
+    viz += `Status: ${applied ? "[APPLIED]" : "[PREVIEW]"}\n`;
+    viz += `Parameters: ${flow.inputs.map(v => v.name).join(", ") || "none"}\n`;
+    viz += `Returns: ${flow.outputs.map(v => v.name).join(", ") || (flow.returns ? "(enclosing function's return)" : "nothing")}\n`;
+    if (flow.isAsync) viz += "Async: yes\n";
+    viz += "\n";
 
     viz += "EXTRACTED CODE:\n";
     viz += "```\n" + original.split("\n").slice(0, 5).join("\n");
@@ -322,6 +461,13 @@ function createExtractVisualization(name: string, original: string, func: string
     viz += "CALL SITE:\n";
     viz += "```\n" + call + "\n```\n";
 
+    if (warnings.length > 0) {
+        viz += "\nWARNINGS:\n";
+        for (const warning of warnings) {
+            viz += `   ! ${warning}\n`;
+        }
+    }
+
     return viz;
 }
 
@@ -343,16 +489,16 @@ export async function refactorMoveToFile(params: MoveToFileParams): Promise<Refa
     const sourcePath = path.join(repoPath, sourceFile);
     const targetPath = path.join(repoPath, targetFile);
     const sourceCode = await fs.readFile(sourcePath, "utf-8");
-    const language = detectLanguage(sourceFile);
+    const language = await detectProjectLanguage(repoPath, sourceFile);
 
-    const parser = createParser(language);
+    const parser = createParser(language, sourceFile);
     if (!parser) throw new Error(`Unsupported language: ${language}`);
 
     const tree = parser.parse(sourceCode);
     const lines = sourceCode.split("\n");
 
     // Find the function/class definition
-    const definition = findDefinition(tree.rootNode, symbolName, language);
+    const definition = findDefinition(tree.rootNode, symbolName);
     if (!definition) {
         throw new Error(`Could not find definition of '${symbolName}'`);
     }
@@ -378,22 +524,37 @@ export async function refactorMoveToFile(params: MoveToFileParams): Promise<Refa
             throw new Error(`Move to file not fully supported for ${language}`);
     }
 
-    // Remove from source, add import
-    const newSourceLines = [...lines];
-    newSourceLines.splice(definition.startLine, definition.endLine - definition.startLine + 1);
-
-    // Add import at top (after existing imports)
-    const importInsertPos = findImportInsertPosition(newSourceLines, language);
-    newSourceLines.splice(importInsertPos, 0, importStatement);
+    // Remove from source, add import at top (after existing imports)
+    const offsets = lineOffsets(sourceCode);
+    const importInsertPos = findImportInsertPosition(lines, language);
 
     // Add to target file
-    let targetCode = "";
+    let targetCode: string | null = null;
     try {
         targetCode = await fs.readFile(targetPath, "utf-8");
     } catch {
         // File doesn't exist, that's ok
     }
-    const newTargetCode = targetCode + "\n\n" + exportStatement;
+
+    const edits: FileEdit[] = [
+        {
+            filePath: sourceFile,
+            edits: [
+                { start: offsets[importInsertPos], end: offsets[importInsertPos], newText: importStatement },
+                { start: offsets[definition.startLine], end: offsets[definition.endLine + 1], newText: "" },
+            ],
+            expectedHash: hashContent(sourceCode),
+        },
+        {
+            filePath: targetFile,
+            edits: [{
+                start: targetCode?.length ?? 0,
+                end: targetCode?.length ?? 0,
+                newText: (targetCode ? "\n\n" : "") + exportStatement + "\n",
+            }],
+            expectedHash: targetCode === null ? null : hashContent(targetCode),
+        },
+    ];
 
     const changes: FileChange[] = [
         {
@@ -412,21 +573,18 @@ export async function refactorMoveToFile(params: MoveToFileParams): Promise<Refa
         },
     ];
 
-    if (apply) {
-        await fs.writeFile(sourcePath, newSourceLines.join("\n"), "utf-8");
-        await fs.writeFile(targetPath, newTargetCode, "utf-8");
-    }
-
-    return {
+    const originals = new Map([[sourceFile, sourceCode], [targetFile, targetCode]]);
+    return finishRefactor(repoPath, "refactor_move_to_file", originals, {
         success: true,
         preview: !apply,
         changes,
+        edits,
         summary: `Moving '${symbolName}' from ${sourceFile} to ${targetFile}`,
         visualization: createMoveVisualization(symbolName, sourceFile, targetFile, importStatement, exportStatement, apply),
-    };
+    });
 }
 
-function findDefinition(node: Parser.SyntaxNode, name: string, language: SupportedLanguage): { startLine: number; endLine: number } | null {
+function findDefinition(node: Parser.SyntaxNode, name: string): { startLine: number; endLine: number } | null {
     const funcTypes = ["function_declaration", "function_definition", "method_definition", "arrow_function"];
     const classTypes = ["class_declaration", "class_definition"];
 
@@ -506,9 +664,9 @@ export async function refactorInlineVariable(params: InlineVariableParams): Prom
     const fullPath = path.join(repoPath, filePath);
     const sourceCode = await fs.readFile(fullPath, "utf-8");
     const lines = sourceCode.split("\n");
-    const language = detectLanguage(filePath);
+    const language = await detectProjectLanguage(repoPath, filePath);
 
-    const parser = createParser(language);
+    const parser = createParser(language, filePath);
     if (!parser) throw new Error(`Unsupported language: ${language}`);
 
     const tree = parser.parse(sourceCode);
@@ -524,6 +682,8 @@ export async function refactorInlineVariable(params: InlineVariableParams): Prom
 
     const changes: FileChange[] = [];
     const newLines = [...lines];
+    const offsets = lineOffsets(sourceCode);
+    const textEdits: TextEdit[] = [];
 
     // Replace usages from bottom to top
     for (const usage of usages.sort((a, b) => b.line - a.line)) {
@@ -539,6 +699,7 @@ export async function refactorInlineVariable(params: InlineVariableParams): Prom
         });
 
         newLines[usage.line] = newLine;
+        textEdits.push({ start: usage.start, end: usage.end, newText: declaration.value });
     }
 
     // Remove the declaration
@@ -549,19 +710,18 @@ export async function refactorInlineVariable(params: InlineVariableParams): Prom
         originalContent: lines[line - 1],
         newContent: "[REMOVED]",
     });
-    newLines.splice(line - 1, 1);
+    textEdits.push({ start: offsets[line - 1], end: offsets[line], newText: "" });
 
-    if (apply) {
-        await fs.writeFile(fullPath, newLines.join("\n"), "utf-8");
-    }
+    const edits: FileEdit[] = [{ filePath, edits: textEdits, expectedHash: hashContent(sourceCode) }];
 
-    return {
+    return finishRefactor(repoPath, "refactor_inline_variable", new Map([[filePath, sourceCode]]), {
         success: true,
         preview: !apply,
         changes,
+        edits,
         summary: `Inlined '${variableName}' (value: ${declaration.value}) at ${usages.length} usage sites`,
         visualization: createInlineVisualization(variableName, declaration.value, changes, apply),
-    };
+    });
 }
 
 function findVariableDeclaration(node: Parser.SyntaxNode, name: string, line: number): { value: string } | null {
@@ -584,14 +744,16 @@ function findVariableDeclaration(node: Parser.SyntaxNode, name: string, line: nu
     return traverse(node);
 }
 
-function findVariableUsages(node: Parser.SyntaxNode, name: string, declarationLine: number): { line: number; column: number }[] {
-    const usages: { line: number; column: number }[] = [];
+function findVariableUsages(node: Parser.SyntaxNode, name: string, declarationLine: number): { line: number; column: number; start: number; end: number }[] {
+    const usages: { line: number; column: number; start: number; end: number }[] = [];
 
     function traverse(node: Parser.SyntaxNode) {
         if (node.type === "identifier" && node.text === name && node.startPosition.row > declarationLine) {
             usages.push({
                 line: node.startPosition.row,
                 column: node.startPosition.column,
+                start: node.startIndex,
+                end: node.endIndex,
             });
         }
         for (let i = 0; i < node.childCount; i++) {
@@ -625,189 +787,43 @@ function createInlineVisualization(name: string, value: string, changes: FileCha
 }
 
 // ============================================
-// TOOL 5: Find Dead Code
+// Shared Utilities
 // ============================================
 
-export interface FindDeadCodeParams {
-    repoPath: string;
-}
-
-export interface DeadCodeResult {
-    deadExports: { file: string; symbol: string; line: number }[];
-    totalScanned: number;
-    visualization: string;
-}
-
-export async function findDeadCode(params: FindDeadCodeParams): Promise<DeadCodeResult> {
-    const { repoPath } = params;
-
-    const supportedExtensions = [
-        "**/*.js", "**/*.jsx", "**/*.mjs",
-        "**/*.ts", "**/*.tsx",
-    ];
-
-    const files = await glob(supportedExtensions, {
-        cwd: repoPath,
-        ignore: IGNORE_PATTERNS,
-        absolute: false,
-    });
-
-    // Collect all exports
-    const exports: { file: string; symbol: string; line: number }[] = [];
-    // Collect all imports
-    const imports = new Set<string>();
-
-    for (const file of files) {
-        const language = detectLanguage(file);
-        if (language !== "javascript" && language !== "typescript") continue;
-
-        try {
-            const fullPath = path.join(repoPath, file);
-            const sourceCode = await fs.readFile(fullPath, "utf-8");
-            const parser = createParser(language);
-            if (!parser) continue;
-
-            const tree = parser.parse(sourceCode);
-
-            // Find exports
-            findExports(tree.rootNode, file, exports);
-
-            // Find imports
-            findImports(tree.rootNode, imports);
-        } catch {
-            continue;
-        }
-    }
-
-    // Find dead exports (exported but never imported)
-    const deadExports = exports.filter(exp => !imports.has(exp.symbol));
-
-    // Filter out common false positives
-    const filteredDead = deadExports.filter(exp => {
-        // Keep if not a lifecycle method or main export
-        const ignoredNames = ["default", "main", "init", "setup", "configure", "App", "index"];
-        return !ignoredNames.includes(exp.symbol);
-    });
-
+/**
+ * Render the edits as a unified diff, then apply and journal them, or store them as a change set for previews.
+ * `originals` holds the content each edited file had when the edits were computed (null if new).
+ */
+async function finishRefactor(
+    repoPath: string,
+    tool: string,
+    originals: Map<string, string | null>,
+    result: Omit<RefactorResult, "diff">
+): Promise<RefactorResult> {
+    const diff = result.edits.map(fileEdit => {
+        const original = originals.get(fileEdit.filePath) ?? null;
+        return createUnifiedDiff(fileEdit.filePath, original, applyTextEdits(original ?? "", fileEdit.edits));
+    }).join("");
+
+    if (result.edits.length === 0) {
+        return { ...result, diff };
+    }
+
+    if (!result.preview) {
+        const { historyId } = await applyWithHistory(repoPath, tool, result.summary, result.edits);
+        return {
+            ...result,
+            diff,
+            historyId,
+            visualization: historyId ? result.visualization + `\nHistory entry: ${historyId} (revert with refactor_undo)\n` : result.visualization,
+        };
+    }
+
+    const changeSetId = createChangeSet(repoPath, tool, result.summary, result.changes, result.edits);
     return {
-        deadExports: filteredDead,
-        totalScanned: files.length,
-        visualization: createDeadCodeVisualization(filteredDead, files.length, exports.length),
+        ...result,
+        diff,
+        changeSetId,
+        visualization: result.visualization + `\nChange set: ${changeSetId}\nUse apply_change_set to apply exactly this preview.\n`,
     };
 }
-
-function findExports(node: Parser.SyntaxNode, file: string, exports: { file: string; symbol: string; line: number }[]) {
-    if (node.type === "export_statement") {
-        const declaration = node.childForFieldName("declaration");
-        if (declaration) {
-            const nameNode = declaration.childForFieldName("name");
-            if (nameNode) {
-                exports.push({
-                    file,
-                    symbol: nameNode.text,
-                    line: node.startPosition.row + 1,
-                });
-            }
-        }
-        // Named exports
-        const specifiers = node.descendantsOfType("export_specifier");
-        for (const spec of specifiers) {
-            const name = spec.childForFieldName("name") || spec.child(0);
-            if (name) {
-                exports.push({
-                    file,
-                    symbol: name.text,
-                    line: node.startPosition.row + 1,
-                });
-            }
-        }
-    }
-
-    for (let i = 0; i < node.childCount; i++) {
-        findExports(node.child(i)!, file, exports);
-    }
-}
-
-function findImports(node: Parser.SyntaxNode, imports: Set<string>) {
-    if (node.type === "import_statement") {
-        const specifiers = node.descendantsOfType("import_specifier");
-        for (const spec of specifiers) {
-            const name = spec.childForFieldName("name") || spec.child(0);
-            if (name) imports.add(name.text);
-        }
-        // Default import
-        const defaultImport = node.descendantsOfType("identifier").find(n =>
-            n.parent?.type === "import_clause"
-        );
-        if (defaultImport) imports.add(defaultImport.text);
-    }
-
-    for (let i = 0; i < node.childCount; i++) {
-        findImports(node.child(i)!, imports);
-    }
-}
-
-function createDeadCodeVisualization(dead: { file: string; symbol: string; line: number }[], totalFiles: number, totalExports: number): string {
-    let viz = "\n DEAD CODE ANALYSIS\n";
-    viz += "-".repeat(50) + "\n\n";
-    viz += `Files scanned: ${totalFiles}\n`;
-    viz += `Exports found: ${totalExports}\n`;
-    viz += `Potentially unused: ${dead.length}\n\n`;
-
-    if (dead.length === 0) {
-        viz += "[Clean] No obviously dead exports found.\n";
-    } else {
-        viz += "POTENTIALLY UNUSED EXPORTS:\n\n";
-
-        // Group by file
-        const byFile = new Map<string, typeof dead>();
-        for (const d of dead) {
-            if (!byFile.has(d.file)) byFile.set(d.file, []);
-            byFile.get(d.file)!.push(d);
-        }
-
-        for (const [file, symbols] of byFile) {
-            viz += `📄 ${file}\n`;
-            for (const sym of symbols) {
-                viz += `   L${sym.line}: ${sym.symbol}\n`;
-            }
-            viz += "\n";
-        }
-
-        viz += "\n> [!NOTE]\n";
-        viz += "> These exports may be used dynamically or externally.\n";
-        viz += "> Review before removing.\n";
-    }
-
-    return viz;
-}
-
-// ============================================
-// Shared Utilities
-// ============================================
-
-async function applyChanges(repoPath: string, changes: FileChange[]): Promise<void> {
-    // Group changes by file
-    const byFile = new Map<string, FileChange[]>();
-    for (const change of changes) {
-        if (!byFile.has(change.filePath)) {
-            byFile.set(change.filePath, []);
-        }
-        byFile.get(change.filePath)!.push(change);
-    }
-
-    for (const [file, fileChanges] of byFile) {
-        const fullPath = path.join(repoPath, file);
-        const sourceCode = await fs.readFile(fullPath, "utf-8");
-        const lines = sourceCode.split("\n");
-
-        // Sort changes by line number (descending) to preserve line numbers
-        const sortedChanges = fileChanges.sort((a, b) => b.startLine - a.startLine);
-
-        for (const change of sortedChanges) {
-            lines[change.startLine - 1] = change.newContent;
-        }
-
-        await fs.writeFile(fullPath, lines.join("\n"), "utf-8");
-    }
-}
@@ -0,0 +1,411 @@
+/**
+ * Repository Statistics
+ *
+ * A cloc-style breakdown of a repository: files and code, comment and blank lines per
+ * language, functions, classes and exports counted from tree-sitter syntax trees, and the
+ * largest files and directories.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import pkg from "fast-glob";
+const { glob } = pkg;
+import Parser from "tree-sitter";
+import { createParser } from "../parsers/parser-factory.js";
+import { analyzeScopes } from "../parsers/scope-resolver.js";
+import { indexSymbols } from "../parsers/symbol-index.js";
+import { cachedWhileWatching } from "../parsers/index-watcher.js";
+import { DEFAULT_IGNORE_PATTERNS, loadIgnoreRules } from "../utils/ignore-rules.js";
+import { detectLanguage, LanguageOverrides, SupportedLanguage } from "../utils/language-detector.js";
+import { FileProgress, ProgressOptions } from "../utils/progress.js";
+import { loadProjectConfig } from "../utils/project-config.js";
+import { getWorkerPool } from "../utils/worker-pool.js";
+
+// Larger files still count towards sizes, but are not parsed
+const MAX_PARSED_BYTES = 1_000_000;
+const FILE_TIMEOUT_MS = 10_000;
+const DEFAULT_TOP = 10;
+
+// Function-like nodes, methods included; only named nodes count, since `function` is also a keyword
+const FUNCTION_NODE_TYPES: Partial<Record<SupportedLanguage, string[]>> = {
+    javascript: ["function_declaration", "generator_function_declaration", "function_expression", "function", "generator_function", "arrow_function", "method_definition"],
+    typescript: ["function_declaration", "generator_function_declaration", "function_expression", "function", "generator_function", "arrow_function", "method_definition"],
+    python: ["function_definition"],
+    java: ["method_declaration", "constructor_declaration"],
+    go: ["function_declaration", "method_declaration", "func_literal"],
+};
+
+// Go has no classes; its struct types are counted instead
+const CLASS_NODE_TYPES: Partial<Record<SupportedLanguage, string[]>> = {
+    javascript: ["class_declaration", "class"],
+    typescript: ["class_declaration", "abstract_class_declaration", "class"],
+    python: ["class_definition"],
+    java: ["class_declaration", "record_declaration", "enum_declaration"],
+};
+
+const COMMENT_NODE_TYPES = ["comment", "line_comment", "block_comment"];
+
+export interface LineCounts {
+    code: number;
+    comment: number;
+    blank: number;
+}
+
+export interface LanguageStats extends LineCounts {
+    language: SupportedLanguage;
+    files: number;
+    size: number;
+    functions: number;
+    classes: number;
+    // Exported module-level symbols, as the symbol index decides them for each language
+    exports: number;
+}
+
+export interface FileStats extends LineCounts {
+    file: string;
+    language: SupportedLanguage;
+    size: number;
+    functions: number;
+    classes: number;
+    exports: number;
+    // Set when the parser failed; the lines are then counted without telling comments apart
+    error?: string;
+}
+
+export interface RepoStats {
+    root: string;
+    totalFiles: number;
+    totalSize: number;
+    // Most lines of code first
+    languages: LanguageStats[];
+    totals: LineCounts & { functions: number; classes: number; exports: number };
+    // Files in languages the parsers don't cover (Markdown, JSON, images, ...)
+    otherFiles: { files: number; size: number; topExtensions: { extension: string; files: number }[] };
+    largestFiles: { path: string; size: number; language: SupportedLanguage; lines?: number }[];
+    // Sizes include everything below the directory
+    largestDirectories: { path: string; size: number; files: number }[];
+    // Files too large to parse or that took too long; they count towards sizes only
+    skippedFiles: string[];
+    // Set when the analysis was stopped early; the numbers cover the files done until then
+    cancelled?: boolean;
+    visualization: string;
+}
+
+export interface FileStatsTask {
+    root: string;
+    file: string;
+    language: SupportedLanguage;
+}
+
+// ============================================
+// TOOL: Repository Statistics
+// ============================================
+
+/**
+ * Count lines, functions, classes and exports of every source file and rank files and
+ * directories by size. Ignored files (see loadIgnoreRules) are left out.
+ */
+export async function getRepoStats(repoPath: string, top = DEFAULT_TOP, progress: ProgressOptions = {}): Promise<RepoStats> {
+    // While the repository is watched, the answer is reused until something in it changes
+    return cachedWhileWatching(repoPath, `get_repo_stats:${top}`, run => computeRepoStats(path.resolve(repoPath), top, run), progress);
+}
+
+async function computeRepoStats(root: string, top: number, options: ProgressOptions): Promise<RepoStats> {
+    try {
+        if (!(await fs.stat(root)).isDirectory()) throw new Error();
+    } catch {
+        throw new Error(`Invalid repository path: ${root}`);
+    }
+
+    const rules = await loadIgnoreRules(root);
+    const found = (await glob("**/*", {
+        cwd: root,
+        ignore: DEFAULT_IGNORE_PATTERNS,
+        dot: true,
+        onlyFiles: true,
+        stats: true,
+    })).filter(entry => !rules.ignores(entry.path));
+    const sizes = new Map(found.map(entry => [entry.path, entry.stats?.size ?? 0]));
+    const files = [...sizes.keys()].sort();
+    const { languages } = await loadProjectConfig(root);
+
+    const sourceFiles = files.filter(file => detectLanguage(file, languages) !== "unknown" && sizes.get(file)! <= MAX_PARSED_BYTES);
+    const skippedFiles = files.filter(file => detectLanguage(file, languages) !== "unknown" && sizes.get(file)! > MAX_PARSED_BYTES);
+    const progress = new FileProgress(options, sourceFiles.length);
+
+    const fileStats = new Map<string, FileStats>();
+    const tasks = sourceFiles.map(file => ({ root, file, language: detectLanguage(file, languages) }));
+    const outcomes = getWorkerPool().map("file-stats", tasks, {
+        timeoutMs: FILE_TIMEOUT_MS,
+        signal: options.signal,
+    });
+    for await (const { payload, result, error } of outcomes) {
+        progress.advance(payload.file);
+        if (result) fileStats.set(payload.file, result);
+        if (error) skippedFiles.push(payload.file);
+    }
+
+    const stats = summarize(root, files, sizes, fileStats, languages, top);
+    const result = { ...stats, skippedFiles: skippedFiles.sort(), ...(progress.cancelled && { cancelled: true }) };
+    return { ...result, visualization: createStatsVisualization(result) };
+}
+
+function summarize(
+    root: string,
+    files: string[],
+    sizes: Map<string, number>,
+    fileStats: Map<string, FileStats>,
+    overrides: LanguageOverrides,
+    top: number
+): Omit<RepoStats, "skippedFiles" | "cancelled" | "visualization"> {
+    const languages = new Map<SupportedLanguage, LanguageStats>();
+    const totals = { code: 0, comment: 0, blank: 0, functions: 0, classes: 0, exports: 0 };
+    const other = { files: 0, size: 0, extensions: new Map<string, number>() };
+    const directories = new Map<string, { size: number; files: number }>();
+    let totalSize = 0;
+
+    for (const file of files) {
+        const size = sizes.get(file)!;
+        totalSize += size;
+
+        // Every directory above the file, up to but not including the root
+        for (let directory = path.posix.dirname(file); directory !== "."; directory = path.posix.dirname(directory)) {
+            const totalsOfDirectory = directories.get(directory) ?? { size: 0, files: 0 };
+            totalsOfDirectory.size += size;
+            totalsOfDirectory.files++;
+            directories.set(directory, totalsOfDirectory);
+        }
+
+        const language = detectLanguage(file, overrides);
+        if (language === "unknown") {
+            const extension = path.posix.extname(file).toLowerCase() || path.posix.basename(file);
+            other.files++;
+            other.size += size;
+            other.extensions.set(extension, (other.extensions.get(extension) ?? 0) + 1);
+            continue;
+        }
+
+        let entry = languages.get(language);
+        if (!entry) {
+            entry = { language, files: 0, size: 0, code: 0, comment: 0, blank: 0, functions: 0, classes: 0, exports: 0 };
+            languages.set(language, entry);
+        }
+        entry.files++;
+        entry.size += size;
+
+        const counted = fileStats.get(file);
+        if (!counted) continue;
+        for (const key of ["code", "comment", "blank", "functions", "classes", "exports"] as const) {
+            entry[key] += counted[key];
+            totals[key] += counted[key];
+        }
+    }
+
+    const largestFiles = [...files]
+        .sort((a, b) => sizes.get(b)! - sizes.get(a)! || a.localeCompare(b))
+        .slice(0, top)
+        .map(file => {
+            const counted = fileStats.get(file);
+            return {
+                path: file,
+                size: sizes.get(file)!,
+                language: detectLanguage(file, overrides),
+                ...(counted && { lines: counted.code + counted.comment + counted.blank }),
+            };
+        });
+
+    const largestDirectories = [...directories]
+        .sort(([a, totalsA], [b, totalsB]) => totalsB.size - totalsA.size || a.localeCompare(b))
+        .slice(0, top)
+        .map(([directory, { size, files: count }]) => ({ path: directory, size, files: count }));
+
+    return {
+        root,
+        totalFiles: files.length,
+        totalSize,
+        languages: [...languages.values()].sort((a, b) => b.code - a.code || b.files - a.files),
+        totals,
+        otherFiles: {
+            files: other.files,
+            size: other.size,
+            topExtensions: [...other.extensions]
+                .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+                .slice(0, 5)
+                .map(([extension, count]) => ({ extension, files: count })),
+        },
+        largestFiles,
+        largestDirectories,
+    };
+}
+
+// ============================================
+// Per-File Counts
+// ============================================
+
+/**
+ * Read, parse and count one source file; runs in a worker thread.
+ * Returns null when the file cannot be read.
+ */
+export async function fileStatsTask(task: FileStatsTask): Promise<FileStats | null> {
+    let content: string;
+    try {
+        content = await fs.readFile(path.join(task.root, task.file), "utf-8");
+    } catch {
+        return null;
+    }
+    return countFile(task.file, content, task.language);
+}
+
+export function countFile(file: string, content: string, language = detectLanguage(file)): FileStats {
+    const stats: FileStats = {
+        file,
+        language,
+        size: Buffer.byteLength(content),
+        code: 0,
+        comment: 0,
+        blank: 0,
+        functions: 0,
+        classes: 0,
+        exports: 0,
+    };
+
+    let tree: Parser.Tree | null = null;
+    try {
+        tree = createParser(language, file)?.parse(content) ?? null;
+    } catch (error) {
+        stats.error = error instanceof Error ? error.message : String(error);
+    }
+    if (!tree) {
+        Object.assign(stats, countLines(content, []));
+        return stats;
+    }
+
+    const root = tree.rootNode;
+    Object.assign(stats, countLines(content, commentRanges(root, language)));
+    stats.functions = countNamed(root, FUNCTION_NODE_TYPES[language]);
+    stats.classes = language === "go"
+        ? root.descendantsOfType("type_spec").filter(spec => spec.childForFieldName("type")?.type === "struct_type").length
+        : countNamed(root, CLASS_NODE_TYPES[language]);
+
+    const analysis = analyzeScopes(tree, language);
+    if (analysis) {
+        const exportedLocals = new Set(analysis.exports.map(exp => exp.localName));
+        stats.exports = language === "javascript" || language === "typescript"
+            ? analysis.exports.length
+            : indexSymbols(analysis, exportedLocals).filter(symbol => symbol.exported).length;
+    }
+    return stats;
+}
+
+function countNamed(root: Parser.SyntaxNode, types: string[] | undefined): number {
+    if (!types) return 0;
+    return root.descendantsOfType(types).filter(node => node.isNamed).length;
+}
+
+// Comments, and Python docstrings, which cloc counts as comments too
+function commentRanges(root: Parser.SyntaxNode, language: SupportedLanguage): [number, number][] {
+    const nodes = root.descendantsOfType(COMMENT_NODE_TYPES);
+    if (language === "python") {
+        nodes.push(...root.descendantsOfType("expression_statement")
+            .filter(statement => statement.namedChildCount === 1 && statement.firstNamedChild!.type === "string"));
+    }
+    return nodes
+        .map(node => [node.startIndex, node.endIndex] as [number, number])
+        .sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * A line is code when anything but whitespace lies outside a comment, a comment line when it
+ * only holds comment text, and blank otherwise. `comments` are sorted, non-overlapping ranges.
+ */
+function countLines(content: string, comments: [number, number][]): LineCounts {
+    const counts: LineCounts = { code: 0, comment: 0, blank: 0 };
+    let hasCode = false;
+    let hasComment = false;
+    let next = 0;
+
+    const endLine = () => {
+        if (hasCode) counts.code++;
+        else if (hasComment) counts.comment++;
+        else counts.blank++;
+        hasCode = false;
+        hasComment = false;
+    };
+
+    for (let index = 0; index < content.length; index++) {
+        const char = content.charCodeAt(index);
+        if (char === 10) {
+            endLine();
+            continue;
+        }
+        // Space, tab, carriage return, vertical tab, form feed and the byte order mark
+        if (char === 32 || (char >= 9 && char <= 13) || char === 0xfeff) continue;
+
+        while (next < comments.length && comments[next][1] <= index) next++;
+        if (next < comments.length && comments[next][0] <= index) hasComment = true;
+        else hasCode = true;
+    }
+    // The last line, unless the file ends with a newline
+    if (content.length > 0 && !content.endsWith("\n")) endLine();
+    return counts;
+}
+
+// ============================================
+// Visualization
+// ============================================
+
+function createStatsVisualization(stats: Omit<RepoStats, "visualization">): string {
+    let viz = "\n REPOSITORY STATISTICS\n";
+    viz += "-".repeat(50) + "\n\n";
+    if (stats.cancelled) viz += "[CANCELLED] Stopped early; the numbers below are incomplete.\n\n";
+    viz += `Root: ${stats.root}\n`;
+    viz += `Files: ${stats.totalFiles.toLocaleString("en-US")} (${formatBytes(stats.totalSize)})\n\n`;
+
+    const columns = ["Files", "Code", "Comment", "Blank", "Functions", "Classes", "Exports"];
+    const row = (label: string, values: number[]) =>
+        `   ${label.padEnd(12)}${values.map((value, i) => value.toLocaleString("en-US").padStart(columns[i].length + 3)).join("")}\n`;
+
+    if (stats.languages.length > 0) {
+        viz += `   ${"Language".padEnd(12)}${columns.map(column => column.padStart(column.length + 3)).join("")}\n`;
+        for (const language of stats.languages) {
+            viz += row(language.language, [language.files, language.code, language.comment, language.blank, language.functions, language.classes, language.exports]);
+        }
+        const { totals } = stats;
+        const sourceFiles = stats.languages.reduce((sum, language) => sum + language.files, 0);
+        viz += row("Total", [sourceFiles, totals.code, totals.comment, totals.blank, totals.functions, totals.classes, totals.exports]);
+    } else {
+        viz += "No source files in a supported language.\n";
+    }
+
+    if (stats.otherFiles.files > 0) {
+        const extensions = stats.otherFiles.topExtensions.map(({ extension, files }) => `${extension} ${files}`).join(", ");
+        viz += `\nOther files: ${stats.otherFiles.files.toLocaleString("en-US")} (${formatBytes(stats.otherFiles.size)}; ${extensions})\n`;
+    }
+
+    if (stats.largestFiles.length > 0) {
+        viz += "\nLARGEST FILES:\n";
+        for (const file of stats.largestFiles) {
+            const lines = file.lines !== undefined ? `, ${file.lines.toLocaleString("en-US")} lines` : "";
+            viz += `   ${formatBytes(file.size).padStart(10)}  ${file.path}${lines}\n`;
+        }
+    }
+
+    if (stats.largestDirectories.length > 0) {
+        viz += "\nLARGEST DIRECTORIES:\n";
+        for (const directory of stats.largestDirectories) {
+            viz += `   ${formatBytes(directory.size).padStart(10)}  ${directory.path}/ (${directory.files.toLocaleString("en-US")} ${directory.files === 1 ? "file" : "files"})\n`;
+        }
+    }
+
+    if (stats.skippedFiles.length > 0) {
+        viz += `\nNot parsed (too large or timed out): ${stats.skippedFiles.length}\n`;
+    }
+    return viz;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes === 0) return "0 B";
+    const units = ["B", "KB", "MB", "GB"];
+    const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+    return `${Math.round(bytes / Math.pow(1024, exponent) * 10) / 10} ${units[exponent]}`;
+}
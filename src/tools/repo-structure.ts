@@ -2,55 +2,123 @@ import pkg from "fast-glob";
 const { glob } = pkg;
 import * as path from "path";
 import * as fs from "fs/promises";
+import { PageParams, paginate } from "../utils/pagination.js";
+import { DEFAULT_IGNORE_PATTERNS, loadIgnoreRules } from "../utils/ignore-rules.js";
+
+type FoundEntry = pkg.Entry;
 
 export interface FileNode {
     name: string;
     type: "file" | "directory";
     path: string;
+    // Left out of directories collapsed into a summary
     children?: FileNode[];
+    // Files; directories too when sorting by size, as the total of their contents
     size?: number;
+    // When sorting by modification time; for directories, their most recently modified file
+    modified?: string;
+    summary?: DirectorySummary;
+}
+
+// What a collapsed directory holds, all levels down
+export interface DirectorySummary {
+    files: number;
+    directories: number;
+    size: number;
+    // The most common file extension, e.g. ".ts"
+    mostlyExtension?: string;
+}
+
+export interface StructureOptions {
+    // Directories this many levels below the root are collapsed into a summary
+    maxDepth?: number;
+    // Only files matching one of these globs, relative to the root, and the directories leading to them
+    include?: string[];
+    // Files and directories to leave out, as globs relative to the root
+    exclude?: string[];
+    // List files as flat paths, without their directories
+    filesOnly?: boolean;
+    dirsOnly?: boolean;
+    // Collapse directories with more than `summarizeThreshold` entries into a summary
+    summarize?: boolean;
+    summarizeThreshold?: number;
+    sortBy?: SortKey;
 }
 
-interface RepoStructure {
+export interface RepoStructure {
     root: string;
     tree: FileNode;
     totalFiles: number;
     totalDirectories: number;
     format: string;
+    // Pass as `cursor` to get the next page of entries
+    nextCursor?: string;
+    // The page drawn as a tree or listed, for the 'tree' and 'simple' formats
+    visualization?: string;
+}
+
+interface ScannedRepository {
+    structure: Omit<RepoStructure, 'format'>;
+    // Lines of the 'simple' listing
+    entries: string[];
+    // Nodes below the root that are shown, which is what pages are counted in
+    shownNodes: number;
+}
+
+// Totals of a node and everything below it
+interface NodeTotals {
+    files: number;
+    directories: number;
+    size: number;
+    mtimeMs: number;
 }
 
 type OutputFormat = 'tree' | 'simple' | 'json';
+type SortKey = 'name' | 'size' | 'mtime';
 
-// Common patterns to ignore
-const DEFAULT_IGNORE_PATTERNS = [
-    "**/node_modules/**",
-    "**/.git/**",
-    "**/dist/**",
-    "**/build/**",
-    "**/.next/**",
-    "**/.nuxt/**",
-    "**/coverage/**",
-    "**/__pycache__/**",
-    "**/*.pyc",
-    "**/venv/**",
-    "**/env/**",
-    "**/.venv/**",
-    "**/target/**",
-    "**/bin/**",
-    "**/obj/**",
-    "**/.idea/**",
-    "**/.vscode/**",
-    "**/.DS_Store",
-    "**/Thumbs.db",
-    "**/*.log",
-    "**/tmp/**",
-    "**/temp/**",
-];
+const DEFAULT_SUMMARIZE_THRESHOLD = 100;
 
+/**
+ * With `limit`, entries come a page at a time: nodes in depth-first order together with the
+ * directories containing them, and the matching lines of the 'tree' and 'simple' drawings.
+ */
 export async function getRepoStructure(
     rootPath: string,
-    format: OutputFormat = 'json'
-): Promise<string | RepoStructure> {
+    format: OutputFormat = 'json',
+    page: PageParams = {},
+    options: StructureOptions = {}
+): Promise<RepoStructure> {
+    const { result, start, end, nextCursor } = await paginate(
+        'get_repo_structure',
+        page,
+        () => scanRepository(rootPath, options),
+        // Every entry is one node of the tree, apart from the root
+        scan => format === 'simple' ? scan.entries.length : scan.shownNodes
+    );
+    const repoStructure: RepoStructure = { ...result.structure, format };
+
+    const paged: RepoStructure = !nextCursor && start === 0
+        ? repoStructure
+        : { ...repoStructure, tree: sliceTree(repoStructure.tree, start, end), ...(nextCursor && { nextCursor }) };
+
+    // Add a drawing based on format
+    switch (format) {
+        case 'tree':
+            return { ...paged, visualization: formatAsTree(repoStructure, start, end, nextCursor) };
+        case 'simple':
+            return { ...paged, visualization: formatAsSimpleList(result.entries, repoStructure, start, end, nextCursor) };
+        case 'json':
+        default:
+            return paged;
+    }
+}
+
+async function scanRepository(rootPath: string, options: StructureOptions): Promise<ScannedRepository> {
+    const { maxDepth, include = [], exclude = [], filesOnly = false, dirsOnly = false, summarize = false, sortBy = 'name' } = options;
+    const summarizeThreshold = options.summarizeThreshold ?? DEFAULT_SUMMARIZE_THRESHOLD;
+    if (filesOnly && dirsOnly) throw new Error('filesOnly and dirsOnly cannot both be set');
+    if (filesOnly && summarize) throw new Error('filesOnly lists files without their directories, so there is nothing to summarize');
+
     // Validate path exists
     try {
         await fs.access(rootPath);
@@ -58,82 +126,126 @@ export async function getRepoStructure(
         throw new Error(`Path does not exist: ${rootPath}`);
     }
 
-    // Get all files and directories
-    const entries = await glob("**/*", {
+    // Get all files and directories, then drop what .gitignore and friends exclude.
+    // With `include`, directories are the ones leading to a matching file.
+    const rules = await loadIgnoreRules(rootPath);
+    const found = await glob(include.length > 0 ? include : "**/*", {
         cwd: rootPath,
-        ignore: DEFAULT_IGNORE_PATTERNS,
+        ignore: [...DEFAULT_IGNORE_PATTERNS, ...exclude],
         dot: true, // Include hidden files (but .git is already ignored)
         markDirectories: true,
-        onlyFiles: false,
+        onlyFiles: include.length > 0,
+        stats: true,
     });
+    const entries = found.filter(entry => !rules.ignores(entry.path, entry.path.endsWith("/")));
 
     // Build the tree structure
-    const tree = await buildTree(rootPath, entries);
-
-    // Count files and directories
-    const stats = countNodes(tree);
+    const fileTimes = new Map<FileNode, number>();
+    const tree = buildTree(rootPath, entries, fileTimes);
+    const totals = new Map<FileNode, NodeTotals>();
+    const stats = totalNodes(tree, fileTimes, totals);
+
+    if (sortBy === 'size' || sortBy === 'mtime') annotateTotals(tree, sortBy, totals);
+    sortChildren(tree, sortBy, totals);
+
+    let shown: FileNode;
+    if (filesOnly) {
+        shown = { ...tree, children: listFiles(tree, maxDepth ?? Infinity) };
+    } else {
+        shown = shapeTree(tree, 0, { maxDepth, dirsOnly, threshold: summarize ? summarizeThreshold : Infinity }, totals);
+    }
 
-    const repoStructure: RepoStructure = {
-        root: rootPath,
-        tree,
-        totalFiles: stats.files,
-        totalDirectories: stats.directories,
-        format,
+    const lines = listEntries(shown);
+    return {
+        structure: {
+            root: rootPath,
+            tree: shown,
+            totalFiles: stats.files,
+            totalDirectories: stats.directories,
+        },
+        entries: sortBy === 'name' ? lines.sort() : lines,
+        shownNodes: lines.length,
     };
-
-    // Return based on format
-    switch (format) {
-        case 'tree':
-            return formatAsTree(repoStructure);
-        case 'simple':
-            return formatAsSimpleList(entries, repoStructure);
-        case 'json':
-        default:
-            return repoStructure;
-    }
 }
 
-function formatAsTree(structure: RepoStructure): string {
+function formatAsTree(structure: RepoStructure, start: number, end: number, nextCursor?: string): string {
     let output = `[Dir] ${structure.root}\n`;
     output += `Total: ${structure.totalFiles} files, ${structure.totalDirectories} directories\n\n`;
 
-    function printNode(node: FileNode, prefix: string = '', isLast: boolean = true): string {
-        let result = '';
+    // One line per node, in depth-first order
+    const lines: string[] = [];
+
+    function printNode(node: FileNode, prefix: string = '', isLast: boolean = true): void {
         const connector = isLast ? 'L-- ' : '|-- ';
         const icon = node.type === 'directory' ? '[Dir]' : '[File]';
-        const sizeInfo = node.size ? ` (${formatBytes(node.size)})` : '';
+        const name = node.summary ? `${node.name}/ (${describeSummary(node.summary)})` : node.name;
 
-        result += `${prefix}${connector}${icon} ${node.name}${sizeInfo}\n`;
+        lines.push(`${prefix}${connector}${icon} ${name}${describeNode(node)}\n`);
 
         if (node.children && node.children.length > 0) {
             const newPrefix = prefix + (isLast ? '    ' : '|   ');
             node.children.forEach((child, index) => {
                 const childIsLast = index === node.children!.length - 1;
-                result += printNode(child, newPrefix, childIsLast);
+                printNode(child, newPrefix, childIsLast);
             });
         }
-
-        return result;
     }
 
     if (structure.tree.children) {
         structure.tree.children.forEach((child, index) => {
             const isLast = index === structure.tree.children!.length - 1;
-            output += printNode(child, '', isLast);
+            printNode(child, '', isLast);
         });
     }
 
+    output += lines.slice(start, end).join('');
+    output += pageFooter(start, end, lines.length, nextCursor);
     return output;
 }
 
-function formatAsSimpleList(entries: string[], structure: RepoStructure): string {
+function formatAsSimpleList(entries: string[], structure: RepoStructure, start: number, end: number, nextCursor?: string): string {
     let output = `Repository: ${structure.root}\n`;
     output += `Total: ${structure.totalFiles} files, ${structure.totalDirectories} directories\n\n`;
     output += 'Files and Directories:\n';
-    output += entries.sort().map(entry => `  ${entry}`).join('\n');
+    output += entries.slice(start, end).map(entry => `  ${entry}`).join('\n');
+    if (nextCursor || start > 0) output += '\n' + pageFooter(start, end, entries.length, nextCursor);
     return output;
 }
 
+function pageFooter(start: number, end: number, total: number, nextCursor?: string): string {
+    if (!nextCursor && start === 0) return '';
+    let footer = `\nShowing entries ${start + 1}-${end} of ${total}.`;
+    if (nextCursor) footer += ` Next page: cursor "${nextCursor}"`;
+    return footer + '\n';
+}
+
+// The nodes at depth-first positions [start, end) below the root, with the directories containing them
+function sliceTree(root: FileNode, start: number, end: number): FileNode {
+    let position = 0;
+
+    function visit(node: FileNode): FileNode | null {
+        const index = position++;
+        const inPage = index >= start && index < end;
+        if (!node.children) return inPage ? node : null;
+
+        const children: FileNode[] = [];
+        for (const child of node.children) {
+            if (position >= end) break;
+            const kept = visit(child);
+            if (kept) children.push(kept);
+        }
+        return inPage || children.length > 0 ? { ...node, children } : null;
+    }
+
+    const children: FileNode[] = [];
+    for (const child of root.children ?? []) {
+        if (position >= end) break;
+        const kept = visit(child);
+        if (kept) children.push(kept);
+    }
+    return { ...root, children };
+}
+
 function formatBytes(bytes: number): string {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -142,74 +254,126 @@ function formatBytes(bytes: number): string {
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
 }
 
-async function buildTree(
+// "1,240 files, 38 MB, mostly .ts"
+function describeSummary(summary: DirectorySummary): string {
+    const parts = [`${summary.files.toLocaleString('en-US')} ${summary.files === 1 ? 'file' : 'files'}`];
+    if (summary.directories > 0) {
+        parts.push(`${summary.directories.toLocaleString('en-US')} ${summary.directories === 1 ? 'directory' : 'directories'}`);
+    }
+    parts.push(formatBytes(summary.size));
+    if (summary.mostlyExtension) parts.push(`mostly ${summary.mostlyExtension}`);
+    return parts.join(', ');
+}
+
+// Size and modification time after the name, where the node has them
+function describeNode(node: FileNode): string {
+    const details: string[] = [];
+    if (node.size && !node.summary) details.push(formatBytes(node.size));
+    if (node.modified) details.push(`modified ${node.modified.slice(0, 16).replace('T', ' ')}`);
+    return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+// Paths below the root in depth-first order, directories with a trailing slash
+function listEntries(root: FileNode): string[] {
+    const entries: string[] = [];
+
+    function visit(node: FileNode): void {
+        if (node.type === 'file') {
+            entries.push(node.path);
+            return;
+        }
+        entries.push(node.summary ? `${node.path}/ (${describeSummary(node.summary)})` : `${node.path}/`);
+        node.children?.forEach(visit);
+    }
+
+    root.children?.forEach(visit);
+    return entries;
+}
+
+function buildTree(
     rootPath: string,
-    entries: string[]
-): Promise<FileNode> {
+    entries: FoundEntry[],
+    fileTimes: Map<FileNode, number>
+): FileNode {
     const root: FileNode = {
         name: path.basename(rootPath) || rootPath,
         type: "directory",
         path: "",
         children: [],
     };
+    // Directories by path, so each entry finds its parent without searching
+    const directories = new Map<string, FileNode>([["", root]]);
+
+    function directoryAt(directoryPath: string): FileNode {
+        let node = directories.get(directoryPath);
+        if (node) return node;
+
+        const slash = directoryPath.lastIndexOf('/');
+        const parent = directoryAt(slash === -1 ? '' : directoryPath.slice(0, slash));
+        node = { name: directoryPath.slice(slash + 1), type: "directory", path: directoryPath, children: [] };
+        parent.children!.push(node);
+        directories.set(directoryPath, node);
+        return node;
+    }
 
-    // Sort entries to process directories before files
-    const sortedEntries = entries.sort();
-
-    for (const entry of sortedEntries) {
-        const parts = entry.split(path.sep);
-        let currentNode = root;
-
-        for (let i = 0; i < parts.length; i++) {
-            const part = parts[i];
-            const isLast = i === parts.length - 1;
-            const currentPath = parts.slice(0, i + 1).join(path.sep);
-
-            // Check if this part already exists in children
-            let childNode = currentNode.children?.find((child) => child.name === part);
-
-            if (!childNode) {
-                // Determine if it's a file or directory
-                const isDirectory = entry.endsWith("/") || !isLast;
-
-                childNode = {
-                    name: part,
-                    type: isDirectory ? "directory" : "file",
-                    path: currentPath,
-                };
-
-                if (isDirectory) {
-                    childNode.children = [];
-                } else { 
-                    // Get file size
-                    try {
-                        const fullPath = path.join(rootPath, currentPath);
-                        const stats = await fs.stat(fullPath);
-                        childNode.size = stats.size;
-                    } catch {
-                        // If we can't get size, just skip it
-                    }
-                }
-
-                currentNode.children?.push(childNode);
-            }
-
-            if (childNode.type === "directory") {
-                currentNode = childNode;
-            }
+    // fast-glob separates path segments with forward slashes on every platform
+    for (const entry of entries) {
+        if (entry.path.endsWith('/')) {
+            directoryAt(entry.path.slice(0, -1));
+            continue;
         }
-    }
 
-    // Sort children: directories first, then files, both alphabetically
-    sortChildren(root);
+        const slash = entry.path.lastIndexOf('/');
+        const parent = directoryAt(slash === -1 ? '' : entry.path.slice(0, slash));
+        const file: FileNode = { name: entry.path.slice(slash + 1), type: "file", path: entry.path };
+        if (entry.stats) {
+            file.size = entry.stats.size;
+            fileTimes.set(file, entry.stats.mtimeMs);
+        }
+        parent.children!.push(file);
+    }
 
     return root;
 }
 
-function sortChildren(node: FileNode): void {
+// Count files and directories below each node, with their total size and latest modification time
+function totalNodes(node: FileNode, fileTimes: Map<FileNode, number>, totals: Map<FileNode, NodeTotals>): NodeTotals {
+    let nodeTotals: NodeTotals;
+    if (node.type === 'file') {
+        nodeTotals = { files: 1, directories: 0, size: node.size ?? 0, mtimeMs: fileTimes.get(node) ?? 0 };
+    } else {
+        nodeTotals = { files: 0, directories: 1, size: 0, mtimeMs: 0 };
+        for (const child of node.children ?? []) {
+            const childTotals = totalNodes(child, fileTimes, totals);
+            nodeTotals.files += childTotals.files;
+            nodeTotals.directories += childTotals.directories;
+            nodeTotals.size += childTotals.size;
+            nodeTotals.mtimeMs = Math.max(nodeTotals.mtimeMs, childTotals.mtimeMs);
+        }
+    }
+    totals.set(node, nodeTotals);
+    return nodeTotals;
+}
+
+// Show what the tree is sorted by on every node
+function annotateTotals(node: FileNode, sortBy: 'size' | 'mtime', totals: Map<FileNode, NodeTotals>): void {
+    const nodeTotals = totals.get(node)!;
+    if (sortBy === 'size') node.size = nodeTotals.size;
+    else if (nodeTotals.mtimeMs > 0) node.modified = new Date(nodeTotals.mtimeMs).toISOString();
+    node.children?.forEach(child => annotateTotals(child, sortBy, totals));
+}
+
+function sortChildren(node: FileNode, sortBy: SortKey, totals: Map<FileNode, NodeTotals>): void {
     if (!node.children) return;
 
     node.children.sort((a, b) => {
+        // Largest or most recent first, directories and files alike
+        if (sortBy !== 'name') {
+            const difference = sortBy === 'size'
+                ? totals.get(b)!.size - totals.get(a)!.size
+                : totals.get(b)!.mtimeMs - totals.get(a)!.mtimeMs;
+            if (difference !== 0) return difference;
+        }
         // Directories before files
         if (a.type !== b.type) {
             return a.type === "directory" ? -1 : 1;
@@ -219,25 +383,62 @@ function sortChildren(node: FileNode): void {
     });
 
     // Recursively sort children
-    node.children.forEach(sortChildren);
-}
-
-function countNodes(node: FileNode): { files: number; directories: number } {
-    let files = 0;
-    let directories = 0;
-
-    if (node.type === "file") {
-        files = 1;
-    } else if (node.type === "directory") {
-        directories = 1;
-        if (node.children) {
-            for (const child of node.children) {
-                const childStats = countNodes(child);
-                files += childStats.files;
-                directories += childStats.directories;
-            }
-        }
+    node.children.forEach(child => sortChildren(child, sortBy, totals));
+}
+
+// Files at most `maxDepth` levels down, in tree order, named by their path
+function listFiles(node: FileNode, maxDepth: number, depth = 0): FileNode[] {
+    if (node.type === 'file') return depth <= maxDepth ? [{ ...node, name: node.path }] : [];
+    return (node.children ?? []).flatMap(child => listFiles(child, maxDepth, depth + 1));
+}
+
+/**
+ * The tree as shown: directories past `maxDepth`, or with more than `threshold` entries, are
+ * collapsed into a summary, and with `dirsOnly` files are left out.
+ */
+function shapeTree(
+    node: FileNode,
+    depth: number,
+    shape: { maxDepth?: number; dirsOnly: boolean; threshold: number },
+    totals: Map<FileNode, NodeTotals>
+): FileNode {
+    if (node.type === 'file' || !node.children) return node;
+
+    const children = node.children;
+    const tooDeep = shape.maxDepth !== undefined && depth >= shape.maxDepth;
+    // The root is always expanded
+    if (depth > 0 && children.length > 0 && (tooDeep || children.length > shape.threshold)) {
+        const collapsed: FileNode = { ...node, summary: summarizeDirectory(node, totals) };
+        delete collapsed.children;
+        return collapsed;
     }
 
-    return { files, directories };
-}
\ No newline at end of file
+    return {
+        ...node,
+        children: children
+            .filter(child => !shape.dirsOnly || child.type === 'directory')
+            .map(child => shapeTree(child, depth + 1, shape, totals)),
+    };
+}
+
+function summarizeDirectory(node: FileNode, totals: Map<FileNode, NodeTotals>): DirectorySummary {
+    const { files, directories, size } = totals.get(node)!;
+    const extensions = new Map<string, number>();
+
+    function tally(current: FileNode): void {
+        if (current.type === 'file') {
+            const extension = path.extname(current.name).toLowerCase();
+            if (extension) extensions.set(extension, (extensions.get(extension) ?? 0) + 1);
+            return;
+        }
+        current.children?.forEach(tally);
+    }
+    tally(node);
+
+    // Ties go to the alphabetically first extension, so the line doesn't change between scans
+    const [mostlyExtension] = [...extensions]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .map(([extension]) => extension);
+    // The directory itself is not one of its contents
+    return { files, directories: directories - 1, size, ...(mostlyExtension && { mostlyExtension }) };
+}
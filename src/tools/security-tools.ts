@@ -10,6 +10,13 @@ import * as fs from "fs/promises";
 import { InferenceClient } from "@huggingface/inference";
 import pkg from "fast-glob";
 const { glob } = pkg;
+import ignore from "ignore";
+import { getWorkerPool, TaskTimeoutError } from "../utils/worker-pool.js";
+import { FileProgress, ProgressOptions } from "../utils/progress.js";
+import { PageParams, paginate } from "../utils/pagination.js";
+import { DEFAULT_IGNORE_PATTERNS, loadIgnoreRules } from "../utils/ignore-rules.js";
+import { toPosix } from "../utils/module-resolver.js";
+import { loadProjectConfig, loadProjectConfigFor, ProjectConfig, SecuritySuppression, ThreatType } from "../utils/project-config.js";
 
 // ============================================
 // Shared Types & Configuration
@@ -181,7 +188,7 @@ const SHELL_PATTERNS = {
     commandSubstitution: /\$\([^)]+\)|`[^`]+`/,
     envVariable: /\$\{[^}]+\}/,
     escapedChars: /\\[;|&`]/,
-    nullByte: /\x00|%00/i,
+    nullByte: /\0|%00/i,
     newlines: /[\n\r]/,
     pipeChain: /\|{1,2}/,
     andOr: /&&|\|\|/,
@@ -194,7 +201,7 @@ const SHELL_PATTERNS = {
     braceExpansion: /\{[^}]*,[^}]*\}|\{\.\.|\.\.\}/,
     arithmeticExpansion: /\$\(\([^)]+\)\)/,
     commandGrouping: /\{\s*[^}]+;\s*\}/,
-    globbing: /\*{2,}|\/\*|[?*\[\]]/,
+    globbing: /\*{2,}|\/\*|[?*[\]]/,
     tilde: /~[a-z_][a-z0-9_-]*/i,
 };
 
@@ -228,7 +235,7 @@ const PATH_PATTERNS = {
     urlEncoded: /%2e%2e[%2f%5c]/i,
     doubleUrlEncoded: /%252e%252e%252f/i,
     unicode: /\.\.%c0%af|\.\.%c1%9c/i,
-    nullByte: /%00|\x00/,
+    nullByte: /%00|\0/,
     uncPath: /^\\\\[^\\]+\\|^\/\/[^/]+\//,
     mixedSeparators: /\.\.\\\/|\.\.\/\\/,
     absoluteLinux: /^\/(?:etc|proc|sys|dev|root|home|usr|var|tmp)(?:\/|$)/i,
@@ -273,7 +280,7 @@ const PROMPT_PATTERNS = {
     toolManipulation: /use\s+tool|execute|run\s+command|call\s+function|invoke/i,
     memoryPoisoning: /remember\s+that|always\s+respond\s+with|from\s+now\s+on/i,
     developerMode: /developer\s+mode|jailbreak|DAN|do\s+anything\s+now/i,
-    base64Pattern: /[A-Za-z0-9+\/]{20,}={0,2}/,
+    base64Pattern: /[A-Za-z0-9+/]{20,}={0,2}/,
     rot13Pattern: /[A-Za-z]{10,}\s+[A-Za-z]{10,}/,
     unicodeEscape: /\\u[0-9a-fA-F]{4}|\\x[0-9a-fA-F]{2}/,
     multilingualBypass: /[\u4E00-\u9FFF\uAC00-\uD7AF\u0400-\u04FF]{3,}/,
@@ -710,7 +717,7 @@ export function validateFilePath(
         }
 
         // Remove null bytes
-        decoded = decoded.replace(/\x00/g, '');
+        decoded = decoded.replace(/\0/g, '');
 
         // Normalize path
         normalizedPath = path.normalize(decoded);
@@ -1164,7 +1171,8 @@ export function detectPromptInjection(
         safe: detectedTechniques.length === 0,
         injection_likelihood: Math.round(likelihood * 100) / 100,
         detected_techniques: [...new Set(detectedTechniques)],
-        flagged_phrases: [...new Set(flaggedPhrases)],
+        // The matches include capture groups, which are undefined when they did not take part
+        flagged_phrases: [...new Set(flaggedPhrases)].filter(phrase => phrase !== undefined),
         encoded_content_found: encodedContentFound,
         risk_level: riskLevel,
         recommendation,
@@ -1268,7 +1276,7 @@ export function createSecurityVisualization(
 // ============================================
 
 export interface ThreatFinding {
-    type: 'shell_injection' | 'sql_injection' | 'path_traversal' | 'template_injection' | 'prompt_injection';
+    type: ThreatType;
     line: number;
     content: string;
     risk_level: RiskLevel;
@@ -1280,14 +1288,26 @@ export interface FileScanResult {
     file: string;
     findings: ThreatFinding[];
     summary: { critical: number; high: number; medium: number; low: number };
+    // Findings left out because a suppression rule of .project-scope.json covers them
+    findings_suppressed?: number;
 }
 
 export interface RepoScanResult {
     threats_detected: boolean;
     files_scanned: number;
     files_with_threats: number;
+    // Files skipped because scanning them exceeded the per-file timeout
+    files_timed_out: string[];
+    // Files whose scan failed for another reason; they are not counted as scanned
+    files_failed: { file: string; error: string }[];
+    // Findings left out because a suppression rule of .project-scope.json covers them
+    findings_suppressed: number;
+    // Set when the scan was stopped early; the counts cover the files scanned until then
+    cancelled?: boolean;
     findings: (ThreatFinding & { file: string })[];
     summary: { critical: number; high: number; medium: number; low: number };
+    // Pass as `cursor` to get the next page of findings
+    nextCursor?: string;
 }
 
 /**
@@ -1417,19 +1437,75 @@ export async function scanFileForThreats(
     };
 }
 
+// ============================================
+// Project Settings
+// ============================================
+
+// What a scan uses when neither the call nor .project-scope.json says otherwise
+export const SCAN_DEFAULTS = { mode: 'strict', sensitivity: 'high' } as const;
+
+/**
+ * Scan one file with the settings of the nearest .project-scope.json, leaving out the findings it suppresses.
+ */
+export async function scanProjectFile(filePath: string, config: Partial<SecurityConfig> = {}): Promise<FileScanResult> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const { root, config: project } = await loadProjectConfigFor(filePath);
+    const result = await scanFileForThreats(filePath, content, withProjectSettings(config, project.security));
+    return dropSuppressed(result, path.relative(root, path.resolve(filePath)), compileSuppressions(project.security.suppress));
+}
+
+// The call's settings win over the project's, which win over SCAN_DEFAULTS; allowlists add up
+function withProjectSettings(config: Partial<SecurityConfig>, project: ProjectConfig['security']): Partial<SecurityConfig> {
+    return {
+        ...config,
+        mode: config.mode ?? project.mode ?? SCAN_DEFAULTS.mode,
+        sensitivity: config.sensitivity ?? project.sensitivity ?? SCAN_DEFAULTS.sensitivity,
+        allowlist: {
+            commands: [...project.allowlist.commands, ...(config.allowlist?.commands ?? [])],
+            paths: [...project.allowlist.paths, ...(config.allowlist?.paths ?? [])],
+            sql_keywords: [...project.allowlist.sql_keywords, ...(config.allowlist?.sql_keywords ?? [])],
+        },
+    };
+}
+
+type SuppressionTest = (file: string, finding: ThreatFinding) => boolean;
+
+// A finding is suppressed when every condition of one rule holds
+function compileSuppressions(rules: SecuritySuppression[]): SuppressionTest {
+    const compiled = rules.map(rule => ({
+        ...rule,
+        files: rule.files && ignore().add(rule.files),
+        pattern: rule.pattern !== undefined ? new RegExp(rule.pattern) : null,
+    }));
+    return (file, finding) => compiled.some(rule =>
+        (!rule.files || rule.files.ignores(toPosix(file))) &&
+        (rule.type === undefined || rule.type === finding.type) &&
+        (rule.line === undefined || rule.line === finding.line) &&
+        (!rule.pattern || rule.pattern.test(finding.content))
+    );
+}
+
+function dropSuppressed(result: FileScanResult, file: string, isSuppressed: SuppressionTest): FileScanResult {
+    const findings = result.findings.filter(finding => !isSuppressed(file, finding));
+    if (findings.length === result.findings.length) return result;
+
+    const summary = { critical: 0, high: 0, medium: 0, low: 0 };
+    findings.forEach(f => summary[f.risk_level]++);
+    return {
+        ...result,
+        threats_detected: findings.length > 0,
+        findings,
+        summary,
+        findings_suppressed: result.findings.length - findings.length,
+    };
+}
+
 // ============================================
 // TOOL 7: Repository Threat Scanner
 // ============================================
 
-const DEFAULT_EXCLUDE_PATTERNS = [
-    '**/node_modules/**',
-    '**/.git/**',
-    '**/dist/**',
-    '**/build/**',
-    '**/.next/**',
-    '**/coverage/**',
-    '**/__pycache__/**',
-    '**/venv/**',
+// Generated files the repository scan skips on top of DEFAULT_IGNORE_PATTERNS; nobody reviews them line by line
+export const SCAN_SKIPPED_FILES = [
     '**/*.min.js',
     '**/*.min.css',
     '**/package-lock.json',
@@ -1442,56 +1518,123 @@ const SCANNABLE_EXTENSIONS = [
     '.json', '.html', '.htm', '.xml', '.env', '.conf', '.ini',
 ];
 
+export interface RepoScanOptions extends ProgressOptions, PageParams {
+    // Files scanned at once (default: the worker pool size)
+    concurrency?: number;
+    // A file taking longer than this is skipped and reported in files_timed_out
+    fileTimeoutMs?: number;
+    // Called with each file's result as soon as it is scanned, in completion order
+    onFile?: (result: FileScanResult) => void;
+}
+
+export interface RepoFileScanTask {
+    repoPath: string;
+    file: string;
+    config: Partial<SecurityConfig>;
+}
+
+const DEFAULT_FILE_TIMEOUT_MS = 10_000;
+
 /**
- * Scan an entire repository for security threats (regex-only, no API calls)
+ * Read and scan one file of a repository scan; runs in a worker thread.
+ * Returns null for files that are unreadable or too large (>1MB).
+ */
+export async function scanRepoFile(task: RepoFileScanTask): Promise<FileScanResult | null> {
+    let content: string;
+    try {
+        content = await fs.readFile(path.join(task.repoPath, task.file), 'utf-8');
+    } catch {
+        return null;
+    }
+    if (content.length > 1_000_000) return null;
+
+    return scanFileForThreats(task.file, content, { ...task.config, projectRoot: task.repoPath });
+}
+
+/**
+ * Scan an entire repository for security threats (regex-only, no API calls).
+ * Files are scanned in parallel on the shared worker pool. With `limit`, findings
+ * come a page at a time; the summary always covers the whole scan.
  */
 export async function scanRepoForThreats(
     repoPath: string,
     excludePatterns: string[] = [],
-    config: Partial<SecurityConfig> = {}
+    config: Partial<SecurityConfig> = {},
+    options: RepoScanOptions = {}
 ): Promise<RepoScanResult> {
-    const allExcludes = [...DEFAULT_EXCLUDE_PATTERNS, ...excludePatterns];
+    const { result, start, end, nextCursor } = await paginate(
+        'scan_repo_for_threats',
+        options,
+        () => scanRepository(repoPath, excludePatterns, config, options),
+        scan => scan.findings.length
+    );
+    return { ...result, findings: result.findings.slice(start, end), ...(nextCursor && { nextCursor }) };
+}
 
-    // Find all scannable files
-    const files = await glob('**/*', {
+async function scanRepository(
+    repoPath: string,
+    excludePatterns: string[],
+    config: Partial<SecurityConfig>,
+    options: RepoScanOptions
+): Promise<RepoScanResult> {
+    const allExcludes = [...DEFAULT_IGNORE_PATTERNS, ...SCAN_SKIPPED_FILES, ...excludePatterns];
+    const project = await loadProjectConfig(repoPath);
+    const settings = withProjectSettings(config, project.security);
+    const isSuppressed = compileSuppressions(project.security.suppress);
+
+    // Find all scannable files; git-ignored ones are not part of the project
+    const rules = await loadIgnoreRules(repoPath);
+    const files = rules.filter(await glob('**/*', {
         cwd: repoPath,
-        absolute: true,
         ignore: allExcludes,
         onlyFiles: true,
-    });
+    }));
 
     // Filter by extension
-    const scannableFiles = files.filter(f =>
-        SCANNABLE_EXTENSIONS.some(ext => f.endsWith(ext))
-    );
+    const scannableFiles = files
+        .filter(f => SCANNABLE_EXTENSIONS.some(ext => f.endsWith(ext)))
+        .map(f => path.normalize(f));
+
+    const results: (FileScanResult | null)[] = new Array(scannableFiles.length).fill(null);
+    const timedOut: string[] = [];
+    const failed: { file: string; error: string }[] = [];
+
+    const progress = new FileProgress(options, scannableFiles.length);
+    let processed = 0;
+
+    const tasks = scannableFiles.map(file => ({ repoPath, file, config: settings }));
+    const outcomes = getWorkerPool().map('scan-file', tasks, {
+        concurrency: options.concurrency,
+        timeoutMs: options.fileTimeoutMs ?? DEFAULT_FILE_TIMEOUT_MS,
+        signal: options.signal,
+    });
+    for await (const { index, payload, result, error } of outcomes) {
+        processed++;
+        progress.advance(payload.file);
+        if (error instanceof TaskTimeoutError) {
+            timedOut.push(payload.file);
+        } else if (error) {
+            // A scan that didn't run must not read as a clean file
+            failed.push({ file: payload.file, error: error.message });
+        }
+        // Skip files that can't be read or scanned
+        if (!result) continue;
+
+        results[index] = dropSuppressed(result, payload.file, isSuppressed);
+        options.onFile?.(results[index]!);
+    }
 
+    // Report in file order, whichever worker finished first
     const allFindings: (ThreatFinding & { file: string })[] = [];
     let filesWithThreats = 0;
-
-    // Scan each file
-    for (const file of scannableFiles) {
-        try {
-            const content = await fs.readFile(file, 'utf-8');
-
-            // Skip very large files (>1MB)
-            if (content.length > 1_000_000) continue;
-
-            const relativePath = path.relative(repoPath, file);
-            const result = await scanFileForThreats(relativePath, content, {
-                ...config,
-                projectRoot: repoPath,
-            });
-
-            if (result.findings.length > 0) {
-                filesWithThreats++;
-                result.findings.forEach(f => {
-                    allFindings.push({ ...f, file: relativePath });
-                });
-            }
-        } catch {
-            // Skip files that can't be read
-            continue;
-        }
+    let suppressed = 0;
+    for (const result of results) {
+        suppressed += result?.findings_suppressed ?? 0;
+        if (!result || result.findings.length === 0) continue;
+        filesWithThreats++;
+        result.findings.forEach(f => {
+            allFindings.push({ ...f, file: result.file });
+        });
     }
 
     // Calculate summary
@@ -1500,8 +1643,12 @@ export async function scanRepoForThreats(
 
     return {
         threats_detected: allFindings.length > 0,
-        files_scanned: scannableFiles.length,
+        files_scanned: processed - timedOut.length - failed.length,
         files_with_threats: filesWithThreats,
+        files_timed_out: timedOut.sort(),
+        files_failed: failed.sort((a, b) => a.file.localeCompare(b.file)),
+        findings_suppressed: suppressed,
+        ...(processed < scannableFiles.length && { cancelled: true }),
         findings: allFindings,
         summary,
     };
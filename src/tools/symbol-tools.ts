@@ -0,0 +1,355 @@
+/**
+ * Symbol Tools
+ *
+ * A per-file outline of declarations, nested the way the source nests them, for reading a
+ * file's shape without reading the file; and go-to-definition for a name at a position.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import pkg from "fast-glob";
+const { glob } = pkg;
+import { cachedWhileWatching } from "../parsers/index-watcher.js";
+import { createParser } from "../parsers/parser-factory.js";
+import { OutlineSymbol, outlineSymbols } from "../parsers/symbol-outline.js";
+import { getSymbolIndex } from "../parsers/symbol-index.js";
+import { resolveDefinition } from "../parsers/symbol-resolver.js";
+import { findDefinitions, getProjectSource, getSourceText, selectTypeScriptProject, TypeScriptBackend } from "../parsers/typescript-service.js";
+import { DEFAULT_IGNORE_PATTERNS, loadIgnoreRules } from "../utils/ignore-rules.js";
+import { detectLanguage, SupportedLanguage } from "../utils/language-detector.js";
+import { toPosix } from "../utils/module-resolver.js";
+import { PageParams, paginate } from "../utils/pagination.js";
+import { FileProgress, ProgressOptions } from "../utils/progress.js";
+import { detectProjectLanguage, loadProjectConfig } from "../utils/project-config.js";
+import { getWorkerPool } from "../utils/worker-pool.js";
+
+// Languages with an outline; HTML and CSS have no declarations to list
+const OUTLINED_LANGUAGES: SupportedLanguage[] = ["javascript", "typescript", "python", "java", "go"];
+const DEFAULT_OUTLINE_GLOB = "**/*.{js,jsx,mjs,cjs,ts,tsx,py,pyw,java,go}";
+
+// Files larger than this are listed with an error instead of an outline
+const MAX_OUTLINED_BYTES = 1_000_000;
+const OUTLINE_TIMEOUT_MS = 10_000;
+
+export interface FileOutline {
+    file: string;
+    language: SupportedLanguage;
+    symbols: OutlineSymbol[];
+    error?: string;
+}
+
+export interface SymbolsResult {
+    root: string;
+    // The file or directory that was outlined, relative to the root
+    target: string;
+    files: FileOutline[];
+    totalFiles: number;
+    // Symbols on this page, members included
+    totalSymbols: number;
+    // Pass as `cursor` to get the next page of files
+    nextCursor?: string;
+    cancelled?: boolean;
+    visualization: string;
+}
+
+export interface GetSymbolsParams extends PageParams {
+    repoPath: string;
+    // A file or directory relative to the root (default: the whole repository)
+    filePath?: string;
+    // Files to outline when `filePath` is a directory, relative to that directory
+    pattern?: string;
+}
+
+export interface OutlineFileTask {
+    root: string;
+    file: string;
+    language: SupportedLanguage;
+}
+
+interface FindDefinitionParams {
+    repoPath: string;
+    filePath: string;
+    // 1-based position of the name
+    line: number;
+    column: number;
+    // Engine for TypeScript files; "auto" uses the compiler API when the repository has a tsconfig.json
+    backend?: TypeScriptBackend;
+}
+
+export interface DefinitionLocation {
+    file: string;
+    // 1-based position of the declared name
+    line: number;
+    column: number;
+    // function, class, method, variable, module, ...
+    kind: string;
+    // Lines of the whole declaration; the snippet stops after MAX_SNIPPET_LINES of them
+    startLine: number;
+    endLine: number;
+    snippet: string;
+}
+
+export interface DefinitionResult {
+    symbol: string;
+    filePath: string;
+    line: number;
+    column: number;
+    definitions: DefinitionLocation[];
+    // Engine that resolved the name
+    backend: "typescript" | "tree-sitter";
+    visualization: string;
+}
+
+const MAX_SNIPPET_LINES = 12;
+
+// ============================================
+// TOOL: Get Symbols
+// ============================================
+
+/**
+ * Outline the functions, classes, methods and other declarations of a file, or of every
+ * matching file in a directory. With `limit`, files come a page at a time.
+ */
+export async function getSymbols(params: GetSymbolsParams, progress: ProgressOptions = {}): Promise<SymbolsResult> {
+    const { limit, cursor, repoPath, filePath = "", pattern } = params;
+    const root = path.resolve(repoPath);
+    const rootStat = await fs.stat(root).catch(() => null);
+    if (!rootStat) throw new Error(`Path does not exist: ${repoPath}`);
+    if (!rootStat.isDirectory()) {
+        throw new Error(`'path' must be the repository's root directory, but ${repoPath} is a file; pass the file as 'filePath' instead`);
+    }
+
+    const { result, start, end, nextCursor } = await paginate(
+        'get_symbols',
+        { limit, cursor },
+        () => cachedWhileWatching(root, `get_symbols:${filePath}:${pattern ?? ""}`, run => outlineTarget(root, filePath, pattern, run), progress),
+        outline => outline.files.length
+    );
+
+    const files = result.files.slice(start, end);
+    const page = {
+        ...result,
+        files,
+        totalSymbols: files.reduce((sum, file) => sum + countSymbols(file.symbols), 0),
+        ...(nextCursor && { nextCursor }),
+    };
+    return { ...page, visualization: createOutlineVisualization(page, start) };
+}
+
+async function outlineTarget(
+    root: string,
+    filePath: string,
+    pattern: string | undefined,
+    options: ProgressOptions
+): Promise<Omit<SymbolsResult, "totalSymbols" | "visualization">> {
+    const target = toPosix(path.relative(root, path.resolve(root, filePath)));
+    if (target.startsWith("..") || path.isAbsolute(target)) {
+        throw new Error(`Path escapes the repository: ${filePath}`);
+    }
+
+    let stat;
+    try {
+        stat = await fs.stat(path.join(root, target));
+    } catch {
+        throw new Error(`File not found: ${filePath || root}`);
+    }
+
+    const { languages } = await loadProjectConfig(root);
+    if (stat.isFile()) {
+        const language = detectLanguage(target, languages);
+        if (!OUTLINED_LANGUAGES.includes(language)) {
+            throw new Error(`No outline for this file type: ${target} (supported: JavaScript, TypeScript, Python, Java, Go)`);
+        }
+        const outline = await outlineFileTask({ root, file: target, language });
+        if (!outline) throw new Error(`Could not read ${target}`);
+        return { root, target, files: [outline], totalFiles: 1 };
+    }
+
+    // Directory: every matching source file below it that is not ignored, including extensions the configuration maps
+    const rules = await loadIgnoreRules(root);
+    const patterns = pattern ? [pattern] : [DEFAULT_OUTLINE_GLOB, ...Object.keys(languages).map(extension => `**/*${extension}`)];
+    const files = (await glob(patterns, { cwd: path.join(root, target), ignore: DEFAULT_IGNORE_PATTERNS, dot: true }))
+        .map(file => (target ? `${target}/${file}` : file))
+        .filter(file => OUTLINED_LANGUAGES.includes(detectLanguage(file, languages)) && !rules.ignores(file))
+        .sort();
+
+    const progress = new FileProgress(options, files.length);
+    const outlines = new Array<FileOutline | null>(files.length).fill(null);
+    const tasks = files.map(file => ({ root, file, language: detectLanguage(file, languages) }));
+    const outcomes = getWorkerPool().map("outline-file", tasks, {
+        timeoutMs: OUTLINE_TIMEOUT_MS,
+        signal: options.signal,
+    });
+    for await (const { index, payload, result, error } of outcomes) {
+        progress.advance(payload.file);
+        outlines[index] = result ?? (error ? { file: payload.file, language: payload.language, symbols: [], error: error.message } : null);
+    }
+
+    const listed = outlines.filter((outline): outline is FileOutline => outline !== null);
+    return { root, target, files: listed, totalFiles: listed.length, ...(progress.cancelled && { cancelled: true }) };
+}
+
+/**
+ * Read and outline one file; runs in a worker thread.
+ * Returns null when the file cannot be read.
+ */
+export async function outlineFileTask(task: OutlineFileTask): Promise<FileOutline | null> {
+    const { language } = task;
+    let content: string;
+    try {
+        const fullPath = path.join(task.root, task.file);
+        if ((await fs.stat(fullPath)).size > MAX_OUTLINED_BYTES) {
+            return { file: task.file, language, symbols: [], error: `Larger than ${MAX_OUTLINED_BYTES} bytes; not outlined` };
+        }
+        content = await fs.readFile(fullPath, "utf-8");
+    } catch {
+        return null;
+    }
+
+    try {
+        const tree = createParser(language, task.file)?.parse(content);
+        return { file: task.file, language, symbols: tree ? outlineSymbols(tree, language) : [] };
+    } catch (error) {
+        return { file: task.file, language, symbols: [], error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+function countSymbols(symbols: OutlineSymbol[]): number {
+    return symbols.reduce((sum, symbol) => sum + 1 + countSymbols(symbol.children ?? []), 0);
+}
+
+function createOutlineVisualization(result: Omit<SymbolsResult, "visualization">, start: number): string {
+    let viz = "\n SYMBOL OUTLINE\n";
+    viz += "-".repeat(50) + "\n\n";
+    if (result.cancelled) viz += "[CANCELLED] Stopped early; some files are missing.\n\n";
+    viz += `Target: ${result.target || "."}\n`;
+    viz += `Files: ${result.totalFiles}, symbols on this page: ${result.totalSymbols}\n\n`;
+
+    function printSymbol(symbol: OutlineSymbol, indent: string): void {
+        const { startLine, endLine } = symbol.range;
+        const lines = endLine > startLine ? `L${startLine}-${endLine}` : `L${startLine}`;
+        const flags = [symbol.exported ? "exported" : symbol.visibility].join(", ");
+        viz += `${indent}[${symbol.kind}] ${symbol.signature}  ${lines} (${flags})\n`;
+        for (const child of symbol.children ?? []) printSymbol(child, indent + "   ");
+    }
+
+    for (const file of result.files) {
+        viz += `📄 ${file.file}\n`;
+        if (file.error) viz += `   [ERROR] ${file.error}\n`;
+        else if (file.symbols.length === 0) viz += "   (no declarations)\n";
+        for (const symbol of file.symbols) printSymbol(symbol, "   ");
+        viz += "\n";
+    }
+
+    if (result.nextCursor || start > 0) {
+        viz += `Showing files ${start + 1}-${start + result.files.length} of ${result.totalFiles}.`;
+        if (result.nextCursor) viz += ` Next page: cursor "${result.nextCursor}"`;
+        viz += "\n";
+    }
+    return viz;
+}
+
+// ============================================
+// TOOL: Find Definition
+// ============================================
+
+/**
+ * Go to the declaration of the name at a position, across files. Several definitions come back
+ * for overloads and merged declarations, or a Go package name that spans several files.
+ */
+export async function findDefinition(params: FindDefinitionParams): Promise<DefinitionResult> {
+    const { filePath, line, column, backend = "auto" } = params;
+    const root = path.resolve(params.repoPath);
+    const file = toPosix(path.relative(root, path.resolve(root, filePath)));
+    if (file.startsWith("..") || path.isAbsolute(file)) {
+        throw new Error(`Path escapes the repository: ${filePath}`);
+    }
+    try {
+        await fs.access(path.join(root, file));
+    } catch {
+        throw new Error(`File not found: ${filePath}`);
+    }
+
+    const language = await detectProjectLanguage(root, file);
+    const project = language === "typescript" || language === "javascript"
+        ? await selectTypeScriptProject(root, backend)
+        : null;
+
+    let result: Omit<DefinitionResult, "visualization">;
+    if (project && (backend === "typescript" || getProjectSource(project, file))) {
+        const found = findDefinitions(project, file, line, column);
+        if (found.definitions.length === 0) {
+            const outside = found.external.map(name => {
+                const relative = toPosix(path.relative(root, name));
+                return relative.startsWith("..") ? name : relative;
+            });
+            throw new Error(outside.length > 0
+                ? `'${found.symbol}' is declared outside the repository, in ${outside.join(", ")}`
+                : `Could not find a definition of '${found.symbol}'`);
+        }
+        result = {
+            symbol: found.symbol,
+            filePath: file,
+            line,
+            column,
+            definitions: found.definitions.map(({ location, kind, startLine, endLine }) => ({
+                file: location.file,
+                line: location.line,
+                column: location.column,
+                kind,
+                startLine,
+                endLine,
+                snippet: snippetOf(getSourceText(project, location.file) ?? "", startLine, endLine),
+            })),
+            backend: "typescript",
+        };
+    } else {
+        const index = await getSymbolIndex(root);
+        const resolved = await resolveDefinition({ repoPath: root, files: index.files, filePath: file, line, column });
+        result = {
+            symbol: resolved.symbol,
+            filePath: file,
+            line,
+            column,
+            definitions: resolved.definitions.map(({ file: definitionFile, name, declaration, kind }) => {
+                const startLine = declaration.startPosition.row + 1;
+                const endLine = declaration.endPosition.row + 1;
+                return {
+                    file: definitionFile,
+                    line: name.startPosition.row + 1,
+                    column: name.startPosition.column + 1,
+                    kind,
+                    startLine,
+                    endLine,
+                    snippet: snippetOf(resolved.sources.get(definitionFile)!, startLine, endLine),
+                };
+            }),
+            backend: "tree-sitter",
+        };
+    }
+
+    return { ...result, visualization: createDefinitionVisualization(result) };
+}
+
+function snippetOf(source: string, startLine: number, endLine: number): string {
+    const lines = source.split(/\r?\n/).slice(startLine - 1, endLine);
+    return lines.length > MAX_SNIPPET_LINES ? [...lines.slice(0, MAX_SNIPPET_LINES), "..."].join("\n") : lines.join("\n");
+}
+
+function createDefinitionVisualization(result: Omit<DefinitionResult, "visualization">): string {
+    let viz = "\n DEFINITION\n";
+    viz += "-".repeat(50) + "\n\n";
+    viz += `Symbol: ${result.symbol} (${result.filePath}:${result.line}:${result.column})\n`;
+    viz += `Definitions: ${result.definitions.length} (${result.backend})\n\n`;
+
+    for (const definition of result.definitions) {
+        viz += `📍 ${definition.file}:${definition.line}:${definition.column} [${definition.kind}]\n`;
+        const width = String(definition.endLine).length;
+        definition.snippet.split("\n").forEach((text, i) => {
+            const number = text === "..." && i === MAX_SNIPPET_LINES ? "" : String(definition.startLine + i);
+            viz += `   ${number.padStart(width)} | ${text}\n`;
+        });
+        viz += "\n";
+    }
+    return viz;
+}
@@ -0,0 +1,1901 @@
+/**
+ * Tool Registry
+ *
+ * Every tool is declared once here: its name, description, input and output schemas, which
+ * are listed to clients as-is, and the handler that runs it. Arguments reach a handler only
+ * after validateArguments has checked them against the schema, so the casts below hold.
+ * A handler returns its typed result, sent as structuredContent, and optionally a
+ * human-readable rendering of it, sent as a text block of its own.
+ */
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { getRepoStructure } from "./repo-structure.js";
+import { getRepoStats } from "./repo-stats.js";
+import { findDefinition, getSymbols } from "./symbol-tools.js";
+import { analyzeImpact } from "./impact-analysis.js";
+import { getDependencyGraph } from "./dependency-graph.js";
+import { gitBranchStatus, gitCommitHistory, gitShowChanges, gitCompareBranches, gitInit, gitStatus } from "./git-tools.js";
+import { refactorRename, refactorExtractFunction, refactorMoveToFile, refactorInlineVariable } from "./refactoring-tools.js";
+import { findDeadCode } from "./dead-code.js";
+import { applyChangeSet, listChangeSets, discardChangeSet } from "./change-sets.js";
+import { applyPatch } from "./patch-tools.js";
+import { refactorHistory, refactorUndo } from "./refactor-history.js";
+import { indexStatus, rebuildIndex, watchRepo } from "./index-tools.js";
+import { getEffectiveConfig } from "./config-tools.js";
+import { validateShellInput, validateSqlQuery, validateFilePath, detectTemplateInjection, detectPromptInjectionAsync, createSecurityVisualization, scanProjectFile, scanRepoForThreats } from "./security-tools.js";
+import { TypeScriptBackend } from "../parsers/typescript-service.js";
+import { ProgressOptions } from "../utils/progress.js";
+import { InputSchema, PropertySchema, ToolArgumentError, ToolArguments, validateArguments } from "../utils/tool-arguments.js";
+
+export interface ToolContext {
+    // Progress reporting and cancellation for the call
+    progress: ProgressOptions;
+}
+
+interface OutputSchema {
+    type: "object";
+    properties: Record<string, object>;
+    required?: string[];
+}
+
+interface ToolOutput {
+    data: object;
+    visualization?: string;
+}
+
+interface ToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: InputSchema;
+    outputSchema: OutputSchema;
+    handler: (args: ToolArguments, context: ToolContext) => Promise<ToolOutput>;
+}
+
+// Every tool takes this argument on top of its own; callTool handles it
+const VERBOSITY_PROPERTY: PropertySchema = {
+    type: "string",
+    enum: ["full", "data"],
+    description: "'full' (default) returns a human-readable rendering of the result as a text block before the JSON; 'data' returns only the JSON",
+    default: "full",
+};
+
+// ============================================
+// Output Schemas
+// ============================================
+
+const RISK_LEVEL_SCHEMA = { type: "string", enum: ["critical", "high", "medium", "low"] };
+
+const SEVERITY_SUMMARY_SCHEMA = {
+    type: "object",
+    properties: {
+        critical: { type: "integer" },
+        high: { type: "integer" },
+        medium: { type: "integer" },
+        low: { type: "integer" },
+    },
+    required: ["critical", "high", "medium", "low"],
+};
+
+const THREAT_FINDING_SCHEMA = {
+    type: "object",
+    properties: {
+        type: { type: "string", enum: ["shell_injection", "sql_injection", "path_traversal", "template_injection", "prompt_injection"] },
+        line: { type: "integer" },
+        content: { type: "string" },
+        risk_level: RISK_LEVEL_SCHEMA,
+        details: { type: "array", items: { type: "string" } },
+    },
+    required: ["type", "line", "content", "risk_level", "details"],
+};
+
+// Children are listed as plain objects; JSON Schema would need a $ref to describe the recursion
+const FILE_NODE_SCHEMA = {
+    type: "object",
+    properties: {
+        name: { type: "string" },
+        type: { type: "string", enum: ["file", "directory"] },
+        path: { type: "string" },
+        size: { type: "integer" },
+        modified: { type: "string" },
+        summary: {
+            type: "object",
+            properties: {
+                files: { type: "integer" },
+                directories: { type: "integer" },
+                size: { type: "integer" },
+                mostlyExtension: { type: "string" },
+            },
+            required: ["files", "directories", "size"],
+        },
+        children: { type: "array", items: { type: "object" } },
+    },
+    required: ["name", "type", "path"],
+};
+
+// Members are nested under `children` as plain objects, for the same reason
+const OUTLINE_SYMBOL_SCHEMA = {
+    type: "object",
+    properties: {
+        name: { type: "string" },
+        kind: { type: "string", enum: ["function", "class", "method", "interface", "type", "enum", "const", "variable", "struct", "field"] },
+        range: {
+            type: "object",
+            properties: {
+                startLine: { type: "integer" },
+                startColumn: { type: "integer" },
+                endLine: { type: "integer" },
+                endColumn: { type: "integer" },
+            },
+            required: ["startLine", "startColumn", "endLine", "endColumn"],
+        },
+        signature: { type: "string" },
+        docstring: { type: "string" },
+        exported: { type: "boolean" },
+        visibility: { type: "string", enum: ["public", "protected", "private", "package"] },
+        children: { type: "array", items: { type: "object" } },
+    },
+    required: ["name", "kind", "range", "signature", "exported", "visibility"],
+};
+
+const COMMIT_SCHEMA = {
+    type: "object",
+    properties: {
+        hash: { type: "string" },
+        date: { type: "string" },
+        message: { type: "string" },
+        author: { type: "string" },
+        body: { type: "string" },
+    },
+    required: ["hash", "date", "message", "author", "body"],
+};
+
+const GIT_FILE_CHANGE_SCHEMA = {
+    type: "object",
+    properties: {
+        path: { type: "string" },
+        status: { type: "string" },
+        staged: { type: "boolean" },
+        insertions: { type: "integer" },
+        deletions: { type: "integer" },
+    },
+    required: ["path", "status", "staged"],
+};
+
+const REFACTOR_CHANGE_SCHEMA = {
+    type: "object",
+    properties: {
+        filePath: { type: "string" },
+        startLine: { type: "integer" },
+        endLine: { type: "integer" },
+        originalContent: { type: "string" },
+        newContent: { type: "string" },
+    },
+    required: ["filePath", "startLine", "endLine", "originalContent", "newContent"],
+};
+
+const FILE_EDIT_SCHEMA = {
+    type: "object",
+    properties: {
+        filePath: { type: "string" },
+        edits: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: { start: { type: "integer" }, end: { type: "integer" }, newText: { type: "string" } },
+                required: ["start", "end", "newText"],
+            },
+        },
+        expectedHash: { type: ["string", "null"] },
+        deleteFile: { type: "boolean" },
+    },
+    required: ["filePath", "edits", "expectedHash"],
+};
+
+const REFACTOR_RESULT_SCHEMA: OutputSchema = {
+    type: "object",
+    properties: {
+        success: { type: "boolean" },
+        preview: { type: "boolean" },
+        changes: { type: "array", items: REFACTOR_CHANGE_SCHEMA },
+        edits: { type: "array", items: FILE_EDIT_SCHEMA },
+        changeSetId: { type: "string", description: "Set on previews; pass to apply_change_set" },
+        historyId: { type: "string", description: "Set once applied; pass to refactor_undo" },
+        diff: { type: "string" },
+        summary: { type: "string" },
+    },
+    required: ["success", "preview", "changes", "edits", "diff", "summary"],
+};
+
+const DEAD_SYMBOL_SCHEMA = {
+    type: "object",
+    properties: { file: { type: "string" }, symbol: { type: "string" }, line: { type: "integer" } },
+    required: ["file", "symbol", "line"],
+};
+
+const WATCHER_STATUS_SCHEMA: OutputSchema = {
+    type: "object",
+    properties: {
+        root: { type: "string" },
+        watching: { type: "boolean" },
+        since: { type: "string" },
+        debounceMs: { type: "integer" },
+        directories: { type: "integer" },
+        pendingChanges: { type: "integer" },
+        lastUpdate: {
+            type: "object",
+            properties: { at: { type: "string" }, files: { type: "array", items: { type: "string" } } },
+            required: ["at", "files"],
+        },
+        reparsed: {
+            type: "object",
+            properties: { incremental: { type: "integer" }, full: { type: "integer" } },
+            required: ["incremental", "full"],
+        },
+        cachedResults: { type: "integer" },
+    },
+    required: ["root", "watching"],
+};
+
+// Results that come with a rendering carry it in `visualization`
+function separateVisualization<T extends { visualization?: string }>(result: T): ToolOutput {
+    const { visualization, ...data } = result;
+    return { data, visualization };
+}
+
+// ============================================
+// Tools
+// ============================================
+
+const TOOLS: ToolDefinition[] = [
+    {
+        name: "get_repo_structure",
+        description:
+            "Map the complete file structure of a repository. Automatically respects .gitignore (including nested ones and .git/info/exclude) and .projectscopeignore rules. Use 'tree' format for visual hierarchy, 'simple' for flat file lists, or 'json' for programmatic access. On large repositories, limit the depth, filter with include/exclude globs, or summarize big directories into one line each. Best practice: Run this first when encountering a new codebase.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the repository",
+                },
+                format: {
+                    type: "string",
+                    enum: ["tree", "simple", "json"],
+                    description: "Output format: 'tree' (visual tree), 'simple' (flat list), or 'json' (structured data)",
+                    default: "json",
+                },
+                maxDepth: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Levels below the root to expand; deeper directories are collapsed into a summary line (default: all)",
+                },
+                include: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Only list files matching one of these globs relative to the root, e.g. ['src/**/*.ts'], with the directories leading to them",
+                },
+                exclude: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Leave out files and directories matching these globs relative to the root, e.g. ['**/*.test.ts', 'docs']",
+                },
+                filesOnly: {
+                    type: "boolean",
+                    description: "List files only, as flat paths",
+                    default: false,
+                },
+                dirsOnly: {
+                    type: "boolean",
+                    description: "List directories only",
+                    default: false,
+                },
+                summarize: {
+                    type: "boolean",
+                    description: "Collapse directories with more than summarizeThreshold entries into one line, e.g. 'src/generated/ (1,240 files, 38 MB, mostly .ts)'",
+                    default: false,
+                },
+                summarizeThreshold: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Entries a directory may hold before summarize collapses it",
+                    default: 100,
+                },
+                sortBy: {
+                    type: "string",
+                    enum: ["name", "size", "mtime"],
+                    description: "Order within each directory: 'name' (directories first), 'size' (largest first) or 'mtime' (most recently modified first)",
+                    default: "name",
+                },
+                limit: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Maximum entries to return; the response then includes a cursor for the next page (default: all)",
+                },
+                cursor: {
+                    type: "string",
+                    description: "Cursor from a previous response, to fetch the next page of the same listing",
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                root: { type: "string" },
+                tree: FILE_NODE_SCHEMA,
+                totalFiles: { type: "integer" },
+                totalDirectories: { type: "integer" },
+                format: { type: "string" },
+                nextCursor: { type: "string" },
+            },
+            required: ["root", "tree", "totalFiles", "totalDirectories", "format"],
+        },
+        handler: async (args) => {
+            const result = await getRepoStructure(
+                args.path as string,
+                (args.format as 'tree' | 'simple' | 'json') || 'json',
+                {
+                    limit: args.limit as number | undefined,
+                    cursor: args.cursor as string | undefined,
+                },
+                {
+                    maxDepth: args.maxDepth as number | undefined,
+                    include: args.include as string[] | undefined,
+                    exclude: args.exclude as string[] | undefined,
+                    filesOnly: args.filesOnly as boolean,
+                    dirsOnly: args.dirsOnly as boolean,
+                    summarize: args.summarize as boolean,
+                    summarizeThreshold: args.summarizeThreshold as number,
+                    sortBy: args.sortBy as 'name' | 'size' | 'mtime',
+                }
+            );
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "get_repo_stats",
+        description:
+            "Summarize what a repository is made of, cloc-style: files and code, comment and blank lines per language, plus functions, classes and exports counted from tree-sitter syntax trees, and the largest files and directories. Ignored files are left out. Use it to size up an unfamiliar codebase or to track how its composition changes.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the repository",
+                },
+                top: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "How many of the largest files and directories to list",
+                    default: 10,
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                root: { type: "string" },
+                totalFiles: { type: "integer" },
+                totalSize: { type: "integer" },
+                languages: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            language: { type: "string" },
+                            files: { type: "integer" },
+                            size: { type: "integer" },
+                            code: { type: "integer" },
+                            comment: { type: "integer" },
+                            blank: { type: "integer" },
+                            functions: { type: "integer" },
+                            classes: { type: "integer" },
+                            exports: { type: "integer" },
+                        },
+                        required: ["language", "files", "size", "code", "comment", "blank", "functions", "classes", "exports"],
+                    },
+                },
+                totals: {
+                    type: "object",
+                    properties: {
+                        code: { type: "integer" },
+                        comment: { type: "integer" },
+                        blank: { type: "integer" },
+                        functions: { type: "integer" },
+                        classes: { type: "integer" },
+                        exports: { type: "integer" },
+                    },
+                    required: ["code", "comment", "blank", "functions", "classes", "exports"],
+                },
+                otherFiles: {
+                    type: "object",
+                    properties: {
+                        files: { type: "integer" },
+                        size: { type: "integer" },
+                        topExtensions: {
+                            type: "array",
+                            items: {
+                                type: "object",
+                                properties: { extension: { type: "string" }, files: { type: "integer" } },
+                                required: ["extension", "files"],
+                            },
+                        },
+                    },
+                    required: ["files", "size", "topExtensions"],
+                },
+                largestFiles: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            path: { type: "string" },
+                            size: { type: "integer" },
+                            language: { type: "string" },
+                            lines: { type: "integer" },
+                        },
+                        required: ["path", "size", "language"],
+                    },
+                },
+                largestDirectories: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            path: { type: "string" },
+                            size: { type: "integer" },
+                            files: { type: "integer" },
+                        },
+                        required: ["path", "size", "files"],
+                    },
+                },
+                skippedFiles: { type: "array", items: { type: "string" } },
+                cancelled: { type: "boolean" },
+            },
+            required: ["root", "totalFiles", "totalSize", "languages", "totals", "otherFiles", "largestFiles", "largestDirectories", "skippedFiles"],
+        },
+        handler: async (args, { progress }) => {
+            const result = await getRepoStats(args.path as string, args.top as number, progress);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "get_symbols",
+        description:
+            "Outline the declarations in a file: functions, classes, methods, interfaces, types, enums, constants and structs, nested by class, each with its line range, signature, docstring or JSDoc, and whether it is exported and how visible it is. Pass a directory (with an optional glob) to outline every matching file in it. Supports JavaScript, TypeScript/TSX, Python, Java and Go. Use it to see what a file offers without reading all of it.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the repository",
+                },
+                filePath: {
+                    type: "string",
+                    description: "File or directory to outline, relative to the repository root (default: the whole repository)",
+                },
+                glob: {
+                    type: "string",
+                    description: "Files to outline when filePath is a directory, relative to it (default: all supported source files)",
+                },
+                limit: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Maximum files to return; the response then includes a cursor for the next page (default: all)",
+                },
+                cursor: {
+                    type: "string",
+                    description: "Cursor from a previous response, to fetch the next page of files",
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                root: { type: "string" },
+                target: { type: "string" },
+                files: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            file: { type: "string" },
+                            language: { type: "string" },
+                            symbols: { type: "array", items: OUTLINE_SYMBOL_SCHEMA },
+                            error: { type: "string" },
+                        },
+                        required: ["file", "language", "symbols"],
+                    },
+                },
+                totalFiles: { type: "integer" },
+                totalSymbols: { type: "integer" },
+                nextCursor: { type: "string" },
+                cancelled: { type: "boolean" },
+            },
+            required: ["root", "target", "files", "totalFiles", "totalSymbols"],
+        },
+        handler: async (args, { progress }) => {
+            const result = await getSymbols(
+                {
+                    repoPath: args.path as string,
+                    filePath: args.filePath as string | undefined,
+                    pattern: args.glob as string | undefined,
+                    limit: args.limit as number | undefined,
+                    cursor: args.cursor as string | undefined,
+                },
+                progress
+            );
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "find_definition",
+        description:
+            "Go to the definition of the name at a line and column. Resolves it through local scopes, imports (relative paths, tsconfig paths, Python packages, Go packages, Java imports and same-package classes) and inherited class members, and returns where it is declared with a snippet of the declaration. The counterpart of analyze_impact: use it instead of grepping for a declaration.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the repository",
+                },
+                filePath: {
+                    type: "string",
+                    description: "File containing the name, relative to the repository root",
+                },
+                line: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Line of the name (1-based)",
+                },
+                column: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Column of any character of the name (1-based)",
+                },
+                backend: {
+                    type: "string",
+                    enum: ["auto", "typescript", "tree-sitter"],
+                    description: "Engine for JS/TS files (default: auto, which uses the TypeScript compiler API when a tsconfig.json exists)",
+                },
+            },
+            required: ["path", "filePath", "line", "column"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                symbol: { type: "string" },
+                filePath: { type: "string" },
+                line: { type: "integer" },
+                column: { type: "integer" },
+                definitions: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            file: { type: "string" },
+                            line: { type: "integer" },
+                            column: { type: "integer" },
+                            kind: { type: "string" },
+                            startLine: { type: "integer" },
+                            endLine: { type: "integer" },
+                            snippet: { type: "string" },
+                        },
+                        required: ["file", "line", "column", "kind", "startLine", "endLine", "snippet"],
+                    },
+                },
+                backend: { type: "string", enum: ["typescript", "tree-sitter"] },
+            },
+            required: ["symbol", "filePath", "line", "column", "definitions", "backend"],
+        },
+        handler: async (args) => {
+            const result = await findDefinition({
+                repoPath: args.path as string,
+                filePath: args.filePath as string,
+                line: args.line as number,
+                column: args.column as number,
+                backend: args.backend as TypeScriptBackend | undefined,
+            });
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "analyze_impact",
+        description:
+            "Predict the blast radius of renaming a symbol. Uses AST analysis (not text search) to find all legitimate references across the codebase. For JS/TS, only modules that actually import the symbol (directly or through re-exports) are reported; when the repository has a tsconfig.json, references come from the TypeScript language service and also follow types (interface members, overloads, implementations). Use before refactoring to understand dependencies and prevent breaking changes.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the repository",
+                },
+                filePath: {
+                    type: "string",
+                    description: "Path to the file containing the symbol to analyze",
+                },
+                symbolName: {
+                    type: "string",
+                    description: "Name of the variable/function to analyze",
+                },
+                line: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Line number where the symbol is defined (optional)",
+                },
+                backend: {
+                    type: "string",
+                    enum: ["auto", "typescript", "tree-sitter"],
+                    description: "Engine for JS/TS files (default: auto, which uses the TypeScript compiler API when a tsconfig.json exists)",
+                },
+                limit: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Maximum references to return; the response then includes nextCursor for the next page (default: all)",
+                },
+                cursor: {
+                    type: "string",
+                    description: "nextCursor from a previous response, to fetch the next page of the same analysis",
+                },
+            },
+            required: ["path", "filePath", "symbolName"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                symbolName: { type: "string" },
+                sourceFile: { type: "string" },
+                totalReferences: { type: "integer" },
+                affectedFiles: { type: "integer" },
+                impacts: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            filePath: { type: "string" },
+                            language: { type: "string" },
+                            references: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: { line: { type: "integer" }, column: { type: "integer" }, context: { type: "string" } },
+                                    required: ["line", "column", "context"],
+                                },
+                            },
+                            referenceCount: { type: "integer" },
+                        },
+                        required: ["filePath", "language", "references", "referenceCount"],
+                    },
+                },
+                dependents: { type: "array", items: { type: "string" } },
+                backend: { type: "string", enum: ["typescript", "tree-sitter"] },
+                cancelled: { type: "boolean" },
+                nextCursor: { type: "string" },
+            },
+            required: ["symbolName", "sourceFile", "totalReferences", "affectedFiles", "impacts", "backend"],
+        },
+        handler: async (args, { progress }) => {
+            const result = await analyzeImpact({
+                rootPath: args.path as string,
+                filePath: args.filePath as string,
+                symbolName: args.symbolName as string,
+                line: args.line as number | undefined,
+                backend: args.backend as TypeScriptBackend | undefined,
+                limit: args.limit as number | undefined,
+                cursor: args.cursor as string | undefined,
+            }, progress);
+            return { data: result };
+        },
+    },
+    {
+        name: "get_dependency_graph",
+        description:
+            "Build the import graph of the JS/TS modules in a repository (import, export ... from, require, dynamic import()). Resolves relative specifiers, index files, extensions and tsconfig paths/baseUrl. Focus on one file to see what it imports and who imports it. Output as JSON, Graphviz DOT or Mermaid.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the repository",
+                },
+                format: {
+                    type: "string",
+                    enum: ["json", "dot", "mermaid"],
+                    description: "Output format (default: json)",
+                    default: "json",
+                },
+                filePath: {
+                    type: "string",
+                    description: "Optional: only show the neighbourhood of this file",
+                },
+                depth: {
+                    type: "integer",
+                    minimum: 0,
+                    description: "Levels of neighbours to include around filePath (default: 1)",
+                },
+                direction: {
+                    type: "string",
+                    enum: ["imports", "importers", "both"],
+                    description: "Follow what filePath imports, who imports it, or both (default: both)",
+                },
+                includeExternal: {
+                    type: "boolean",
+                    description: "Include npm packages as nodes (default: false)",
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                root: { type: "string" },
+                focus: { type: "string" },
+                nodes: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            id: { type: "string" },
+                            external: { type: "boolean" },
+                            imports: { type: "integer" },
+                            importedBy: { type: "integer" },
+                        },
+                        required: ["id", "external", "imports", "importedBy"],
+                    },
+                },
+                edges: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            from: { type: "string" },
+                            to: { type: "string" },
+                            specifier: { type: "string" },
+                            kind: { type: "string" },
+                            typeOnly: { type: "boolean" },
+                            names: { type: "array", items: { type: "string" } },
+                            line: { type: "integer" },
+                        },
+                        required: ["from", "to", "specifier", "kind", "typeOnly", "names", "line"],
+                    },
+                },
+                imports: { type: "array", items: { type: "string" } },
+                importers: { type: "array", items: { type: "string" } },
+                unresolved: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: { from: { type: "string" }, specifier: { type: "string" }, line: { type: "integer" } },
+                        required: ["from", "specifier", "line"],
+                    },
+                },
+            },
+            required: ["root", "nodes", "edges", "unresolved"],
+        },
+        handler: async (args) => {
+            const result = await getDependencyGraph({
+                rootPath: args.path as string,
+                format: (args.format as 'json' | 'dot' | 'mermaid') || 'json',
+                filePath: args.filePath as string | undefined,
+                depth: args.depth as number | undefined,
+                direction: args.direction as 'imports' | 'importers' | 'both' | undefined,
+                includeExternal: args.includeExternal as boolean | undefined,
+            });
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "git_branch_status",
+        description: "Display all Git branches with their tracking status and current HEAD. Useful for understanding repository state before making commits or merges.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the git repository",
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                currentBranch: { type: "string" },
+                branches: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string" },
+                            current: { type: "boolean" },
+                            commit: { type: "string" },
+                            label: { type: "string" },
+                            linkedWorkTree: { type: "boolean" },
+                        },
+                        required: ["name", "current", "commit", "label", "linkedWorkTree"],
+                    },
+                },
+                totalBranches: { type: "integer" },
+            },
+            required: ["currentBranch", "branches", "totalBranches"],
+        },
+        handler: async (args) => {
+            const result = await gitBranchStatus(args.path as string);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "git_commit_history",
+        description: "View commit history with powerful filtering (by file, author, or date range). Returns structured data including commit hashes, timestamps, and messages. Use to understand code evolution or trace when bugs were introduced.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the git repository",
+                },
+                maxCount: {
+                    type: "integer",
+                    minimum: 1,
+                    description: "Maximum number of commits to retrieve (default: 10)",
+                },
+                filePath: {
+                    type: "string",
+                    description: "Optional: filter commits by specific file path",
+                },
+                author: {
+                    type: "string",
+                    description: "Optional: filter commits by author name",
+                },
+                since: {
+                    type: "string",
+                    description: "Optional: show commits since date (e.g., '2024-01-01', '2 weeks ago')",
+                },
+                until: {
+                    type: "string",
+                    description: "Optional: show commits until date",
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                commits: { type: "array", items: COMMIT_SCHEMA },
+                totalCommits: { type: "integer" },
+            },
+            required: ["commits", "totalCommits"],
+        },
+        handler: async (args) => {
+            const result = await gitCommitHistory({
+                repoPath: args.path as string,
+                maxCount: args.maxCount as number | undefined,
+                filePath: args.filePath as string | undefined,
+                author: args.author as string | undefined,
+                since: args.since as string | undefined,
+                until: args.until as string | undefined,
+            });
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "git_show_changes",
+        description: "Show current working directory changes including staged, unstaged, and untracked files. Optionally show detailed diff.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the git repository",
+                },
+                includeUntracked: {
+                    type: "boolean",
+                    description: "Include untracked files (default: true)",
+                },
+                showDiff: {
+                    type: "boolean",
+                    description: "Include detailed diff output (default: false)",
+                },
+                filePath: {
+                    type: "string",
+                    description: "Optional: show diff for specific file only",
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                branch: { type: "string" },
+                staged: { type: "array", items: GIT_FILE_CHANGE_SCHEMA },
+                unstaged: { type: "array", items: GIT_FILE_CHANGE_SCHEMA },
+                untracked: { type: "array", items: { type: "string" } },
+                totalChanges: { type: "integer" },
+                detailedDiff: { type: "string" },
+            },
+            required: ["branch", "staged", "unstaged", "untracked", "totalChanges"],
+        },
+        handler: async (args) => {
+            const result = await gitShowChanges({
+                repoPath: args.path as string,
+                includeUntracked: args.includeUntracked as boolean | undefined,
+                showDiff: args.showDiff as boolean | undefined,
+                filePath: args.filePath as string | undefined,
+            });
+            const { visualization, ...data } = result;
+            return { data, visualization: visualization + (data.detailedDiff ? "\n\nDETAILED DIFF:\n" + data.detailedDiff : "") };
+        },
+    },
+    {
+        name: "git_compare_branches",
+        description: "Compare two Git branches showing unique commits in each branch, common ancestor, and files that differ. Optionally show full diff.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the git repository",
+                },
+                branch1: {
+                    type: "string",
+                    description: "First branch name to compare",
+                },
+                branch2: {
+                    type: "string",
+                    description: "Second branch name to compare",
+                },
+                showDiff: {
+                    type: "boolean",
+                    description: "Include full diff between branches (default: false)",
+                },
+            },
+            required: ["path", "branch1", "branch2"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                branch1: { type: "string" },
+                branch2: { type: "string" },
+                commonAncestor: { type: "string" },
+                commitsOnlyInBranch1: { type: "array", items: COMMIT_SCHEMA },
+                commitsOnlyInBranch2: { type: "array", items: COMMIT_SCHEMA },
+                filesChanged: { type: "array", items: { type: "string" } },
+                diff: { type: "string" },
+            },
+            required: ["branch1", "branch2", "commonAncestor", "commitsOnlyInBranch1", "commitsOnlyInBranch2", "filesChanged"],
+        },
+        handler: async (args) => {
+            const result = await gitCompareBranches({
+                repoPath: args.path as string,
+                branch1: args.branch1 as string,
+                branch2: args.branch2 as string,
+                showDiff: args.showDiff as boolean | undefined,
+            });
+            const { visualization, ...data } = result;
+            return { data, visualization: visualization + (data.diff ? "\n\nDETAILED DIFF:\n" + data.diff : "") };
+        },
+    },
+    {
+        name: "git_init",
+        description: "Initialize a new Git repository. Creates a .git directory and sets up the repository structure.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Path where the repository should be initialized",
+                },
+                initialBranch: {
+                    type: "string",
+                    description: "Name of the initial branch (default: 'main')",
+                },
+                bare: {
+                    type: "boolean",
+                    description: "Create a bare repository (default: false)",
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                success: { type: "boolean" },
+                path: { type: "string" },
+                message: { type: "string" },
+            },
+            required: ["success", "path", "message"],
+        },
+        handler: async (args) => {
+            const result = await gitInit({
+                path: args.path as string,
+                initialBranch: args.initialBranch as string | undefined,
+                bare: args.bare as boolean | undefined,
+            });
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "git_status",
+        description: "Get a quick overview of the repository status including current branch, staged/unstaged/untracked file counts, and remote tracking info.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: {
+                    type: "string",
+                    description: "Root path of the git repository",
+                },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                isRepo: { type: "boolean" },
+                branch: { type: "string" },
+                ahead: { type: "integer" },
+                behind: { type: "integer" },
+                staged: { type: "integer" },
+                modified: { type: "integer" },
+                untracked: { type: "integer" },
+                conflicts: { type: "integer" },
+                isClean: { type: "boolean" },
+            },
+            required: ["isRepo", "branch", "ahead", "behind", "staged", "modified", "untracked", "conflicts", "isClean"],
+        },
+        handler: async (args) => {
+            const result = await gitStatus(args.path as string);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "refactor_rename",
+        description: "Rename a symbol (variable, function, class) across the entire codebase. Starts at the declaration in filePath and only rewrites references that bind to it (scopes, parameters, class members, imports and re-exports). In repositories with a tsconfig.json, TypeScript renames go through the compiler API and also cover interface members, overloads and implementations. Returns preview of changes, optionally applies them.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                filePath: { type: "string", description: "Path to file containing the symbol" },
+                symbolName: { type: "string", description: "Current name of the symbol" },
+                newName: { type: "string", description: "New name for the symbol" },
+                line: { type: "integer", minimum: 1, description: "Line of the declaration, required when the name is declared more than once in filePath" },
+                apply: { type: "boolean", description: "Apply changes (default: false, preview only)" },
+                format: { type: "string", enum: ["visualization", "unified-diff"], description: "Output format (default: visualization). unified-diff returns a patch usable with git apply or apply_patch" },
+                backend: { type: "string", enum: ["auto", "typescript", "tree-sitter"], description: "Engine for JS/TS files (default: auto, which uses the TypeScript compiler API when a tsconfig.json exists)" },
+            },
+            required: ["path", "filePath", "symbolName", "newName"],
+        },
+        outputSchema: REFACTOR_RESULT_SCHEMA,
+        handler: async (args) => {
+            const result = await refactorRename({
+                repoPath: args.path as string,
+                filePath: args.filePath as string,
+                symbolName: args.symbolName as string,
+                newName: args.newName as string,
+                line: args.line as number | undefined,
+                apply: args.apply as boolean | undefined,
+                backend: args.backend as TypeScriptBackend | undefined,
+            });
+            const { visualization, ...data } = result;
+            return { data, visualization: args.format === "unified-diff" ? data.diff : visualization };
+        },
+    },
+    {
+        name: "refactor_extract_function",
+        description: "Extract a block of whole statements into a new function. Uses data-flow analysis to pass the variables the block reads, return the ones it assigns and later code uses, and make the function async when the block awaits. Refuses selections that break/continue out of the block or return on only some paths.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                filePath: { type: "string", description: "Path to the file" },
+                startLine: { type: "integer", minimum: 1, description: "Starting line of code to extract" },
+                endLine: { type: "integer", minimum: 1, description: "Ending line of code to extract" },
+                functionName: { type: "string", description: "Name for the new function" },
+                apply: { type: "boolean", description: "Apply changes (default: false)" },
+                format: { type: "string", enum: ["visualization", "unified-diff"], description: "Output format (default: visualization). unified-diff returns a patch usable with git apply or apply_patch" },
+            },
+            required: ["path", "filePath", "startLine", "endLine", "functionName"],
+        },
+        outputSchema: REFACTOR_RESULT_SCHEMA,
+        handler: async (args) => {
+            const result = await refactorExtractFunction({
+                repoPath: args.path as string,
+                filePath: args.filePath as string,
+                startLine: args.startLine as number,
+                endLine: args.endLine as number,
+                functionName: args.functionName as string,
+                apply: args.apply as boolean | undefined,
+            });
+            const { visualization, ...data } = result;
+            return { data, visualization: args.format === "unified-diff" ? data.diff : visualization };
+        },
+    },
+    {
+        name: "refactor_move_to_file",
+        description: "Move a function or class to a different file. Updates imports automatically.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                sourceFile: { type: "string", description: "Path to source file" },
+                symbolName: { type: "string", description: "Name of function/class to move" },
+                targetFile: { type: "string", description: "Path to target file" },
+                apply: { type: "boolean", description: "Apply changes (default: false)" },
+                format: { type: "string", enum: ["visualization", "unified-diff"], description: "Output format (default: visualization). unified-diff returns a patch usable with git apply or apply_patch" },
+            },
+            required: ["path", "sourceFile", "symbolName", "targetFile"],
+        },
+        outputSchema: REFACTOR_RESULT_SCHEMA,
+        handler: async (args) => {
+            const result = await refactorMoveToFile({
+                repoPath: args.path as string,
+                sourceFile: args.sourceFile as string,
+                symbolName: args.symbolName as string,
+                targetFile: args.targetFile as string,
+                apply: args.apply as boolean | undefined,
+            });
+            const { visualization, ...data } = result;
+            return { data, visualization: args.format === "unified-diff" ? data.diff : visualization };
+        },
+    },
+    {
+        name: "refactor_inline_variable",
+        description: "Inline a variable by replacing all usages with its value and removing the declaration.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                filePath: { type: "string", description: "Path to the file" },
+                variableName: { type: "string", description: "Name of the variable to inline" },
+                line: { type: "integer", minimum: 1, description: "Line number of the variable declaration" },
+                apply: { type: "boolean", description: "Apply changes (default: false)" },
+                format: { type: "string", enum: ["visualization", "unified-diff"], description: "Output format (default: visualization). unified-diff returns a patch usable with git apply or apply_patch" },
+            },
+            required: ["path", "filePath", "variableName", "line"],
+        },
+        outputSchema: REFACTOR_RESULT_SCHEMA,
+        handler: async (args) => {
+            const result = await refactorInlineVariable({
+                repoPath: args.path as string,
+                filePath: args.filePath as string,
+                variableName: args.variableName as string,
+                line: args.line as number,
+                apply: args.apply as boolean | undefined,
+            });
+            const { visualization, ...data } = result;
+            return { data, visualization: args.format === "unified-diff" ? data.diff : visualization };
+        },
+    },
+    {
+        name: "apply_change_set",
+        description: "Apply a refactoring preview exactly as it was shown, using the changeSetId returned by refactor_rename, refactor_extract_function, refactor_move_to_file or refactor_inline_variable. Refuses if any affected file changed since the preview. Change sets expire after 30 minutes.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                changeSetId: { type: "string", description: "Change set id from a refactoring preview" },
+            },
+            required: ["changeSetId"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                changeSetId: { type: "string" },
+                filesWritten: { type: "array", items: { type: "string" } },
+                filesCreated: { type: "array", items: { type: "string" } },
+                historyId: { type: "string" },
+            },
+            required: ["changeSetId", "filesWritten", "filesCreated"],
+        },
+        handler: async (args) => {
+            const result = await applyChangeSet(args.changeSetId as string);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "list_change_sets",
+        description: "List refactoring previews that can still be applied with apply_change_set.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Only list change sets for this repository" },
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                changeSets: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            id: { type: "string" },
+                            repoPath: { type: "string" },
+                            tool: { type: "string" },
+                            summary: { type: "string" },
+                            changes: { type: "array", items: REFACTOR_CHANGE_SCHEMA },
+                            edits: { type: "array", items: FILE_EDIT_SCHEMA },
+                            createdAt: { type: "integer", description: "Milliseconds since the epoch" },
+                            expiresAt: { type: "integer", description: "Milliseconds since the epoch" },
+                        },
+                        required: ["id", "repoPath", "tool", "summary", "changes", "edits", "createdAt", "expiresAt"],
+                    },
+                },
+            },
+            required: ["changeSets"],
+        },
+        handler: async (args) => {
+            const result = listChangeSets(args.path as string | undefined);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "discard_change_set",
+        description: "Discard a pending refactoring preview so it can no longer be applied.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                changeSetId: { type: "string", description: "Change set id to discard" },
+            },
+            required: ["changeSetId"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                discarded: { type: "boolean" },
+            },
+            required: ["discarded"],
+        },
+        handler: async (args) => {
+            const result = discardChangeSet(args.changeSetId as string);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "apply_patch",
+        description: "Validate a unified diff against the working tree and apply it. All files are applied as one transaction: if any hunk does not match, nothing is written.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                patch: { type: "string", description: "Unified diff with paths relative to the repository root (a/ and b/ prefixes are accepted)" },
+                dryRun: { type: "boolean", description: "Only check that the patch applies (default: false)" },
+            },
+            required: ["path", "patch"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                success: { type: "boolean" },
+                applied: { type: "boolean" },
+                files: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: { filePath: { type: "string" }, hunks: { type: "integer" }, created: { type: "boolean" } },
+                        required: ["filePath", "hunks", "created"],
+                    },
+                },
+                historyId: { type: "string" },
+            },
+            required: ["success", "applied", "files"],
+        },
+        handler: async (args) => {
+            const result = await applyPatch({
+                repoPath: args.path as string,
+                patch: args.patch as string,
+                dryRun: args.dryRun as boolean | undefined,
+            });
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "refactor_history",
+        description: "List refactorings applied to a repository (by the refactor tools, apply_change_set or apply_patch), newest first, and whether each can still be undone.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                limit: { type: "integer", minimum: 1, description: "Maximum entries to list (default: 20)" },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                entries: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            id: { type: "string" },
+                            tool: { type: "string" },
+                            summary: { type: "string" },
+                            appliedAt: { type: "string" },
+                            undoneAt: { type: "string" },
+                            files: { type: "array", items: { type: "string" } },
+                            diverged: { type: "array", items: { type: "string" } },
+                        },
+                        required: ["id", "tool", "summary", "appliedAt", "files", "diverged"],
+                    },
+                },
+            },
+            required: ["entries"],
+        },
+        handler: async (args) => {
+            const result = await refactorHistory(args.path as string, args.limit as number | undefined);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "refactor_undo",
+        description: "Revert an applied refactoring by restoring the files it changed from the history journal. Refuses if any of those files changed since.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                id: { type: "string", description: "History entry to undo (default: the most recent one not yet undone)" },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                id: { type: "string" },
+                restored: { type: "array", items: { type: "string" } },
+            },
+            required: ["id", "restored"],
+        },
+        handler: async (args) => {
+            const result = await refactorUndo(args.path as string, args.id as string | undefined);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "find_dead_code",
+        description: "Identify dead code. JS/TS: exports no module imports (tracked per module and export name, through re-exports and namespace imports), files no entry point reaches, and optionally unused locals and parameters. Python: top-level functions/classes nothing imports or uses (honours __all__). Go: unexported package-level identifiers unused in their package. Java: private methods/fields unused in their class. Entry points come from package.json main/bin/exports and test files. Helps reduce bundle size and improve maintainability. With a tsconfig.json, an export counts as used only if the TypeScript language service finds a reference to it in another module.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                backend: { type: "string", enum: ["auto", "typescript", "tree-sitter"], description: "Engine for JS/TS files (default: auto, which uses the TypeScript compiler API when a tsconfig.json exists)" },
+                entryPoints: { type: "array", items: { type: "string" }, description: "Extra entry point globs, e.g. framework pages or scripts, added to package.json main/bin/exports" },
+                testGlobs: { type: "array", items: { type: "string" }, description: "Globs of test files, which are entry points too (default: *.test.*, *.spec.*, __tests__/, test/, tests/)" },
+                includeUnusedLocals: { type: "boolean", description: "Also report variables, functions and imports that are never used (default: false)" },
+                includeUnusedParameters: { type: "boolean", description: "Also report unused parameters after the last used one (default: false)" },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                deadExports: { type: "array", items: DEAD_SYMBOL_SCHEMA },
+                unreachableFiles: { type: "array", items: { type: "string" } },
+                unusedLocals: { type: "array", items: DEAD_SYMBOL_SCHEMA },
+                unusedParameters: { type: "array", items: DEAD_SYMBOL_SCHEMA },
+                entryPoints: { type: "array", items: { type: "string" } },
+                totalScanned: { type: "integer" },
+                backend: { type: "string", enum: ["typescript", "tree-sitter"] },
+                cancelled: { type: "boolean" },
+            },
+            required: ["deadExports", "unreachableFiles", "entryPoints", "totalScanned", "backend"],
+        },
+        handler: async (args, { progress }) => {
+            const result = await findDeadCode({
+                repoPath: args.path as string,
+                backend: args.backend as TypeScriptBackend | undefined,
+                entryPoints: args.entryPoints as string[] | undefined,
+                testGlobs: args.testGlobs as string[] | undefined,
+                includeUnusedLocals: args.includeUnusedLocals as boolean | undefined,
+                includeUnusedParameters: args.includeUnusedParameters as boolean | undefined,
+            }, progress);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "index_status",
+        description: "Show the persistent symbol index shared by the analysis and refactoring tools (stored in .project-scope/index.json): coverage per language, files changed, added or deleted since they were indexed, and when it was last updated.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                indexed: { type: "integer" },
+                onDisk: { type: "integer" },
+                stale: { type: "array", items: { type: "string" } },
+                missing: { type: "array", items: { type: "string" } },
+                deleted: { type: "array", items: { type: "string" } },
+                coverage: {
+                    type: "object",
+                    additionalProperties: {
+                        type: "object",
+                        properties: { indexed: { type: "integer" }, onDisk: { type: "integer" } },
+                        required: ["indexed", "onDisk"],
+                    },
+                },
+                parseErrors: { type: "array", items: { type: "string" } },
+                updatedAt: { type: ["string", "null"] },
+                indexSize: { type: "integer" },
+                watcher: WATCHER_STATUS_SCHEMA,
+            },
+            required: ["indexed", "onDisk", "stale", "missing", "deleted", "coverage", "parseErrors", "updatedAt", "indexSize", "watcher"],
+        },
+        handler: async (args) => {
+            const result = await indexStatus(args.path as string);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "rebuild_index",
+        description: "Update the symbol index now. Only files whose content changed are parsed again, unless 'full' is set. Tools also update the index on their own before using it.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                full: { type: "boolean", description: "Discard the index and parse every file again (default: false)" },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                added: { type: "array", items: { type: "string" } },
+                updated: { type: "array", items: { type: "string" } },
+                removed: { type: "array", items: { type: "string" } },
+                unchanged: { type: "integer" },
+                durationMs: { type: "integer" },
+            },
+            required: ["added", "updated", "removed", "unchanged", "durationMs"],
+        },
+        handler: async (args) => {
+            const result = await rebuildIndex(args.path as string, args.full as boolean | undefined);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "watch_repo",
+        description: "Opt in to keeping the symbol index live for the rest of the session: a file watcher re-indexes changed files as they are saved (re-parsing incrementally) instead of tools rescanning the repository, and find_dead_code/analyze_impact answers are reused until something changes. Call with enabled=false to stop.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+                enabled: { type: "boolean", description: "Start (true) or stop (false) watching (default: true)" },
+                debounceMs: { type: "integer", minimum: 0, description: "How long to wait for more changes before re-indexing, in milliseconds (default: 300)" },
+            },
+            required: ["path"],
+        },
+        outputSchema: WATCHER_STATUS_SCHEMA,
+        handler: async (args) => {
+            const result = await watchRepo(args.path as string, args.enabled as boolean | undefined, args.debounceMs as number | undefined);
+            return separateVisualization(result);
+        },
+    },
+    {
+        name: "get_effective_config",
+        description: "Show the settings the tools use for a repository: its .project-scope.json (ignore and include globs, language overrides, dead-code entry points, security mode, sensitivity, allowlists and suppressions) merged with the built-in defaults. Reports an error when the file is invalid.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository" },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                root: { type: "string" },
+                configFile: { type: ["string", "null"] },
+                ignore: {
+                    type: "object",
+                    properties: {
+                        defaults: { type: "array", items: { type: "string" } },
+                        securityScan: { type: "array", items: { type: "string" } },
+                        ignoreFiles: { type: "array", items: { type: "string" } },
+                        project: { type: "array", items: { type: "string" } },
+                    },
+                    required: ["defaults", "securityScan", "ignoreFiles", "project"],
+                },
+                include: { type: "array", items: { type: "string" } },
+                languages: { type: "object", additionalProperties: { type: "string" } },
+                languageOverrides: { type: "object", additionalProperties: { type: "string" } },
+                deadCode: {
+                    type: "object",
+                    properties: {
+                        entryPoints: { type: "array", items: { type: "string" } },
+                        testGlobs: { type: "array", items: { type: "string" } },
+                    },
+                    required: ["entryPoints", "testGlobs"],
+                },
+                security: {
+                    type: "object",
+                    properties: {
+                        mode: { type: "string", enum: ["strict", "advisory"] },
+                        sensitivity: { type: "string", enum: ["high", "medium", "low"] },
+                        allowlist: {
+                            type: "object",
+                            properties: {
+                                commands: { type: "array", items: { type: "string" } },
+                                paths: { type: "array", items: { type: "string" } },
+                                sql_keywords: { type: "array", items: { type: "string" } },
+                            },
+                            required: ["commands", "paths", "sql_keywords"],
+                        },
+                        suppress: {
+                            type: "array",
+                            items: {
+                                type: "object",
+                                properties: {
+                                    files: { type: "array", items: { type: "string" } },
+                                    type: { type: "string" },
+                                    line: { type: "integer" },
+                                    pattern: { type: "string" },
+                                    reason: { type: "string" },
+                                },
+                            },
+                        },
+                    },
+                    required: ["mode", "sensitivity", "allowlist", "suppress"],
+                },
+            },
+            required: ["root", "configFile", "ignore", "include", "languages", "languageOverrides", "deadCode", "security"],
+        },
+        handler: async (args) => {
+            const result = await getEffectiveConfig(args.path as string);
+            return separateVisualization(result);
+        },
+    },
+    // Security Validation Tools
+    {
+        name: "validate_shell_input",
+        description: "Prevent command injection (RCE). Validates shell input for dangerous metacharacters (&, |, ;, $(), backticks), environment variable tricks, and encoding bypasses. Run this before executing any shell command generated by an LLM or received from user input.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                input: { type: "string", description: "The shell command or string to validate" },
+                mode: { type: "string", enum: ["strict", "advisory"], description: "Validation mode: 'strict' blocks threats, 'advisory' provides warnings (default: strict)" },
+                sensitivity: { type: "string", enum: ["high", "medium", "low"], description: "Detection sensitivity: high=aggressive, medium=balanced, low=high-confidence only (default: medium)" },
+                allowedCommands: { type: "array", items: { type: "string" }, description: "List of allowed commands to exclude from threat detection (e.g., ['ls', 'cat', 'echo'])" },
+            },
+            required: ["input"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                safe: { type: "boolean" },
+                threats_found: { type: "array", items: { type: "string" } },
+                sanitized_input: { type: ["string", "null"] },
+                risk_level: RISK_LEVEL_SCHEMA,
+            },
+            required: ["safe", "threats_found", "sanitized_input", "risk_level"],
+        },
+        handler: async (args) => {
+            const result = validateShellInput(
+                args.input as string,
+                {
+                    mode: (args.mode as 'strict' | 'advisory') || 'strict',
+                    sensitivity: (args.sensitivity as 'high' | 'medium' | 'low') || 'medium',
+                    allowlist: args.allowedCommands ? { commands: args.allowedCommands as string[] } : undefined,
+                }
+            );
+            const viz = createSecurityVisualization("Shell Command Validator", result);
+            return { data: result, visualization: viz };
+        },
+    },
+    {
+        name: "validate_sql_query",
+        description: "Prevent SQL injection. Detects UNION attacks, stacked queries (DROP TABLE), comment injection (--), boolean/time-based blind SQLi, and encoding tricks. Validate all dynamically constructed SQL before execution.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                query: { type: "string", description: "The SQL query string to validate" },
+                mode: { type: "string", enum: ["strict", "advisory"], description: "Validation mode (default: strict)" },
+                sensitivity: { type: "string", enum: ["high", "medium", "low"], description: "Detection sensitivity (default: medium)" },
+                allowedKeywords: { type: "array", items: { type: "string" }, description: "SQL keywords to allow (e.g., ['SELECT', 'INSERT', 'UPDATE'])" },
+            },
+            required: ["query"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                safe: { type: "boolean" },
+                injection_type: { type: "array", items: { type: "string" } },
+                suspicious_keywords: { type: "array", items: { type: "string" } },
+                risk_level: RISK_LEVEL_SCHEMA,
+            },
+            required: ["safe", "injection_type", "suspicious_keywords", "risk_level"],
+        },
+        handler: async (args) => {
+            const result = validateSqlQuery(
+                args.query as string,
+                {
+                    mode: (args.mode as 'strict' | 'advisory') || 'strict',
+                    sensitivity: (args.sensitivity as 'high' | 'medium' | 'low') || 'medium',
+                    allowlist: args.allowedKeywords ? { sql_keywords: args.allowedKeywords as string[] } : undefined,
+                }
+            );
+            const viz = createSecurityVisualization("SQL Injection Detector", result);
+            return { data: result, visualization: viz };
+        },
+    },
+    {
+        name: "validate_file_path",
+        description: "Prevent path traversal (LFI). Detects ../ sequences, URL/double encoding, null bytes, and ensures paths stay within projectRoot. Use when processing user-provided file paths to prevent unauthorized file access.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                filePath: { type: "string", description: "The file path to validate" },
+                projectRoot: { type: "string", description: "Project root directory to check containment against" },
+                mode: { type: "string", enum: ["strict", "advisory"], description: "Validation mode (default: strict)" },
+                sensitivity: { type: "string", enum: ["high", "medium", "low"], description: "Detection sensitivity (default: high)" },
+            },
+            required: ["filePath"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                safe: { type: "boolean" },
+                normalized_path: { type: ["string", "null"] },
+                traversal_detected: { type: "boolean" },
+                outside_project: { type: "boolean" },
+                risk_level: RISK_LEVEL_SCHEMA,
+            },
+            required: ["safe", "normalized_path", "traversal_detected", "outside_project", "risk_level"],
+        },
+        handler: async (args) => {
+            const result = validateFilePath(
+                args.filePath as string,
+                args.projectRoot as string | undefined,
+                {
+                    mode: (args.mode as 'strict' | 'advisory') || 'strict',
+                    sensitivity: (args.sensitivity as 'high' | 'medium' | 'low') || 'high',
+                }
+            );
+            const viz = createSecurityVisualization("Path Traversal Validator", result);
+            return { data: result, visualization: viz };
+        },
+    },
+    {
+        name: "detect_template_injection",
+        description: "Prevent Server-Side Template Injection (SSTI). Identifies dangerous template syntax from Jinja2, Handlebars, ERB, and others. Flags RCE payloads like {{config.__class__}}. Scan user-provided templates or dynamic content before rendering.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                content: { type: "string", description: "The string or code content to analyze" },
+                mode: { type: "string", enum: ["strict", "advisory"], description: "Validation mode (default: strict)" },
+                sensitivity: { type: "string", enum: ["high", "medium", "low"], description: "Detection sensitivity (default: high)" },
+            },
+            required: ["content"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                safe: { type: "boolean" },
+                template_syntax: { type: "array", items: { type: "string" } },
+                detected_patterns: { type: "array", items: { type: "string" } },
+                potential_rce: { type: "boolean" },
+                risk_level: RISK_LEVEL_SCHEMA,
+            },
+            required: ["safe", "template_syntax", "detected_patterns", "potential_rce", "risk_level"],
+        },
+        handler: async (args) => {
+            const result = detectTemplateInjection(
+                args.content as string,
+                {
+                    mode: (args.mode as 'strict' | 'advisory') || 'strict',
+                    sensitivity: (args.sensitivity as 'high' | 'medium' | 'low') || 'high',
+                }
+            );
+            const viz = createSecurityVisualization("Template Injection Detector", result);
+            return { data: result, visualization: viz };
+        },
+    },
+    {
+        name: "detect_prompt_injection",
+        description: "Defend against AI jailbreaks and prompt injection. Detects role-switching ('You are now DAN'), instruction override ('Ignore previous'), tool manipulation, and hidden payloads. Hybrid detection: Fast regex + optional Llama Prompt Guard 2 (LLM). Use when reading untrusted content (files, web pages, user input).",
+        inputSchema: {
+            type: "object",
+            properties: {
+                content: { type: "string", description: "The text content to analyze (from files, web pages, user input, tool descriptions)" },
+                mode: { type: "string", enum: ["strict", "advisory"], description: "Validation mode (default: strict)" },
+                sensitivity: { type: "string", enum: ["high", "medium", "low"], description: "Detection sensitivity (default: high)" },
+                useGuardModel: { type: "boolean", description: "Enable Llama Prompt Guard 2 LLM-based detection (default: false)" },
+                huggingfaceToken: { type: "string", description: "HuggingFace API token (required if useGuardModel is true)" },
+            },
+            required: ["content"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                safe: { type: "boolean" },
+                injection_likelihood: { type: "number" },
+                detected_techniques: { type: "array", items: { type: "string" } },
+                flagged_phrases: { type: "array", items: { type: "string" } },
+                encoded_content_found: { type: "boolean" },
+                risk_level: RISK_LEVEL_SCHEMA,
+                recommendation: { type: "string" },
+                llm_guard: {
+                    type: "object",
+                    properties: {
+                        label: { type: "string", enum: ["BENIGN", "MALICIOUS", "JAILBREAK", "INJECTION"] },
+                        score: { type: "number" },
+                        model: { type: "string" },
+                    },
+                    required: ["label", "score", "model"],
+                },
+            },
+            required: ["safe", "injection_likelihood", "detected_techniques", "flagged_phrases", "encoded_content_found", "risk_level", "recommendation"],
+        },
+        handler: async (args) => {
+            const result = await detectPromptInjectionAsync(
+                args.content as string,
+                {
+                    mode: (args.mode as 'strict' | 'advisory') || 'strict',
+                    sensitivity: (args.sensitivity as 'high' | 'medium' | 'low') || 'high',
+                    useGuardModel: args.useGuardModel as boolean | undefined,
+                    huggingfaceToken: args.huggingfaceToken as string | undefined,
+                }
+            );
+            const vizTitle = result.llm_guard
+                ? "Prompt Injection Detector (LLM Enhanced)"
+                : "Prompt Injection Detector";
+            const viz = createSecurityVisualization(vizTitle, result);
+            return { data: result, visualization: viz };
+        },
+    },
+    // File and Repo Scanning Tools
+    {
+        name: "scan_file_for_threats",
+        description: "Deep-scan a single file for all 5 threat types (shell, SQL, path, template, prompt injection). Returns exact line numbers and risk levels. Use when generating new code or processing uploaded files to ensure safety before execution.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                filePath: { type: "string", description: "Path to the file to scan" },
+                mode: { type: "string", enum: ["strict", "advisory"], description: "Validation mode (default: the nearest .project-scope.json's, else strict)" },
+                sensitivity: { type: "string", enum: ["high", "medium", "low"], description: "Detection sensitivity (default: the nearest .project-scope.json's, else high)" },
+            },
+            required: ["filePath"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                threats_detected: { type: "boolean" },
+                file: { type: "string" },
+                findings: { type: "array", items: THREAT_FINDING_SCHEMA },
+                summary: SEVERITY_SUMMARY_SCHEMA,
+                findings_suppressed: { type: "integer" },
+            },
+            required: ["threats_detected", "file", "findings", "summary"],
+        },
+        handler: async (args) => {
+            const result = await scanProjectFile(args.filePath as string, {
+                mode: args.mode as 'strict' | 'advisory' | undefined,
+                sensitivity: args.sensitivity as 'high' | 'medium' | 'low' | undefined,
+            });
+            const status = result.threats_detected ? 'THREATS_FOUND' : 'SAFE';
+            const suppressed = result.findings_suppressed ? ` | ${result.findings_suppressed} suppressed` : '';
+            const summary = `${result.summary.critical}C ${result.summary.high}H ${result.summary.medium}M ${result.summary.low}L${suppressed}`;
+            return { data: result, visualization: `[File Scan] ${status} | ${summary}` };
+        },
+    },
+    {
+        name: "scan_repo_for_threats",
+        description: "Audit an entire repository for security risks. Regex scanning spread across worker threads (no API costs). Automatically skips ignored files, dependency and build directories, minified files and lockfiles. Can scan 10k+ files in seconds. Run this before making changes to untrusted repositories.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Root path of the repository to scan" },
+                excludePatterns: { type: "array", items: { type: "string" }, description: "Additional glob patterns to exclude (ignored files and the default exclusions listed by get_effective_config already are)" },
+                mode: { type: "string", enum: ["strict", "advisory"], description: "Validation mode (default: .project-scope.json's, else strict)" },
+                sensitivity: { type: "string", enum: ["high", "medium", "low"], description: "Detection sensitivity (default: .project-scope.json's, else high)" },
+                concurrency: { type: "integer", minimum: 1, description: "Maximum files scanned at once (default: the worker pool size)" },
+                fileTimeoutMs: { type: "integer", minimum: 1, description: "Skip a file whose scan takes longer than this, in milliseconds (default: 10000)" },
+                limit: { type: "integer", minimum: 1, description: "Maximum findings to return; the response then includes nextCursor for the next page (default: all)" },
+                cursor: { type: "string", description: "nextCursor from a previous response, to fetch the next page without rescanning" },
+            },
+            required: ["path"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                threats_detected: { type: "boolean" },
+                files_scanned: { type: "integer" },
+                files_with_threats: { type: "integer" },
+                files_timed_out: { type: "array", items: { type: "string" } },
+                files_failed: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: { file: { type: "string" }, error: { type: "string" } },
+                        required: ["file", "error"],
+                    },
+                },
+                findings_suppressed: { type: "integer" },
+                cancelled: { type: "boolean" },
+                findings: {
+                    type: "array",
+                    items: {
+                        ...THREAT_FINDING_SCHEMA,
+                        properties: { ...THREAT_FINDING_SCHEMA.properties, file: { type: "string" } },
+                        required: [...THREAT_FINDING_SCHEMA.required, "file"],
+                    },
+                },
+                summary: SEVERITY_SUMMARY_SCHEMA,
+                nextCursor: { type: "string" },
+            },
+            required: ["threats_detected", "files_scanned", "files_with_threats", "files_timed_out", "files_failed", "findings_suppressed", "findings", "summary"],
+        },
+        handler: async (args, { progress }) => {
+            const result = await scanRepoForThreats(
+                args.path as string,
+                (args.excludePatterns as string[]) || [],
+                {
+                    mode: args.mode as 'strict' | 'advisory' | undefined,
+                    sensitivity: args.sensitivity as 'high' | 'medium' | 'low' | undefined,
+                },
+                {
+                    concurrency: args.concurrency as number | undefined,
+                    fileTimeoutMs: args.fileTimeoutMs as number | undefined,
+                    limit: args.limit as number | undefined,
+                    cursor: args.cursor as string | undefined,
+                    ...progress,
+                }
+            );
+            // Files that weren't scanned leave nothing to call safe
+            const skipped = result.files_timed_out.length + result.files_failed.length;
+            const status = result.cancelled ? 'CANCELLED' : result.threats_detected ? 'THREATS_FOUND' : skipped > 0 ? 'INCOMPLETE' : 'SAFE';
+            const summary = `${result.files_scanned} files | ${result.files_with_threats} with threats${result.files_timed_out.length > 0 ? ` | ${result.files_timed_out.length} timed out` : ''}${result.files_failed.length > 0 ? ` | ${result.files_failed.length} failed` : ''} | ${result.summary.critical}C ${result.summary.high}H ${result.summary.medium}M ${result.summary.low}L${result.findings_suppressed > 0 ? ` | ${result.findings_suppressed} suppressed` : ''}`;
+            return { data: result, visualization: `[Repo Scan] ${status} | ${summary}` };
+        },
+    },
+];
+
+const TOOLS_BY_NAME = new Map(TOOLS.map(tool => [tool.name, tool]));
+
+function inputSchemaOf(tool: ToolDefinition): InputSchema {
+    return { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, verbosity: VERBOSITY_PROPERTY } };
+}
+
+export function listTools(): { name: string; description: string; inputSchema: InputSchema; outputSchema: OutputSchema }[] {
+    return TOOLS.map(tool => ({ name: tool.name, description: tool.description, inputSchema: inputSchemaOf(tool), outputSchema: tool.outputSchema }));
+}
+
+/**
+ * Validate the arguments of a tool call and run it. Bad arguments and failures come back as
+ * an error result rather than a thrown error; bad arguments are reported as JSON with a
+ * `code`, the offending `field` and a `message`, so the caller can fix the call.
+ */
+export async function callTool(name: string, args: ToolArguments | undefined, context: ToolContext): Promise<CallToolResult> {
+    try {
+        const tool = TOOLS_BY_NAME.get(name);
+        if (!tool) throw new Error(`Unknown tool: ${name}`);
+        const { verbosity, ...toolArgs } = validateArguments(inputSchemaOf(tool), args);
+        const { data, visualization } = await tool.handler(toolArgs, context);
+
+        // The JSON block is for clients that do not read structuredContent
+        const content: CallToolResult["content"] = [];
+        if (visualization && verbosity === "full") content.push({ type: "text", text: visualization });
+        content.push({ type: "text", text: JSON.stringify(data, null, 2) });
+        return { content, structuredContent: data as Record<string, unknown> };
+    } catch (error) {
+        if (error instanceof ToolArgumentError) {
+            const { code, field, message } = error;
+            return {
+                content: [{ type: "text", text: JSON.stringify({ error: { code, field, message } }, null, 2) }],
+                isError: true,
+            };
+        }
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+                },
+            ],
+            isError: true,
+        };
+    }
+}
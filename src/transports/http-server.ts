@@ -0,0 +1,179 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Serves MCP at http://{host}:{port}/mcp to any number of clients at once. Each client
+ * session gets its own Server; the symbol index, watchers, analysis caches and change sets
+ * live at module level, so every session shares one warm process.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+const MCP_PATH = "/mcp";
+// Large enough for apply_patch with a sizeable patch
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+// A session with no request for this long is closed, for clients that vanish without a DELETE
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpServerOptions {
+    host: string;
+    // 0 picks a free port
+    port: number;
+    // Clients must send `Authorization: Bearer <token>`; required unless host is a loopback address
+    token?: string;
+    sessionIdleMs?: number;
+}
+
+export interface RunningHttpServer {
+    url: string;
+    close: () => Promise<void>;
+}
+
+interface Session {
+    transport: StreamableHTTPServerTransport;
+    server: Server;
+    lastSeen: number;
+}
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = "HttpError";
+    }
+}
+
+/**
+ * Listen for MCP clients over Streamable HTTP, creating a Server with `createMcpServer`
+ * for every session a client initializes.
+ */
+export async function startHttpServer(createMcpServer: () => Server, options: HttpServerOptions): Promise<RunningHttpServer> {
+    const { host, token, sessionIdleMs = DEFAULT_SESSION_IDLE_MS } = options;
+    if (!token && !isLoopback(host)) {
+        throw new Error(`Refusing to listen on ${host} without a bearer token; set PROJECT_SCOPE_TOKEN or pass --token`);
+    }
+
+    const sessions = new Map<string, Session>();
+    let port = options.port;
+
+    async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const { pathname } = new URL(req.url ?? "/", "http://localhost");
+        if (pathname !== MCP_PATH) throw new HttpError(404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+
+        if (token && !hasToken(req, token)) {
+            res.setHeader("WWW-Authenticate", 'Bearer realm="project-scope"');
+            throw new HttpError(401, "Missing or invalid bearer token");
+        }
+
+        const sessionId = req.headers["mcp-session-id"];
+        if (typeof sessionId === "string") {
+            const session = sessions.get(sessionId);
+            if (!session) throw new HttpError(404, "Unknown or expired session; initialize a new one");
+            session.lastSeen = Date.now();
+            const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method !== "POST") throw new HttpError(400, "Missing mcp-session-id header");
+        const body = await readJsonBody(req);
+        if (!isInitializeRequest(body)) throw new HttpError(400, "A session must start with an initialize request");
+
+        const server = createMcpServer();
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: id => {
+                sessions.set(id, { transport, server, lastSeen: Date.now() });
+            },
+            // A browser page could otherwise reach a loopback server through a rebound domain name
+            ...(isLoopback(host) && {
+                enableDnsRebindingProtection: true,
+                allowedHosts: [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`],
+            }),
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) sessions.delete(transport.sessionId);
+        };
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    }
+
+    const httpServer = createServer((req, res) => {
+        handle(req, res).catch(error => {
+            if (!(error instanceof HttpError)) console.error("HTTP request failed:", error);
+            if (res.headersSent) {
+                res.end();
+                return;
+            }
+            const status = error instanceof HttpError ? error.status : 500;
+            sendError(res, status, error instanceof HttpError ? error.message : "Internal server error");
+        });
+    });
+
+    await listen(httpServer, options.port, host);
+    port = (httpServer.address() as AddressInfo).port;
+
+    const sweep = setInterval(() => {
+        const cutoff = Date.now() - sessionIdleMs;
+        for (const session of sessions.values()) {
+            if (session.lastSeen < cutoff) session.server.close().catch(() => undefined);
+        }
+    }, SESSION_SWEEP_INTERVAL_MS);
+    sweep.unref();
+
+    return {
+        url: `http://${host.includes(":") ? `[${host}]` : host}:${port}${MCP_PATH}`,
+        close: async () => {
+            clearInterval(sweep);
+            await Promise.all([...sessions.values()].map(session => session.server.close().catch(() => undefined)));
+            await new Promise<void>(resolve => httpServer.close(() => resolve()));
+        },
+    };
+}
+
+function listen(httpServer: HttpServer, port: number, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(port, host, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+}
+
+function isLoopback(host: string): boolean {
+    return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+function hasToken(req: IncomingMessage, token: string): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+    if (!match) return false;
+    // Hashing first gives equal lengths, which timingSafeEqual needs
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    } catch {
+        throw new HttpError(400, "Request body is not valid JSON");
+    }
+}
+
+// Errors outside a session are reported the way the SDK's transport reports its own
+function sendError(res: ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
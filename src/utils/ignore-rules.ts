@@ -0,0 +1,218 @@
+/**
+ * Ignore Rules
+ *
+ * Decides which paths the repository scanners skip, the way git does: the global excludes
+ * file, .git/info/exclude, then every .gitignore from the top of the work tree down to the
+ * path's own directory, each overriding the ones before it. A .projectscopeignore uses the
+ * same syntax and takes precedence over the .gitignore in its directory, for paths that should
+ * stay in git but out of the analysis. The `ignore` and `include` globs of .project-scope.json
+ * apply last.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import ignore, { Ignore } from "ignore";
+import { simpleGit } from "simple-git";
+import { toPosix } from "./module-resolver.js";
+import { loadProjectConfig, PROJECT_CONFIG_FILE } from "./project-config.js";
+
+// Read in this order in every directory; later files win
+export const IGNORE_FILES = [".gitignore", ".projectscopeignore"];
+
+// Dependency, build and tool directories the scanners skip even when no ignore file mentions them
+export const DEFAULT_IGNORE_PATTERNS = [
+    "**/node_modules/**",
+    "**/.git/**",
+    "**/.project-scope/**",
+    "**/dist/**",
+    "**/build/**",
+    "**/.next/**",
+    "**/coverage/**",
+    "**/__pycache__/**",
+    "**/venv/**",
+    "**/.venv/**",
+    "**/target/**",
+    "**/vendor/**",
+];
+
+// Whether a changed file, relative to the repository root, may change which paths are ignored
+export function isIgnoreFile(file: string): boolean {
+    return IGNORE_FILES.includes(path.posix.basename(toPosix(file))) || toPosix(file) === PROJECT_CONFIG_FILE;
+}
+
+interface RuleLayer {
+    // Directory the patterns are relative to, relative to the top of the work tree ("" for the top)
+    base: string;
+    rules: Ignore;
+}
+
+export class IgnoreRules {
+    // Rules read from each directory's ignore files, null when it has none
+    private readonly directoryRules = new Map<string, RuleLayer | null>();
+    // Whether a directory (relative to the top) is ignored
+    private readonly ignoredDirectories = new Map<string, boolean>();
+
+    /**
+     * @param top The work tree root, or the repository root outside git
+     * @param prefix Path of the repository root below `top`, "" when they are the same
+     * @param baseLayers The global excludes file and .git/info/exclude, both relative to `top`
+     * @param projectLayer The `ignore` globs of .project-scope.json, relative to the repository root
+     * @param include The `include` globs of .project-scope.json; other files are ignored
+     */
+    constructor(
+        private readonly top: string,
+        private readonly prefix: string,
+        private readonly baseLayers: RuleLayer[],
+        private readonly ignoreCase: boolean,
+        private readonly projectLayer: RuleLayer | null = null,
+        private readonly include: Ignore | null = null
+    ) {}
+
+    /**
+     * Whether a path, relative to the repository root, is ignored. Everything inside an
+     * ignored directory is ignored too; as in git, a negated pattern cannot bring it back.
+     */
+    ignores(relativePath: string, isDirectory = false): boolean {
+        const normalized = toPosix(relativePath).replace(/^\.\/|\/+$/g, "");
+        if (normalized === "") return false;
+        const full = this.prefix ? `${this.prefix}/${normalized}` : normalized;
+
+        const parent = path.posix.dirname(full);
+        if (parent !== "." && this.isIgnoredDirectory(parent)) return true;
+        if (isDirectory) return this.isIgnoredDirectory(full);
+        // Directories stay, since an included file may be anywhere below them
+        if (this.include && !this.include.ignores(normalized)) return true;
+        return this.matches(full, false);
+    }
+
+    // Keep only the paths that are not ignored; directories are marked with a trailing slash
+    filter(relativePaths: string[]): string[] {
+        return relativePaths.filter(entry => !this.ignores(entry, entry.endsWith("/")));
+    }
+
+    private isIgnoredDirectory(directory: string): boolean {
+        const known = this.ignoredDirectories.get(directory);
+        if (known !== undefined) return known;
+
+        const parent = path.posix.dirname(directory);
+        const ignored = (parent !== "." && this.isIgnoredDirectory(parent)) || this.matches(directory, true);
+        this.ignoredDirectories.set(directory, ignored);
+        return ignored;
+    }
+
+    // The verdict of the last layer with a matching pattern, nearest directory last
+    private matches(full: string, isDirectory: boolean): boolean {
+        let ignored = false;
+        for (const layer of this.layersFor(full)) {
+            const relative = layer.base ? full.slice(layer.base.length + 1) : full;
+            const result = layer.rules.test(isDirectory ? `${relative}/` : relative);
+            if (result.ignored) ignored = true;
+            else if (result.unignored) ignored = false;
+        }
+        return ignored;
+    }
+
+    private layersFor(full: string): RuleLayer[] {
+        const layers = [...this.baseLayers];
+        const segments = full.split("/").slice(0, -1);
+        for (let depth = 0; depth <= segments.length; depth++) {
+            const layer = this.readDirectoryRules(segments.slice(0, depth).join("/"));
+            if (layer) layers.push(layer);
+        }
+        if (this.projectLayer) layers.push(this.projectLayer);
+        return layers;
+    }
+
+    private readDirectoryRules(directory: string): RuleLayer | null {
+        if (this.directoryRules.has(directory)) return this.directoryRules.get(directory)!;
+
+        let layer: RuleLayer | null = null;
+        for (const name of IGNORE_FILES) {
+            const content = readIfExists(path.join(this.top, directory, name));
+            if (content === null) continue;
+            layer ??= { base: directory, rules: ignore({ ignorecase: this.ignoreCase }) };
+            layer.rules.add(content);
+        }
+        this.directoryRules.set(directory, layer);
+        return layer;
+    }
+}
+
+/**
+ * The ignore rules that apply to a repository. Ignore files are read as paths are tested, so
+ * load the rules again after a scan rather than keeping them across changes to those files.
+ */
+export async function loadIgnoreRules(repoPath: string): Promise<IgnoreRules> {
+    const root = path.resolve(repoPath);
+    // git compares paths case-insensitively where the file system usually does
+    const ignoreCase = process.platform === "win32" || process.platform === "darwin";
+    const config = await loadProjectConfig(root);
+    const include = config.include.length > 0 ? ignore({ ignorecase: ignoreCase }).add(config.include) : null;
+    const projectRules = config.ignore.length > 0 ? ignore({ ignorecase: ignoreCase }).add(config.ignore) : null;
+
+    const gitRepository = findGitRepository(root);
+    if (!gitRepository) {
+        return new IgnoreRules(root, "", [], ignoreCase, projectRules && { base: "", rules: projectRules }, include);
+    }
+
+    const { top, gitDir } = gitRepository;
+    const baseLayers: RuleLayer[] = [];
+    for (const file of [await globalExcludesFile(top), path.join(gitDir, "info", "exclude")]) {
+        const content = file && readIfExists(file);
+        if (content) baseLayers.push({ base: "", rules: ignore({ ignorecase: ignoreCase }).add(content) });
+    }
+    const prefix = toPosix(path.relative(top, root));
+    // A repository inside an ignored directory, such as a dependency, is analysed on its own terms
+    if (prefix && new IgnoreRules(top, "", baseLayers, ignoreCase).ignores(prefix, true)) {
+        return new IgnoreRules(root, "", [], ignoreCase, projectRules && { base: "", rules: projectRules }, include);
+    }
+    return new IgnoreRules(top, prefix, baseLayers, ignoreCase, projectRules && { base: prefix, rules: projectRules }, include);
+}
+
+// The work tree containing `root` and its git directory, following `.git` files of worktrees and submodules
+function findGitRepository(root: string): { top: string; gitDir: string } | null {
+    for (let directory = root; ; directory = path.dirname(directory)) {
+        const dotGit = path.join(directory, ".git");
+        let stat;
+        try {
+            stat = fs.statSync(dotGit);
+        } catch {
+            stat = null;
+        }
+
+        if (stat?.isDirectory()) return { top: directory, gitDir: dotGit };
+        if (stat?.isFile()) {
+            const gitDir = /^gitdir:\s*(.+)$/m.exec(readIfExists(dotGit) ?? "")?.[1].trim();
+            if (gitDir) {
+                const resolved = path.resolve(directory, gitDir);
+                // A linked worktree keeps info/exclude in the main repository's git directory
+                const commonDir = readIfExists(path.join(resolved, "commondir"))?.trim();
+                return { top: directory, gitDir: commonDir ? path.resolve(resolved, commonDir) : resolved };
+            }
+        }
+        if (path.dirname(directory) === directory) return null;
+    }
+}
+
+// core.excludesFile, or git's default location for it
+async function globalExcludesFile(top: string): Promise<string | null> {
+    let configured: string | null = null;
+    try {
+        configured = (await simpleGit(top).getConfig("core.excludesFile")).value;
+    } catch {
+        // git is not installed
+    }
+    if (configured) return configured.replace(/^~(?=$|[\\/])/, os.homedir());
+
+    const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+    return path.join(configHome, "git", "ignore");
+}
+
+function readIfExists(file: string): string | null {
+    try {
+        return fs.readFileSync(file, "utf-8");
+    } catch {
+        return null;
+    }
+}
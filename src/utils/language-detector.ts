@@ -10,24 +10,27 @@ export type SupportedLanguage =
     | "css"
     | "unknown";
 
-export function detectLanguage(filePath: string): SupportedLanguage {
-    const ext = path.extname(filePath).toLowerCase();
+// Extension (".es6") to language, from a project's configuration; checked before the built-in extensions
+export type LanguageOverrides = Record<string, SupportedLanguage>;
 
-    const extensionMap: Record<string, SupportedLanguage> = {
-        ".js": "javascript",
-        ".jsx": "javascript",
-        ".mjs": "javascript",
-        ".cjs": "javascript",
-        ".ts": "typescript",
-        ".tsx": "typescript",
-        ".py": "python",
-        ".pyw": "python",
-        ".java": "java",
-        ".go": "go",
-        ".html": "html",
-        ".htm": "html",
-        ".css": "css",
-    };
+export const EXTENSION_LANGUAGES: Readonly<Record<string, SupportedLanguage>> = {
+    ".js": "javascript",
+    ".jsx": "javascript",
+    ".mjs": "javascript",
+    ".cjs": "javascript",
+    ".ts": "typescript",
+    ".tsx": "typescript",
+    ".py": "python",
+    ".pyw": "python",
+    ".java": "java",
+    ".go": "go",
+    ".html": "html",
+    ".htm": "html",
+    ".css": "css",
+};
 
-    return extensionMap[ext] || "unknown";
+export function detectLanguage(filePath: string, overrides: LanguageOverrides = {}): SupportedLanguage {
+    const ext = path.extname(filePath).toLowerCase();
+    if (Object.hasOwn(overrides, ext)) return overrides[ext];
+    return Object.hasOwn(EXTENSION_LANGUAGES, ext) ? EXTENSION_LANGUAGES[ext] : "unknown";
 }
\ No newline at end of file
@@ -0,0 +1,216 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SupportedLanguage } from "./language-detector.js";
+
+// Extensions tried, in order, for extensionless JS/TS specifiers
+const JS_EXTENSIONS = [".ts", ".tsx", ".d.ts", ".js", ".jsx", ".mjs", ".cjs"];
+
+export interface PathMapping {
+    // Directory non-relative specifiers resolve against, relative to the repository root
+    baseUrl: string;
+    // tsconfig `paths`, with targets already made relative to the repository root
+    paths: { pattern: string; targets: string[] }[];
+}
+
+export interface ResolverContext {
+    // Repository files, relative to the root, using forward slashes
+    files: Set<string>;
+    // Module path declared in go.mod, if any
+    goModulePath: string | null;
+    // `baseUrl` / `paths` from tsconfig.json or jsconfig.json, if any
+    pathMapping: PathMapping | null;
+}
+
+export async function createResolverContext(repoPath: string, files: string[]): Promise<ResolverContext> {
+    let goModulePath: string | null = null;
+    try {
+        const goMod = await fs.readFile(path.join(repoPath, "go.mod"), "utf-8");
+        goModulePath = goMod.match(/^module\s+(\S+)/m)?.[1] ?? null;
+    } catch {
+        // Not a Go module
+    }
+
+    let pathMapping: PathMapping | null = null;
+    for (const configName of ["tsconfig.json", "jsconfig.json"]) {
+        pathMapping = await loadPathMapping(repoPath, configName);
+        if (pathMapping) break;
+    }
+
+    return {
+        files: new Set(files.map(toPosix)),
+        goModulePath,
+        pathMapping,
+    };
+}
+
+/**
+ * Read `baseUrl` and `paths` from a tsconfig, following relative `extends` chains.
+ */
+async function loadPathMapping(repoPath: string, configFile: string, depth = 0): Promise<PathMapping | null> {
+    if (depth > 5) return null;
+
+    let config: { extends?: unknown; compilerOptions?: { baseUrl?: string; paths?: Record<string, string[]> } };
+    try {
+        const raw = await fs.readFile(path.join(repoPath, configFile), "utf-8");
+        config = JSON.parse(stripJsonComments(raw));
+    } catch {
+        return null;
+    }
+
+    const configDir = path.posix.dirname(toPosix(configFile));
+    let inherited: PathMapping | null = null;
+    if (typeof config.extends === "string" && config.extends.startsWith(".")) {
+        const parent = path.posix.join(configDir, config.extends);
+        inherited = await loadPathMapping(repoPath, parent.endsWith(".json") ? parent : parent + ".json", depth + 1);
+    }
+
+    const options = config.compilerOptions ?? {};
+    if (options.baseUrl === undefined && options.paths === undefined) return inherited;
+
+    // `paths` resolve against baseUrl, or against the tsconfig directory when baseUrl is unset
+    const baseUrl = options.baseUrl !== undefined
+        ? path.posix.normalize(path.posix.join(configDir, options.baseUrl))
+        : inherited?.baseUrl ?? configDir;
+    const paths = options.paths
+        ? Object.entries(options.paths).map(([pattern, targets]) => ({
+            pattern,
+            targets: targets.map(target => path.posix.normalize(path.posix.join(baseUrl, target))),
+        }))
+        : inherited?.paths ?? [];
+
+    return { baseUrl, paths };
+}
+
+function stripJsonComments(text: string): string {
+    return text
+        .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_match, str) => str ?? "")
+        .replace(/,(\s*[}\]])/g, "$1");
+}
+
+/**
+ * Resolve an import source to the repository files it refers to.
+ * Go imports resolve to every file of the imported package; other languages to at most one file.
+ * Java sources are fully qualified class names (`com.example.Foo`).
+ */
+export function resolveImport(
+    fromFile: string,
+    language: SupportedLanguage,
+    source: string,
+    context: ResolverContext
+): string[] {
+    let resolved: string | null = null;
+    switch (language) {
+        case "javascript":
+        case "typescript":
+            resolved = resolveJsSpecifier(fromFile, source, context);
+            break;
+        case "python":
+            resolved = resolvePythonModule(fromFile, source, context);
+            break;
+        case "java":
+            resolved = resolveJavaImport(source, context);
+            break;
+        case "go":
+            return resolveGoImport(source, context);
+    }
+    return resolved ? [resolved] : [];
+}
+
+export function resolveJsSpecifier(fromFile: string, specifier: string, context: ResolverContext): string | null {
+    if (specifier.startsWith(".")) {
+        const base = path.posix.normalize(path.posix.join(path.posix.dirname(toPosix(fromFile)), specifier));
+        return resolveJsPath(base, context);
+    }
+
+    const mapping = context.pathMapping;
+    if (!mapping) return null;
+
+    for (const { pattern, targets } of mapping.paths) {
+        const wildcard = pattern.indexOf("*");
+        let captured: string | null = null;
+        if (wildcard === -1) {
+            if (specifier === pattern) captured = "";
+        } else {
+            const prefix = pattern.slice(0, wildcard);
+            const suffix = pattern.slice(wildcard + 1);
+            if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length) {
+                captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+            }
+        }
+        if (captured === null) continue;
+
+        for (const target of targets) {
+            const resolved = resolveJsPath(target.replace("*", captured), context);
+            if (resolved) return resolved;
+        }
+    }
+
+    return resolveJsPath(path.posix.normalize(path.posix.join(mapping.baseUrl, specifier)), context);
+}
+
+function resolveJsPath(base: string, context: ResolverContext): string | null {
+    const candidates = [base];
+
+    // ESM-style TypeScript imports spell the compiled extension: "./x.js" -> "./x.ts"
+    const jsExt = base.match(/\.(m|c)?jsx?$/);
+    if (jsExt) {
+        const stem = base.slice(0, -jsExt[0].length);
+        candidates.push(stem + ".ts", stem + ".tsx", stem + ".mts", stem + ".cts");
+    }
+
+    for (const ext of JS_EXTENSIONS) candidates.push(base + ext);
+    for (const ext of JS_EXTENSIONS) candidates.push(base + "/index" + ext);
+
+    return candidates.find(candidate => context.files.has(candidate)) ?? null;
+}
+
+export function resolvePythonModule(fromFile: string, moduleName: string, context: ResolverContext): string | null {
+    const dots = moduleName.match(/^\.*/)![0].length;
+    const parts = moduleName.slice(dots).split(".").filter(Boolean);
+
+    const roots: string[] = [];
+    let dir = path.posix.dirname(toPosix(fromFile));
+    if (dots > 0) {
+        for (let i = 1; i < dots; i++) dir = path.posix.dirname(dir);
+        roots.push(dir === "." ? "" : dir);
+    } else {
+        // Absolute imports: the repository root, a src/ layout, or any directory above the importer
+        roots.push("", "src");
+        while (dir !== "." && dir !== "/") {
+            roots.push(dir);
+            dir = path.posix.dirname(dir);
+        }
+    }
+
+    for (const root of roots) {
+        const base = path.posix.join(root, ...parts);
+        for (const candidate of [base + ".py", path.posix.join(base, "__init__.py")]) {
+            if (context.files.has(candidate)) return candidate;
+        }
+    }
+    return null;
+}
+
+export function resolveGoImport(importPath: string, context: ResolverContext): string[] {
+    const modulePath = context.goModulePath;
+    if (!modulePath || (importPath !== modulePath && !importPath.startsWith(modulePath + "/"))) {
+        return [];
+    }
+
+    const dir = importPath.slice(modulePath.length + 1);
+    return [...context.files].filter(file =>
+        file.endsWith(".go") && path.posix.dirname(file) === (dir || ".")
+    );
+}
+
+export function resolveJavaImport(qualifiedName: string, context: ResolverContext): string | null {
+    const suffix = "/" + qualifiedName.replace(/\./g, "/") + ".java";
+    for (const file of context.files) {
+        if (("/" + file).endsWith(suffix)) return file;
+    }
+    return null;
+}
+
+export function toPosix(filePath: string): string {
+    return filePath.split(path.sep).join("/");
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+
+// Result sets kept for paging; the least recently read is dropped first
+const MAX_STORED_RESULTS = 20;
+// A cursor stops working this long after its result was last read
+const CURSOR_TTL_MS = 10 * 60 * 1000;
+
+export interface PageParams {
+    // Items per page; everything at once when omitted
+    limit?: number;
+    // `nextCursor` of the previous page; the remaining arguments of the call are then ignored
+    cursor?: string;
+}
+
+export interface Page<R> {
+    result: R;
+    // The page covers items [start, end) of the result
+    start: number;
+    end: number;
+    nextCursor?: string;
+}
+
+interface StoredResult {
+    tool: string;
+    result: unknown;
+    limit: number;
+    expiresAt: number;
+}
+
+const stored = new Map<string, StoredResult>();
+
+/**
+ * Compute a result, or pick up the one a cursor points to, and work out which of its items
+ * belong on this page. Results with more pages are kept server-side, so later pages are
+ * served from the same snapshot instead of being recomputed.
+ */
+export async function paginate<R>(
+    tool: string,
+    page: PageParams,
+    compute: () => Promise<R>,
+    countItems: (result: R) => number
+): Promise<Page<R>> {
+    if (page.limit !== undefined && (!Number.isInteger(page.limit) || page.limit < 1)) {
+        throw new Error(`Invalid limit: ${page.limit}`);
+    }
+
+    let id: string | undefined;
+    let result: R;
+    let start = 0;
+    let limit = page.limit;
+
+    if (page.cursor !== undefined) {
+        const position = decodeCursor(page.cursor);
+        const entry = position && stored.get(position.id);
+        if (!position || !entry || entry.expiresAt < Date.now() || entry.tool !== tool) {
+            throw new Error(`Invalid or expired cursor; call ${tool} again without a cursor`);
+        }
+        id = position.id;
+        result = entry.result as R;
+        start = position.offset;
+        limit ??= entry.limit;
+        // Most recently read last
+        stored.delete(id);
+        stored.set(id, { ...entry, expiresAt: Date.now() + CURSOR_TTL_MS });
+    } else {
+        result = await compute();
+    }
+
+    const total = countItems(result);
+    const end = limit === undefined ? total : Math.min(total, start + limit);
+    if (end >= total) return { result, start, end };
+
+    if (!id) {
+        id = randomUUID();
+        stored.set(id, { tool, result, limit: limit!, expiresAt: Date.now() + CURSOR_TTL_MS });
+        evictStoredResults();
+    }
+    return { result, start, end, nextCursor: encodeCursor(id, end) };
+}
+
+function evictStoredResults(): void {
+    const now = Date.now();
+    for (const [id, entry] of stored) {
+        if (entry.expiresAt < now) stored.delete(id);
+    }
+    while (stored.size > MAX_STORED_RESULTS) {
+        stored.delete(stored.keys().next().value!);
+    }
+}
+
+function encodeCursor(id: string, offset: number): string {
+    return Buffer.from(`${id}:${offset}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { id: string; offset: number } | null {
+    const match = /^([\w-]+):(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+    return match ? { id: match[1], offset: Number(match[2]) } : null;
+}
@@ -0,0 +1,37 @@
+export interface ProgressUpdate {
+    processed: number;
+    total: number;
+    message?: string;
+}
+
+/**
+ * How a caller follows and stops a long-running tool. A tool whose signal is aborted
+ * stops at the next file and returns what it found so far, marked `cancelled`.
+ */
+export interface ProgressOptions {
+    signal?: AbortSignal;
+    onProgress?: (update: ProgressUpdate) => void;
+}
+
+/**
+ * Counts the files a tool has processed against the number it will process.
+ */
+export class FileProgress {
+    private processed = 0;
+
+    constructor(private readonly options: ProgressOptions = {}, private total = 0) {}
+
+    get cancelled(): boolean {
+        return this.options.signal?.aborted ?? false;
+    }
+
+    // For tools that only learn how much work there is as they go
+    addTotal(files: number): void {
+        this.total += files;
+    }
+
+    advance(message?: string): void {
+        this.processed++;
+        this.options.onProgress?.({ processed: this.processed, total: Math.max(this.total, this.processed), message });
+    }
+}
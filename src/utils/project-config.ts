@@ -0,0 +1,224 @@
+/**
+ * Project Configuration
+ *
+ * A repository can check in a `.project-scope.json` at its root with defaults for every tool that
+ * works on it: extra ignore globs, the files to include, languages of unknown extensions, dead-code
+ * entry points, and the security scan's mode, sensitivity, allowlists and suppressions. Arguments
+ * of a tool call still win over the file.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { detectLanguage, LanguageOverrides, SupportedLanguage } from "./language-detector.js";
+
+export const PROJECT_CONFIG_FILE = ".project-scope.json";
+
+const LANGUAGES: SupportedLanguage[] = ["javascript", "typescript", "python", "java", "go", "html", "css"];
+const THREAT_TYPES = ["shell_injection", "sql_injection", "path_traversal", "template_injection", "prompt_injection"] as const;
+
+export type ThreatType = typeof THREAT_TYPES[number];
+
+export interface SecuritySuppression {
+    // Gitignore-style globs of the files it applies to (default: every file)
+    files?: string[];
+    type?: ThreatType;
+    line?: number;
+    // Regular expression matched against the flagged line (its first 100 characters, as reported)
+    pattern?: string;
+    // Why the finding is acceptable; shown by get_effective_config only
+    reason?: string;
+}
+
+export interface ProjectConfig {
+    // The file the settings came from, null when the repository has none
+    file: string | null;
+    // Gitignore-style patterns skipped on top of the ignore files
+    ignore: string[];
+    // Gitignore-style patterns; when not empty, only matching files are analysed
+    include: string[];
+    languages: LanguageOverrides;
+    deadCode: {
+        // Added to the entryPoints of a find_dead_code call
+        entryPoints: string[];
+        // Replaces the default test globs unless the call passes its own
+        testGlobs?: string[];
+    };
+    security: {
+        mode?: "strict" | "advisory";
+        sensitivity?: "high" | "medium" | "low";
+        // Only consulted in advisory mode, like the allowlists of the validate_* tools
+        allowlist: { commands: string[]; paths: string[]; sql_keywords: string[] };
+        suppress: SecuritySuppression[];
+    };
+}
+
+const loaded = new Map<string, { mtimeMs: number; size: number; config: ProjectConfig }>();
+
+/**
+ * The configuration of the repository at `repoPath`, or the defaults when it has no `.project-scope.json`.
+ * The file is parsed again only when it changes; a malformed file is an error rather than silently ignored.
+ */
+export async function loadProjectConfig(repoPath: string): Promise<ProjectConfig> {
+    const root = path.resolve(repoPath);
+    const file = path.join(root, PROJECT_CONFIG_FILE);
+
+    let stat;
+    try {
+        stat = await fs.stat(file);
+    } catch {
+        loaded.delete(root);
+        return parseProjectConfig({}, null);
+    }
+
+    const known = loaded.get(root);
+    if (known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) return known.config;
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await fs.readFile(file, "utf-8"));
+    } catch (error) {
+        throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const config = parseProjectConfig(raw, file);
+    loaded.set(root, { mtimeMs: stat.mtimeMs, size: stat.size, config });
+    return config;
+}
+
+// A file's language in the repository at `repoPath`, counting the extensions its configuration maps
+export async function detectProjectLanguage(repoPath: string, file: string): Promise<SupportedLanguage> {
+    return detectLanguage(file, (await loadProjectConfig(repoPath)).languages);
+}
+
+/**
+ * The configuration that applies to a single file: the nearest `.project-scope.json` in its
+ * directory or above, up to the top of its git work tree.
+ */
+export async function loadProjectConfigFor(filePath: string): Promise<{ root: string; config: ProjectConfig }> {
+    let directory = path.dirname(path.resolve(filePath));
+    for (;;) {
+        if (await exists(path.join(directory, PROJECT_CONFIG_FILE))) {
+            return { root: directory, config: await loadProjectConfig(directory) };
+        }
+        const parent = path.dirname(directory);
+        if (parent === directory || await exists(path.join(directory, ".git"))) break;
+        directory = parent;
+    }
+    return { root: path.dirname(path.resolve(filePath)), config: parseProjectConfig({}, null) };
+}
+
+async function exists(file: string): Promise<boolean> {
+    try {
+        await fs.access(file);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function parseProjectConfig(raw: unknown, file: string | null): ProjectConfig {
+    const settings = asObject(raw, "the file");
+    checkKeys(settings, ["ignore", "include", "languages", "deadCode", "security"], "");
+
+    const languages: LanguageOverrides = {};
+    for (const [extension, language] of Object.entries(asObject(settings.languages ?? {}, "languages"))) {
+        if (!/^\.[^./\\]+$/.test(extension)) {
+            fail(`languages.${extension}`, `must be a file extension such as ".es6"`);
+        }
+        if (!LANGUAGES.includes(language as SupportedLanguage)) {
+            fail(`languages.${extension}`, `must be one of ${LANGUAGES.join(", ")}`);
+        }
+        languages[extension.toLowerCase()] = language as SupportedLanguage;
+    }
+
+    const deadCode = asObject(settings.deadCode ?? {}, "deadCode");
+    checkKeys(deadCode, ["entryPoints", "testGlobs"], "deadCode.");
+
+    const security = asObject(settings.security ?? {}, "security");
+    checkKeys(security, ["mode", "sensitivity", "allowlist", "suppress"], "security.");
+    const allowlist = asObject(security.allowlist ?? {}, "security.allowlist");
+    checkKeys(allowlist, ["commands", "paths", "sql_keywords"], "security.allowlist.");
+    if (!Array.isArray(security.suppress ?? [])) fail("security.suppress", "must be an array");
+
+    return {
+        file,
+        ignore: stringArray(settings.ignore, "ignore"),
+        include: stringArray(settings.include, "include"),
+        languages,
+        deadCode: {
+            entryPoints: stringArray(deadCode.entryPoints, "deadCode.entryPoints"),
+            ...(deadCode.testGlobs !== undefined && { testGlobs: stringArray(deadCode.testGlobs, "deadCode.testGlobs") }),
+        },
+        security: {
+            ...(security.mode !== undefined && { mode: oneOf(security.mode, ["strict", "advisory"] as const, "security.mode") }),
+            ...(security.sensitivity !== undefined && {
+                sensitivity: oneOf(security.sensitivity, ["high", "medium", "low"] as const, "security.sensitivity"),
+            }),
+            allowlist: {
+                commands: stringArray(allowlist.commands, "security.allowlist.commands"),
+                paths: stringArray(allowlist.paths, "security.allowlist.paths"),
+                sql_keywords: stringArray(allowlist.sql_keywords, "security.allowlist.sql_keywords"),
+            },
+            suppress: ((security.suppress ?? []) as unknown[]).map((entry, position) => parseSuppression(entry, `security.suppress[${position}]`)),
+        },
+    };
+}
+
+function parseSuppression(raw: unknown, field: string): SecuritySuppression {
+    const entry = asObject(raw, field);
+    checkKeys(entry, ["files", "type", "line", "pattern", "reason"], `${field}.`);
+
+    const suppression: SecuritySuppression = {};
+    if (entry.files !== undefined) suppression.files = stringArray(entry.files, `${field}.files`);
+    if (entry.type !== undefined) suppression.type = oneOf(entry.type, THREAT_TYPES, `${field}.type`);
+    if (entry.line !== undefined) {
+        if (!Number.isInteger(entry.line) || (entry.line as number) < 1) fail(`${field}.line`, "must be a positive integer");
+        suppression.line = entry.line as number;
+    }
+    if (entry.pattern !== undefined) {
+        if (typeof entry.pattern !== "string") fail(`${field}.pattern`, "must be a string");
+        try {
+            new RegExp(entry.pattern as string);
+        } catch {
+            fail(`${field}.pattern`, "must be a valid regular expression");
+        }
+        suppression.pattern = entry.pattern as string;
+    }
+    if (entry.reason !== undefined) {
+        if (typeof entry.reason !== "string") fail(`${field}.reason`, "must be a string");
+        suppression.reason = entry.reason as string;
+    }
+    if (Object.keys(suppression).every(key => key === "reason")) {
+        fail(field, "must set at least one of files, type, line or pattern");
+    }
+    return suppression;
+}
+
+function asObject(value: unknown, field: string): Record<string, unknown> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) fail(field, "must be an object");
+    return value as Record<string, unknown>;
+}
+
+function checkKeys(value: Record<string, unknown>, known: string[], prefix: string): void {
+    for (const key of Object.keys(value)) {
+        if (!known.includes(key)) fail(`${prefix}${key}`, `is not a known setting (expected one of: ${known.join(", ")})`);
+    }
+}
+
+function stringArray(value: unknown, field: string): string[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some(item => typeof item !== "string")) fail(field, "must be an array of strings");
+    return value as string[];
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], field: string): T {
+    if (!allowed.includes(value as T)) fail(field, `must be one of ${allowed.join(", ")}`);
+    return value as T;
+}
+
+function fail(field: string, message: string): never {
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${field} ${message}`);
+}
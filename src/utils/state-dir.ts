@@ -0,0 +1,20 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+// Where the tools keep their own files (index, refactoring history), relative to the repository root
+export const STATE_DIR = ".project-scope";
+
+/**
+ * Create a directory under the repository's state directory and return its path.
+ * The state directory ignores itself, so analysing a repository never shows up in its `git status`.
+ */
+export async function ensureStateDir(root: string, ...segments: string[]): Promise<string> {
+    const dir = path.join(root, STATE_DIR, ...segments);
+    await fs.mkdir(dir, { recursive: true });
+    try {
+        await fs.writeFile(path.join(root, STATE_DIR, ".gitignore"), "*\n", { encoding: "utf-8", flag: "wx" });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+    return dir;
+}
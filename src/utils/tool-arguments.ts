@@ -0,0 +1,113 @@
+/**
+ * Runtime checks for tool arguments against the JSON Schema the tool advertises in ListTools.
+ *
+ * Only the subset of JSON Schema the tool definitions use is understood: typed properties,
+ * enums, minimums, string arrays, required properties and defaults.
+ */
+
+export interface PropertySchema {
+    type: "string" | "number" | "integer" | "boolean" | "array";
+    description: string;
+    enum?: readonly string[];
+    minimum?: number;
+    items?: { type: "string" };
+    default?: unknown;
+}
+
+export interface InputSchema {
+    type: "object";
+    properties: Record<string, PropertySchema>;
+    required?: string[];
+}
+
+export type ToolArguments = Record<string, unknown>;
+
+export type ToolArgumentErrorCode = "missing_argument" | "unknown_argument" | "invalid_type" | "invalid_value";
+
+export class ToolArgumentError extends Error {
+    constructor(readonly code: ToolArgumentErrorCode, readonly field: string, message: string) {
+        super(message);
+        this.name = "ToolArgumentError";
+    }
+}
+
+/**
+ * Check `args` against `schema` and return a copy with defaults filled in. Numbers and
+ * booleans sent as strings ("42", "true") are converted, since some clients only send strings.
+ * Throws a ToolArgumentError for the first argument that does not fit.
+ */
+export function validateArguments(schema: InputSchema, args: ToolArguments = {}): ToolArguments {
+    if (typeof args !== "object" || args === null || Array.isArray(args)) {
+        throw new ToolArgumentError("invalid_type", "", "Arguments must be an object");
+    }
+
+    for (const field of Object.keys(args)) {
+        if (!(field in schema.properties)) {
+            const known = Object.keys(schema.properties).join(", ");
+            throw new ToolArgumentError("unknown_argument", field, `Unknown argument '${field}' (expected one of: ${known})`);
+        }
+    }
+
+    const validated: ToolArguments = {};
+    for (const [field, property] of Object.entries(schema.properties)) {
+        const value = args[field];
+        // An empty string in a required field is as good as missing
+        if (value === undefined || value === null || (value === "" && schema.required?.includes(field))) {
+            if (schema.required?.includes(field)) {
+                throw new ToolArgumentError("missing_argument", field, `Missing required argument '${field}'`);
+            }
+            if (property.default !== undefined) validated[field] = property.default;
+            continue;
+        }
+        validated[field] = checkValue(field, property, value);
+    }
+    return validated;
+}
+
+function checkValue(field: string, property: PropertySchema, value: unknown): unknown {
+    switch (property.type) {
+        case "string":
+            if (typeof value !== "string") throw invalidType(field, "a string", value);
+            if (property.enum && !property.enum.includes(value)) {
+                throw new ToolArgumentError("invalid_value", field, `Argument '${field}' must be one of: ${property.enum.join(", ")} (got '${value}')`);
+            }
+            return value;
+
+        case "number":
+        case "integer": {
+            const number = toNumber(value);
+            if (number === undefined) throw invalidType(field, property.type === "integer" ? "an integer" : "a number", value);
+            if (property.type === "integer" && !Number.isInteger(number)) {
+                throw new ToolArgumentError("invalid_value", field, `Argument '${field}' must be a whole number (got ${number})`);
+            }
+            if (property.minimum !== undefined && number < property.minimum) {
+                throw new ToolArgumentError("invalid_value", field, `Argument '${field}' must be at least ${property.minimum} (got ${number})`);
+            }
+            return number;
+        }
+
+        case "boolean":
+            if (typeof value === "boolean") return value;
+            if (value === "true" || value === "false") return value === "true";
+            throw invalidType(field, "a boolean", value);
+
+        case "array":
+            if (!Array.isArray(value)) throw invalidType(field, "an array", value);
+            value.forEach((item, index) => {
+                if (typeof item !== "string") throw invalidType(`${field}[${index}]`, "a string", item);
+            });
+            return value;
+    }
+}
+
+function toNumber(value: unknown): number | undefined {
+    if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+    if (typeof value !== "string" || value.trim() === "") return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+}
+
+function invalidType(field: string, expected: string, value: unknown): ToolArgumentError {
+    const actual = Array.isArray(value) ? "array" : typeof value === "string" ? `'${value}'` : typeof value;
+    return new ToolArgumentError("invalid_type", field, `Argument '${field}' must be ${expected} (got ${actual})`);
+}
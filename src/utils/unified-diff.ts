@@ -0,0 +1,310 @@
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+interface SplitLines {
+    lines: string[];
+    // Whether the last line ends with a newline
+    trailingNewline: boolean;
+}
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+export interface PatchHunk {
+    oldStart: number;
+    oldCount: number;
+    newStart: number;
+    newCount: number;
+    lines: string[];
+    // `\ No newline at end of file` after the last old/new line
+    oldNoNewline: boolean;
+    newNoNewline: boolean;
+}
+
+export interface FilePatch {
+    // null for /dev/null
+    oldPath: string | null;
+    newPath: string | null;
+    hunks: PatchHunk[];
+}
+
+function splitLines(content: string): SplitLines {
+    if (content === "") return { lines: [], trailingNewline: true };
+    const lines = content.split("\n");
+    const trailingNewline = lines[lines.length - 1] === "";
+    if (trailingNewline) lines.pop();
+    return { lines, trailingNewline };
+}
+
+/**
+ * Shortest line edit script between two files (Myers' O(ND) algorithm).
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+    // Common prefix and suffix never need the search
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const x0 = a.slice(prefix, a.length - suffix);
+    const y0 = b.slice(prefix, b.length - suffix);
+    const n = x0.length;
+    const m = y0.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Array<number>(2 * max + 3).fill(0);
+    const trace: number[][] = [];
+
+    let found = max === 0;
+    for (let d = 0; d <= max && !found; d++) {
+        trace.push(v.slice());
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && x0[x] === y0[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    // Walk the trace backwards to recover the script
+    const middle: DiffOp[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+        const vd = trace[d];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+        const prevX = vd[offset + prevK];
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            middle.push({ type: " ", line: x0[--x] });
+            y--;
+        }
+        if (d === 0) break;
+        if (x === prevX) middle.push({ type: "+", line: y0[--y] });
+        else middle.push({ type: "-", line: x0[--x] });
+    }
+    middle.reverse();
+
+    return [
+        ...a.slice(0, prefix).map(line => ({ type: " " as const, line })),
+        ...middle,
+        ...a.slice(a.length - suffix).map(line => ({ type: " " as const, line })),
+    ];
+}
+
+/**
+ * Unified diff of one file, in the format `git apply` and `patch -p1` accept.
+ * `original` is null for a file that does not exist yet. Returns "" when nothing changed.
+ */
+export function createUnifiedDiff(filePath: string, original: string | null, updated: string, context = 3): string {
+    if (original === updated) return "";
+
+    const oldFile = splitLines(original ?? "");
+    const newFile = splitLines(updated);
+    const ops = diffLines(oldFile.lines, newFile.lines);
+
+    // A line without its final newline differs from the same text with one, so an unchanged
+    // line that is the unterminated last line on only one side becomes a change
+    const oldLast = oldFile.lines.length - 1;
+    const newLast = newFile.lines.length - 1;
+    if (!oldFile.trailingNewline || !newFile.trailingNewline) {
+        let oldIndex = 0;
+        let newIndex = 0;
+        for (let i = 0; i < ops.length; i++) {
+            const op = ops[i];
+            const oldUnterminated = oldIndex === oldLast && !oldFile.trailingNewline;
+            const newUnterminated = newIndex === newLast && !newFile.trailingNewline;
+            if (op.type === " " && oldUnterminated !== newUnterminated) {
+                ops.splice(i, 1, { type: "-", line: op.line }, { type: "+", line: op.line });
+                i++;
+            }
+            if (op.type !== "+") oldIndex++;
+            if (op.type !== "-") newIndex++;
+        }
+    }
+
+    // Line numbers of each op, and which ops are changes
+    const positions: { oldIndex: number; newIndex: number }[] = [];
+    let oldIndex = 0;
+    let newIndex = 0;
+    for (const op of ops) {
+        positions.push({ oldIndex, newIndex });
+        if (op.type !== "+") oldIndex++;
+        if (op.type !== "-") newIndex++;
+    }
+    const changed = ops.map((op, i) => (op.type !== " " ? i : -1)).filter(i => i >= 0);
+    if (changed.length === 0) return "";
+
+    // Group changes whose context overlaps into hunks
+    const ranges: [number, number][] = [];
+    for (const index of changed) {
+        const start = Math.max(0, index - context);
+        const end = Math.min(ops.length - 1, index + context);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last[1] + 1) last[1] = end;
+        else ranges.push([start, end]);
+    }
+
+    let output = `--- ${original === null ? "/dev/null" : "a/" + filePath}\n`;
+    output += `+++ b/${filePath}\n`;
+
+    for (const [start, end] of ranges) {
+        const slice = ops.slice(start, end + 1);
+        const oldCount = slice.filter(op => op.type !== "+").length;
+        const newCount = slice.filter(op => op.type !== "-").length;
+        const oldStart = oldCount === 0 ? positions[start].oldIndex : positions[start].oldIndex + 1;
+        const newStart = newCount === 0 ? positions[start].newIndex : positions[start].newIndex + 1;
+        output += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+
+        for (let i = start; i <= end; i++) {
+            const op = ops[i];
+            output += op.type + op.line + "\n";
+            const isOldLast = op.type !== "+" && positions[i].oldIndex === oldLast && !oldFile.trailingNewline;
+            const isNewLast = op.type !== "-" && positions[i].newIndex === newLast && !newFile.trailingNewline;
+            if (isOldLast || isNewLast) output += NO_NEWLINE_MARKER + "\n";
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Parse a (possibly multi-file) unified diff. Throws on malformed input.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+    const lines = patch.split("\n");
+    if (lines[lines.length - 1] === "") lines.pop();
+
+    const files: FilePatch[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (!lines[i].startsWith("--- ")) {
+            // Skip `diff --git`, `index` and other extended headers
+            i++;
+            continue;
+        }
+
+        const oldPath = parseHeaderPath(lines[i].slice(4));
+        if (!lines[i + 1]?.startsWith("+++ ")) {
+            throw new Error(`Line ${i + 2}: expected '+++' after '---'`);
+        }
+        const newPath = parseHeaderPath(lines[i + 1].slice(4));
+        i += 2;
+
+        const file: FilePatch = { oldPath, newPath, hunks: [] };
+        while (i < lines.length && lines[i].startsWith("@@")) {
+            const header = lines[i].match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+            if (!header) throw new Error(`Line ${i + 1}: malformed hunk header '${lines[i]}'`);
+
+            const hunk: PatchHunk = {
+                oldStart: Number(header[1]),
+                oldCount: header[2] === undefined ? 1 : Number(header[2]),
+                newStart: Number(header[3]),
+                newCount: header[4] === undefined ? 1 : Number(header[4]),
+                lines: [],
+                oldNoNewline: false,
+                newNoNewline: false,
+            };
+            i++;
+
+            let oldSeen = 0;
+            let newSeen = 0;
+            while (i < lines.length && (oldSeen < hunk.oldCount || newSeen < hunk.newCount || lines[i] === NO_NEWLINE_MARKER)) {
+                const line = lines[i];
+                if (line === NO_NEWLINE_MARKER) {
+                    const previous = hunk.lines[hunk.lines.length - 1];
+                    if (previous === undefined) throw new Error(`Line ${i + 1}: unexpected '${NO_NEWLINE_MARKER}'`);
+                    if (previous[0] !== "+") hunk.oldNoNewline = true;
+                    if (previous[0] !== "-") hunk.newNoNewline = true;
+                } else {
+                    // Some tools drop the space of empty context lines
+                    const normalized = line === "" ? " " : line;
+                    const type = normalized[0];
+                    if (type !== " " && type !== "-" && type !== "+") {
+                        throw new Error(`Line ${i + 1}: unexpected '${line}' inside hunk`);
+                    }
+                    if (type !== "+") oldSeen++;
+                    if (type !== "-") newSeen++;
+                    hunk.lines.push(normalized);
+                }
+                i++;
+            }
+
+            if (oldSeen !== hunk.oldCount || newSeen !== hunk.newCount) {
+                throw new Error(`Hunk at line ${hunk.oldStart} of ${oldPath ?? newPath}: line counts do not match its header`);
+            }
+            file.hunks.push(hunk);
+        }
+
+        if (file.hunks.length === 0) {
+            throw new Error(`No hunks for ${newPath ?? oldPath}`);
+        }
+        files.push(file);
+    }
+
+    return files;
+}
+
+function parseHeaderPath(value: string): string | null {
+    // Drop the timestamp some diff tools append after a tab
+    const raw = value.split("\t")[0].trim();
+    if (raw === "/dev/null") return null;
+    return raw.replace(/^[ab]\//, "");
+}
+
+/**
+ * Apply a file's hunks to its current content. Hunks whose context no longer matches at the stated
+ * line are looked for elsewhere in the file, nearest first; if they match nowhere, this throws.
+ */
+export function applyFilePatch(original: string | null, patch: FilePatch): string {
+    const file = splitLines(original ?? "");
+    const result: string[] = [];
+    let cursor = 0;
+    let trailingNewline = file.trailingNewline;
+    let delta = 0;
+
+    for (const [index, hunk] of patch.hunks.entries()) {
+        const oldLines = hunk.lines.filter(l => l[0] !== "+").map(l => l.slice(1));
+        const newLines = hunk.lines.filter(l => l[0] !== "-").map(l => l.slice(1));
+
+        const expected = (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+        const at = findHunk(file.lines, oldLines, expected, cursor);
+        if (at === -1) {
+            throw new Error(`Hunk ${index + 1} (@@ -${hunk.oldStart},${hunk.oldCount} @@) does not match the current content`);
+        }
+
+        result.push(...file.lines.slice(cursor, at), ...newLines);
+        cursor = at + oldLines.length;
+        delta = at - (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1);
+
+        if (cursor === file.lines.length) {
+            if (hunk.oldNoNewline === file.trailingNewline && oldLines.length > 0) {
+                throw new Error(`Hunk ${index + 1} disagrees with the file about its final newline`);
+            }
+            trailingNewline = !hunk.newNoNewline;
+        }
+    }
+    result.push(...file.lines.slice(cursor));
+
+    if (result.length === 0) return "";
+    return result.join("\n") + (trailingNewline ? "\n" : "");
+}
+
+function findHunk(lines: string[], oldLines: string[], expected: number, minimum: number): number {
+    const matchesAt = (at: number) =>
+        at >= minimum && at + oldLines.length <= lines.length && oldLines.every((line, i) => lines[at + i] === line);
+
+    for (let distance = 0; distance <= lines.length; distance++) {
+        if (matchesAt(expected - distance)) return expected - distance;
+        if (distance > 0 && matchesAt(expected + distance)) return expected + distance;
+    }
+    return -1;
+}
@@ -0,0 +1,268 @@
+import { Worker } from "worker_threads";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { TaskKind, TaskPayload, TaskResult } from "../workers/task-worker.js";
+
+// Upper bound for the default pool size; every worker loads its own tree-sitter grammars
+const MAX_DEFAULT_WORKERS = 8;
+const DEFAULT_TASK_TIMEOUT_MS = 30_000;
+// Idle workers are stopped after this long to give their memory back
+const IDLE_TIMEOUT_MS = 30_000;
+
+export class TaskTimeoutError extends Error {
+    constructor(readonly kind: TaskKind, readonly timeoutMs: number) {
+        super(`Task '${kind}' timed out after ${timeoutMs} ms`);
+        this.name = "TaskTimeoutError";
+    }
+}
+
+export interface MapOptions {
+    // Tasks of this call running at once (default: the pool size)
+    concurrency?: number;
+    // Per-task limit; the worker running an overdue task is terminated and replaced
+    timeoutMs?: number;
+    // Stops starting tasks and ends the iteration; tasks already running finish unobserved
+    signal?: AbortSignal;
+}
+
+export interface TaskOutcome<K extends TaskKind> {
+    index: number;
+    payload: TaskPayload<K>;
+    result?: TaskResult<K>;
+    error?: Error;
+}
+
+interface QueuedTask {
+    id: number;
+    kind: TaskKind;
+    payload: unknown;
+    timeoutMs: number;
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+    worker: Worker;
+    task: QueuedTask | null;
+    timer: NodeJS.Timeout | null;
+}
+
+type WorkerMessage =
+    | { ready: true }
+    | { id: number; ok: true; value: unknown }
+    | { id: number; ok: false; error: string };
+
+/**
+ * A fixed-size pool of worker threads running the tasks in `task-worker`.
+ * Workers start on demand; with a size of 0 tasks run on the main thread instead.
+ * If a worker cannot load the script at all, the pool falls back to the main thread for good.
+ */
+export class WorkerPool {
+    private readonly workers: PooledWorker[] = [];
+    private readonly queue: QueuedTask[] = [];
+    private nextId = 0;
+    private inline: boolean;
+    // Whether any worker has loaded the script; only then is a dying worker a crash rather than a broken setup
+    private loaded = false;
+
+    constructor(private readonly script: URL, readonly size: number) {
+        this.inline = size === 0;
+    }
+
+    run<K extends TaskKind>(kind: K, payload: TaskPayload<K>, timeoutMs = DEFAULT_TASK_TIMEOUT_MS): Promise<TaskResult<K>> {
+        if (this.inline) return this.runInline(kind, payload, timeoutMs);
+
+        return new Promise((resolve, reject) => {
+            const settle = resolve as (value: unknown) => void;
+            this.queue.push({ id: this.nextId++, kind, payload, timeoutMs, resolve: settle, reject });
+            this.dispatch();
+        });
+    }
+
+    /**
+     * Run one task per payload and yield each outcome as soon as it is available, in completion order.
+     * Failed and timed-out tasks are yielded with `error` instead of stopping the others.
+     * When `signal` aborts, the iteration ends early.
+     */
+    async *map<K extends TaskKind>(kind: K, payloads: TaskPayload<K>[], options: MapOptions = {}): AsyncGenerator<TaskOutcome<K>> {
+        const limit = Math.max(1, options.concurrency ?? this.size);
+        const settled: TaskOutcome<K>[] = [];
+        let wake: (() => void) | null = null;
+        let next = 0;
+        let running = 0;
+
+        const { signal } = options;
+        const launch = () => {
+            while (running < limit && next < payloads.length && !signal?.aborted) {
+                const index = next++;
+                const payload = payloads[index];
+                running++;
+                this.run(kind, payload, options.timeoutMs)
+                    .then(
+                        result => ({ index, payload, result }),
+                        error => ({ index, payload, error: error instanceof Error ? error : new Error(String(error)) })
+                    )
+                    .then(outcome => {
+                        running--;
+                        settled.push(outcome);
+                        wake?.();
+                    });
+            }
+        };
+
+        const onAbort = () => wake?.();
+        signal?.addEventListener("abort", onAbort);
+        try {
+            launch();
+            for (let done = 0; done < payloads.length; done++) {
+                while (settled.length === 0 && !signal?.aborted) {
+                    await new Promise<void>(resolve => { wake = resolve; });
+                }
+                wake = null;
+                if (signal?.aborted) return;
+                const outcome = settled.shift()!;
+                launch();
+                yield outcome;
+            }
+        } finally {
+            signal?.removeEventListener("abort", onAbort);
+        }
+    }
+
+    /**
+     * Run a task on the main thread with the same timeout as in a worker. Nothing can interrupt
+     * synchronous work here, so a task that only overran while blocking the thread fails once it ends.
+     */
+    private async runInline<K extends TaskKind>(kind: K, payload: TaskPayload<K>, timeoutMs: number): Promise<TaskResult<K>> {
+        const { runTask } = await import(this.script.href) as typeof import("../workers/task-worker.js");
+        const started = performance.now();
+        let timer: NodeJS.Timeout | undefined;
+        const overdue = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new TaskTimeoutError(kind, timeoutMs)), timeoutMs);
+        });
+        try {
+            const result = await Promise.race([runTask(kind, payload), overdue]);
+            if (performance.now() - started > timeoutMs) throw new TaskTimeoutError(kind, timeoutMs);
+            return result;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            let slot = this.workers.find(candidate => !candidate.task);
+            if (!slot && this.workers.length < this.size) slot = this.spawn();
+            if (!slot) return;
+            this.assign(slot, this.queue.shift()!);
+        }
+    }
+
+    private spawn(): PooledWorker {
+        const slot: PooledWorker = { worker: new Worker(this.script), task: null, timer: null };
+
+        slot.worker.on("message", (message: WorkerMessage) => {
+            if ("ready" in message) {
+                this.loaded = true;
+                return;
+            }
+            const task = slot.task;
+            if (!task || task.id !== message.id) return;
+            this.release(slot);
+            if (message.ok) task.resolve(message.value);
+            else task.reject(new Error(message.error));
+            this.dispatch();
+        });
+        slot.worker.on("error", error => {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            if (this.loaded) this.discard(slot, failure);
+            else this.fallBackInline(slot, failure);
+        });
+        slot.worker.on("exit", code => {
+            const failure = new Error(`Worker exited with code ${code}`);
+            if (this.loaded) this.discard(slot, failure);
+            else this.fallBackInline(slot, failure);
+        });
+
+        this.workers.push(slot);
+        return slot;
+    }
+
+    private assign(slot: PooledWorker, task: QueuedTask): void {
+        if (slot.timer) clearTimeout(slot.timer);
+        slot.task = task;
+        // Keep the process alive while a task is running
+        slot.worker.ref();
+        slot.timer = setTimeout(() => {
+            this.discard(slot, new TaskTimeoutError(task.kind, task.timeoutMs));
+        }, task.timeoutMs);
+
+        slot.worker.postMessage({ id: task.id, kind: task.kind, payload: task.payload });
+    }
+
+    private release(slot: PooledWorker): void {
+        if (slot.timer) clearTimeout(slot.timer);
+        slot.task = null;
+        slot.worker.unref();
+        slot.timer = setTimeout(() => this.discard(slot, null), IDLE_TIMEOUT_MS);
+        slot.timer.unref();
+    }
+
+    // A worker died before loading its script, so none will: run its task and everything queued on the main thread
+    private fallBackInline(slot: PooledWorker, error: Error): void {
+        if (this.workers.indexOf(slot) === -1) return;
+        console.error(`Worker threads unavailable (${error.message}); running tasks on the main thread`);
+        this.inline = true;
+
+        const pending = [...this.workers.map(other => other.task), ...this.queue.splice(0)]
+            .filter((task): task is QueuedTask => task !== null);
+        for (const other of this.workers.splice(0)) {
+            if (other.timer) clearTimeout(other.timer);
+            other.task = null;
+            other.worker.terminate().catch(() => undefined);
+        }
+
+        for (const task of pending) {
+            this.runInline(task.kind, task.payload as TaskPayload<TaskKind>, task.timeoutMs).then(task.resolve, task.reject);
+        }
+    }
+
+    // Stop a worker, failing its task, and start queued tasks elsewhere
+    private discard(slot: PooledWorker, error: Error | null): void {
+        const position = this.workers.indexOf(slot);
+        if (position === -1) return;
+        this.workers.splice(position, 1);
+
+        if (slot.timer) clearTimeout(slot.timer);
+        const task = slot.task;
+        slot.task = null;
+        slot.worker.terminate().catch(() => undefined);
+        if (task) task.reject(error ?? new Error("Worker stopped"));
+        this.dispatch();
+    }
+}
+
+let sharedPool: WorkerPool | null = null;
+
+/**
+ * The pool shared by all tools. Its size comes from the PROJECT_SCOPE_WORKERS environment variable
+ * (0 runs everything on the main thread), by default one worker per core minus one, or 0 when
+ * running from the TypeScript sources.
+ */
+export function getWorkerPool(): WorkerPool {
+    if (!sharedPool) {
+        // Under tsx the sources run directly, so the worker is a .ts file too. Worker threads
+        // don't get tsx's loader and can't import it, so by default those tasks run inline.
+        const extension = path.extname(fileURLToPath(import.meta.url));
+        const configured = Number.parseInt(process.env.PROJECT_SCOPE_WORKERS ?? "", 10);
+        const size = !Number.isNaN(configured)
+            ? Math.max(0, configured)
+            : extension === ".ts"
+                ? 0
+                : Math.min(MAX_DEFAULT_WORKERS, Math.max(1, os.availableParallelism() - 1));
+
+        sharedPool = new WorkerPool(new URL(`../workers/task-worker${extension}`, import.meta.url), size);
+    }
+    return sharedPool;
+}
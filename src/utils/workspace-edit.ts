@@ -0,0 +1,208 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Replace the text between two offsets of a file.
+ * Offsets count UTF-16 code units, the same unit tree-sitter's `startIndex`/`endIndex` use for JS strings.
+ */
+export interface TextEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+export interface FileEdit {
+    // Relative to the repository root
+    filePath: string;
+    edits: TextEdit[];
+    // Hash of the content the edits were computed against; null when the file did not exist
+    expectedHash: string | null;
+    // Remove the file instead of editing it
+    deleteFile?: boolean;
+}
+
+export type WorkspaceEditErrorCode = "STALE_FILE" | "INVALID_EDIT" | "WRITE_FAILED";
+
+export class WorkspaceEditError extends Error {
+    constructor(
+        readonly code: WorkspaceEditErrorCode,
+        message: string,
+        readonly filePath?: string
+    ) {
+        super(message);
+        this.name = "WorkspaceEditError";
+    }
+}
+
+export interface FileSnapshot {
+    filePath: string;
+    // null when the file did not exist before / does not exist after
+    before: string | null;
+    after: string | null;
+}
+
+export interface ApplyEditResult {
+    filesWritten: string[];
+    filesCreated: string[];
+    filesDeleted: string[];
+    // Content of every changed file before and after the edit
+    snapshots: FileSnapshot[];
+}
+
+export function hashContent(content: string): string {
+    return createHash("sha256").update(content, "utf-8").digest("hex");
+}
+
+/**
+ * Apply non-overlapping edits to a string. Edits may be given in any order.
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+    const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    for (let i = 0; i < sorted.length; i++) {
+        const edit = sorted[i];
+        if (edit.start < 0 || edit.end < edit.start || edit.end > content.length) {
+            throw new WorkspaceEditError("INVALID_EDIT", `Edit range ${edit.start}-${edit.end} is outside the file (length ${content.length})`);
+        }
+        if (i > 0 && edit.start < sorted[i - 1].end) {
+            throw new WorkspaceEditError("INVALID_EDIT", `Overlapping edits at offset ${edit.start}`);
+        }
+    }
+
+    // Apply from the end so earlier offsets stay valid
+    let result = content;
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        const { start, end, newText } = sorted[i];
+        result = result.slice(0, start) + newText + result.slice(end);
+    }
+    return result;
+}
+
+/**
+ * Offset of the first character of each line, plus a final entry for the end of the text.
+ */
+export function lineOffsets(content: string): number[] {
+    const offsets = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === "\n") offsets.push(i + 1);
+    }
+    offsets.push(content.length);
+    return offsets;
+}
+
+async function readIfExists(fullPath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(fullPath, "utf-8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+    }
+}
+
+async function writeAtomically(fullPath: string, content: string, mode?: number): Promise<void> {
+    const tempPath = tempPathFor(fullPath);
+    try {
+        await fs.writeFile(tempPath, content, { encoding: "utf-8", mode });
+        await fs.rename(tempPath, fullPath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+function tempPathFor(fullPath: string): string {
+    const suffix = `${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+    return path.join(path.dirname(fullPath), `.${path.basename(fullPath)}.${suffix}`);
+}
+
+/**
+ * Apply edits to several files as one transaction.
+ *
+ * Every file is checked against its expected hash before anything is written, new contents are
+ * staged in temp files and renamed into place, and if any step fails every file already replaced
+ * is restored to its original content.
+ */
+export async function applyWorkspaceEdit(repoPath: string, fileEdits: FileEdit[]): Promise<ApplyEditResult> {
+    const byPath = new Map<string, FileEdit>();
+    for (const fileEdit of fileEdits) {
+        const existing = byPath.get(fileEdit.filePath);
+        if (existing) {
+            if (existing.expectedHash !== fileEdit.expectedHash || existing.deleteFile || fileEdit.deleteFile) {
+                throw new WorkspaceEditError("INVALID_EDIT", `Conflicting base versions for ${fileEdit.filePath}`, fileEdit.filePath);
+            }
+            existing.edits = [...existing.edits, ...fileEdit.edits];
+        } else {
+            byPath.set(fileEdit.filePath, { ...fileEdit, edits: [...fileEdit.edits] });
+        }
+    }
+
+    // Phase 1: verify every file and compute its new content in memory
+    const planned: { filePath: string; fullPath: string; original: string | null; updated: string | null; mode?: number }[] = [];
+    for (const fileEdit of byPath.values()) {
+        const fullPath = path.join(repoPath, fileEdit.filePath);
+        const original = await readIfExists(fullPath);
+        const currentHash = original === null ? null : hashContent(original);
+
+        if (currentHash !== fileEdit.expectedHash) {
+            const reason = original === null ? "no longer exists" : fileEdit.expectedHash === null ? "was created" : "was modified";
+            throw new WorkspaceEditError("STALE_FILE", `${fileEdit.filePath} ${reason} since the edit was computed`, fileEdit.filePath);
+        }
+
+        let updated: string | null = null;
+        if (!fileEdit.deleteFile) {
+            try {
+                updated = applyTextEdits(original ?? "", fileEdit.edits);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                throw new WorkspaceEditError("INVALID_EDIT", `${fileEdit.filePath}: ${message}`, fileEdit.filePath);
+            }
+        }
+        if (updated === original) continue;
+
+        const mode = original === null ? undefined : (await fs.stat(fullPath)).mode;
+        planned.push({ filePath: fileEdit.filePath, fullPath, original, updated, mode });
+    }
+
+    // Phase 2: write, rolling back on the first failure
+    const done: typeof planned = [];
+    try {
+        for (const file of planned) {
+            if (file.updated === null) {
+                await fs.rm(file.fullPath);
+            } else {
+                if (file.original === null) {
+                    await fs.mkdir(path.dirname(file.fullPath), { recursive: true });
+                }
+                await writeAtomically(file.fullPath, file.updated, file.mode);
+            }
+            done.push(file);
+        }
+    } catch (error) {
+        const rollbackFailures: string[] = [];
+        for (const file of done.reverse()) {
+            try {
+                if (file.original === null) {
+                    await fs.rm(file.fullPath, { force: true });
+                } else {
+                    await writeAtomically(file.fullPath, file.original, file.mode);
+                }
+            } catch {
+                rollbackFailures.push(file.filePath);
+            }
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        const rollback = rollbackFailures.length > 0
+            ? ` Rollback failed for: ${rollbackFailures.join(", ")}`
+            : ` All ${done.length} written files were restored.`;
+        throw new WorkspaceEditError("WRITE_FAILED", `Failed to write changes: ${message}.${rollback}`);
+    }
+
+    return {
+        filesWritten: planned.filter(f => f.original !== null && f.updated !== null).map(f => f.filePath),
+        filesCreated: planned.filter(f => f.original === null).map(f => f.filePath),
+        filesDeleted: planned.filter(f => f.updated === null).map(f => f.filePath),
+        snapshots: planned.map(f => ({ filePath: f.filePath, before: f.original, after: f.updated })),
+    };
+}
@@ -0,0 +1,51 @@
+/**
+ * Worker thread entry point for the shared worker pool.
+ *
+ * Each task is a plain function of a structured-cloneable payload, so the same
+ * table runs inside a worker or, with PROJECT_SCOPE_WORKERS=0, on the main thread.
+ */
+
+import { isMainThread, parentPort } from "worker_threads";
+import { indexFileTask } from "../parsers/symbol-index.js";
+import { scanRepoFile } from "../tools/security-tools.js";
+import { findFileReferences } from "../tools/impact-analysis.js";
+import { fileStatsTask } from "../tools/repo-stats.js";
+import { outlineFileTask } from "../tools/symbol-tools.js";
+
+const TASKS = {
+    // Read, hash and parse one file for the symbol index
+    "index-file": indexFileTask,
+    // Regex threat scan of one file
+    "scan-file": scanRepoFile,
+    // Tree-sitter reference search in one file
+    "find-references": findFileReferences,
+    // Line, function, class and export counts of one file
+    "file-stats": fileStatsTask,
+    // Declaration outline of one file
+    "outline-file": outlineFileTask,
+};
+
+type Tasks = typeof TASKS;
+
+export type TaskKind = keyof Tasks;
+export type TaskPayload<K extends TaskKind> = Parameters<Tasks[K]>[0];
+export type TaskResult<K extends TaskKind> = Awaited<ReturnType<Tasks[K]>>;
+
+export async function runTask<K extends TaskKind>(kind: K, payload: TaskPayload<K>): Promise<TaskResult<K>> {
+    const task = TASKS[kind] as (payload: TaskPayload<K>) => Promise<TaskResult<K>>;
+    if (!task) throw new Error(`Unknown task: ${kind}`);
+    return task(payload);
+}
+
+if (!isMainThread && parentPort) {
+    const port = parentPort;
+    port.on("message", async ({ id, kind, payload }: { id: number; kind: TaskKind; payload: TaskPayload<TaskKind> }) => {
+        try {
+            port.postMessage({ id, ok: true, value: await runTask(kind, payload) });
+        } catch (error) {
+            port.postMessage({ id, ok: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    });
+    // Every import above has loaded; until this arrives, a failing worker means the script can't run here
+    port.postMessage({ ready: true });
+}
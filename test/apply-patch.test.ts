@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { applyPatch } from "../src/tools/patch-tools.js";
+import { createUnifiedDiff } from "../src/utils/unified-diff.js";
+import { createFixture, readFixture } from "./helpers.js";
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+const cases: { name: string; original: string; updated: string }[] = [
+    { name: "a changed line", original: "a\nb\nc\n", updated: "a\nB\nc\n" },
+    { name: "hunks far apart", original: numbered(40), updated: numbered(40).replace("line 3\n", "line three\n").replace("line 35\n", "") },
+    { name: "lines added at both ends", original: "middle\n", updated: "first\nmiddle\nlast\n" },
+    { name: "a final newline removed", original: "a\nb\n", updated: "a\nb" },
+    { name: "a final newline added", original: "a\nb", updated: "a\nb\n" },
+    { name: "an unterminated last line changed", original: "a\nb", updated: "a\nc" },
+    { name: "everything removed", original: "a\nb\n", updated: "" },
+];
+
+for (const { name, original, updated } of cases) {
+    test(`round-trips ${name} through apply_patch`, async () => {
+        const repo = await createFixture({ "file.txt": original });
+
+        const result = await applyPatch({ repoPath: repo, patch: createUnifiedDiff("file.txt", original, updated) });
+
+        assert.equal(result.applied, true);
+        assert.equal(await readFixture(repo, "file.txt"), updated);
+    });
+}
+
+test("creates a file from a diff against /dev/null", async () => {
+    const repo = await createFixture({});
+
+    const result = await applyPatch({ repoPath: repo, patch: createUnifiedDiff("src/new.txt", null, "hello\nworld\n") });
+
+    assert.deepEqual(result.files, [{ filePath: "src/new.txt", hunks: 1, created: true }]);
+    assert.equal(await readFixture(repo, "src/new.txt"), "hello\nworld\n");
+});
+
+test("finds a hunk whose lines moved since the diff was made", async () => {
+    const original = numbered(20);
+    const repo = await createFixture({ "file.txt": "inserted above\n" + original });
+
+    await applyPatch({ repoPath: repo, patch: createUnifiedDiff("file.txt", original, original.replace("line 10\n", "line ten\n")) });
+
+    assert.equal(await readFixture(repo, "file.txt"), "inserted above\n" + original.replace("line 10\n", "line ten\n"));
+});
+
+test("writes nothing when one file's hunk no longer matches", async () => {
+    const repo = await createFixture({ "a.txt": "a\n", "b.txt": "b, edited by hand\n" });
+    const patch = createUnifiedDiff("a.txt", "a\n", "A\n") + createUnifiedDiff("b.txt", "b\n", "B\n");
+
+    await assert.rejects(applyPatch({ repoPath: repo, patch }), /^Error: b\.txt: Hunk 1 .* does not match/);
+    assert.equal(await readFixture(repo, "a.txt"), "a\n");
+    assert.equal(await readFixture(repo, "b.txt"), "b, edited by hand\n");
+});
+
+test("validates without writing on a dry run", async () => {
+    const repo = await createFixture({ "a.txt": "a\n" });
+
+    const result = await applyPatch({ repoPath: repo, patch: createUnifiedDiff("a.txt", "a\n", "A\n"), dryRun: true });
+
+    assert.equal(result.applied, false);
+    assert.equal(await readFixture(repo, "a.txt"), "a\n");
+    await assert.rejects(fs.access(path.join(repo, ".project-scope")));
+});
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { refactorRename } from "../src/tools/refactoring-tools.js";
+import { applyChangeSet, getChangeSet } from "../src/tools/change-sets.js";
+import { refactorUndo } from "../src/tools/refactor-history.js";
+import { WorkspaceEditError } from "../src/utils/workspace-edit.js";
+import { createFixture, readFixture } from "./helpers.js";
+
+const LIB = "export function total(xs) {\n    return xs.length;\n}\n";
+const MAIN = "import { total } from './lib.js';\nconsole.log(total([1, 2]));\n";
+
+test("applies exactly the previewed edits, once", async () => {
+    const repo = await createFixture({ "lib.js": LIB, "main.js": MAIN });
+
+    const preview = await refactorRename({ repoPath: repo, filePath: "lib.js", symbolName: "total", newName: "count" });
+    assert.equal(preview.preview, true);
+    assert.equal(await readFixture(repo, "lib.js"), LIB);
+
+    const applied = await applyChangeSet(preview.changeSetId!);
+    assert.deepEqual(applied.filesWritten.sort(), ["lib.js", "main.js"]);
+    assert.equal(await readFixture(repo, "lib.js"), LIB.replace("total", "count"));
+    assert.equal(await readFixture(repo, "main.js"), MAIN.replaceAll("total", "count"));
+
+    assert.throws(() => getChangeSet(preview.changeSetId!), /Unknown change set/);
+    await assert.rejects(applyChangeSet(preview.changeSetId!), /Unknown change set/);
+
+    await refactorUndo(repo, applied.historyId);
+    assert.equal(await readFixture(repo, "lib.js"), LIB);
+    assert.equal(await readFixture(repo, "main.js"), MAIN);
+});
+
+test("refuses a preview whose files changed since, and writes nothing", async () => {
+    const repo = await createFixture({ "lib.js": LIB, "main.js": MAIN });
+
+    const preview = await refactorRename({ repoPath: repo, filePath: "lib.js", symbolName: "total", newName: "count" });
+    const edited = MAIN + "console.log(total([]));\n";
+    await fs.writeFile(path.join(repo, "main.js"), edited);
+
+    await assert.rejects(
+        applyChangeSet(preview.changeSetId!),
+        (error: unknown) => error instanceof WorkspaceEditError && error.code === "STALE_FILE" && error.filePath === "main.js"
+    );
+    assert.equal(await readFixture(repo, "lib.js"), LIB);
+    assert.equal(await readFixture(repo, "main.js"), edited);
+});
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { refactorExtractFunction } from "../src/tools/refactoring-tools.js";
+import { createFixture, readFixture } from "./helpers.js";
+
+test("passes a Python accumulator in and returns it when the selection augments it", async () => {
+    const repo = await createFixture({
+        "calc.py": [
+            "def run(xs):",
+            "    acc = 0",
+            "    for x in xs:",
+            "        acc += x",
+            "    return acc",
+            "",
+        ].join("\n"),
+    });
+
+    await refactorExtractFunction({ repoPath: repo, filePath: "calc.py", startLine: 3, endLine: 4, functionName: "helper", apply: true });
+
+    assert.equal(await readFixture(repo, "calc.py"), [
+        "def helper(xs, acc):",
+        "    for x in xs:",
+        "        acc += x",
+        "    return acc",
+        "",
+        "def run(xs):",
+        "    acc = 0",
+        "    acc = helper(xs, acc)",
+        "    return acc",
+        "",
+    ].join("\n"));
+});
+
+test("does not pass in a Python name the selection assigns before reading", async () => {
+    const repo = await createFixture({
+        "calc.py": [
+            "def run(xs):",
+            "    acc = 1",
+            "    acc = 0",
+            "    for x in xs:",
+            "        acc += x",
+            "    return acc",
+            "",
+        ].join("\n"),
+    });
+
+    const result = await refactorExtractFunction({ repoPath: repo, filePath: "calc.py", startLine: 3, endLine: 5, functionName: "helper" });
+
+    assert.match(result.diff, /^\+def helper\(xs\):$/m);
+    assert.match(result.diff, /^\+ {4}acc = helper\(xs\)$/m);
+});
+
+test("returns a JavaScript variable declared in the selection and used after it", async () => {
+    const repo = await createFixture({
+        "sum.js": [
+            "function report(a, b) {",
+            "    const total = a + b;",
+            "    let label = 'sum';",
+            "    label += ':';",
+            "    console.log(label, total);",
+            "}",
+            "",
+        ].join("\n"),
+    });
+
+    const result = await refactorExtractFunction({ repoPath: repo, filePath: "sum.js", startLine: 2, endLine: 4, functionName: "prepare" });
+
+    assert.equal(result.preview, true);
+    assert.match(result.diff, /^\+function prepare\(a, b\) \{$/m);
+    assert.match(result.diff, /^\+ {4}let \{ total, label \} = prepare\(a, b\);$/m);
+    assert.equal(await readFixture(repo, "sum.js"), [
+        "function report(a, b) {",
+        "    const total = a + b;",
+        "    let label = 'sum';",
+        "    label += ':';",
+        "    console.log(label, total);",
+        "}",
+        "",
+    ].join("\n"));
+});
@@ -0,0 +1,23 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { after } from "node:test";
+
+/**
+ * Write `files` (relative path → content) into a fresh temp directory, removed once the test that
+ * created it finishes (or the whole file, when created at the top level).
+ */
+export async function createFixture(files: Record<string, string>): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "project-scope-test-"));
+    after(() => fs.rm(root, { recursive: true, force: true }));
+    for (const [file, content] of Object.entries(files)) {
+        const fullPath = path.join(root, file);
+        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.writeFile(fullPath, content);
+    }
+    return root;
+}
+
+export function readFixture(root: string, file: string): Promise<string> {
+    return fs.readFile(path.join(root, file), "utf-8");
+}
@@ -0,0 +1,115 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { loadIgnoreRules } from "../src/utils/ignore-rules.js";
+import { FileNode, getRepoStructure } from "../src/tools/repo-structure.js";
+import { createFixture } from "./helpers.js";
+
+// Read the global excludes file from a fixture instead of the user's own
+process.env.GIT_CONFIG_GLOBAL = "/dev/null";
+process.env.XDG_CONFIG_HOME = await createFixture({ "git/ignore": "*.global\n" });
+
+function gitInit(repo: string): void {
+    execFileSync("git", ["init", "-q"], { cwd: repo });
+}
+
+function filesOf(node: FileNode): string[] {
+    if (node.type === "file") return [node.path];
+    return (node.children ?? []).flatMap(filesOf);
+}
+
+test("re-includes a file with a negated pattern, also from a nested .gitignore", async () => {
+    const repo = await createFixture({
+        ".gitignore": "*.log\n!keep.log\n",
+        "a/.gitignore": "!x.log\n",
+    });
+
+    const rules = await loadIgnoreRules(repo);
+
+    assert.equal(rules.ignores("debug.log"), true);
+    assert.equal(rules.ignores("keep.log"), false);
+    assert.equal(rules.ignores("a/keep.log"), false);
+    assert.equal(rules.ignores("a/x.log"), false);
+    assert.equal(rules.ignores("a/y.log"), true);
+    assert.equal(rules.ignores("b/x.log"), true);
+});
+
+test("cannot re-include a file inside an ignored directory", async () => {
+    const repo = await createFixture({ ".gitignore": "out/\n!out/keep.txt\n" });
+
+    const rules = await loadIgnoreRules(repo);
+
+    assert.equal(rules.ignores("out", true), true);
+    assert.equal(rules.ignores("out/keep.txt"), true);
+    assert.equal(rules.ignores("src/out"), false);
+    assert.equal(rules.ignores("src/out", true), true);
+});
+
+test("layers the global excludes, .git/info/exclude, .gitignore and .projectscopeignore in git's order", async () => {
+    const repo = await createFixture({
+        ".gitignore": "!kept.global\nsecret.txt\ngenerated.ts\n",
+        ".projectscopeignore": "!secret.txt\n",
+        "sub/.gitignore": "!generated.ts\n",
+    });
+    gitInit(repo);
+    await fs.writeFile(path.join(repo, ".git", "info", "exclude"), "*.local\n");
+
+    const rules = await loadIgnoreRules(repo);
+
+    assert.equal(rules.ignores("notes.global"), true);
+    assert.equal(rules.ignores("kept.global"), false);
+    assert.equal(rules.ignores("settings.local"), true);
+    // .projectscopeignore wins over the .gitignore in its directory
+    assert.equal(rules.ignores("secret.txt"), false);
+    // and a nested .gitignore over the one above it
+    assert.equal(rules.ignores("generated.ts"), true);
+    assert.equal(rules.ignores("sub/generated.ts"), false);
+});
+
+test("applies the work tree's ignore files to a repository below its top", async () => {
+    const top = await createFixture({
+        ".gitignore": "*.tmp\npackages/app/private/\n",
+        "packages/app/.gitignore": "!important.tmp\n",
+    });
+    gitInit(top);
+
+    const rules = await loadIgnoreRules(path.join(top, "packages", "app"));
+
+    assert.equal(rules.ignores("scratch.tmp"), true);
+    assert.equal(rules.ignores("important.tmp"), false);
+    assert.equal(rules.ignores("private", true), true);
+    assert.equal(rules.ignores("public/index.js"), false);
+});
+
+test("applies the ignore and include globs of .project-scope.json last", async () => {
+    const repo = await createFixture({
+        ".gitignore": "!fixtures/\n",
+        ".project-scope.json": JSON.stringify({ ignore: ["fixtures/"], include: ["src/**", "fixtures/**"] }),
+    });
+
+    const rules = await loadIgnoreRules(repo);
+
+    assert.equal(rules.ignores("fixtures/a.js"), true);
+    assert.equal(rules.ignores("src/a.js"), false);
+    assert.equal(rules.ignores("docs/a.md"), true);
+    assert.equal(rules.ignores("docs", true), false);
+});
+
+test("get_repo_structure lists what the ignore files re-include", async () => {
+    const repo = await createFixture({
+        ".gitignore": "*.log\n!keep.log\ntmp/\n",
+        "keep.log": "",
+        "drop.log": "",
+        "a/b/x.log": "",
+        "a/b/.gitignore": "!x.log\n",
+        "tmp/t.txt": "",
+        "bin/run.sh": "",
+        "node_modules/pkg/index.js": "",
+    });
+
+    const structure = await getRepoStructure(repo);
+
+    assert.deepEqual(filesOf(structure.tree).sort(), [".gitignore", "a/b/.gitignore", "a/b/x.log", "bin/run.sh", "keep.log"]);
+});
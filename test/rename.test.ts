@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { refactorRename } from "../src/tools/refactoring-tools.js";
+import { createFixture, readFixture } from "./helpers.js";
+
+test("renames a local variable without touching same-named variables elsewhere", async () => {
+    const repo = await createFixture({
+        "a.js": "function load() {\n    const config = {};\n    return config;\n}\nfunction save(config) {\n    return config;\n}\n",
+        "b.js": "const config = 1;\nexport default config;\n",
+    });
+
+    await refactorRename({ repoPath: repo, filePath: "a.js", symbolName: "config", newName: "settings", line: 2, apply: true });
+
+    assert.equal(await readFixture(repo, "a.js"), "function load() {\n    const settings = {};\n    return settings;\n}\nfunction save(config) {\n    return config;\n}\n");
+    assert.equal(await readFixture(repo, "b.js"), "const config = 1;\nexport default config;\n");
+});
+
+test("follows imports and stops at names that shadow the import", async () => {
+    const repo = await createFixture({
+        "lib.js": "export function total(xs) {\n    return xs.length;\n}\n",
+        "main.js": [
+            "import { total } from './lib.js';",
+            "console.log(total([1]));",
+            "function report(total) {",
+            "    return total;",
+            "}",
+            "",
+        ].join("\n"),
+    });
+
+    await refactorRename({ repoPath: repo, filePath: "lib.js", symbolName: "total", newName: "count", apply: true });
+
+    assert.equal(await readFixture(repo, "lib.js"), "export function count(xs) {\n    return xs.length;\n}\n");
+    assert.equal(await readFixture(repo, "main.js"), [
+        "import { count } from './lib.js';",
+        "console.log(count([1]));",
+        "function report(total) {",
+        "    return total;",
+        "}",
+        "",
+    ].join("\n"));
+});
+
+test("keeps the local name of a member destructured from a namespace import", async () => {
+    const repo = await createFixture({
+        "lib.js": "export const total = 1;\n",
+        "main.js": "import * as lib from './lib.js';\nconst { total } = lib;\nconsole.log(total, lib.total);\n",
+    });
+
+    await refactorRename({ repoPath: repo, filePath: "lib.js", symbolName: "total", newName: "count", apply: true });
+
+    assert.equal(await readFixture(repo, "lib.js"), "export const count = 1;\n");
+    assert.equal(await readFixture(repo, "main.js"), "import * as lib from './lib.js';\nconst { count: total } = lib;\nconsole.log(total, lib.count);\n");
+});
+
+test("renames a Python function and its imports, but not a parameter of the same name", async () => {
+    const repo = await createFixture({
+        "util.py": "def parse(text):\n    return text.split()\n",
+        "app.py": "from util import parse\n\ndef run(parse=None):\n    return parse\n\nprint(parse('a b'))\n",
+    });
+
+    await refactorRename({ repoPath: repo, filePath: "util.py", symbolName: "parse", newName: "tokenize", apply: true });
+
+    assert.equal(await readFixture(repo, "util.py"), "def tokenize(text):\n    return text.split()\n");
+    assert.equal(await readFixture(repo, "app.py"), "from util import tokenize\n\ndef run(parse=None):\n    return parse\n\nprint(tokenize('a b'))\n");
+});
+
+test("asks for 'line' when the name is declared more than once in the file", async () => {
+    const repo = await createFixture({
+        "a.js": "const value = 1;\nfunction f() {\n    const value = 2;\n    return value;\n}\nconsole.log(value);\n",
+    });
+
+    await assert.rejects(
+        refactorRename({ repoPath: repo, filePath: "a.js", symbolName: "value", newName: "amount" }),
+        /declared more than once in a\.js \(lines 1, 3\); pass 'line'/
+    );
+
+    await refactorRename({ repoPath: repo, filePath: "a.js", symbolName: "value", newName: "amount", line: 3, apply: true });
+    assert.equal(await readFixture(repo, "a.js"), "const value = 1;\nfunction f() {\n    const amount = 2;\n    return amount;\n}\nconsole.log(value);\n");
+});
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { applyWorkspaceEdit, hashContent, WorkspaceEditError } from "../src/utils/workspace-edit.js";
+import { createFixture, readFixture } from "./helpers.js";
+
+test("applies edits to several files and creates new ones", async () => {
+    const repo = await createFixture({ "a.txt": "alpha\n", "b.txt": "beta\n" });
+
+    const result = await applyWorkspaceEdit(repo, [
+        { filePath: "a.txt", expectedHash: hashContent("alpha\n"), edits: [{ start: 0, end: 5, newText: "ALPHA" }] },
+        { filePath: "b.txt", expectedHash: hashContent("beta\n"), edits: [{ start: 4, end: 4, newText: "!" }] },
+        { filePath: "nested/c.txt", expectedHash: null, edits: [{ start: 0, end: 0, newText: "gamma\n" }] },
+    ]);
+
+    assert.deepEqual(result.filesCreated, ["nested/c.txt"]);
+    assert.equal(await readFixture(repo, "a.txt"), "ALPHA\n");
+    assert.equal(await readFixture(repo, "b.txt"), "beta!\n");
+    assert.equal(await readFixture(repo, "nested/c.txt"), "gamma\n");
+});
+
+test("writes nothing when one file changed since the edit was computed", async () => {
+    const repo = await createFixture({ "a.txt": "alpha\n", "b.txt": "beta, edited by hand\n" });
+
+    await assert.rejects(
+        applyWorkspaceEdit(repo, [
+            { filePath: "a.txt", expectedHash: hashContent("alpha\n"), edits: [{ start: 0, end: 5, newText: "ALPHA" }] },
+            { filePath: "b.txt", expectedHash: hashContent("beta\n"), edits: [{ start: 0, end: 4, newText: "BETA" }] },
+        ]),
+        (error: unknown) => error instanceof WorkspaceEditError && error.code === "STALE_FILE" && error.filePath === "b.txt"
+    );
+    assert.equal(await readFixture(repo, "a.txt"), "alpha\n");
+    assert.equal(await readFixture(repo, "b.txt"), "beta, edited by hand\n");
+});
+
+test("restores written files and removes created ones when a later write fails", async () => {
+    const repo = await createFixture({ "a.txt": "alpha\n" });
+    // A dangling symlink passes the up-front checks but makes creating a file beneath it fail
+    await fs.symlink("missing-dir", path.join(repo, "gen"));
+
+    await assert.rejects(
+        applyWorkspaceEdit(repo, [
+            { filePath: "a.txt", expectedHash: hashContent("alpha\n"), edits: [{ start: 0, end: 5, newText: "ALPHA" }] },
+            { filePath: "b.txt", expectedHash: null, edits: [{ start: 0, end: 0, newText: "beta\n" }] },
+            { filePath: "gen/c.txt", expectedHash: null, edits: [{ start: 0, end: 0, newText: "gamma\n" }] },
+        ]),
+        (error: unknown) => error instanceof WorkspaceEditError && error.code === "WRITE_FAILED" && /All 2 written files were restored/.test(error.message)
+    );
+    assert.equal(await readFixture(repo, "a.txt"), "alpha\n");
+    assert.deepEqual((await fs.readdir(repo)).sort(), ["a.txt", "gen"]);
+});
+
+test("rejects overlapping edits before touching the file", async () => {
+    const repo = await createFixture({ "a.txt": "alpha\n" });
+
+    await assert.rejects(
+        applyWorkspaceEdit(repo, [
+            { filePath: "a.txt", expectedHash: hashContent("alpha\n"), edits: [{ start: 0, end: 3, newText: "x" }, { start: 2, end: 4, newText: "y" }] },
+        ]),
+        (error: unknown) => error instanceof WorkspaceEditError && error.code === "INVALID_EDIT"
+    );
+    assert.equal(await readFixture(repo, "a.txt"), "alpha\n");
+});